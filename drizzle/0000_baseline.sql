@@ -0,0 +1,33 @@
+CREATE TABLE "listening_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" uuid NOT NULL,
+	"track_spotify_id" text NOT NULL,
+	"artist_name" text NOT NULL,
+	"track_name" text NOT NULL,
+	"album_name" text,
+	"ms_played" integer NOT NULL,
+	"played_at" timestamp NOT NULL,
+	"source" text DEFAULT 'import' NOT NULL,
+	"reason_start" text,
+	"reason_end" text,
+	"skipped" boolean,
+	"platform" text,
+	"shuffle" boolean
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"spotify_id" text NOT NULL,
+	"display_name" text,
+	"email" text,
+	"avatar_url" text,
+	"refresh_token" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "users_spotify_id_unique" UNIQUE("spotify_id")
+);
+--> statement-breakpoint
+ALTER TABLE "listening_history" ADD CONSTRAINT "listening_history_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "listening_history_user_id_idx" ON "listening_history" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "listening_history_played_at_idx" ON "listening_history" USING btree ("played_at");--> statement-breakpoint
+CREATE INDEX "listening_history_track_idx" ON "listening_history" USING btree ("user_id","track_spotify_id");
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- Remove duplicate play events before the (user, track, played_at) unique
+-- index is created. Earlier imports deduplicated in application code only,
+-- so re-uploads of overlapping files could still leave identical rows
+-- behind. The lowest id of each group (the first import) is kept.
+DELETE FROM "listening_history" AS "dup"
+USING "listening_history" AS "keep"
+WHERE "dup"."user_id" = "keep"."user_id"
+  AND "dup"."track_spotify_id" = "keep"."track_spotify_id"
+  AND "dup"."played_at" = "keep"."played_at"
+  AND "dup"."id" > "keep"."id";
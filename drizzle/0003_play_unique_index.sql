@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "listening_history_play_unique_idx" ON "listening_history" USING btree ("user_id","track_spotify_id","played_at");
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TABLE "track_resolutions" (
+	"provisional_id" text PRIMARY KEY NOT NULL,
+	"spotify_track_id" text,
+	"resolved_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,2 @@
+ALTER TABLE "listening_history" ADD COLUMN "content_type" text DEFAULT 'track' NOT NULL;--> statement-breakpoint
+CREATE INDEX "listening_history_content_type_idx" ON "listening_history" USING btree ("user_id","content_type");
\ No newline at end of file
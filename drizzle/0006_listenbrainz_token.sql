@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "listenbrainz_token_hash" text;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_listenbrainz_token_hash_unique" UNIQUE("listenbrainz_token_hash");
\ No newline at end of file
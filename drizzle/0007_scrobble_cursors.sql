@@ -0,0 +1,9 @@
+CREATE TABLE "scrobble_cursors" (
+	"user_id" uuid PRIMARY KEY NOT NULL,
+	"after_ms" bigint,
+	"last_polled_at" timestamp,
+	"last_error" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scrobble_cursors" ADD CONSTRAINT "scrobble_cursors_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+-- played_at used to hold Spotify's `ts` (when the stream ended). Keep that
+-- value as ended_at and move played_at back to when the stream started.
+ALTER TABLE "listening_history" ADD COLUMN "ended_at" timestamp;--> statement-breakpoint
+UPDATE "listening_history" SET "ended_at" = "played_at", "played_at" = "played_at" - "ms_played" * interval '1 millisecond';--> statement-breakpoint
+ALTER TABLE "listening_history" ALTER COLUMN "ended_at" SET NOT NULL;
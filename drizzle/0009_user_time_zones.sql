@@ -0,0 +1,11 @@
+CREATE TABLE "user_time_zones" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" uuid NOT NULL,
+	"time_zone" text NOT NULL,
+	"starts_at" timestamp NOT NULL,
+	"ends_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "time_zone" text DEFAULT 'UTC' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_time_zones" ADD CONSTRAINT "user_time_zones_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "user_time_zones_user_id_idx" ON "user_time_zones" USING btree ("user_id","starts_at");
\ No newline at end of file
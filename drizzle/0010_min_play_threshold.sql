@@ -0,0 +1,2 @@
+ALTER TABLE "import_jobs" ALTER COLUMN "skip_reasons" SET DEFAULT '{"noTrackName":0,"noSpotifyUri":0,"noArtistName":0}'::jsonb;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "min_play_ms" integer DEFAULT 30000 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "listening_history" ADD COLUMN "offline" boolean;--> statement-breakpoint
+ALTER TABLE "listening_history" ADD COLUMN "offline_timestamp" timestamp;--> statement-breakpoint
+ALTER TABLE "listening_history" ADD COLUMN "conn_country" text;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "import_batches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"file_name" text NOT NULL,
+	"file_hash" text NOT NULL,
+	"file_size" bigint NOT NULL,
+	"total" integer DEFAULT 0 NOT NULL,
+	"imported" integer DEFAULT 0 NOT NULL,
+	"skipped" integer DEFAULT 0 NOT NULL,
+	"duplicates" integer DEFAULT 0 NOT NULL,
+	"skip_reasons" jsonb DEFAULT '{"noTrackName":0,"noSpotifyUri":0,"noArtistName":0}'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "import_jobs" ADD COLUMN "batch_id" uuid;--> statement-breakpoint
+ALTER TABLE "listening_history" ADD COLUMN "batch_id" uuid;--> statement-breakpoint
+ALTER TABLE "import_batches" ADD CONSTRAINT "import_batches_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "import_batches_user_hash_idx" ON "import_batches" USING btree ("user_id","file_hash");--> statement-breakpoint
+ALTER TABLE "import_jobs" ADD CONSTRAINT "import_jobs_batch_id_import_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."import_batches"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "listening_history" ADD CONSTRAINT "listening_history_batch_id_import_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."import_batches"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "listening_history_batch_id_idx" ON "listening_history" USING btree ("batch_id");
\ No newline at end of file
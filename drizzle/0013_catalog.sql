@@ -0,0 +1,28 @@
+CREATE TABLE "albums" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"release_date" text,
+	"artist_ids" text[] NOT NULL,
+	"image_url" text,
+	"fetched_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "artists" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"image_url" text,
+	"fetched_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tracks" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"duration_ms" integer NOT NULL,
+	"album_id" text NOT NULL,
+	"artist_ids" text[] NOT NULL,
+	"isrc" text,
+	"fetched_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "tracks" ADD CONSTRAINT "tracks_album_id_albums_id_fk" FOREIGN KEY ("album_id") REFERENCES "public"."albums"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "tracks_album_id_idx" ON "tracks" USING btree ("album_id");
\ No newline at end of file
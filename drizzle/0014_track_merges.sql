@@ -0,0 +1,12 @@
+CREATE TABLE "track_merges" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" uuid NOT NULL,
+	"track_spotify_id" text NOT NULL,
+	"canonical_id" text NOT NULL,
+	"reason" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "track_merges" ADD CONSTRAINT "track_merges_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "track_merges_user_track_idx" ON "track_merges" USING btree ("user_id","track_spotify_id");--> statement-breakpoint
+CREATE INDEX "track_merges_canonical_idx" ON "track_merges" USING btree ("user_id","canonical_id");
\ No newline at end of file
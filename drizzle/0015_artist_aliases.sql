@@ -0,0 +1,13 @@
+CREATE TABLE "artist_aliases" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" uuid NOT NULL,
+	"artist_name" text NOT NULL,
+	"canonical_name" text NOT NULL,
+	"spotify_artist_id" text,
+	"source" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "artist_aliases" ADD CONSTRAINT "artist_aliases_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "artist_aliases_user_name_idx" ON "artist_aliases" USING btree ("user_id","artist_name");--> statement-breakpoint
+CREATE INDEX "artist_aliases_canonical_idx" ON "artist_aliases" USING btree ("user_id","canonical_name");
\ No newline at end of file
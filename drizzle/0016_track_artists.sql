@@ -0,0 +1,16 @@
+CREATE TABLE "track_artists" (
+	"track_id" text NOT NULL,
+	"artist_id" text NOT NULL,
+	"position" integer NOT NULL,
+	CONSTRAINT "track_artists_track_id_artist_id_pk" PRIMARY KEY("track_id","artist_id")
+);
+--> statement-breakpoint
+ALTER TABLE "track_artists" ADD CONSTRAINT "track_artists_track_id_tracks_id_fk" FOREIGN KEY ("track_id") REFERENCES "public"."tracks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "track_artists" ADD CONSTRAINT "track_artists_artist_id_artists_id_fk" FOREIGN KEY ("artist_id") REFERENCES "public"."artists"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "track_artists_artist_id_idx" ON "track_artists" USING btree ("artist_id");--> statement-breakpoint
+-- Credit tracks catalogued before this table existed from their artist_ids.
+INSERT INTO "track_artists" ("track_id", "artist_id", "position")
+SELECT "tracks"."id", "credit"."artist_id", "credit"."ord" - 1
+FROM "tracks", unnest("tracks"."artist_ids") WITH ORDINALITY AS "credit"("artist_id", "ord")
+WHERE EXISTS (SELECT 1 FROM "artists" WHERE "artists"."id" = "credit"."artist_id")
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,8 @@
+CREATE TABLE "artist_genres" (
+	"artist_name" text PRIMARY KEY NOT NULL,
+	"spotify_artist_id" text,
+	"genres" text[] NOT NULL,
+	"fetched_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "artist_genres_genres_idx" ON "artist_genres" USING gin ("genres");
\ No newline at end of file
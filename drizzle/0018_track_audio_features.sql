@@ -0,0 +1,12 @@
+CREATE TABLE "track_audio_features" (
+	"track_id" text PRIMARY KEY NOT NULL,
+	"bpm" real,
+	"key" smallint,
+	"mode" text,
+	"energy" real,
+	"source" text NOT NULL,
+	"fetched_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "track_audio_features" ADD CONSTRAINT "track_audio_features_track_id_tracks_id_fk" FOREIGN KEY ("track_id") REFERENCES "public"."tracks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "track_audio_features_bpm_idx" ON "track_audio_features" USING btree ("bpm");
\ No newline at end of file
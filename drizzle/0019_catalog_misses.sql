@@ -0,0 +1,4 @@
+CREATE TABLE "catalog_misses" (
+	"track_id" text PRIMARY KEY NOT NULL,
+	"checked_at" timestamp DEFAULT now() NOT NULL
+);
@@ -29,6 +29,9 @@ vi.mock("./pages/Patterns", () => ({
 vi.mock("./pages/EraMap", () => ({
   default: () => <div data-testid="era-map-page">Era Map Page</div>,
 }));
+vi.mock("./pages/Lineage", () => ({
+  default: () => <div data-testid="lineage-page">Lineage Page</div>,
+}));
 vi.mock("./pages/Mosaic", () => ({
   default: () => <div data-testid="mosaic-page">Mosaic Page</div>,
 }));
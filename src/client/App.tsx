@@ -9,7 +9,10 @@
  *   /heatmap    → Heatmap     │ (requires Spotify auth, renders sidebar shell)
  *   /patterns   → Patterns    │
  *   /era-map    → Era Map     │
- *   /import     → Import      ┘
+ *   /lineage    → Sonic Lineage │
+ *   /shows      → Shows       │
+ *   /import     → Import      │
+ *   /settings   → Settings    ┘
  *
  * AuthProvider sits at the top so every descendant can call useAuth().
  */
@@ -23,11 +26,14 @@ import Vault from "./pages/Vault";
 import Heatmap from "./pages/Heatmap";
 import Patterns from "./pages/Patterns";
 import EraMap from "./pages/EraMap";
+import Lineage from "./pages/Lineage";
 import Mosaic from "./pages/Mosaic";
+import Shows from "./pages/Shows";
 import Import from "./pages/Import";
 import Autobiography from "./pages/Autobiography";
 import Export from "./pages/Export";
 import TrackDetail from "./pages/TrackDetail";
+import Settings from "./pages/Settings";
 
 /**
  * Landing page — the only public route.
@@ -92,10 +98,13 @@ export default function App() {
             <Route path="/heatmap" element={<Heatmap />} />
             <Route path="/patterns" element={<Patterns />} />
             <Route path="/era-map" element={<EraMap />} />
+            <Route path="/lineage" element={<Lineage />} />
             <Route path="/mosaic" element={<Mosaic />} />
+            <Route path="/shows" element={<Shows />} />
             <Route path="/import" element={<Import />} />
             <Route path="/autobiography" element={<Autobiography />} />
             <Route path="/export" element={<Export />} />
+            <Route path="/settings" element={<Settings />} />
           </Route>
         </Routes>
       </ToastProvider>
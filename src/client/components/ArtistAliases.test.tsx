@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import ArtistAliases from "./ArtistAliases";
+
+vi.mock("../lib/api", () => ({
+  apiFetch: vi.fn(),
+}));
+
+import { apiFetch } from "../lib/api";
+
+const mockedApiFetch = apiFetch as ReturnType<typeof vi.fn>;
+
+const alias = {
+  artistName: "Utada Hikaru",
+  canonicalName: "宇多田ヒカル",
+  spotifyArtistId: "artist-1",
+  source: "spotify",
+};
+
+describe("ArtistAliases", () => {
+  beforeEach(() => {
+    mockedApiFetch.mockReset();
+  });
+
+  it("lists aliased names with their canonical artist", async () => {
+    mockedApiFetch.mockResolvedValueOnce({ data: [alias] });
+    render(<ArtistAliases />);
+
+    expect(await screen.findByText("Utada Hikaru")).toBeTruthy();
+    expect(screen.getByText("→ 宇多田ヒカル")).toBeTruthy();
+    expect(screen.getByText("Spotify")).toBeTruthy();
+  });
+
+  it("resolves names through Spotify and reloads the list", async () => {
+    mockedApiFetch
+      .mockResolvedValueOnce({ data: [] })
+      .mockResolvedValueOnce({ data: { resolved: 12, merged: 3 } })
+      .mockResolvedValueOnce({ data: [alias] });
+    render(<ArtistAliases />);
+
+    await userEvent.click(screen.getByText("Spotifyで照合"));
+
+    expect(await screen.findByText("12 件を照合し、3 件を統合しました")).toBeTruthy();
+    expect(mockedApiFetch).toHaveBeenCalledWith("/vault/artists/resolve", { method: "POST" });
+    expect(await screen.findByText("Utada Hikaru")).toBeTruthy();
+  });
+
+  it("merges a name into another artist by hand", async () => {
+    mockedApiFetch
+      .mockResolvedValueOnce({ data: [] })
+      .mockResolvedValueOnce({ data: { canonicalName: "宇多田ヒカル" } })
+      .mockResolvedValueOnce({ data: [] });
+    render(<ArtistAliases />);
+    const user = userEvent.setup();
+
+    await user.type(screen.getByLabelText("統合するアーティスト名"), "Hikki");
+    await user.type(screen.getByLabelText("統合先のアーティスト名"), "宇多田ヒカル");
+    await user.click(screen.getByText("統合"));
+
+    expect(mockedApiFetch).toHaveBeenCalledWith("/vault/artists/aliases", {
+      method: "POST",
+      body: JSON.stringify({ canonicalName: "宇多田ヒカル", artistNames: ["Hikki"] }),
+    });
+  });
+
+  it("splits a name back out", async () => {
+    mockedApiFetch
+      .mockResolvedValueOnce({ data: [alias] })
+      .mockResolvedValueOnce({ data: { artistName: "Utada Hikaru" } });
+    render(<ArtistAliases />);
+
+    await userEvent.click(await screen.findByText("分離"));
+
+    expect(mockedApiFetch).toHaveBeenCalledWith(
+      `/vault/artists/aliases/${encodeURIComponent("Utada Hikaru")}`,
+      { method: "DELETE" },
+    );
+    await waitFor(() => expect(screen.queryByText("Utada Hikaru")).toBeNull());
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Artist alias settings.
+ *
+ * One artist can appear in the history under several names — a
+ * romanisation, a rename, a Last.fm spelling. Names are matched to Spotify
+ * artist IDs through the catalog on request, and can be merged or split by
+ * hand; every artist ranking and filter counts the merged names as one.
+ */
+
+import { useEffect, useState } from "react";
+import { apiFetch } from "../lib/api";
+import type { ArtistAlias, ArtistResolveResult } from "../../shared/validators/artists";
+
+const SOURCE_LABELS: Record<ArtistAlias["source"], string> = {
+  spotify: "Spotify",
+  manual: "手動",
+};
+
+export default function ArtistAliases() {
+  const [aliases, setAliases] = useState<ArtistAlias[]>([]);
+  const [artistName, setArtistName] = useState("");
+  const [canonicalName, setCanonicalName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = () =>
+    apiFetch<{ data: ArtistAlias[] }>("/vault/artists/aliases")
+      .then((res) => setAliases(Array.isArray(res.data) ? res.data : []))
+      .catch(() => {});
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const resolve = async () => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await apiFetch<{ data: ArtistResolveResult }>("/vault/artists/resolve", {
+        method: "POST",
+      });
+      setMessage(`${res.data.resolved} 件を照合し、${res.data.merged} 件を統合しました`);
+      await load();
+    } catch {
+      setError("Spotifyとの照合に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const merge = async () => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await apiFetch("/vault/artists/aliases", {
+        method: "POST",
+        body: JSON.stringify({ canonicalName: canonicalName.trim(), artistNames: [artistName.trim()] }),
+      });
+      setArtistName("");
+      setCanonicalName("");
+      await load();
+    } catch {
+      setError("アーティストの統合に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const split = async (name: string) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await apiFetch(`/vault/artists/aliases/${encodeURIComponent(name)}`, { method: "DELETE" });
+      setAliases((prev) => prev.filter((a) => a.artistName !== name));
+    } catch {
+      setError("アーティストの分離に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="glass-card space-y-3 p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-white">アーティストの名寄せ</h2>
+          <p className="text-strata-slate-400 mt-1 text-sm">
+            表記の違う同じアーティストをひとつにまとめて集計します。Spotifyとの照合はアルバムアートを取得済みの曲が対象です
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={resolve}
+          disabled={busy}
+          className="shrink-0 rounded-lg border border-white/[0.06] px-3 py-2 text-sm text-white transition-colors hover:bg-white/[0.05] disabled:opacity-50"
+        >
+          Spotifyで照合
+        </button>
+      </div>
+
+      {message && <p className="text-xs text-strata-slate-400">{message}</p>}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {aliases.length > 0 && (
+        <ul className="divide-y divide-white/[0.04]">
+          {aliases.map((alias) => (
+            <li key={alias.artistName} className="flex items-center gap-3 py-2 text-sm">
+              <span className="min-w-0 flex-1 truncate">
+                <span className="text-white">{alias.artistName}</span>
+                <span className="text-strata-slate-500"> → {alias.canonicalName}</span>
+              </span>
+              <span className="text-[11px] text-strata-slate-500">{SOURCE_LABELS[alias.source]}</span>
+              <button
+                type="button"
+                onClick={() => split(alias.artistName)}
+                disabled={busy}
+                className="text-strata-slate-400 text-xs underline hover:text-white disabled:opacity-50"
+              >
+                分離
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          aria-label="統合するアーティスト名"
+          placeholder="統合するアーティスト名"
+          value={artistName}
+          onChange={(e) => setArtistName(e.target.value)}
+          className="min-w-0 flex-1 rounded-lg border border-white/[0.06] bg-white/[0.03] px-3 py-2 text-sm text-white outline-none"
+        />
+        <input
+          type="text"
+          aria-label="統合先のアーティスト名"
+          placeholder="統合先のアーティスト名"
+          value={canonicalName}
+          onChange={(e) => setCanonicalName(e.target.value)}
+          className="min-w-0 flex-1 rounded-lg border border-white/[0.06] bg-white/[0.03] px-3 py-2 text-sm text-white outline-none"
+        />
+        <button
+          type="button"
+          onClick={merge}
+          disabled={busy || !artistName.trim() || !canonicalName.trim()}
+          className="bg-strata-amber-500 hover:bg-strata-amber-400 rounded-lg px-4 py-2 text-sm font-medium text-white transition-colors disabled:opacity-50"
+        >
+          統合
+        </button>
+      </div>
+    </section>
+  );
+}
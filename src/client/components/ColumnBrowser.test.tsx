@@ -29,6 +29,22 @@ describe("ColumnBrowser", () => {
     expect(screen.getByText("Album")).toBeTruthy();
   });
 
+  it("adds a genre column when genres are given", async () => {
+    const onGenreSelect = vi.fn();
+    const user = userEvent.setup();
+    renderBrowser({ genres: ["electronic", "art rock"], selectedGenre: null, onGenreSelect });
+
+    expect(screen.getByText("Genre")).toBeTruthy();
+    await user.click(screen.getByText("art rock"));
+    expect(onGenreSelect).toHaveBeenCalledWith("art rock");
+  });
+
+  it("leaves the genre column out without genres", () => {
+    renderBrowser();
+
+    expect(screen.queryByText("Genre")).toBeNull();
+  });
+
   it("renders artist items in the artist column", () => {
     renderBrowser();
 
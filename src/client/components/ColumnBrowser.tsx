@@ -1,6 +1,10 @@
 import { useRef, useCallback } from "react";
 
 interface ColumnBrowserProps {
+  /** Shown as a leading Genre column when given; selecting one narrows the artists. */
+  genres?: string[];
+  selectedGenre?: string | null;
+  onGenreSelect?: (genre: string | null) => void;
   artists: string[];
   albums: string[];
   selectedArtist: string | null;
@@ -128,6 +132,9 @@ function BrowserColumn({
 }
 
 export default function ColumnBrowser({
+  genres,
+  selectedGenre = null,
+  onGenreSelect,
   artists,
   albums,
   selectedArtist,
@@ -137,6 +144,14 @@ export default function ColumnBrowser({
 }: ColumnBrowserProps) {
   return (
     <div className="flex gap-2">
+      {genres && onGenreSelect && (
+        <BrowserColumn
+          title="Genre"
+          items={genres}
+          selected={selectedGenre}
+          onSelect={onGenreSelect}
+        />
+      )}
       <BrowserColumn
         title="Artist"
         items={artists}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import ImportQuality from "./ImportQuality";
+
+vi.mock("../lib/api", () => ({
+  apiFetch: vi.fn(),
+}));
+
+import { apiFetch } from "../lib/api";
+
+const mockedApiFetch = apiFetch as ReturnType<typeof vi.fn>;
+
+describe("ImportQuality", () => {
+  beforeEach(() => {
+    mockedApiFetch.mockReset();
+  });
+
+  it("confirms a history without gaps or impossible rows", async () => {
+    mockedApiFetch.mockResolvedValueOnce({
+      data: { monthsCovered: 72, gaps: [], tooLongPlays: 0, futurePlays: 0, anomalies: [] },
+    });
+    render(<ImportQuality />);
+
+    expect(await screen.findByText(/72 か月分に、欠けている期間や不正な記録は見つかりませんでした/)).toBeTruthy();
+    expect(mockedApiFetch).toHaveBeenCalledWith("/import/quality");
+    expect(screen.queryByText(/再リクエスト/)).toBeNull();
+  });
+
+  it("lists gap months with the files that span them, and impossible rows", async () => {
+    mockedApiFetch.mockResolvedValueOnce({
+      data: {
+        monthsCovered: 24,
+        gaps: [
+          {
+            month: "2019-04",
+            plays: 0,
+            expected: 420,
+            files: [{ id: "batch-1", fileName: "Streaming_History_Audio_2018-2019.json" }],
+          },
+          { month: "2020-02", plays: 12, expected: 380, files: [] },
+        ],
+        tooLongPlays: 1,
+        futurePlays: 0,
+        anomalies: [
+          {
+            id: 4,
+            kind: "tooLong",
+            trackName: "Paranoid Android",
+            artistName: "Radiohead",
+            playedAt: "2019-03-01T12:00:00.000Z",
+            msPlayed: 36_000_000,
+            fileName: "Streaming_History_Audio_2018-2019.json",
+          },
+        ],
+      },
+    });
+    render(<ImportQuality />);
+
+    expect(await screen.findByText("再生が極端に少ない月")).toBeTruthy();
+    expect(screen.getByText("2019-04")).toBeTruthy();
+    expect(screen.getByText("対象ファイル: Streaming_History_Audio_2018-2019.json")).toBeTruthy();
+    expect(screen.getByText("この期間を含むファイルはありません")).toBeTruthy();
+    expect(screen.getByText("再生時間が長すぎる記録: 1 件")).toBeTruthy();
+    expect(screen.getByText(/Radiohead - Paranoid Android/)).toBeTruthy();
+    expect(screen.getByText(/再リクエストしてください/)).toBeTruthy();
+  });
+
+  it("renders nothing when the report fails to load", async () => {
+    mockedApiFetch.mockRejectedValueOnce(new Error("API error: 500"));
+    const { container } = render(<ImportQuality />);
+    await Promise.resolve();
+    expect(container.innerHTML).toBe("");
+  });
+});
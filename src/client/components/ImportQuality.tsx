@@ -0,0 +1,101 @@
+/**
+ * Data-quality report for the imported history.
+ *
+ * Spotify exports can arrive with empty files or whole periods missing.
+ * This panel lists months whose play count drops far below the months
+ * around them, the uploaded files that should have covered each one, and
+ * rows no real play could produce — the signal to re-request the export.
+ */
+
+import { useEffect, useState } from "react";
+import { apiFetch } from "../lib/api";
+import type { ImportQualityReport } from "../../shared/validators/history";
+
+// Impossible rows listed by name; the rest are only counted
+const SHOWN_ANOMALIES = 5;
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}時間${minutes % 60}分` : `${minutes}分`;
+}
+
+export default function ImportQuality() {
+  const [report, setReport] = useState<ImportQualityReport | null>(null);
+
+  useEffect(() => {
+    apiFetch<{ data: ImportQualityReport }>("/import/quality")
+      .then((res) => setReport(res.data))
+      .catch(() => {});
+  }, []);
+
+  if (!report?.gaps) return null;
+
+  const anomalyCount = report.tooLongPlays + report.futurePlays;
+  const clean = report.gaps.length === 0 && anomalyCount === 0;
+
+  return (
+    <div className="mt-6 glass-card p-4">
+      <p className="text-sm text-strata-slate-400">データ品質</p>
+
+      {clean && (
+        <p className="mt-1 text-sm text-strata-green-400">
+          {report.monthsCovered.toLocaleString()} か月分に、欠けている期間や不正な記録は見つかりませんでした
+        </p>
+      )}
+
+      {report.gaps.length > 0 && (
+        <div className="mt-2">
+          <p className="text-sm text-white">再生が極端に少ない月</p>
+          <ul className="mt-1 divide-y divide-white/[0.04] text-xs">
+            {report.gaps.map((gap) => (
+              <li key={gap.month} className="py-2">
+                <div className="flex gap-3">
+                  <span className="font-mono text-white">{gap.month}</span>
+                  <span className="text-strata-amber-300">{gap.plays.toLocaleString()} 件</span>
+                  <span className="text-strata-slate-500">
+                    （前後の月は約 {gap.expected.toLocaleString()} 件）
+                  </span>
+                </div>
+                <p className="mt-0.5 truncate text-strata-slate-500">
+                  {gap.files.length > 0
+                    ? `対象ファイル: ${gap.files.map((f) => f.fileName).join(", ")}`
+                    : "この期間を含むファイルはありません"}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {anomalyCount > 0 && (
+        <div className="mt-3">
+          {report.tooLongPlays > 0 && (
+            <p className="text-sm text-white">
+              再生時間が長すぎる記録: {report.tooLongPlays.toLocaleString()} 件
+            </p>
+          )}
+          {report.futurePlays > 0 && (
+            <p className="text-sm text-white">
+              未来の日時の記録: {report.futurePlays.toLocaleString()} 件
+            </p>
+          )}
+          <ul className="mt-1 space-y-0.5 text-xs text-strata-slate-500">
+            {report.anomalies.slice(0, SHOWN_ANOMALIES).map((play) => (
+              <li key={play.id} className="truncate">
+                ・{play.artistName} - {play.trackName}（
+                {new Date(play.playedAt).toLocaleDateString("ja-JP")}、
+                {formatDuration(play.msPlayed)}）{play.fileName && ` ${play.fileName}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!clean && (
+        <p className="mt-3 text-[11px] text-strata-slate-500">
+          ※ 欠けている期間がある場合は、Spotifyのプライバシー設定から拡張ストリーミング履歴を再リクエストしてください
+        </p>
+      )}
+    </div>
+  );
+}
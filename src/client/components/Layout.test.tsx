@@ -55,8 +55,11 @@ describe("Layout", () => {
     expect(screen.getAllByText("Heatmap").length).toBeGreaterThanOrEqual(1);
     expect(screen.getAllByText("Patterns").length).toBeGreaterThanOrEqual(1);
     expect(screen.getAllByText("Era Map").length).toBeGreaterThanOrEqual(1);
+    expect(screen.getAllByText("Lineage").length).toBeGreaterThanOrEqual(1);
     expect(screen.getAllByText("Autobiography").length).toBeGreaterThanOrEqual(1);
     expect(screen.getAllByText("Mosaic").length).toBeGreaterThanOrEqual(1);
+    expect(screen.getAllByText("Shows").length).toBeGreaterThanOrEqual(1);
+    expect(screen.getAllByText("Settings").length).toBeGreaterThanOrEqual(1);
   });
 
   it("renders the Strata brand link", () => {
@@ -26,8 +26,10 @@ const navGroups = [
     label: "Library",
     items: [
       { to: "/vault", label: "The Vault", icon: "♫" },
+      { to: "/shows", label: "Shows", icon: "◐" },
       { to: "/import", label: "Import", icon: "↑" },
       { to: "/export", label: "Export", icon: "↓" },
+      { to: "/settings", label: "Settings", icon: "⚙" },
     ],
   },
   {
@@ -41,6 +43,7 @@ const navGroups = [
     label: "Stories",
     items: [
       { to: "/era-map", label: "Era Map", icon: "⌖" },
+      { to: "/lineage", label: "Lineage", icon: "⟡" },
       { to: "/autobiography", label: "Autobiography", icon: "☰" },
       { to: "/mosaic", label: "Mosaic", icon: "▣" },
     ],
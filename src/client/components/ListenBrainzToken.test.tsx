@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import ListenBrainzToken from "./ListenBrainzToken";
+
+vi.mock("../lib/api", () => ({
+  apiFetch: vi.fn(),
+}));
+
+import { apiFetch } from "../lib/api";
+
+const mockedApiFetch = apiFetch as ReturnType<typeof vi.fn>;
+
+describe("ListenBrainzToken", () => {
+  beforeEach(() => {
+    mockedApiFetch.mockReset();
+  });
+
+  it("shows the API URL for player settings", async () => {
+    mockedApiFetch.mockResolvedValueOnce({ data: { enabled: false } });
+    render(<ListenBrainzToken />);
+
+    expect(screen.getByText(`${window.location.origin}/api/listenbrainz`)).toBeTruthy();
+    await waitFor(() => expect(screen.getByText("トークンを発行")).toBeTruthy());
+    expect(screen.queryByText("トークンを無効化")).toBeNull();
+  });
+
+  it("shows a newly generated token once", async () => {
+    mockedApiFetch
+      .mockResolvedValueOnce({ data: { enabled: false } })
+      .mockResolvedValueOnce({ data: { token: "0f8e6c1a-1b2c-4d5e-8f90-123456789abc" } });
+    render(<ListenBrainzToken />);
+
+    await userEvent.click(await screen.findByText("トークンを発行"));
+
+    expect(await screen.findByText("0f8e6c1a-1b2c-4d5e-8f90-123456789abc")).toBeTruthy();
+    expect(mockedApiFetch).toHaveBeenCalledWith("/listenbrainz/token", { method: "POST" });
+    expect(screen.getByText("トークンを再発行")).toBeTruthy();
+  });
+
+  it("revokes an existing token", async () => {
+    mockedApiFetch
+      .mockResolvedValueOnce({ data: { enabled: true } })
+      .mockResolvedValueOnce({ data: { enabled: false } });
+    render(<ListenBrainzToken />);
+
+    await userEvent.click(await screen.findByText("トークンを無効化"));
+
+    await waitFor(() => expect(screen.getByText("トークンを発行")).toBeTruthy());
+    expect(mockedApiFetch).toHaveBeenCalledWith("/listenbrainz/token", { method: "DELETE" });
+  });
+});
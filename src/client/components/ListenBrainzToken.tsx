@@ -0,0 +1,104 @@
+/**
+ * ListenBrainz submission token settings.
+ *
+ * Players that are not Spotify (Navidrome, mpd scrobblers, ...) send plays to
+ * the ListenBrainz-compatible API with a per-user token. The server keeps only
+ * a hash, so a newly generated token is shown once and cannot be viewed again
+ * — generating another one replaces it.
+ */
+
+import { useEffect, useState } from "react";
+import { apiFetch } from "../lib/api";
+import type {
+  ListenbrainzToken as TokenResponse,
+  ListenbrainzTokenStatus,
+} from "../../shared/validators/listenbrainz";
+
+export default function ListenBrainzToken() {
+  const [enabled, setEnabled] = useState(false);
+  const [token, setToken] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiFetch<{ data: ListenbrainzTokenStatus }>("/listenbrainz/token")
+      .then((res) => setEnabled(Boolean(res.data?.enabled)))
+      .catch(() => {});
+  }, []);
+
+  const generate = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await apiFetch<{ data: TokenResponse }>("/listenbrainz/token", {
+        method: "POST",
+      });
+      setToken(res.data.token);
+      setEnabled(true);
+    } catch {
+      setError("トークンの発行に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const revoke = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await apiFetch("/listenbrainz/token", { method: "DELETE" });
+      setToken(null);
+      setEnabled(false);
+    } catch {
+      setError("トークンの無効化に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 glass-card p-4">
+      <h2 className="text-lg font-semibold text-white">ListenBrainz連携</h2>
+      <p className="mt-1 text-sm text-strata-slate-400">
+        Navidromeなど、Spotify以外のプレーヤーの再生をListenBrainz互換APIで記録できます
+      </p>
+      <dl className="mt-3 space-y-1 text-xs text-strata-slate-500">
+        <div className="flex gap-2">
+          <dt>API URL:</dt>
+          <dd className="font-mono text-strata-slate-300">
+            {`${window.location.origin}/api/listenbrainz`}
+          </dd>
+        </div>
+      </dl>
+
+      {token && (
+        <div className="mt-3 rounded-lg border border-strata-amber-500/30 bg-strata-amber-500/[0.05] p-3">
+          <p className="break-all font-mono text-sm text-white">{token}</p>
+          <p className="mt-1 text-[11px] text-strata-slate-500">
+            このトークンは再表示できません。プレーヤーの設定にコピーしてください
+          </p>
+        </div>
+      )}
+
+      <div className="mt-3 flex gap-4">
+        <button
+          onClick={generate}
+          disabled={busy}
+          className="text-sm text-strata-amber-300 hover:text-strata-amber-400 underline underline-offset-2 disabled:opacity-50"
+        >
+          {enabled ? "トークンを再発行" : "トークンを発行"}
+        </button>
+        {enabled && (
+          <button
+            onClick={revoke}
+            disabled={busy}
+            className="text-sm text-red-400 hover:text-red-300 underline underline-offset-2 disabled:opacity-50"
+          >
+            トークンを無効化
+          </button>
+        )}
+      </div>
+      {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+/**
+ * Merge suggestions for the Vault.
+ *
+ * Lists groups of tracks that look like one song under several Spotify
+ * IDs — a remaster, a deluxe edition, a compilation — and merges a group
+ * into one canonical track when the user accepts it. Renders nothing when
+ * there is nothing to suggest.
+ */
+
+import { useEffect, useState } from "react";
+import { apiFetch } from "../lib/api";
+import type { MergeSuggestion } from "../../shared/validators/tracks";
+
+// Groups listed before "さらに表示"
+const SHOWN_SUGGESTIONS = 5;
+
+const REASON_LABELS: Record<MergeSuggestion["reason"], string> = {
+  isrc: "同じ録音（ISRC一致）",
+  title: "曲名とアーティストが一致",
+};
+
+export default function MergeSuggestions({ onMerged }: { onMerged: () => void }) {
+  const [suggestions, setSuggestions] = useState<MergeSuggestion[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [merging, setMerging] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiFetch<{ data: MergeSuggestion[] }>("/vault/merges/suggestions")
+      .then((res) => setSuggestions(Array.isArray(res.data) ? res.data : []))
+      .catch(() => {});
+  }, []);
+
+  async function merge(suggestion: MergeSuggestion) {
+    setMerging(suggestion.canonicalId);
+    try {
+      await apiFetch("/vault/merges", {
+        method: "POST",
+        body: JSON.stringify({
+          canonicalId: suggestion.canonicalId,
+          trackIds: suggestion.variants.map((v) => v.trackSpotifyId),
+          reason: suggestion.reason,
+        }),
+      });
+      setSuggestions((prev) => prev.filter((s) => s !== suggestion));
+      onMerged();
+    } catch {
+      // Leave the suggestion in place so it can be retried
+    } finally {
+      setMerging(null);
+    }
+  }
+
+  if (suggestions.length === 0) return null;
+
+  const shown = showAll ? suggestions : suggestions.slice(0, SHOWN_SUGGESTIONS);
+
+  return (
+    <div className="glass-card p-4">
+      <p className="text-sm text-strata-slate-400">
+        同じ曲の別バージョン候補（{suggestions.length} 件）
+      </p>
+      <ul className="mt-2 divide-y divide-white/[0.04]">
+        {shown.map((suggestion) => (
+          <li key={suggestion.canonicalId} className="flex items-start gap-3 py-2">
+            <div className="min-w-0 flex-1 text-xs">
+              {suggestion.variants.map((variant) => (
+                <p key={variant.trackSpotifyId} className="truncate">
+                  <span className="text-white">{variant.trackName}</span>
+                  <span className="text-strata-slate-500">
+                    {" "}
+                    — {variant.artistName}
+                    {variant.albumName && ` · ${variant.albumName}`}（{variant.playCount.toLocaleString()} 回）
+                  </span>
+                </p>
+              ))}
+              <p className="mt-0.5 text-[11px] text-strata-slate-500">
+                {REASON_LABELS[suggestion.reason]}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => merge(suggestion)}
+              disabled={merging !== null}
+              className="shrink-0 rounded-lg border border-strata-amber-500/40 px-3 py-1 text-xs text-strata-amber-300 transition-colors hover:bg-strata-amber-500/10 disabled:opacity-50"
+            >
+              {merging === suggestion.canonicalId ? "統合中..." : "統合"}
+            </button>
+          </li>
+        ))}
+      </ul>
+      {!showAll && suggestions.length > SHOWN_SUGGESTIONS && (
+        <button
+          type="button"
+          onClick={() => setShowAll(true)}
+          className="mt-1 text-xs text-strata-slate-400 underline hover:text-white"
+        >
+          さらに表示
+        </button>
+      )}
+    </div>
+  );
+}
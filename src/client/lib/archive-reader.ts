@@ -0,0 +1,52 @@
+/**
+ * Main-thread side of the archive worker.
+ *
+ * Hands the dropped files to a fresh worker and relays its per-file
+ * messages. Aborting the signal terminates the worker at once and rejects
+ * with an AbortError; otherwise the worker is closed once every file has
+ * reported done or error.
+ */
+import type {
+  ArchiveWorkerMessage,
+  ArchiveWorkerRequest,
+} from "../workers/archive.worker";
+
+export function readExportFiles(
+  files: File[],
+  onMessage: (message: ArchiveWorkerMessage) => void,
+  signal: AbortSignal,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("../workers/archive.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    let remaining = files.length;
+
+    const abort = () => {
+      worker.terminate();
+      reject(new DOMException("Reading cancelled", "AbortError"));
+    };
+    if (signal.aborted) return abort();
+    signal.addEventListener("abort", abort, { once: true });
+
+    const finish = () => {
+      signal.removeEventListener("abort", abort);
+      worker.terminate();
+    };
+
+    worker.onmessage = (event: MessageEvent<ArchiveWorkerMessage>) => {
+      onMessage(event.data);
+      if (event.data.type !== "progress" && --remaining === 0) {
+        finish();
+        resolve();
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "Archive worker failed"));
+    };
+
+    const request: ArchiveWorkerRequest = { files };
+    worker.postMessage(request);
+  });
+}
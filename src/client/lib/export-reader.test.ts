@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { strToU8, zipSync } from "fflate";
+import { parseExport, readExport } from "./export-reader";
+
+const play = {
+  ts: "2024-01-01T00:00:00Z",
+  ms_played: 200_000,
+  master_metadata_track_name: "Song",
+  master_metadata_album_artist_name: "Artist",
+  spotify_track_uri: "spotify:track:abc",
+};
+
+// jsdom's TextEncoder returns another realm's Uint8Array, which fflate's zipSync
+// mistakes for a directory — copy into this realm's
+const bytesOf = (text: string) => new Uint8Array(strToU8(text));
+
+/** A byte stream delivering `bytes` in pieces of `size`, like File.stream(). */
+function streamOf(bytes: Uint8Array, size = 64): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + size));
+      offset += size;
+    },
+  });
+}
+
+describe("parseExport", () => {
+  it("drops rows that fail the entry schema and counts them", async () => {
+    const bytes = strToU8(JSON.stringify([play, { ts: "2024-01-01T00:05:00Z" }, play]));
+    const parsed = await parseExport("Streaming_History_Audio_2024.json", bytes);
+    expect(parsed.entries).toHaveLength(2);
+    expect(parsed.invalidEntries).toBe(1);
+    expect(parsed.size).toBe(bytes.length);
+    expect(parsed.fileHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("validates account-data exports against the legacy schema", async () => {
+    const legacy = { endTime: "2024-01-01 00:00", artistName: "A", trackName: "T", msPlayed: 1000 };
+    const parsed = await parseExport("StreamingHistory_music_0.json", strToU8(JSON.stringify([legacy])));
+    expect(parsed.entries).toEqual([legacy]);
+    expect(parsed.invalidEntries).toBe(0);
+  });
+
+  it("rejects a file that is not an array of plays", async () => {
+    await expect(parseExport("Userdata.json", strToU8('{"username":"x"}'))).rejects.toThrow(
+      "Invalid streaming history format",
+    );
+  });
+});
+
+describe("readExport", () => {
+  it("reads a plain JSON file and reports bytes as they stream in", async () => {
+    const bytes = strToU8(JSON.stringify([play, play, play]));
+    const progress: number[] = [];
+    const [file] = await readExport("history.json", streamOf(bytes), (n) => progress.push(n));
+    expect(file).toMatchObject({ name: "history.json", parsed: { entries: [play, play, play] } });
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress[progress.length - 1]).toBe(bytes.length);
+  });
+
+  it("inflates only the history files of an archive", async () => {
+    const archive = zipSync({
+      "Spotify Extended Streaming History/Streaming_History_Audio_2023.json": bytesOf(JSON.stringify([play])),
+      "Spotify Extended Streaming History/Streaming_History_Audio_2024.json": bytesOf(JSON.stringify([play, play])),
+      "Spotify Extended Streaming History/ReadMeFirst.pdf": bytesOf("%PDF"),
+      "__MACOSX/._Streaming_History_Audio_2024.json": bytesOf("junk"),
+    });
+    const files = await readExport("my_spotify_data.zip", streamOf(archive, 256), () => {});
+    expect(files.map((f) => ("parsed" in f ? [f.name, f.parsed.entries.length] : [f.name, f.error]))).toEqual([
+      ["Streaming_History_Audio_2023.json", 1],
+      ["Streaming_History_Audio_2024.json", 2],
+    ]);
+  });
+
+  it("reports files that are not history next to the ones that are", async () => {
+    const archive = zipSync({
+      "Spotify Account Data/StreamingHistory_music_0.json": bytesOf(
+        JSON.stringify([{ endTime: "2024-01-01 00:00", artistName: "A", trackName: "T", msPlayed: 1000 }]),
+      ),
+      "Spotify Account Data/Userdata.json": bytesOf('{"username":"x"}'),
+      "Spotify Account Data/Playlist1.json": bytesOf('{"playlists":[]}'),
+      "Spotify Account Data/Inferences.json": bytesOf("{"),
+    });
+    const files = await readExport("my_spotify_data.zip", streamOf(archive, 256), () => {});
+    expect(files).toHaveLength(4);
+    expect(files[0]).toMatchObject({ name: "StreamingHistory_music_0.json", parsed: { invalidEntries: 0 } });
+    expect(files.slice(1)).toEqual([
+      { name: "Userdata.json", error: "Invalid streaming history format" },
+      { name: "Playlist1.json", error: "Invalid streaming history format" },
+      { name: "Inferences.json", error: expect.any(String) },
+    ]);
+  });
+
+  it("rejects a plain file that is not history", async () => {
+    await expect(readExport("Userdata.json", streamOf(strToU8('{"username":"x"}')), () => {})).rejects.toThrow(
+      "Invalid streaming history format",
+    );
+  });
+});
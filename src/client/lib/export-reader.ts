@@ -0,0 +1,168 @@
+/**
+ * Reading dropped export files into upload entries.
+ *
+ * Runs inside the archive worker (see workers/archive.worker.ts) so a large
+ * archive never blocks the page: files are read as a byte stream, ZIPs are
+ * inflated entry by entry with fflate's streaming `Unzip`, and each history
+ * file is decoded, parsed and pre-validated on its own.
+ *
+ * A file inside an archive that is not history — Userdata.json in an
+ * Account data export, say — is reported on its own and does not stop the
+ * others from being read.
+ *
+ * Pre-validation uses the same row schemas the server applies, chosen by
+ * the same format detection. Rows that fail are dropped here and counted —
+ * the server validates a chunk as a whole, so one malformed row would
+ * otherwise reject the 5,000 around it.
+ */
+import { Unzip, UnzipInflate } from "fflate";
+import { parseLastfmCsv, parseLastfmJson } from "./lastfm";
+import {
+  lastfmScrobbleSchema,
+  legacyStreamingHistoryEntrySchema,
+  streamingHistoryEntrySchema,
+} from "../../shared/validators/history";
+
+/** One history file, parsed and ready to preview and upload. */
+export interface ParsedExport {
+  /** File name without any archive path. */
+  name: string;
+  /** Uncompressed size in bytes. */
+  size: number;
+  /** Hex SHA-256 of the file's text — the server uses it to spot re-uploads. */
+  fileHash: string;
+  entries: unknown[];
+  /** Rows dropped by pre-validation. */
+  invalidEntries: number;
+}
+
+/** One file read from a drop: parsed, or the reason it could not be. */
+export type ExportFile = { name: string; parsed: ParsedExport } | { name: string; error: string };
+
+// History files inside a Spotify archive, skipping macOS resource forks
+function isHistoryFile(path: string): boolean {
+  return path.endsWith(".json") && !path.startsWith("__MACOSX") && !path.includes("/.__");
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Mirrors the server's format detection in parseHistoryUpload
+function entrySchemaFor(first: unknown) {
+  const hasKey = (key: string) => typeof first === "object" && first !== null && key in first;
+  if (hasKey("endTime")) return legacyStreamingHistoryEntrySchema;
+  if (hasKey("uts")) return lastfmScrobbleSchema;
+  return streamingHistoryEntrySchema;
+}
+
+/**
+ * Parse one JSON or CSV export. Last.fm exports are normalised into
+ * scrobble rows; Spotify files pass through as-is.
+ */
+export async function parseExport(name: string, bytes: Uint8Array): Promise<ParsedExport> {
+  const text = new TextDecoder().decode(bytes);
+  let rows: unknown;
+  if (name.endsWith(".csv")) {
+    rows = parseLastfmCsv(text);
+  } else {
+    const json: unknown = JSON.parse(text);
+    rows = parseLastfmJson(json) ?? json;
+  }
+  if (!Array.isArray(rows)) {
+    throw new Error("Invalid streaming history format");
+  }
+
+  const schema = entrySchemaFor(rows[0]);
+  const entries = rows.filter((row) => schema.safeParse(row).success);
+  return {
+    name,
+    size: bytes.length,
+    fileHash: await sha256Hex(text),
+    entries,
+    invalidEntries: rows.length - entries.length,
+  };
+}
+
+// Parse one file of an archive, catching its failure so the rest still load
+async function parseArchivedFile(name: string, bytes: Uint8Array): Promise<ExportFile> {
+  try {
+    return { name, parsed: await parseExport(name, bytes) };
+  } catch (err) {
+    return { name, error: err instanceof Error ? err.message : "Unknown error" };
+  }
+}
+
+/**
+ * Read one dropped file — a JSON or CSV export, or a ZIP of JSON exports —
+ * reporting bytes consumed from `stream` as it goes. A plain file that is
+ * not history rejects; a ZIP resolves with every JSON file it holds, failed
+ * ones carrying their error.
+ */
+export async function readExport(
+  name: string,
+  stream: ReadableStream<Uint8Array>,
+  onProgress: (loaded: number) => void,
+): Promise<ExportFile[]> {
+  const reader = stream.getReader();
+  let loaded = 0;
+
+  if (!name.endsWith(".zip")) {
+    const parts: Uint8Array[] = [];
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parts.push(value);
+      loaded += value.length;
+      onProgress(loaded);
+    }
+    return [{ name, parsed: await parseExport(name, concat(parts)) }];
+  }
+
+  const parsed: Promise<ExportFile>[] = [];
+  let failure = null as Error | null;
+  const unzip = new Unzip((file) => {
+    // Entries that are never started are skipped without inflating
+    if (!isHistoryFile(file.name)) return;
+    const parts: Uint8Array[] = [];
+    file.ondata = (err, data, final) => {
+      if (err) {
+        failure = err;
+        return;
+      }
+      parts.push(data);
+      if (final) {
+        parsed.push(parseArchivedFile(file.name.split("/").pop() || file.name, concat(parts)));
+      }
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    unzip.push(value);
+    if (failure) {
+      await reader.cancel();
+      throw failure;
+    }
+    loaded += value.length;
+    onProgress(loaded);
+  }
+  unzip.push(new Uint8Array(0), true);
+  if (failure) throw failure;
+
+  return Promise.all(parsed);
+}
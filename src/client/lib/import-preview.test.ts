@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { emptyImportPreview, mergeImportPreviews } from "./import-preview";
+import type { ImportPreview } from "../../shared/validators/history";
+
+const first: ImportPreview = {
+  total: 5000,
+  newPlays: 4000,
+  skipped: 200,
+  duplicates: 800,
+  skipReasons: { noTrackName: 150, noSpotifyUri: 50, noArtistName: 0 },
+  dateRange: { from: "2019-01-01T00:00:00.000Z", to: "2019-06-30T00:00:00.000Z" },
+  topArtists: [
+    { artistName: "Radiohead", count: 300 },
+    { artistName: "Björk", count: 100 },
+  ],
+  overlap: { from: "2019-03-01T00:00:00.000Z", to: "2019-06-30T00:00:00.000Z", existingPlays: 800 },
+};
+
+const second: ImportPreview = {
+  total: 1000,
+  newPlays: 990,
+  skipped: 10,
+  duplicates: 0,
+  skipReasons: { noTrackName: 10, noSpotifyUri: 0, noArtistName: 0 },
+  dateRange: { from: "2019-07-01T00:00:00.000Z", to: "2019-08-01T00:00:00.000Z" },
+  topArtists: [
+    { artistName: "Björk", count: 250 },
+    { artistName: "Portishead", count: 90 },
+  ],
+  overlap: null,
+};
+
+describe("mergeImportPreviews", () => {
+  it("adds counts and widens the date range", () => {
+    const merged = mergeImportPreviews(first, second);
+    expect(merged.total).toBe(6000);
+    expect(merged.newPlays).toBe(4990);
+    expect(merged.skipReasons).toEqual({ noTrackName: 160, noSpotifyUri: 50, noArtistName: 0 });
+    expect(merged.dateRange).toEqual({
+      from: "2019-01-01T00:00:00.000Z",
+      to: "2019-08-01T00:00:00.000Z",
+    });
+  });
+
+  it("sums artist counts across chunks and re-ranks them", () => {
+    const merged = mergeImportPreviews(first, second);
+    expect(merged.topArtists).toEqual([
+      { artistName: "Björk", count: 350 },
+      { artistName: "Radiohead", count: 300 },
+      { artistName: "Portishead", count: 90 },
+    ]);
+  });
+
+  it("keeps the overlap of the chunk that has one, summing when both do", () => {
+    expect(mergeImportPreviews(first, second).overlap).toEqual(first.overlap);
+    expect(mergeImportPreviews(first, first).overlap?.existingPlays).toBe(1600);
+  });
+
+  it("treats the empty preview as identity", () => {
+    expect(mergeImportPreviews(emptyImportPreview(), first)).toEqual(first);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Combining import previews.
+ *
+ * POST /api/import/preview takes at most one chunk of entries, so a large
+ * file is previewed chunk by chunk and the per-chunk summaries are folded
+ * into one per file. Counts add up; ranges widen. Top artists are merged
+ * from each chunk's own top list, so an artist spread thinly over many
+ * chunks can be missed — close enough for a summary before importing.
+ */
+import type { ImportPreview } from "../../shared/validators/history";
+
+// Artists shown per file
+const TOP_ARTISTS = 10;
+
+export function emptyImportPreview(): ImportPreview {
+  return {
+    total: 0,
+    newPlays: 0,
+    skipped: 0,
+    duplicates: 0,
+    skipReasons: { noTrackName: 0, noSpotifyUri: 0, noArtistName: 0 },
+    dateRange: null,
+    topArtists: [],
+    overlap: null,
+  };
+}
+
+// Smallest range covering both; ISO strings compare chronologically
+function widen<T extends { from: string; to: string }>(a: T | null, b: T | null): T | null {
+  if (!a || !b) return a ?? b;
+  return {
+    ...a,
+    from: a.from < b.from ? a.from : b.from,
+    to: a.to > b.to ? a.to : b.to,
+  };
+}
+
+export function mergeImportPreviews(a: ImportPreview, b: ImportPreview): ImportPreview {
+  const artists = new Map<string, number>();
+  for (const { artistName, count } of [...a.topArtists, ...b.topArtists]) {
+    artists.set(artistName, (artists.get(artistName) ?? 0) + count);
+  }
+
+  const overlap = widen(a.overlap, b.overlap);
+  if (overlap && a.overlap && b.overlap) {
+    overlap.existingPlays = a.overlap.existingPlays + b.overlap.existingPlays;
+  }
+
+  return {
+    total: a.total + b.total,
+    newPlays: a.newPlays + b.newPlays,
+    skipped: a.skipped + b.skipped,
+    duplicates: a.duplicates + b.duplicates,
+    skipReasons: {
+      noTrackName: a.skipReasons.noTrackName + b.skipReasons.noTrackName,
+      noSpotifyUri: a.skipReasons.noSpotifyUri + b.skipReasons.noSpotifyUri,
+      noArtistName: a.skipReasons.noArtistName + b.skipReasons.noArtistName,
+    },
+    dateRange: widen(a.dateRange, b.dateRange),
+    topArtists: [...artists]
+      .sort((x, y) => y[1] - x[1])
+      .slice(0, TOP_ARTISTS)
+      .map(([artistName, count]) => ({ artistName, count })),
+    overlap,
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { parseLastfmCsv, parseLastfmJson } from "./lastfm";
+
+describe("parseLastfmCsv", () => {
+  it("parses a headered export by column name, oldest first", () => {
+    const csv = [
+      "uts,utc_time,artist,artist_mbid,album,album_mbid,track,track_mbid",
+      '1718447400,"15 Jun 2024, 10:30",Radiohead,,OK Computer,,Airbag,',
+      '1718447100,"15 Jun 2024, 10:25","Simon & Garfunkel",,,,"The Boxer, Live",',
+    ].join("\n");
+
+    expect(parseLastfmCsv(csv)).toEqual([
+      { uts: 1718447100, artist: "Simon & Garfunkel", track: "The Boxer, Live", album: null },
+      { uts: 1718447400, artist: "Radiohead", track: "Airbag", album: "OK Computer" },
+    ]);
+  });
+
+  it("parses a header-less artist,album,track,date export", () => {
+    const csv = 'Radiohead,OK Computer,Airbag,15 Jun 2024 10:30\r\n"Björk",,"Joga ""Live""",31 Jan 2021 09:05\r\n';
+
+    expect(parseLastfmCsv(csv)).toEqual([
+      { uts: Date.UTC(2021, 0, 31, 9, 5) / 1000, artist: "Björk", track: 'Joga "Live"', album: null },
+      { uts: Date.UTC(2024, 5, 15, 10, 30) / 1000, artist: "Radiohead", track: "Airbag", album: "OK Computer" },
+    ]);
+  });
+
+  it("drops rows without a usable date", () => {
+    expect(parseLastfmCsv("Radiohead,OK Computer,Airbag,yesterday\n")).toEqual([]);
+  });
+});
+
+describe("parseLastfmJson", () => {
+  const track = (name: string, uts?: string) => ({
+    name,
+    artist: { "#text": "Radiohead", mbid: "" },
+    album: { "#text": "OK Computer", mbid: "" },
+    ...(uts ? { date: { uts, "#text": "" } } : { "@attr": { nowplaying: "true" } }),
+  });
+
+  it("flattens getRecentTracks pages and skips the now-playing track", () => {
+    const pages = [
+      { track: [track("Let Down"), track("Airbag", "1718447400")] },
+      { track: [track("Paranoid Android", "1718447100")] },
+    ];
+
+    expect(parseLastfmJson(pages)).toEqual([
+      { uts: 1718447100, artist: "Radiohead", track: "Paranoid Android", album: "OK Computer" },
+      { uts: 1718447400, artist: "Radiohead", track: "Airbag", album: "OK Computer" },
+    ]);
+  });
+
+  it("accepts a single recenttracks response", () => {
+    const response = { recenttracks: { track: [track("Airbag", "1718447400")] } };
+    expect(parseLastfmJson(response)).toHaveLength(1);
+  });
+
+  it("returns null for a Spotify streaming history file", () => {
+    expect(parseLastfmJson([{ ts: "2024-06-15T10:30:00Z", ms_played: 180000 }])).toBeNull();
+    expect(parseLastfmJson([])).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Last.fm export parsing.
+ *
+ * Last.fm has no official export, so scrobbles arrive from third-party
+ * exporters in a few shapes:
+ *   - CSV with a header row (uts, utc_time, artist, album, track, ...)
+ *   - CSV without a header: artist, album, track, date ("31 Jan 2021 12:34")
+ *   - JSON pages of the user.getRecentTracks API response
+ *
+ * All of them are normalised into `LastfmScrobble` rows, oldest first, so the
+ * server-side importer (and its play-duration estimate) sees one shape.
+ */
+import type { LastfmScrobble } from "../../shared/validators/history";
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/** Split CSV text into rows of fields, honouring quoted fields. */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+/** Parse a scrobble date — Unix seconds or "31 Jan 2021 12:34" (UTC). */
+function parseScrobbleDate(value: string): number | null {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+
+  const match = trimmed.match(/^(\d{1,2}) ([A-Za-z]{3})[a-z]* (\d{4}),? (\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const month = MONTHS.indexOf(match[2].toLowerCase());
+  if (month < 0) return null;
+  const ms = Date.UTC(Number(match[3]), month, Number(match[1]), Number(match[4]), Number(match[5]));
+  return Math.floor(ms / 1000);
+}
+
+function sortScrobbles(scrobbles: LastfmScrobble[]): LastfmScrobble[] {
+  return scrobbles.sort((a, b) => a.uts - b.uts);
+}
+
+/**
+ * Parse a Last.fm CSV export. Rows without a usable date are dropped; the
+ * server reports rows without names as skipped.
+ */
+export function parseLastfmCsv(text: string): LastfmScrobble[] {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((h) => h.trim().toLowerCase());
+  const hasHeader = header.includes("artist") && header.includes("track");
+  const column = (name: string, fallback: number) =>
+    hasHeader ? header.indexOf(name) : fallback;
+  const artistCol = column("artist", 0);
+  const albumCol = column("album", 1);
+  const trackCol = column("track", 2);
+  const dateCol = hasHeader
+    ? header.includes("uts")
+      ? header.indexOf("uts")
+      : header.indexOf("date")
+    : 3;
+
+  const scrobbles: LastfmScrobble[] = [];
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const uts = dateCol >= 0 ? parseScrobbleDate(row[dateCol] ?? "") : null;
+    if (uts === null) continue;
+    scrobbles.push({
+      uts,
+      artist: row[artistCol] ?? "",
+      track: row[trackCol] ?? "",
+      album: albumCol >= 0 ? row[albumCol] || null : null,
+    });
+  }
+  return sortScrobbles(scrobbles);
+}
+
+interface RecentTrack {
+  name?: string;
+  artist?: { "#text"?: string; name?: string };
+  album?: { "#text"?: string };
+  date?: { uts?: string };
+}
+
+function isRecentTrack(value: unknown): value is RecentTrack {
+  return typeof value === "object" && value !== null && "name" in value && "artist" in value;
+}
+
+/**
+ * Normalise a Last.fm JSON export: an array of getRecentTracks pages, a
+ * single `{ recenttracks }` response, or a flat array of its tracks. Returns
+ * null when the data is not a Last.fm export (e.g. a Spotify history file).
+ */
+export function parseLastfmJson(data: unknown): LastfmScrobble[] | null {
+  const pages = Array.isArray(data) ? data : [data];
+  const tracks: unknown[] = [];
+
+  for (const page of pages) {
+    if (typeof page !== "object" || page === null) return null;
+    const source = "recenttracks" in page ? (page as { recenttracks: unknown }).recenttracks : page;
+    if (isRecentTrack(source)) {
+      tracks.push(source);
+    } else if (typeof source === "object" && source !== null && "track" in source) {
+      const list = (source as { track: unknown }).track;
+      tracks.push(...(Array.isArray(list) ? list : [list]));
+    } else {
+      return null;
+    }
+  }
+
+  if (tracks.length === 0 || !tracks.every(isRecentTrack)) return null;
+
+  const scrobbles: LastfmScrobble[] = [];
+  for (const track of tracks) {
+    // The currently playing track has no date and is not a scrobble yet
+    const uts = track.date?.uts ? parseScrobbleDate(track.date.uts) : null;
+    if (uts === null) continue;
+    scrobbles.push({
+      uts,
+      artist: track.artist?.["#text"] ?? track.artist?.name ?? "",
+      track: track.name ?? "",
+      album: track.album?.["#text"] || null,
+    });
+  }
+  return sortScrobbles(scrobbles);
+}
@@ -158,6 +158,26 @@ describe("Heatmap", () => {
     });
   });
 
+  it("filters the heatmap by a chosen genre", async () => {
+    mockedApiFetch.mockImplementation((path: string) => {
+      if (path === "/vault/genres") return Promise.resolve({ data: ["indie rock", "j-pop"] });
+      if (path.includes("/heatmap/data")) return Promise.resolve(mockHeatmapData);
+      if (path.includes("/heatmap/summary")) return Promise.resolve(mockSummary);
+      if (path.includes("/heatmap/artists")) return Promise.resolve(mockArtists);
+      if (path.includes("/heatmap/silences")) return Promise.resolve(mockSilences);
+      return Promise.reject(new Error("unexpected"));
+    });
+
+    renderHeatmap();
+    const user = userEvent.setup();
+    await user.selectOptions(await screen.findByRole("combobox", { name: "Genre" }), "j-pop");
+
+    await waitFor(() => {
+      const calls = mockedApiFetch.mock.calls.map((c: unknown[]) => c[0] as string);
+      expect(calls.some((c) => c.startsWith("/heatmap/data?") && c.includes("genre=j-pop"))).toBe(true);
+    });
+  });
+
   it("shows error state on fetch failure", async () => {
     mockedApiFetch.mockImplementation((path: string) => {
       if (path.includes("/heatmap/artists")) return Promise.resolve(mockArtists);
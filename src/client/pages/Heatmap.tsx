@@ -4,8 +4,9 @@
  *
  * Renders a D3.js SVG grid where each cell represents one day, colored by
  * play count using a warm-tone palette (beige to deep amber to rust). The
- * chart supports year selection and per-artist filtering, plus a tooltip
- * showing exact play count and listening time on hover.
+ * chart supports year selection, per-artist and per-genre filtering, and a music /
+ * podcast / all content toggle, plus a tooltip showing exact play count and
+ * listening time on hover.
  *
  * Layout: 7 rows (Sun-Sat) x ~52 columns (weeks), with month and day-of-week
  * labels, matching the familiar GitHub "grass" contribution graph.
@@ -13,6 +14,7 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import * as d3 from "d3";
 import { apiFetch } from "../lib/api";
+import type { ContentFilter } from "../../shared/validators/history";
 
 interface HeatmapDay {
   date: string;
@@ -67,6 +69,8 @@ interface DayTrack {
   trackSpotifyId: string;
   msPlayed: number;
   playedAt: string;
+  /** Start time on the user's wall clock ("HH:mm"), matching the day bucket */
+  localTime: string;
 }
 
 // --- Chart layout constants ---
@@ -95,6 +99,13 @@ const HEAT_COLORS = [
   "#8b3a1f", // heat-5
 ];
 
+// Content filter options — spoken word covers podcast episodes and audiobooks.
+const CONTENT_OPTIONS: { value: ContentFilter; label: string }[] = [
+  { value: "music", label: "Music" },
+  { value: "spoken", label: "Podcasts" },
+  { value: "all", label: "All" },
+];
+
 // --- Obsession Curve chart constants ---
 const OC_AMBER_300 = "#d4a04a";
 const OC_AMBER_200 = "#e8c88c";
@@ -130,8 +141,12 @@ export default function Heatmap() {
 
   const [year, setYear] = useState(new Date().getUTCFullYear());
   const [artist, setArtist] = useState<string>("");
+  const [genre, setGenre] = useState<string>("");
+  // Music by default; podcasts and audiobooks can be viewed on their own or mixed in
+  const [content, setContent] = useState<ContentFilter>("music");
   const [data, setData] = useState<HeatmapDay[]>([]);
   const [artists, setArtists] = useState<HeatmapArtist[]>([]);
+  const [genres, setGenres] = useState<string[]>([]);
   const [summary, setSummary] = useState<HeatmapSummary | null>(null);
   const [silenceData, setSilenceData] = useState<SilenceData | null>(null);
   const [obsessionData, setObsessionData] = useState<ObsessionData | null>(null);
@@ -153,10 +168,13 @@ export default function Heatmap() {
     apiFetch<{ data: HeatmapArtist[] }>("/heatmap/artists")
       .then((res) => setArtists(res.data))
       .catch(() => {});
+    apiFetch<{ data: string[] }>("/vault/genres")
+      .then((res) => setGenres(Array.isArray(res.data) ? res.data : []))
+      .catch(() => {});
   }, []);
 
   // Fetch day-by-day heatmap data and summary stats whenever the user
-  // changes the year or artist filter. Both requests are fired in parallel.
+  // changes the year, artist or genre filter. Both requests are fired in parallel.
   useEffect(() => {
     setLoading(true);
     setError(null);
@@ -164,11 +182,13 @@ export default function Heatmap() {
 
     const params = new URLSearchParams({ year: String(year) });
     if (artist) params.set("artist", artist);
+    if (genre) params.set("genre", genre);
+    if (content !== "music") params.set("content", content);
     const qs = `?${params.toString()}`;
 
-    // Silence data is only fetched for "All Artists" (no artist filter)
+    // Silence data is only fetched for "All Artists" music (no filter)
     // since silences are a whole-library concept.
-    const silencePromise = artist
+    const silencePromise = artist || genre || content !== "music"
       ? Promise.resolve(null)
       : apiFetch<{ data: SilenceData }>(`/heatmap/silences?year=${year}`).catch(() => null);
 
@@ -184,7 +204,7 @@ export default function Heatmap() {
       })
       .catch(() => setError("Failed to load heatmap data"))
       .finally(() => setLoading(false));
-  }, [year, artist]);
+  }, [year, artist, genre, content]);
 
   // Fetch Obsession Curve data when an artist is selected.
   // This runs independently of the heatmap data fetch because it spans
@@ -336,12 +356,14 @@ export default function Heatmap() {
         const dateStr = d.date.toISOString().slice(0, 10);
         setSelectedDay({ date: dateStr, count: d.count });
         setDayLoading(true);
-        apiFetch<{ data: DayTrack[] }>(`/heatmap/day?date=${dateStr}`)
+        apiFetch<{ data: DayTrack[] }>(
+          `/heatmap/day?date=${dateStr}${content !== "music" ? `&content=${content}` : ""}`,
+        )
           .then((res) => setDayTracks(res.data))
           .catch(() => setDayTracks([]))
           .finally(() => setDayLoading(false));
       });
-  }, [data, year, currentYear]);
+  }, [data, year, currentYear, content]);
 
   // Trigger D3 rendering after data finishes loading without errors.
   useEffect(() => {
@@ -396,19 +418,62 @@ export default function Heatmap() {
           )}
         </div>
 
-        {/* Artist filter */}
-        <select
-          value={artist}
-          onChange={(e) => setArtist(e.target.value)}
-          className="rounded-lg border border-white/[0.06] bg-white/[0.03] px-3 py-2 text-sm text-white outline-none"
-        >
-          <option value="">All Artists</option>
-          {artists.map((a) => (
-            <option key={a.artistName} value={a.artistName} className="bg-strata-surface">
-              {a.artistName}
-            </option>
+        {/* Content filter — music, spoken word (podcasts / audiobooks), or both */}
+        <div className="flex items-center gap-1 rounded-lg bg-white/[0.05] p-1">
+          {CONTENT_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => {
+                setContent(option.value);
+                // Artist names and genres only exist for music
+                if (option.value === "spoken") {
+                  setArtist("");
+                  setGenre("");
+                }
+              }}
+              className={`rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+                option.value === content
+                  ? "bg-strata-amber-500 text-white"
+                  : "text-strata-slate-400 hover:text-white"
+              }`}
+            >
+              {option.label}
+            </button>
           ))}
-        </select>
+        </div>
+
+        {/* Artist filter */}
+        {content !== "spoken" && (
+          <select
+            value={artist}
+            onChange={(e) => setArtist(e.target.value)}
+            className="rounded-lg border border-white/[0.06] bg-white/[0.03] px-3 py-2 text-sm text-white outline-none"
+          >
+            <option value="">All Artists</option>
+            {artists.map((a) => (
+              <option key={a.artistName} value={a.artistName} className="bg-strata-surface">
+                {a.artistName}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {/* Genre filter */}
+        {content !== "spoken" && genres.length > 0 && (
+          <select
+            value={genre}
+            onChange={(e) => setGenre(e.target.value)}
+            aria-label="Genre"
+            className="rounded-lg border border-white/[0.06] bg-white/[0.03] px-3 py-2 text-sm text-white outline-none"
+          >
+            <option value="">All Genres</option>
+            {genres.map((g) => (
+              <option key={g} value={g} className="bg-strata-surface">
+                {g}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
       {/* Summary stats */}
@@ -457,6 +522,8 @@ export default function Heatmap() {
                 setLoading(true);
                 const params = new URLSearchParams({ year: String(year) });
                 if (artist) params.set("artist", artist);
+                if (genre) params.set("genre", genre);
+                if (content !== "music") params.set("content", content);
                 const qs = `?${params.toString()}`;
                 Promise.all([
                   apiFetch<{ data: HeatmapDay[] }>(`/heatmap/data${qs}`),
@@ -546,11 +613,7 @@ export default function Heatmap() {
                   className="flex items-center gap-3 py-1.5 px-2 rounded hover:bg-strata-border/30 transition-colors"
                 >
                   <span className="text-xs font-mono text-zinc-500 w-12 shrink-0">
-                    {new Date(track.playedAt).toLocaleTimeString("ja-JP", {
-                      hour: "2-digit",
-                      minute: "2-digit",
-                      timeZone: "UTC",
-                    })}
+                    {track.localTime}
                   </span>
                   <div className="min-w-0 flex-1">
                     <p className="text-sm text-white truncate">{track.trackName}</p>
@@ -567,7 +630,7 @@ export default function Heatmap() {
       )}
 
       {/* Silence Map — periods of 3+ consecutive days with no plays */}
-      {!loading && !error && !artist && silenceData && (
+      {!loading && !error && !artist && !genre && content === "music" && silenceData && (
         <div className="glass-card p-5">
           <h2 className="text-lg font-semibold text-white">
             沈黙の記録
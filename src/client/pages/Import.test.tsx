@@ -8,14 +8,26 @@ vi.mock("../lib/api", () => ({
   apiFetch: vi.fn(),
 }));
 
-// Mock fflate to avoid actual zip processing in tests
-vi.mock("fflate", () => ({
-  unzipSync: vi.fn(() => ({})),
+// The archive worker does not run under jsdom
+vi.mock("../lib/archive-reader", () => ({
+  readExportFiles: vi.fn(),
 }));
 
 import { apiFetch } from "../lib/api";
+import { readExportFiles } from "../lib/archive-reader";
+import { parseExport } from "../lib/export-reader";
+import type { ArchiveWorkerMessage } from "../workers/archive.worker";
 
 const mockedApiFetch = apiFetch as ReturnType<typeof vi.fn>;
+const mockedReadExportFiles = readExportFiles as ReturnType<typeof vi.fn>;
+
+/** Read the files on the main thread, as the worker would. */
+async function readInThread(files: File[], onMessage: (message: ArchiveWorkerMessage) => void) {
+  for (const [index, file] of files.entries()) {
+    const bytes = new TextEncoder().encode(await file.text());
+    onMessage({ type: "done", index, files: [{ name: file.name, parsed: await parseExport(file.name, bytes) }] });
+  }
+}
 
 async function renderImport() {
   let result: ReturnType<typeof render>;
@@ -37,6 +49,7 @@ const mockStatusWithData = {
       from: "2020-01-01T00:00:00Z",
       to: "2025-12-31T00:00:00Z",
     },
+    unresolvedTracks: 0,
   },
 };
 
@@ -45,12 +58,39 @@ const mockStatusEmpty = {
     hasData: false,
     totalTracks: 0,
     dateRange: null,
+    unresolvedTracks: 0,
   },
 };
 
+const mockPreview = {
+  total: 1000,
+  newPlays: 900,
+  skipped: 20,
+  duplicates: 80,
+  skipReasons: { noTrackName: 20, noSpotifyUri: 0, noArtistName: 0 },
+  dateRange: { from: "2019-01-01T00:00:00.000Z", to: "2019-12-31T00:00:00.000Z" },
+  topArtists: [{ artistName: "Radiohead", count: 600 }],
+  overlap: { from: "2019-06-01T00:00:00.000Z", to: "2019-12-31T00:00:00.000Z", existingPlays: 80 },
+};
+
+/** Select a small JSON export through the hidden file input. */
+async function uploadJson(
+  user: ReturnType<typeof userEvent.setup>,
+  container: HTMLElement,
+  name: string,
+) {
+  const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+  const content = JSON.stringify([{ ts: "2024-01-01T00:00:00Z", ms_played: 1 }]);
+  const file = new File([content], name, { type: "application/json" });
+  // jsdom's File has no text()
+  Object.defineProperty(file, "text", { value: () => Promise.resolve(content) });
+  await user.upload(input, file);
+}
+
 describe("Import", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockedReadExportFiles.mockImplementation(readInThread);
   });
 
   it("fetches import status on mount", async () => {
@@ -99,7 +139,7 @@ describe("Import", () => {
     await renderImport();
     expect(
       screen.getByText(
-        "JSONまたはZIPファイルをドラッグ＆ドロップ、またはクリックして選択",
+        "JSON・ZIP・CSVファイルをドラッグ＆ドロップ、またはクリックして選択",
       ),
     ).toBeTruthy();
   });
@@ -147,7 +187,7 @@ describe("Import", () => {
     mockedApiFetch.mockResolvedValue(mockStatusEmpty);
     await renderImport();
     expect(
-      screen.getByText("複数ファイル対応（.json / .zip）"),
+      screen.getByText("複数ファイル対応（.json / .zip / .csv）"),
     ).toBeTruthy();
   });
 
@@ -156,7 +196,220 @@ describe("Import", () => {
     const { container } = await renderImport();
     const input = container.querySelector('input[type="file"]') as HTMLInputElement;
     expect(input).toBeTruthy();
-    expect(input.accept).toBe(".json,.zip");
+    expect(input.accept).toBe(".json,.zip,.csv");
     expect(input.multiple).toBe(true);
   });
+
+  it("fetches import jobs on mount", async () => {
+    mockedApiFetch.mockResolvedValue(mockStatusEmpty);
+    await renderImport();
+    expect(mockedApiFetch).toHaveBeenCalledWith("/import/jobs");
+  });
+
+  it("lists unfinished jobs so they can be resumed", async () => {
+    mockedApiFetch.mockImplementation((path: string) => {
+      if (path === "/import/jobs") {
+        return Promise.resolve({
+          data: [
+            {
+              id: "job-1",
+              fileName: "Streaming_History_Audio_2019.json",
+              fileSize: 2048,
+              totalChunks: 4,
+              completedChunks: 2,
+              status: "running",
+              result: {
+                total: 0,
+                imported: 0,
+                skipped: 0,
+                duplicates: 0,
+                skipReasons: { noTrackName: 0, noSpotifyUri: 0, noArtistName: 0 },
+              },
+              error: null,
+              createdAt: "2024-06-15T10:00:00Z",
+              updatedAt: "2024-06-15T10:05:00Z",
+            },
+            {
+              id: "job-2",
+              fileName: "Streaming_History_Audio_2018.json",
+              fileSize: 1024,
+              totalChunks: 1,
+              completedChunks: 1,
+              status: "completed",
+              result: {
+                total: 0,
+                imported: 0,
+                skipped: 0,
+                duplicates: 0,
+                skipReasons: { noTrackName: 0, noSpotifyUri: 0, noArtistName: 0 },
+              },
+              error: null,
+              createdAt: "2024-06-14T10:00:00Z",
+              updatedAt: "2024-06-14T10:05:00Z",
+            },
+          ],
+        });
+      }
+      return Promise.resolve(mockStatusEmpty);
+    });
+    await renderImport();
+    expect(screen.getByText("中断されたインポート")).toBeTruthy();
+    expect(screen.getByText("Streaming_History_Audio_2019.json")).toBeTruthy();
+    expect(screen.getByText("2/4")).toBeTruthy();
+    expect(screen.queryByText("Streaming_History_Audio_2018.json")).toBeNull();
+  });
+
+  it("lists past uploads and rolls one back", async () => {
+    const user = userEvent.setup();
+    const batch = {
+      id: "batch-1",
+      fileName: "Streaming_History_Audio_2021.json",
+      fileHash: "a".repeat(64),
+      fileSize: 2048,
+      result: {
+        total: 1200,
+        imported: 1100,
+        skipped: 100,
+        duplicates: 0,
+        skipReasons: { noTrackName: 100, noSpotifyUri: 0, noArtistName: 0 },
+      },
+      createdAt: "2024-06-15T10:00:00Z",
+      completedAt: "2024-06-15T10:05:00Z",
+    };
+    mockedApiFetch.mockImplementation((path: string) => {
+      if (path === "/import/batches") return Promise.resolve({ data: [batch] });
+      if (path === "/import/status") return Promise.resolve(mockStatusWithData);
+      return Promise.resolve({ data: [] });
+    });
+    await renderImport();
+
+    expect(screen.getByText("インポート履歴")).toBeTruthy();
+    expect(screen.getByText("1,100 件")).toBeTruthy();
+    await user.click(screen.getByText("取り消す"));
+    await user.click(screen.getByText("削除する"));
+
+    await waitFor(() => {
+      expect(screen.queryByText("Streaming_History_Audio_2021.json")).toBeNull();
+    });
+    expect(mockedApiFetch).toHaveBeenCalledWith("/import/batches/batch-1", { method: "DELETE" });
+  });
+
+  it("previews a file and writes nothing until confirmed", async () => {
+    const user = userEvent.setup();
+    mockedApiFetch.mockImplementation((path: string) => {
+      if (path === "/import/preview") return Promise.resolve({ data: mockPreview });
+      if (path === "/import/status") return Promise.resolve(mockStatusEmpty);
+      return Promise.resolve({ data: [] });
+    });
+    const { container } = await renderImport();
+
+    await uploadJson(user, container, "Streaming_History_Audio_2019.json");
+
+    expect(await screen.findByText("インポート内容の確認")).toBeTruthy();
+    expect(screen.getByText("900 件新規")).toBeTruthy();
+    expect(screen.getByText(/Radiohead（600）/)).toBeTruthy();
+    expect(screen.getByText(/既存データと重なる期間/)).toBeTruthy();
+    expect(mockedApiFetch).not.toHaveBeenCalledWith("/import/jobs", expect.anything());
+
+    await user.click(screen.getByText("キャンセル"));
+    expect(screen.queryByText("インポート内容の確認")).toBeNull();
+    expect(mockedApiFetch).not.toHaveBeenCalledWith("/import/jobs", expect.anything());
+  });
+
+  it("shows byte progress while reading and can cancel it", async () => {
+    const user = userEvent.setup();
+    mockedApiFetch.mockImplementation((path: string) => {
+      if (path === "/import/status") return Promise.resolve(mockStatusEmpty);
+      return Promise.resolve({ data: [] });
+    });
+    mockedReadExportFiles.mockImplementationOnce(
+      (_files: File[], onMessage: (message: ArchiveWorkerMessage) => void, signal: AbortSignal) =>
+        new Promise((_resolve, reject) => {
+          onMessage({ type: "progress", index: 0, loaded: 20 });
+          signal.addEventListener("abort", () =>
+            reject(new DOMException("Reading cancelled", "AbortError")),
+          );
+        }),
+    );
+    const { container } = await renderImport();
+
+    await uploadJson(user, container, "my_spotify_data.json");
+
+    expect(await screen.findByText("0 KB / 0 KB")).toBeTruthy();
+    await user.click(screen.getByText("読み込みを中止"));
+    await waitFor(() => {
+      expect(screen.queryByText("my_spotify_data.json")).toBeNull();
+    });
+    expect(mockedApiFetch).not.toHaveBeenCalledWith("/import/preview", expect.anything());
+  });
+
+  it("reports rows dropped by pre-validation", async () => {
+    const user = userEvent.setup();
+    mockedApiFetch.mockImplementation((path: string) => {
+      if (path === "/import/preview") return Promise.resolve({ data: mockPreview });
+      if (path === "/import/status") return Promise.resolve(mockStatusEmpty);
+      return Promise.resolve({ data: [] });
+    });
+    const { container } = await renderImport();
+    const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+    const content = JSON.stringify([
+      { ts: "2024-01-01T00:00:00Z", ms_played: 1 },
+      { ts: "2024-01-01T00:05:00Z", ms_played: "broken" },
+    ]);
+    const file = new File([content], "Streaming_History_Audio_2024.json", { type: "application/json" });
+    Object.defineProperty(file, "text", { value: () => Promise.resolve(content) });
+    await user.upload(input, file);
+
+    expect(await screen.findByText("形式が不正な 1 件を事前に除外しました")).toBeTruthy();
+    const [, init] = mockedApiFetch.mock.calls.find(([path]) => path === "/import/preview")!;
+    expect(JSON.parse(init.body)).toHaveLength(1);
+  });
+
+  it("refuses a file that was already imported", async () => {
+    const user = userEvent.setup();
+    mockedApiFetch.mockImplementation((path: string, init?: RequestInit) => {
+      if (path === "/import/jobs" && init?.method === "POST") {
+        return Promise.reject(new Error("API error: 409 Conflict"));
+      }
+      if (path === "/import/preview") return Promise.resolve({ data: mockPreview });
+      if (path === "/import/status") return Promise.resolve(mockStatusEmpty);
+      return Promise.resolve({ data: [] });
+    });
+    const { container } = await renderImport();
+
+    await uploadJson(user, container, "dup.json");
+    await user.click(await screen.findByText("インポートする"));
+
+    await waitFor(() => {
+      expect(screen.getByText("このファイルはインポート済みです")).toBeTruthy();
+    });
+    const [, init] = mockedApiFetch.mock.calls.find(
+      ([path, init]) => path === "/import/jobs" && init?.method === "POST",
+    )!;
+    expect(JSON.parse(init.body).fileHash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("resolves provisional tracks until none remain", async () => {
+    const user = userEvent.setup();
+    mockedApiFetch.mockImplementation((path: string) => {
+      if (path === "/import/status") {
+        return Promise.resolve({
+          data: { ...mockStatusWithData.data, unresolvedTracks: 25 },
+        });
+      }
+      if (path === "/vault/resolve") {
+        return Promise.resolve({ data: { resolved: 20, unresolved: 0, remaining: 0 } });
+      }
+      return Promise.resolve({ data: [] });
+    });
+    await renderImport();
+
+    expect(screen.getByText("Spotifyと未照合の曲: 25 曲")).toBeTruthy();
+    await user.click(screen.getByText("Spotifyで照合する"));
+
+    await waitFor(() => {
+      expect(screen.getByText("20 曲を照合しました")).toBeTruthy();
+    });
+    expect(mockedApiFetch).toHaveBeenCalledWith("/vault/resolve", { method: "POST" });
+  });
 });
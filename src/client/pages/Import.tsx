@@ -1,36 +1,148 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useNavigate } from "react-router-dom";
-import { unzipSync } from "fflate";
 import { apiFetch } from "../lib/api";
+import { readExportFiles } from "../lib/archive-reader";
+import type { ParsedExport } from "../lib/export-reader";
+import { emptyImportPreview, mergeImportPreviews } from "../lib/import-preview";
 import ConfirmDialog from "../components/ConfirmDialog";
-import type { ImportResult, ImportStatus } from "../../shared/validators/history";
+import ImportQuality from "../components/ImportQuality";
+import ListenBrainzToken from "../components/ListenBrainzToken";
+import { IMPORT_CHUNK_SIZE } from "../../shared/validators/history";
+import type {
+  ImportBatch,
+  ImportJob,
+  ImportPreview,
+  ImportResult,
+  ImportStatus,
+  ResolveResult,
+} from "../../shared/validators/history";
 
-type UploadState = "idle" | "uploading" | "done" | "error";
+// reading (worker) -> previewing -> confirming (summary shown) -> uploading -> done / error
+type UploadState =
+  | "idle"
+  | "reading"
+  | "previewing"
+  | "confirming"
+  | "uploading"
+  | "done"
+  | "error";
+
+/** Byte progress of one dropped file while the archive worker reads it. */
+interface ReadProgress {
+  name: string;
+  size: number;
+  loaded: number;
+  status: "reading" | "done" | "error";
+}
 
 interface FileProgress {
   name: string;
   status: "pending" | "uploading" | "done" | "error";
+  /** Server-side job for this file — polled while the upload is running. */
+  job?: ImportJob;
   result?: ImportResult;
   error?: string;
 }
 
+/** Dry-run summary of one file, shown before anything is written. */
+interface FilePreview {
+  name: string;
+  /** Absent when the file could not be read. */
+  parsed?: ParsedExport;
+  preview?: ImportPreview;
+  error?: string;
+}
+
+// How often the active job's progress is polled while chunks are uploading
+const JOB_POLL_INTERVAL_MS = 1500;
+// Attempts per chunk before the file is marked as failed (the job stays resumable)
+const CHUNK_MAX_ATTEMPTS = 3;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Dry-run a whole file, one chunk per request, folding the summaries together. */
+async function previewFile(entries: unknown[]): Promise<ImportPreview> {
+  let preview = emptyImportPreview();
+  for (let i = 0; i < entries.length; i += IMPORT_CHUNK_SIZE) {
+    const res = await apiFetch<{ data: ImportPreview }>("/import/preview", {
+      method: "POST",
+      body: JSON.stringify(entries.slice(i, i + IMPORT_CHUNK_SIZE)),
+    });
+    preview = mergeImportPreviews(preview, res.data);
+  }
+  return preview;
+}
+
+/**
+ * Send one chunk, retrying on network errors or an out-of-order rejection.
+ * Before each retry the job is re-fetched so we resume from the server's
+ * `completedChunks` rather than our own (possibly stale) view of progress.
+ */
+async function uploadChunk(
+  jobId: string,
+  index: number,
+  entries: unknown[],
+): Promise<ImportJob> {
+  let lastError: unknown;
+  for (let attempt = 0; attempt < CHUNK_MAX_ATTEMPTS; attempt++) {
+    try {
+      const res = await apiFetch<{ data: ImportJob }>(
+        `/import/jobs/${jobId}/chunks/${index}`,
+        { method: "PUT", body: JSON.stringify(entries) },
+      );
+      return res.data;
+    } catch (err) {
+      lastError = err;
+      await sleep(1000 * 2 ** attempt);
+      try {
+        const res = await apiFetch<{ data: ImportJob }>(`/import/jobs/${jobId}`);
+        // The server already has this chunk (only the response was lost)
+        if (res.data.completedChunks > index) return res.data;
+      } catch {
+        // Still offline — fall through to the next attempt
+      }
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error("Chunk upload failed");
+}
+
 export default function Import() {
   const navigate = useNavigate();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [status, setStatus] = useState<ImportStatus | null>(null);
   const [uploadState, setUploadState] = useState<UploadState>("idle");
   const [files, setFiles] = useState<FileProgress[]>([]);
+  const [reading, setReading] = useState<ReadProgress[]>([]);
+  const readAbortRef = useRef<AbortController | null>(null);
+  const [previews, setPreviews] = useState<FilePreview[]>([]);
   const [totals, setTotals] = useState<ImportResult>({
     total: 0,
     imported: 0,
     skipped: 0,
     duplicates: 0,
-    skipReasons: { tooShort: 0, noTrackName: 0, noSpotifyUri: 0, noArtistName: 0 },
+    skipReasons: { noTrackName: 0, noSpotifyUri: 0, noArtistName: 0 },
   });
   const [dragOver, setDragOver] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [deleteState, setDeleteState] = useState<"idle" | "deleting" | "done" | "error">("idle");
   const [deleteError, setDeleteError] = useState<string | null>(null);
+  // Unfinished jobs from earlier sessions — re-selecting the same file resumes them
+  const [resumableJobs, setResumableJobs] = useState<ImportJob[]>([]);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  // Matching legacy "Account data" plays to Spotify track IDs
+  const [resolveState, setResolveState] = useState<"idle" | "resolving" | "done" | "error">("idle");
+  const [resolveTotals, setResolveTotals] = useState({ resolved: 0, unresolved: 0 });
+  // Completed uploads, each of which can be rolled back on its own
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [rollbackTarget, setRollbackTarget] = useState<ImportBatch | null>(null);
+  const [rollbackState, setRollbackState] = useState<"idle" | "rolling-back" | "error">("idle");
 
   const fetchStatus = useCallback(() => {
     apiFetch<{ data: ImportStatus }>("/import/status")
@@ -38,58 +150,175 @@ export default function Import() {
       .catch(() => {});
   }, []);
 
+  const fetchJobs = useCallback(() => {
+    apiFetch<{ data: ImportJob[] }>("/import/jobs")
+      .then((res) =>
+        setResumableJobs((res.data ?? []).filter((j) => j.status !== "completed")),
+      )
+      .catch(() => {});
+  }, []);
+
+  const fetchBatches = useCallback(() => {
+    apiFetch<{ data: ImportBatch[] }>("/import/batches")
+      .then((res) => setBatches((res.data ?? []).filter((b) => b.completedAt)))
+      .catch(() => {});
+  }, []);
+
   useEffect(() => {
     fetchStatus();
-  }, [fetchStatus]);
-
-  const extractJsonFromZip = async (file: File): Promise<File[]> => {
-    const buffer = await file.arrayBuffer();
-    const unzipped = unzipSync(new Uint8Array(buffer));
-    const jsonFiles: File[] = [];
-    for (const [path, data] of Object.entries(unzipped)) {
-      if (
-        path.endsWith(".json") &&
-        !path.startsWith("__MACOSX") &&
-        !path.includes("/.__")
-      ) {
-        const copy = new Uint8Array(data.length);
-        copy.set(data);
-        const blob = new Blob([copy.buffer as ArrayBuffer], { type: "application/json" });
-        const fileName = path.split("/").pop() || path;
-        jsonFiles.push(
-          new File([blob], fileName, { type: "application/json" }),
-        );
+    fetchJobs();
+    fetchBatches();
+  }, [fetchStatus, fetchJobs, fetchBatches]);
+
+  // Poll the active job so progress reflects what the server has committed,
+  // not just what this tab has sent.
+  useEffect(() => {
+    if (!activeJobId) return;
+    const timer = setInterval(() => {
+      apiFetch<{ data: ImportJob }>(`/import/jobs/${activeJobId}`)
+        .then((res) =>
+          setFiles((prev) =>
+            prev.map((f) => (f.job?.id === res.data.id ? { ...f, job: res.data } : f)),
+          ),
+        )
+        .catch(() => {});
+    }, JOB_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [activeJobId]);
+
+  /**
+   * Upload one JSON or CSV file as a chunked import job. If the server already
+   * has an unfinished job for this file, upload resumes at its next chunk; a
+   * file that was already imported is refused before any chunk is sent.
+   */
+  const uploadFile = async (
+    parsed: ParsedExport,
+    onJob: (job: ImportJob) => void,
+  ): Promise<ImportJob> => {
+    const { entries, fileHash } = parsed;
+
+    const totalChunks = Math.max(1, Math.ceil(entries.length / IMPORT_CHUNK_SIZE));
+    let created: { data: ImportJob };
+    try {
+      created = await apiFetch<{ data: ImportJob }>("/import/jobs", {
+        method: "POST",
+        body: JSON.stringify({ fileName: parsed.name, fileSize: parsed.size, totalChunks, fileHash }),
+      });
+    } catch (err) {
+      if (err instanceof Error && err.message.includes("409")) {
+        throw new Error("このファイルはインポート済みです");
       }
+      throw err;
+    }
+
+    let job = created.data;
+    onJob(job);
+    setActiveJobId(job.id);
+
+    while (job.completedChunks < job.totalChunks) {
+      const index = job.completedChunks;
+      const chunk = entries.slice(index * IMPORT_CHUNK_SIZE, (index + 1) * IMPORT_CHUNK_SIZE);
+      job = await uploadChunk(job.id, index, chunk);
+      onJob(job);
     }
-    return jsonFiles;
+
+    return job;
   };
 
+  /**
+   * Read the selected files in the archive worker, then dry-run each history
+   * file they contain. Nothing is written until the user confirms the
+   * summary (see startImport).
+   */
   const processFiles = useCallback(
     async (fileList: FileList | File[]) => {
-      const allFiles = Array.from(fileList);
-
-      // Separate JSON and ZIP files
-      const jsonFiles: File[] = allFiles.filter((f) =>
-        f.name.endsWith(".json"),
+      const sources = Array.from(fileList).filter(
+        (f) => f.name.endsWith(".json") || f.name.endsWith(".csv") || f.name.endsWith(".zip"),
       );
-      const zipFiles = allFiles.filter((f) => f.name.endsWith(".zip"));
 
-      // Extract JSON files from ZIPs
-      for (const zip of zipFiles) {
-        try {
-          const extracted = await extractJsonFromZip(zip);
-          jsonFiles.push(...extracted);
-        } catch {
-          console.error(`Failed to extract ${zip.name}`);
-        }
-      }
-
-      if (jsonFiles.length === 0) {
+      if (sources.length === 0) {
         setUploadState("error");
         setFiles([{ name: "エラー", status: "error" }]);
         return;
       }
 
+      setUploadState("reading");
+      setFiles([]);
+      const progress: ReadProgress[] = sources.map((f) => ({
+        name: f.name,
+        size: f.size,
+        loaded: 0,
+        status: "reading",
+      }));
+      setReading([...progress]);
+
+      const results: FilePreview[] = [];
+      const controller = new AbortController();
+      readAbortRef.current = controller;
+      try {
+        await readExportFiles(
+          sources,
+          (message) => {
+            const source = progress[message.index];
+            if (message.type === "progress") {
+              source.loaded = message.loaded;
+            } else if (message.type === "done") {
+              source.status = "done";
+              source.loaded = source.size;
+              results.push(...message.files);
+            } else {
+              source.status = "error";
+              results.push({ name: source.name, error: message.message });
+            }
+            setReading([...progress]);
+          },
+          controller.signal,
+        );
+      } catch (err) {
+        setReading([]);
+        if (err instanceof DOMException && err.name === "AbortError") {
+          setUploadState("idle");
+        } else {
+          setUploadState("error");
+          setFiles([
+            { name: "エラー", status: "error", error: err instanceof Error ? err.message : "Unknown error" },
+          ]);
+        }
+        return;
+      } finally {
+        readAbortRef.current = null;
+      }
+
+      setReading([]);
+      setUploadState("previewing");
+      const previewed: FilePreview[] = [];
+      for (const result of results) {
+        if (result.parsed) {
+          try {
+            previewed.push({ ...result, preview: await previewFile(result.parsed.entries) });
+          } catch (err) {
+            previewed.push({ ...result, error: err instanceof Error ? err.message : "Unknown error" });
+          }
+        } else {
+          previewed.push(result);
+        }
+        setPreviews([...previewed]);
+      }
+      setUploadState("confirming");
+    },
+    [],
+  );
+
+  /** Stop the archive worker mid-read and return to the drop zone. */
+  const cancelReading = () => {
+    readAbortRef.current?.abort();
+  };
+
+  /** Import the previewed files that could be read, one job per file. */
+  const startImport = useCallback(
+    async () => {
+      const jsonFiles = previews.flatMap((p) => (p.parsed && p.preview ? [p.parsed] : []));
+      setPreviews([]);
       setUploadState("uploading");
       const progress: FileProgress[] = jsonFiles.map((f) => ({
         name: f.name,
@@ -102,7 +331,7 @@ export default function Import() {
         imported: 0,
         skipped: 0,
         duplicates: 0,
-        skipReasons: { tooShort: 0, noTrackName: 0, noSpotifyUri: 0, noArtistName: 0 },
+        skipReasons: { noTrackName: 0, noSpotifyUri: 0, noArtistName: 0 },
       };
 
       let hasError = false;
@@ -112,25 +341,21 @@ export default function Import() {
         setFiles([...progress]);
 
         try {
-          const text = await jsonFiles[i].text();
-          const json = JSON.parse(text);
-          const res = await apiFetch<{ data: ImportResult }>("/import/history", {
-            method: "POST",
-            body: JSON.stringify(json),
+          const job = await uploadFile(jsonFiles[i], (latest) => {
+            progress[i].job = latest;
+            setFiles([...progress]);
           });
+          const result = job.result;
 
           progress[i].status = "done";
-          progress[i].result = res.data;
-          accumulated.total += res.data.total;
-          accumulated.imported += res.data.imported;
-          accumulated.skipped += res.data.skipped;
-          accumulated.duplicates += res.data.duplicates;
-          if (res.data.skipReasons) {
-            accumulated.skipReasons.tooShort += res.data.skipReasons.tooShort;
-            accumulated.skipReasons.noTrackName += res.data.skipReasons.noTrackName;
-            accumulated.skipReasons.noSpotifyUri += res.data.skipReasons.noSpotifyUri;
-            accumulated.skipReasons.noArtistName += res.data.skipReasons.noArtistName;
-          }
+          progress[i].result = result;
+          accumulated.total += result.total;
+          accumulated.imported += result.imported;
+          accumulated.skipped += result.skipped;
+          accumulated.duplicates += result.duplicates;
+          accumulated.skipReasons.noTrackName += result.skipReasons.noTrackName;
+          accumulated.skipReasons.noSpotifyUri += result.skipReasons.noSpotifyUri;
+          accumulated.skipReasons.noArtistName += result.skipReasons.noArtistName;
         } catch (err) {
           progress[i].status = "error";
           progress[i].error =
@@ -142,14 +367,22 @@ export default function Import() {
         setTotals({ ...accumulated });
       }
 
+      setActiveJobId(null);
       setUploadState(hasError ? "error" : "done");
 
       // Refresh status
       fetchStatus();
+      fetchJobs();
+      fetchBatches();
     },
-    [],
+    [previews],
   );
 
+  const cancelImport = () => {
+    setPreviews([]);
+    setUploadState("idle");
+  };
+
   const handleDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
@@ -179,12 +412,54 @@ export default function Import() {
       setDeleteDialogOpen(false);
       // Re-fetch import status to update UI
       fetchStatus();
+      setBatches([]);
     } catch (err) {
       setDeleteState("error");
       setDeleteError(err instanceof Error ? err.message : "データの削除に失敗しました");
     }
   };
 
+  /** Remove the plays one upload added, leaving the rest of the history. */
+  const handleRollback = async () => {
+    if (!rollbackTarget) return;
+    setRollbackState("rolling-back");
+    try {
+      await apiFetch(`/import/batches/${rollbackTarget.id}`, { method: "DELETE" });
+      setBatches((prev) => prev.filter((b) => b.id !== rollbackTarget.id));
+      setRollbackTarget(null);
+      setRollbackState("idle");
+      fetchStatus();
+    } catch {
+      setRollbackState("error");
+    }
+  };
+
+  /**
+   * Resolve provisional tracks batch by batch until the server reports none
+   * left to search. Songs Spotify could not match stay provisional.
+   */
+  const handleResolve = async () => {
+    setResolveState("resolving");
+    const acc = { resolved: 0, unresolved: 0 };
+    setResolveTotals({ ...acc });
+    try {
+      let remaining = Infinity;
+      while (remaining > 0) {
+        const res = await apiFetch<{ data: ResolveResult }>("/vault/resolve", { method: "POST" });
+        acc.resolved += res.data.resolved;
+        acc.unresolved += res.data.unresolved;
+        setResolveTotals({ ...acc });
+        remaining = res.data.remaining;
+        // No song was searched successfully — stop rather than loop forever
+        if (res.data.resolved + res.data.unresolved === 0) break;
+      }
+      setResolveState("done");
+    } catch {
+      setResolveState("error");
+    }
+    fetchStatus();
+  };
+
   return (
     <div className="mx-auto max-w-2xl px-6 py-12">
       <h1 className="text-2xl font-bold text-white">
@@ -208,6 +483,39 @@ export default function Import() {
               {new Date(status.dateRange.to).toLocaleDateString("ja-JP")}
             </p>
           )}
+          {(status.unresolvedTracks > 0 || resolveState !== "idle") && (
+            <div className="mt-3 border-t border-white/[0.04] pt-3">
+              {status.unresolvedTracks > 0 && (
+                <p className="text-sm text-strata-slate-400">
+                  Spotifyと未照合の曲: {status.unresolvedTracks.toLocaleString()} 曲
+                </p>
+              )}
+              {resolveState === "resolving" ? (
+                <p className="mt-1 text-sm text-strata-amber-300">
+                  照合中... {resolveTotals.resolved.toLocaleString()} 曲一致
+                </p>
+              ) : (
+                status.unresolvedTracks > 0 && (
+                  <button
+                    onClick={handleResolve}
+                    className="mt-1 text-sm text-strata-amber-300 hover:text-strata-amber-400 underline underline-offset-2"
+                  >
+                    Spotifyで照合する
+                  </button>
+                )
+              )}
+              {resolveState === "done" && (
+                <p className="mt-1 text-xs text-strata-slate-500">
+                  {resolveTotals.resolved.toLocaleString()} 曲を照合しました
+                  {resolveTotals.unresolved > 0 &&
+                    `（${resolveTotals.unresolved.toLocaleString()} 曲は見つかりませんでした）`}
+                </p>
+              )}
+              {resolveState === "error" && (
+                <p className="mt-1 text-sm text-red-400">照合に失敗しました。もう一度お試しください</p>
+              )}
+            </div>
+          )}
           <div className="mt-3">
             <button
               onClick={() => { setDeleteDialogOpen(true); setDeleteState("idle"); setDeleteError(null); }}
@@ -222,6 +530,60 @@ export default function Import() {
         </div>
       )}
 
+      {/* Past uploads — each can be rolled back on its own */}
+      {batches.length > 0 && uploadState !== "uploading" && (
+        <div className="mt-6 glass-card p-4">
+          <p className="text-sm text-strata-slate-400">インポート履歴</p>
+          <ul className="mt-2 divide-y divide-white/[0.04] text-xs">
+            {batches.map((batch) => (
+              <li key={batch.id} className="flex items-center gap-3 py-2">
+                <span className="min-w-0 flex-1 truncate font-mono text-white">{batch.fileName}</span>
+                <span className="shrink-0 text-strata-slate-400">
+                  {new Date(batch.createdAt).toLocaleDateString("ja-JP")}
+                </span>
+                <span className="shrink-0 text-strata-slate-400">
+                  {batch.result.imported.toLocaleString()} 件
+                </span>
+                <button
+                  onClick={() => { setRollbackTarget(batch); setRollbackState("idle"); }}
+                  className="shrink-0 text-red-400 hover:text-red-300 underline underline-offset-2"
+                >
+                  取り消す
+                </button>
+              </li>
+            ))}
+          </ul>
+          {rollbackState === "error" && (
+            <p className="mt-2 text-sm text-red-400">取り消しに失敗しました。もう一度お試しください</p>
+          )}
+        </div>
+      )}
+
+      {/* Coverage gaps and impossible rows; keyed by play count so it reloads after an import or rollback */}
+      {status?.hasData && uploadState !== "uploading" && (
+        <ImportQuality key={status.totalTracks} />
+      )}
+
+      {/* Unfinished uploads from a previous session */}
+      {resumableJobs.length > 0 && uploadState !== "uploading" && (
+        <div className="mt-6 rounded-lg border border-strata-amber-500/30 bg-strata-amber-500/[0.05] p-4">
+          <p className="text-sm font-medium text-strata-amber-300">中断されたインポート</p>
+          <ul className="mt-2 space-y-1 text-xs text-strata-slate-400">
+            {resumableJobs.map((job) => (
+              <li key={job.id} className="flex justify-between gap-3">
+                <span className="truncate font-mono">{job.fileName}</span>
+                <span className="shrink-0">
+                  {job.completedChunks}/{job.totalChunks}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-2 text-[11px] text-strata-slate-500">
+            同じファイルを再度選択すると、続きから再開します
+          </p>
+        </div>
+      )}
+
       {/* Instructions */}
       <div className="mt-8">
         <h2 className="text-lg font-semibold text-white">
@@ -260,6 +622,14 @@ export default function Import() {
             </span>
           </li>
         </ol>
+        <p className="mt-4 text-xs text-strata-slate-500">
+          「アカウントデータ」（StreamingHistory_music_*.json）もインポートできます。
+          直近1年分のみで曲IDを含まないため、インポート後に「Spotifyで照合する」で曲を特定します
+        </p>
+        <p className="mt-2 text-xs text-strata-slate-500">
+          Last.fmのスクロブル履歴（CSV / JSONエクスポート）にも対応しています。
+          再生時間は次のスクロブルまでの間隔から推定し、Spotifyの再生と重なるスクロブルは除外します
+        </p>
       </div>
 
       {/* Drop zone */}
@@ -280,7 +650,7 @@ export default function Import() {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".json,.zip"
+          accept=".json,.zip,.csv"
           multiple
           className="hidden"
           onChange={handleFileChange}
@@ -299,13 +669,134 @@ export default function Import() {
           />
         </svg>
         <p className="mt-3 text-sm text-strata-slate-400">
-          JSONまたはZIPファイルをドラッグ＆ドロップ、またはクリックして選択
+          JSON・ZIP・CSVファイルをドラッグ＆ドロップ、またはクリックして選択
         </p>
         <p className="mt-1 text-xs text-strata-slate-500">
-          複数ファイル対応（.json / .zip）
+          複数ファイル対応（.json / .zip / .csv）
         </p>
       </div>
 
+      {/* Byte progress while the worker unzips and parses */}
+      {uploadState === "reading" && (
+        <div className="mt-6 space-y-2">
+          {reading.map((r, i) => (
+            <div
+              key={i}
+              className="rounded-lg border border-white/[0.04] bg-white/[0.02] px-4 py-3"
+            >
+              <div className="flex items-center justify-between gap-3">
+                <p className="truncate font-mono text-sm text-white">{r.name}</p>
+                <span className="shrink-0 text-xs text-strata-slate-400">
+                  {r.status === "error"
+                    ? "エラー"
+                    : `${formatBytes(r.loaded)} / ${formatBytes(r.size)}`}
+                </span>
+              </div>
+              <div className="mt-1.5 h-1 overflow-hidden rounded-full bg-white/[0.06]">
+                <div
+                  className="h-full bg-strata-amber-400 transition-all"
+                  style={{ width: `${r.size > 0 ? Math.round((r.loaded / r.size) * 100) : 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={cancelReading}
+            className="rounded-lg px-5 py-2.5 text-sm text-strata-slate-400 transition-colors hover:text-white"
+          >
+            読み込みを中止
+          </button>
+        </div>
+      )}
+
+      {/* Dry-run summary — nothing is written until confirmed */}
+      {uploadState === "previewing" && (
+        <p className="mt-6 text-sm text-strata-amber-300">
+          内容を確認中... {previews.length}件のファイルを確認しました
+        </p>
+      )}
+      {uploadState === "confirming" && (
+        <div className="mt-6 space-y-3">
+          <h3 className="font-semibold text-white">インポート内容の確認</h3>
+          {previews.map(({ name, parsed, preview, error }, i) => (
+            <div
+              key={i}
+              className="rounded-lg border border-white/[0.04] bg-white/[0.02] px-4 py-3 text-xs text-strata-slate-400"
+            >
+              <p className="truncate font-mono text-sm text-white">{name}</p>
+              {error && <p className="mt-0.5 text-red-400">{error}</p>}
+              {parsed && parsed.invalidEntries > 0 && (
+                <p className="mt-0.5 text-strata-amber-300">
+                  形式が不正な {parsed.invalidEntries.toLocaleString()} 件を事前に除外しました
+                </p>
+              )}
+              {preview && (
+                <>
+                  {preview.dateRange && (
+                    <p className="mt-0.5">
+                      {new Date(preview.dateRange.from).toLocaleDateString("ja-JP")}
+                      {" - "}
+                      {new Date(preview.dateRange.to).toLocaleDateString("ja-JP")}
+                    </p>
+                  )}
+                  <p className="mt-0.5">
+                    <span className="text-strata-green-400">{preview.newPlays.toLocaleString()} 件新規</span> /
+                    {" "}{preview.duplicates.toLocaleString()} 件重複 /
+                    {" "}{preview.skipped.toLocaleString()} 件スキップ
+                  </p>
+                  {preview.skipped > 0 && (
+                    <div className="mt-1.5 space-y-0.5 text-[11px] text-strata-slate-500">
+                      {preview.skipReasons.noTrackName > 0 && (
+                        <p>・トラック名なし: {preview.skipReasons.noTrackName.toLocaleString()}件</p>
+                      )}
+                      {preview.skipReasons.noSpotifyUri > 0 && (
+                        <p>・Spotify URI なし: {preview.skipReasons.noSpotifyUri.toLocaleString()}件</p>
+                      )}
+                      {preview.skipReasons.noArtistName > 0 && (
+                        <p>・アーティスト名なし: {preview.skipReasons.noArtistName.toLocaleString()}件</p>
+                      )}
+                    </div>
+                  )}
+                  {preview.topArtists.length > 0 && (
+                    <p className="mt-1.5">
+                      よく聴いたアーティスト:{" "}
+                      {preview.topArtists
+                        .slice(0, 5)
+                        .map((a) => `${a.artistName}（${a.count.toLocaleString()}）`)
+                        .join("、")}
+                    </p>
+                  )}
+                  {preview.overlap && (
+                    <p className="mt-1.5 text-strata-amber-300">
+                      既存データと重なる期間:{" "}
+                      {new Date(preview.overlap.from).toLocaleDateString("ja-JP")}
+                      {" - "}
+                      {new Date(preview.overlap.to).toLocaleDateString("ja-JP")}
+                      （{preview.overlap.existingPlays.toLocaleString()} 件）
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+          <div className="flex gap-3">
+            <button
+              onClick={startImport}
+              disabled={!previews.some((p) => p.preview)}
+              className="rounded-lg bg-strata-amber-500 px-5 py-2.5 text-sm font-medium text-white transition-colors hover:bg-strata-amber-400 disabled:opacity-50"
+            >
+              インポートする
+            </button>
+            <button
+              onClick={cancelImport}
+              className="rounded-lg px-5 py-2.5 text-sm text-strata-slate-400 transition-colors hover:text-white"
+            >
+              キャンセル
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* File progress */}
       {files.length > 0 && (
         <div className="mt-6 space-y-2">
@@ -318,6 +809,16 @@ export default function Import() {
                 <p className="truncate font-mono text-sm text-white">
                   {f.name}
                 </p>
+                {f.status === "uploading" && f.job && (
+                  <div className="mt-1.5 h-1 overflow-hidden rounded-full bg-white/[0.06]">
+                    <div
+                      className="h-full bg-strata-amber-400 transition-all"
+                      style={{
+                        width: `${Math.round((f.job.completedChunks / f.job.totalChunks) * 100)}%`,
+                      }}
+                    />
+                  </div>
+                )}
                 {f.result && (
                   <>
                     <p className="mt-0.5 text-xs text-strata-slate-400">
@@ -327,9 +828,6 @@ export default function Import() {
                     </p>
                     {f.result.skipped > 0 && f.result.skipReasons && (
                       <div className="mt-1.5 space-y-0.5 text-[11px] text-strata-slate-500">
-                        {f.result.skipReasons.tooShort > 0 && (
-                          <p>・30秒未満の再生: {f.result.skipReasons.tooShort.toLocaleString()}件</p>
-                        )}
                         {f.result.skipReasons.noTrackName > 0 && (
                           <p>・トラック名なし: {f.result.skipReasons.noTrackName.toLocaleString()}件</p>
                         )}
@@ -353,7 +851,9 @@ export default function Import() {
                 )}
                 {f.status === "uploading" && (
                   <span className="text-xs text-strata-amber-300">
-                    処理中...
+                    {f.job
+                      ? `処理中 ${f.job.completedChunks}/${f.job.totalChunks}`
+                      : "処理中..."}
                   </span>
                 )}
                 {f.status === "done" && (
@@ -394,9 +894,6 @@ export default function Import() {
               </p>
               {totals.skipped > 0 && totals.skipReasons && (
                 <div className="mt-1.5 space-y-0.5 text-[11px] text-strata-slate-500">
-                  {totals.skipReasons.tooShort > 0 && (
-                    <p>・30秒未満: {totals.skipReasons.tooShort.toLocaleString()}</p>
-                  )}
                   {totals.skipReasons.noTrackName > 0 && (
                     <p>・トラック名なし: {totals.skipReasons.noTrackName.toLocaleString()}</p>
                   )}
@@ -418,7 +915,7 @@ export default function Import() {
           </div>
           {totals.skipped > 0 && (
             <p className="mt-3 text-[11px] text-strata-slate-500">
-              ※ 短い再生やメタデータ不完全な記録を自動除外しています
+              ※ メタデータ不完全な記録を自動除外しています
             </p>
           )}
           <button
@@ -438,6 +935,8 @@ export default function Import() {
         </div>
       )}
 
+      <ListenBrainzToken />
+
       <ConfirmDialog
         open={deleteDialogOpen}
         title="インポートデータの削除"
@@ -447,6 +946,20 @@ export default function Import() {
         onConfirm={handleDelete}
         onCancel={() => setDeleteDialogOpen(false)}
       />
+
+      <ConfirmDialog
+        open={rollbackTarget !== null}
+        title="インポートの取り消し"
+        description={
+          rollbackTarget
+            ? `${rollbackTarget.fileName} で追加された ${rollbackTarget.result.imported.toLocaleString()} 件の再生を削除します。\nほかのファイルのデータはそのまま残ります。`
+            : ""
+        }
+        confirmLabel="削除する"
+        loading={rollbackState === "rolling-back"}
+        onConfirm={handleRollback}
+        onCancel={() => setRollbackTarget(null)}
+      />
     </div>
   );
 }
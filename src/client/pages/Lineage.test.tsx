@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
+import Lineage from "./Lineage";
+
+vi.mock("../lib/api", () => ({
+  apiFetch: vi.fn(),
+}));
+
+import { apiFetch } from "../lib/api";
+
+const mockedApiFetch = apiFetch as ReturnType<typeof vi.fn>;
+
+// Mock ResizeObserver for D3 charts
+beforeEach(() => {
+  vi.stubGlobal(
+    "ResizeObserver",
+    class {
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    },
+  );
+});
+
+function renderLineage() {
+  return render(
+    <MemoryRouter>
+      <Lineage />
+    </MemoryRouter>,
+  );
+}
+
+const mockLineageData = {
+  data: {
+    years: [2012, 2015],
+    nodes: [
+      { artist: "RHCP", plays: { 2012: 40, 2015: 10 }, firstYear: 2012 },
+      { artist: "Creephyp", plays: { 2015: 30 }, firstYear: 2015 },
+    ],
+    edges: [
+      { source: "RHCP", target: "Creephyp", transitions: { 2015: 3 }, gatewayYear: 2015 },
+    ],
+  },
+};
+
+describe("Lineage", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("renders page header", () => {
+    mockedApiFetch.mockReturnValue(new Promise(() => {}));
+    renderLineage();
+    expect(screen.getByText("Sonic Lineage")).toBeTruthy();
+    expect(screen.getByText("あなたの音楽的系譜")).toBeTruthy();
+  });
+
+  it("fetches lineage data on mount", () => {
+    mockedApiFetch.mockReturnValue(new Promise(() => {}));
+    renderLineage();
+    expect(mockedApiFetch).toHaveBeenCalledWith("/strata/lineage");
+  });
+
+  it("shows loading skeleton while fetching", () => {
+    mockedApiFetch.mockReturnValue(new Promise(() => {}));
+    const { container } = renderLineage();
+    expect(container.querySelector(".animate-pulse")).toBeTruthy();
+  });
+
+  it("shows empty state when no data", async () => {
+    mockedApiFetch.mockResolvedValue({ data: { years: [], nodes: [], edges: [] } });
+    renderLineage();
+    await waitFor(() => {
+      expect(screen.getByText("データがありません")).toBeTruthy();
+    });
+    expect(screen.getByText("データをインポート")).toBeTruthy();
+  });
+
+  it("shows error state on fetch failure", async () => {
+    mockedApiFetch.mockRejectedValue(new Error("Network error"));
+    renderLineage();
+    await waitFor(() => {
+      expect(screen.getByText("Failed to load lineage data")).toBeTruthy();
+    });
+    expect(screen.getByText("Retry")).toBeTruthy();
+  });
+
+  it("starts on the last year with its gateways", async () => {
+    mockedApiFetch.mockResolvedValue(mockLineageData);
+    const { container } = renderLineage();
+    await waitFor(() => {
+      expect(screen.getByText("Gateways")).toBeTruthy();
+    });
+    expect((screen.getByLabelText("Year") as HTMLInputElement).value).toBe("1");
+    const gateway = screen.getByText("→").closest("li")!;
+    expect(gateway.textContent).toBe("2015RHCP→Creephyp");
+    expect(container.querySelector("svg")).toBeTruthy();
+  });
+
+  it("rewinds the graph with the year slider", async () => {
+    mockedApiFetch.mockResolvedValue(mockLineageData);
+    renderLineage();
+    const slider = await screen.findByLabelText("Year");
+
+    fireEvent.change(slider, { target: { value: "0" } });
+    expect(screen.getByText("2012年までのゲートウェイはありません")).toBeTruthy();
+  });
+});
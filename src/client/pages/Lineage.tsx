@@ -0,0 +1,479 @@
+/**
+ * Sonic Lineage — D3.js force-directed network of how the user's artists
+ * lead into one another, from /api/strata/lineage.
+ *
+ * Each node is an artist, sized by plays and colored by the year it first
+ * appears. Lines are transitions between two artists inside a listening
+ * session, thicker the more often they happen; dashed amber arrows are
+ * gateways, where the target artist was discovered right after the source.
+ *
+ * Features:
+ *   - Year slider (with Play) that grows the graph one year at a time,
+ *     keeping node positions so the network visibly extends
+ *   - Tooltip on hover with plays up to the selected year
+ *   - Draggable nodes
+ *   - Gateway list for the selected year
+ *   - Responsive via ResizeObserver
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import * as d3 from "d3";
+import { apiFetch } from "../lib/api";
+import { Link } from "react-router-dom";
+
+// --- Types ---
+
+interface LineageNode {
+  artist: string;
+  plays: Record<string, number>;
+  firstYear: number;
+}
+
+interface LineageEdge {
+  source: string;
+  target: string;
+  transitions: Record<string, number>;
+  gatewayYear: number | null;
+}
+
+interface LineageData {
+  years: number[];
+  nodes: LineageNode[];
+  edges: LineageEdge[];
+}
+
+/** A node as drawn at the selected year. */
+interface GraphNode extends d3.SimulationNodeDatum {
+  id: string;
+  plays: number;
+  firstYear: number;
+}
+
+/** An edge as drawn at the selected year. */
+interface GraphLink extends d3.SimulationLinkDatum<GraphNode> {
+  weight: number;
+  gateway: boolean;
+}
+
+// Chart colors (matching Patterns.tsx conventions)
+const BORDER = "#2a2a2a";
+const SLATE_400 = "#8b9eac";
+const AMBER_300 = "#d4a04a";
+
+const CHART_HEIGHT = 560;
+
+// Slider autoplay: one year per step
+const PLAY_STEP_MS = 1200;
+
+/** Sum of `values` for every year up to and including `year`. */
+function upTo(values: Record<string, number>, year: number): number {
+  let total = 0;
+  for (const [y, n] of Object.entries(values)) {
+    if (Number(y) <= year) total += n;
+  }
+  return total;
+}
+
+/** The graph as it stood at the end of `year`. */
+function graphAt(data: LineageData, year: number): { nodes: GraphNode[]; links: GraphLink[] } {
+  const nodes = data.nodes
+    .filter((n) => n.firstYear <= year)
+    .map((n) => ({ id: n.artist, plays: upTo(n.plays, year), firstYear: n.firstYear }));
+
+  const links = data.edges
+    .map((e) => ({
+      source: e.source,
+      target: e.target,
+      weight: upTo(e.transitions, year),
+      gateway: e.gatewayYear !== null && e.gatewayYear <= year,
+    }))
+    .filter((l) => l.weight > 0);
+
+  return { nodes, links };
+}
+
+export default function Lineage() {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+  // Last drawn position of every artist, so a redraw grows the graph in place
+  const positionsRef = useRef(new Map<string, { x: number; y: number }>());
+
+  const [data, setData] = useState<LineageData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [yearIndex, setYearIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  const load = useCallback(() => {
+    setLoading(true);
+    setError(null);
+
+    apiFetch<{ data: LineageData }>("/strata/lineage")
+      .then((res) => {
+        setData(res.data);
+        // Start on the full graph; the slider rewinds it
+        setYearIndex(Math.max(res.data.years.length - 1, 0));
+      })
+      .catch(() => setError("Failed to load lineage data"))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Fetch lineage data on mount
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const years = data?.years ?? [];
+  const year = years[yearIndex];
+
+  // Autoplay: advance a year per step, stopping on the last one
+  useEffect(() => {
+    if (!playing) return;
+    if (yearIndex >= years.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setYearIndex((i) => i + 1), PLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [playing, yearIndex, years.length]);
+
+  const graph = useMemo(
+    () => (data && year !== undefined ? graphAt(data, year) : null),
+    [data, year],
+  );
+
+  // --- D3 force graph rendering ---
+  const draw = useCallback(() => {
+    const container = containerRef.current;
+    const svg = svgRef.current;
+    if (!container || !svg || !data || !graph) return;
+
+    const width = container.clientWidth;
+    const height = CHART_HEIGHT;
+    const positions = positionsRef.current;
+
+    // New artists start beside an artist they link to, or at the center
+    const nodes: GraphNode[] = graph.nodes.map((n) => {
+      const known = positions.get(n.id);
+      if (known) return { ...n, ...known };
+      const neighbor = graph.links
+        .map((l) => (l.source === n.id ? l.target : l.target === n.id ? l.source : null))
+        .map((id) => (typeof id === "string" ? positions.get(id) : undefined))
+        .find(Boolean);
+      const origin = neighbor ?? { x: width / 2, y: height / 2 };
+      return { ...n, x: origin.x + (Math.random() - 0.5) * 30, y: origin.y + (Math.random() - 0.5) * 30 };
+    });
+    const links: GraphLink[] = graph.links.map((l) => ({ ...l }));
+
+    const maxPlays = d3.max(nodes, (n) => n.plays) ?? 1;
+    const radius = d3.scaleSqrt().domain([0, maxPlays]).range([4, 28]);
+    const maxWeight = d3.max(links, (l) => l.weight) ?? 1;
+    const strokeWidth = d3.scaleSqrt().domain([1, maxWeight]).range([0.75, 6]);
+
+    // Earth tones from the first year to the last
+    const color = d3
+      .scaleSequential(d3.interpolateYlOrBr)
+      .domain([data.years[0] - 1, data.years[data.years.length - 1] + 1]);
+
+    const sel = d3.select(svg);
+    sel.selectAll("*").remove();
+    sel.attr("width", width).attr("height", height);
+
+    // Arrowhead for gateway edges
+    sel
+      .append("defs")
+      .append("marker")
+      .attr("id", "lineage-arrow")
+      .attr("viewBox", "0 -5 10 10")
+      .attr("refX", 10)
+      .attr("markerWidth", 6)
+      .attr("markerHeight", 6)
+      .attr("orient", "auto")
+      .append("path")
+      .attr("d", "M0,-5L10,0L0,5")
+      .attr("fill", AMBER_300);
+
+    const g = sel.append("g");
+    const tooltip = d3.select(tooltipRef.current);
+
+    const link = g
+      .append("g")
+      .selectAll("line")
+      .data(links)
+      .join("line")
+      .attr("stroke", (d) => (d.gateway ? AMBER_300 : SLATE_400))
+      .attr("stroke-opacity", (d) => (d.gateway ? 0.9 : 0.35))
+      .attr("stroke-width", (d) => strokeWidth(d.weight))
+      .attr("stroke-dasharray", (d) => (d.gateway ? "4 3" : null))
+      .attr("marker-end", (d) => (d.gateway ? "url(#lineage-arrow)" : null));
+
+    const node = g
+      .append("g")
+      .selectAll<SVGCircleElement, GraphNode>("circle")
+      .data(nodes)
+      .join("circle")
+      .attr("r", (d) => radius(d.plays))
+      .attr("fill", (d) => color(d.firstYear))
+      .attr("stroke", BORDER)
+      .attr("stroke-width", 1.5)
+      .style("cursor", "grab")
+      .on("mouseenter mousemove", (event, d) => {
+        tooltip
+          .style("display", "block")
+          .style("left", `${event.pageX + 12}px`)
+          .style("top", `${event.pageY - 12}px`);
+        tooltip.html(
+          `<div class="text-xs font-medium text-white">${d.id}</div>` +
+          `<div class="text-xs text-strata-slate-400 mt-0.5">${d.plays.toLocaleString()} plays · since ${d.firstYear}</div>`,
+        );
+      })
+      .on("mouseleave", () => {
+        tooltip.style("display", "none");
+      });
+
+    // Label only the larger nodes to keep the graph readable
+    const label = g
+      .append("g")
+      .selectAll("text")
+      .data(nodes.filter((n) => radius(n.plays) >= 10))
+      .join("text")
+      .text((d) => d.id)
+      .attr("fill", "white")
+      .attr("font-size", "10px")
+      .attr("text-anchor", "middle")
+      .style("pointer-events", "none");
+
+    const simulation = d3
+      .forceSimulation(nodes)
+      .force(
+        "link",
+        d3
+          .forceLink<GraphNode, GraphLink>(links)
+          .id((d) => d.id)
+          .distance(90)
+          .strength((l) => Math.min(0.1 + l.weight / maxWeight, 1)),
+      )
+      .force("charge", d3.forceManyBody().strength(-160))
+      .force("center", d3.forceCenter(width / 2, height / 2))
+      .force("collide", d3.forceCollide<GraphNode>().radius((d) => radius(d.plays) + 4))
+      // A graph that only grew settles faster than a fresh one
+      .alpha(positions.size > 0 ? 0.4 : 1);
+
+    simulation.on("tick", () => {
+      link
+        .attr("x1", (d) => (d.source as GraphNode).x!)
+        .attr("y1", (d) => (d.source as GraphNode).y!)
+        .attr("x2", (d) => {
+          // Gateway arrows stop at the target's edge rather than its center
+          const s = d.source as GraphNode;
+          const t = d.target as GraphNode;
+          if (!d.gateway) return t.x!;
+          const dist = Math.hypot(t.x! - s.x!, t.y! - s.y!) || 1;
+          return t.x! - ((t.x! - s.x!) / dist) * radius(t.plays);
+        })
+        .attr("y2", (d) => {
+          const s = d.source as GraphNode;
+          const t = d.target as GraphNode;
+          if (!d.gateway) return t.y!;
+          const dist = Math.hypot(t.x! - s.x!, t.y! - s.y!) || 1;
+          return t.y! - ((t.y! - s.y!) / dist) * radius(t.plays);
+        });
+      node.attr("cx", (d) => d.x!).attr("cy", (d) => d.y!);
+      label.attr("x", (d) => d.x!).attr("y", (d) => d.y! - radius(d.plays) - 4);
+      for (const n of nodes) positions.set(n.id, { x: n.x!, y: n.y! });
+    });
+
+    node.call(
+      d3
+        .drag<SVGCircleElement, GraphNode>()
+        .on("start", (event, d) => {
+          if (!event.active) simulation.alphaTarget(0.3).restart();
+          d.fx = d.x;
+          d.fy = d.y;
+        })
+        .on("drag", (event, d) => {
+          d.fx = event.x;
+          d.fy = event.y;
+        })
+        .on("end", (event, d) => {
+          if (!event.active) simulation.alphaTarget(0);
+          d.fx = null;
+          d.fy = null;
+        }),
+    );
+
+    return () => {
+      simulation.stop();
+    };
+  }, [data, graph]);
+
+  // Draw on mount and re-draw on year change / container resize
+  useEffect(() => {
+    if (!loading && !error && graph && graph.nodes.length > 0) {
+      let cleanup = draw();
+      const observer = new ResizeObserver(() => {
+        cleanup?.();
+        cleanup = draw();
+      });
+      if (containerRef.current) observer.observe(containerRef.current);
+      return () => {
+        observer.disconnect();
+        cleanup?.();
+      };
+    }
+  }, [loading, error, graph, draw]);
+
+  const hasData = data !== null && data.nodes.length > 0;
+
+  // Gateways up to the selected year, newest first
+  const gateways =
+    data && year !== undefined
+      ? data.edges
+          .filter((e) => e.gatewayYear !== null && e.gatewayYear <= year)
+          .sort((a, b) => b.gatewayYear! - a.gatewayYear!)
+      : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold">Sonic Lineage</h1>
+        <p className="mt-1 text-sm text-strata-slate-400">
+          あなたの音楽的系譜
+        </p>
+      </div>
+
+      {/* Loading state */}
+      {loading && <GraphSkeleton />}
+
+      {/* Error state */}
+      {!loading && error && (
+        <div className="rounded-lg border border-red-900/50 bg-red-950/30 p-6 text-center">
+          <p className="text-red-400">{error}</p>
+          <button
+            onClick={load}
+            className="mt-3 rounded-lg bg-strata-amber-600 px-4 py-2 text-sm text-white transition-colors hover:bg-strata-amber-500"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!loading && !error && !hasData && (
+        <div className="rounded-lg border border-strata-border bg-strata-surface p-12 text-center">
+          <p className="text-lg text-strata-slate-400">
+            データがありません
+          </p>
+          <p className="mt-2 text-sm text-strata-slate-500">
+            再生履歴をインポートすると、音楽的系譜が表示されます
+          </p>
+          <Link
+            to="/import"
+            className="mt-4 inline-block rounded-lg bg-strata-amber-600 px-4 py-2 text-sm text-white transition-colors hover:bg-strata-amber-500"
+          >
+            データをインポート
+          </Link>
+        </div>
+      )}
+
+      {/* Force graph */}
+      {!loading && !error && hasData && (
+        <>
+          {/* Year slider */}
+          <div className="flex items-center gap-4 rounded-xl border border-strata-border bg-strata-surface p-4">
+            <button
+              onClick={() => {
+                // Replay from the first year when already at the end
+                if (!playing && yearIndex >= years.length - 1) setYearIndex(0);
+                setPlaying(!playing);
+              }}
+              disabled={years.length < 2}
+              className="rounded-lg bg-strata-amber-600 px-3 py-1.5 text-sm text-white transition-colors hover:bg-strata-amber-500 disabled:opacity-40"
+            >
+              {playing ? "Pause" : "Play"}
+            </button>
+            <input
+              type="range"
+              aria-label="Year"
+              min={0}
+              max={years.length - 1}
+              value={yearIndex}
+              onChange={(e) => {
+                setPlaying(false);
+                setYearIndex(Number(e.target.value));
+              }}
+              className="flex-1 accent-strata-amber-500"
+            />
+            <span className="w-12 text-right font-mono text-sm text-strata-amber-300">
+              {year}
+            </span>
+          </div>
+
+          <div className="rounded-xl border border-strata-border bg-strata-surface p-4">
+            <div ref={containerRef} className="w-full">
+              <svg ref={svgRef} className="w-full" />
+            </div>
+            <div className="mt-3 flex flex-wrap gap-4 text-xs text-strata-slate-500">
+              <span className="flex items-center gap-2">
+                <span className="inline-block h-0.5 w-6 bg-strata-slate-400" />
+                セッション内の遷移
+              </span>
+              <span className="flex items-center gap-2">
+                <span className="inline-block w-6 border-t-2 border-dashed border-strata-amber-300" />
+                ゲートウェイ（直後に初めて聴いたアーティスト）
+              </span>
+            </div>
+          </div>
+
+          {/* Gateways */}
+          <div className="rounded-xl border border-strata-border bg-strata-surface p-4">
+            <h2 className="mb-3 text-sm font-medium text-strata-slate-400">
+              Gateways
+            </h2>
+            {gateways.length === 0 ? (
+              <p className="text-xs text-strata-slate-500">
+                {year}年までのゲートウェイはありません
+              </p>
+            ) : (
+              <ul className="space-y-1.5">
+                {gateways.map((e) => (
+                  <li
+                    key={`${e.source}→${e.target}`}
+                    className="flex items-center gap-2 text-xs"
+                  >
+                    <span className="font-mono text-strata-slate-500">{e.gatewayYear}</span>
+                    <span className="text-white">{e.source}</span>
+                    <span className="text-strata-amber-300">→</span>
+                    <span className="text-white">{e.target}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Tooltip (portal-style, positioned absolutely) */}
+      <div
+        ref={tooltipRef}
+        className="pointer-events-none fixed z-50 hidden rounded-lg border border-strata-border bg-strata-surface px-3 py-2 shadow-lg"
+        style={{ display: "none" }}
+      />
+    </div>
+  );
+}
+
+/** Loading skeleton mimicking the slider and graph layout. */
+function GraphSkeleton() {
+  return (
+    <div className="space-y-6">
+      <div className="rounded-xl border border-strata-border bg-strata-surface p-4">
+        <div className="h-8 animate-pulse rounded bg-strata-border/30" />
+      </div>
+      <div className="rounded-xl border border-strata-border bg-strata-surface p-4">
+        <div className="h-[560px] animate-pulse rounded-lg bg-strata-border/30" />
+      </div>
+    </div>
+  );
+}
@@ -31,6 +31,7 @@ const mockMosaicData = {
           playCount: 50,
           msPlayed: 12000000,
           trackSpotifyId: "sp_track_1",
+          albumArt: null,
         },
         {
           month: "2025-01",
@@ -39,6 +40,7 @@ const mockMosaicData = {
           playCount: 30,
           msPlayed: 7200000,
           trackSpotifyId: "sp_track_2",
+          albumArt: null,
         },
       ],
     },
@@ -52,6 +54,7 @@ const mockMosaicData = {
           playCount: 40,
           msPlayed: 9600000,
           trackSpotifyId: "sp_track_3",
+          albumArt: null,
         },
       ],
     },
@@ -128,6 +131,30 @@ describe("Mosaic", () => {
     });
   });
 
+  it("uses catalogued album art and only fetches the rest", async () => {
+    const [january, february] = mockMosaicData.data;
+    const withArt = {
+      data: [
+        {
+          ...january,
+          albums: [{ ...january.albums[0], albumArt: "https://example.com/catalog1.jpg" }, january.albums[1]],
+        },
+        february,
+      ],
+    };
+    mockedApiFetch.mockImplementation((path: string) => {
+      if (path.includes("/vault/mosaic")) return Promise.resolve(withArt);
+      if (path.includes("/vault/metadata")) return Promise.resolve(mockMetadata);
+      return Promise.reject(new Error("unexpected"));
+    });
+
+    const { container } = renderMosaic();
+    await waitFor(() => {
+      expect(container.querySelector('img[src="https://example.com/catalog1.jpg"]')).toBeTruthy();
+    });
+    expect(mockedApiFetch).toHaveBeenCalledWith("/vault/metadata?trackIds=sp_track_2,sp_track_3");
+  });
+
   it("shows error state on fetch failure", async () => {
     mockedApiFetch.mockRejectedValue(new Error("Failed to load data"));
     renderMosaic();
@@ -3,9 +3,11 @@
  * month, where more-listened albums appear larger and more prominent.
  *
  * Data flow:
- *   1. Fetch /api/vault/mosaic  -> monthly top albums with a representative trackSpotifyId
- *   2. Collect all unique trackSpotifyIds
- *   3. Batch-fetch album art via /api/vault/metadata?trackIds=...  (batches of 50)
+ *   1. Fetch /api/vault/mosaic  -> monthly top albums with a representative
+ *      trackSpotifyId, and album art for albums already in the track catalog
+ *   2. Collect the trackSpotifyIds of albums still without art
+ *   3. Batch-fetch their art via /api/vault/metadata?trackIds=...  (batches of 50),
+ *      which also adds them to the catalog for next time
  *   4. Render the timeline
  */
 
@@ -22,6 +24,7 @@ interface MosaicAlbum {
   playCount: number;
   msPlayed: number;
   trackSpotifyId: string;
+  albumArt: string | null;
 }
 
 interface MosaicMonth {
@@ -99,7 +102,7 @@ export default function Mosaic() {
     if (months.length === 0) return;
 
     const allTrackIds = months.flatMap((m) =>
-      m.albums.map((a) => a.trackSpotifyId).filter(Boolean),
+      m.albums.filter((a) => !a.albumArt).map((a) => a.trackSpotifyId).filter(Boolean),
     );
     const newIds = allTrackIds.filter((id) => !fetchedMetadataRef.current.has(id));
     // Deduplicate
@@ -215,7 +218,7 @@ function MonthRow({
               key={`${album.trackSpotifyId}-${album.albumName}`}
               album={album}
               size={size}
-              albumArt={meta?.albumArt}
+              albumArt={album.albumArt ?? meta?.albumArt}
             />
           );
         })}
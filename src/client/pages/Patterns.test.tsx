@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
 import { MemoryRouter } from "react-router-dom";
 import Patterns from "./Patterns";
 
@@ -185,4 +186,39 @@ describe("Patterns", () => {
     expect(screen.getByText("好きな季節")).toBeTruthy();
     expect(screen.getByText("冬")).toBeTruthy();
   });
+
+  it("narrows the time charts to a chosen genre", async () => {
+    setupMocks();
+    const fallback = mockedApiFetch.getMockImplementation()!;
+    mockedApiFetch.mockImplementation((path: string) =>
+      path === "/vault/genres" ? Promise.resolve({ data: ["indie rock"] }) : fallback(path),
+    );
+    renderPatterns();
+    const user = userEvent.setup();
+    await user.selectOptions(await screen.findByLabelText("ジャンル"), "indie rock");
+
+    await waitFor(() => {
+      const calls = mockedApiFetch.mock.calls.map((c: unknown[]) => c[0] as string);
+      expect(calls).toContain("/patterns/hourly?genre=indie+rock");
+      expect(calls.filter((c) => c.startsWith("/patterns/devices")).every((c) => !c.includes("genre"))).toBe(true);
+    });
+  });
+
+  it("charts tempo and key distributions once tracks are analysed", async () => {
+    setupMocks();
+    const fallback = mockedApiFetch.getMockImplementation()!;
+    mockedApiFetch.mockImplementation((path: string) => {
+      if (path.startsWith("/patterns/tempo")) return Promise.resolve({ data: [{ bpm: 120, playCount: 40 }] });
+      if (path.startsWith("/patterns/keys")) {
+        return Promise.resolve({ data: [{ key: 9, mode: "minor", playCount: 12 }] });
+      }
+      return fallback(path);
+    });
+    renderPatterns();
+
+    await waitFor(() => {
+      expect(screen.getByText("テンポ分布（BPM）")).toBeTruthy();
+    });
+    expect(screen.getByText("キー分布")).toBeTruthy();
+  });
 });
@@ -8,16 +8,26 @@
  *   3. **Monthly area chart** — smoothed line + gradient area showing seasonal
  *      variation. Answers "which months am I most active?"
  *
+ * Below them, tempo (BPM) and key distributions show what the user's music
+ * is like, once tracks have been analysed (see the Vault's structure columns).
+ *
  * All charts share the same warm amber palette and are responsive via
  * ResizeObserver, re-drawing on container width changes.
  *
- * Filters: year selector allows filtering by year. The "listener type" badge
+ * Filters: year selector allows filtering by year; the genre selector narrows
+ * the overview and the three time charts to one genre. The "listener type" badge
  * (e.g. "Night Owl") provides a fun personality label derived from the data.
  */
 import { useState, useEffect, useRef, useCallback } from "react";
 import * as d3 from "d3";
 import { apiFetch } from "../lib/api";
 import { Link } from "react-router-dom";
+import {
+  formatKey,
+  TEMPO_BUCKET_BPM,
+  type KeyCount,
+  type TempoBucket,
+} from "../../shared/validators/audio-features";
 
 // --- Types ---
 
@@ -268,6 +278,110 @@ function HourlyChart({ data }: { data: HourlyData[] }) {
   );
 }
 
+// --- Distribution Bar Chart ---
+// Vertical bars for labelled buckets (tempo ranges, keys), the largest one
+// highlighted like the hourly peak. Labels are thinned to every `labelEvery`th.
+
+function DistributionChart({
+  data,
+  labelEvery = 1,
+}: {
+  data: { label: string; count: number }[];
+  labelEvery?: number;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const draw = useCallback(() => {
+    const container = containerRef.current;
+    const svg = svgRef.current;
+    if (!container || !svg) return;
+
+    const width = container.clientWidth;
+    const height = 260;
+    const m = CHART_MARGIN;
+    const innerW = width - m.left - m.right;
+    const innerH = height - m.top - m.bottom;
+
+    const maxCount = d3.max(data, (d) => d.count) ?? 0;
+    const peak = data.reduce((max, d) => (d.count > max.count ? d : max), data[0]);
+
+    const x = d3
+      .scaleBand<string>()
+      .domain(data.map((d) => d.label))
+      .range([0, innerW])
+      .padding(0.15);
+
+    const y = d3
+      .scaleLinear()
+      .domain([0, maxCount * 1.1])
+      .nice()
+      .range([innerH, 0]);
+
+    const sel = d3.select(svg);
+    sel.selectAll("*").remove();
+    sel.attr("width", width).attr("height", height);
+
+    const g = sel
+      .append("g")
+      .attr("transform", `translate(${m.left},${m.top})`);
+
+    g.append("g")
+      .attr("class", "grid")
+      .call(
+        d3
+          .axisLeft(y)
+          .ticks(5)
+          .tickSize(-innerW)
+          .tickFormat(() => ""),
+      )
+      .call((g) => g.select(".domain").remove())
+      .call((g) =>
+        g.selectAll(".tick line").attr("stroke", BORDER).attr("stroke-opacity", 0.7),
+      );
+
+    g.selectAll("rect")
+      .data(data)
+      .join("rect")
+      .attr("x", (d) => x(d.label)!)
+      .attr("y", (d) => y(d.count))
+      .attr("width", x.bandwidth())
+      .attr("height", (d) => innerH - y(d.count))
+      .attr("rx", 2)
+      .attr("fill", (d) => (d === peak ? AMBER_300 : AMBER_500));
+
+    g.append("g")
+      .attr("transform", `translate(0,${innerH})`)
+      .call(
+        d3
+          .axisBottom(x)
+          .tickValues(data.filter((_, i) => i % labelEvery === 0).map((d) => d.label)),
+      )
+      .call((g) => g.select(".domain").attr("stroke", BORDER))
+      .call((g) => g.selectAll(".tick line").attr("stroke", BORDER))
+      .call((g) => g.selectAll(".tick text").attr("fill", SLATE_400).attr("font-size", "11px"));
+
+    g.append("g")
+      .call(d3.axisLeft(y).ticks(5))
+      .call((g) => g.select(".domain").remove())
+      .call((g) => g.selectAll(".tick line").remove())
+      .call((g) => g.selectAll(".tick text").attr("fill", SLATE_400).attr("font-size", "11px"));
+  }, [data, labelEvery]);
+
+  useEffect(() => {
+    draw();
+    const observer = new ResizeObserver(draw);
+    if (containerRef.current) observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, [draw]);
+
+  return (
+    <div ref={containerRef} className="w-full">
+      <svg ref={svgRef} className="w-full" />
+    </div>
+  );
+}
+
 // --- Weekly Horizontal Bar Chart ---
 // Horizontal layout (bars grow left-to-right) works well for 7 short labels
 // and makes it easy to compare day-of-week values at a glance. The busiest
@@ -574,12 +688,22 @@ export default function Patterns() {
   const [timeArtists, setTimeArtists] = useState<TimeArtistsData | null>(null);
   const [devices, setDevices] = useState<DeviceData[] | null>(null);
   const [shuffle, setShuffle] = useState<ShuffleData | null>(null);
+  const [tempo, setTempo] = useState<TempoBucket[] | null>(null);
+  const [keys, setKeys] = useState<KeyCount[] | null>(null);
 
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedYear, setSelectedYear] = useState<string>("");
+  const [selectedGenre, setSelectedGenre] = useState<string>("");
+  const [genres, setGenres] = useState<string[]>([]);
+
+  useEffect(() => {
+    apiFetch<{ data: string[] }>("/vault/genres")
+      .then((res) => setGenres(Array.isArray(res.data) ? res.data : []))
+      .catch(() => {});
+  }, []);
 
-  // Fetch all pattern datasets in parallel. Re-runs when year changes.
+  // Fetch all pattern datasets in parallel. Re-runs when year or genre changes.
   const fetchData = useCallback(async () => {
     setLoading(true);
     setError(null);
@@ -587,14 +711,31 @@ export default function Patterns() {
     const params = new URLSearchParams();
     if (selectedYear) params.set("year", selectedYear);
     const qs = params.toString() ? `?${params.toString()}` : "";
+    // Artists, devices and shuffle are not broken down by genre
+    if (selectedGenre) params.set("genre", selectedGenre);
+    const genreQs = params.toString() ? `?${params.toString()}` : "";
+
+    // Tempo and key need analysed tracks — optional, the page works without them
+    Promise.all([
+      apiFetch<{ data: TempoBucket[] }>(`/patterns/tempo${genreQs}`),
+      apiFetch<{ data: KeyCount[] }>(`/patterns/keys${genreQs}`),
+    ])
+      .then(([tempoRes, keysRes]) => {
+        setTempo(tempoRes.data);
+        setKeys(keysRes.data);
+      })
+      .catch(() => {
+        setTempo(null);
+        setKeys(null);
+      });
 
     try {
       const [overviewRes, hourlyRes, weeklyRes, monthlyRes, timeArtistsRes, devicesRes, shuffleRes] =
         await Promise.all([
-          apiFetch<{ data: OverviewData }>(`/patterns/overview${qs}`),
-          apiFetch<{ data: HourlyData[] }>(`/patterns/hourly${qs}`),
-          apiFetch<{ data: WeeklyData[] }>(`/patterns/weekly${qs}`),
-          apiFetch<{ data: MonthlyData[] }>(`/patterns/monthly${qs}`),
+          apiFetch<{ data: OverviewData }>(`/patterns/overview${genreQs}`),
+          apiFetch<{ data: HourlyData[] }>(`/patterns/hourly${genreQs}`),
+          apiFetch<{ data: WeeklyData[] }>(`/patterns/weekly${genreQs}`),
+          apiFetch<{ data: MonthlyData[] }>(`/patterns/monthly${genreQs}`),
           apiFetch<{ data: TimeArtistsData }>(`/patterns/time-artists${qs}`),
           apiFetch<{ data: DeviceData[] }>(`/patterns/devices${qs}`),
           apiFetch<{ data: ShuffleData }>(`/patterns/shuffle${qs}`),
@@ -612,7 +753,7 @@ export default function Patterns() {
     } finally {
       setLoading(false);
     }
-  }, [selectedYear]);
+  }, [selectedYear, selectedGenre]);
 
   useEffect(() => {
     fetchData();
@@ -633,22 +774,44 @@ export default function Patterns() {
             あなたのリスニング傾向を時間軸で分析
           </p>
         </div>
-        <div>
-          <label className="mb-1 block text-xs text-strata-slate-500">
-            年
-          </label>
-          <select
-            value={selectedYear}
-            onChange={(e) => setSelectedYear(e.target.value)}
-            className="rounded-lg border border-white/[0.06] bg-white/[0.03] px-3 py-1.5 text-sm text-white focus:border-strata-amber-500 focus:outline-none"
-          >
-            <option value="">すべて</option>
-            {(overview?.availableYears ?? []).map((y) => (
-              <option key={y} value={String(y)}>
-                {y}
-              </option>
-            ))}
-          </select>
+        <div className="flex items-end gap-3">
+          <div>
+            <label className="mb-1 block text-xs text-strata-slate-500">
+              年
+            </label>
+            <select
+              value={selectedYear}
+              onChange={(e) => setSelectedYear(e.target.value)}
+              className="rounded-lg border border-white/[0.06] bg-white/[0.03] px-3 py-1.5 text-sm text-white focus:border-strata-amber-500 focus:outline-none"
+            >
+              <option value="">すべて</option>
+              {(overview?.availableYears ?? []).map((y) => (
+                <option key={y} value={String(y)}>
+                  {y}
+                </option>
+              ))}
+            </select>
+          </div>
+          {genres.length > 0 && (
+            <div>
+              <label htmlFor="patterns-genre" className="mb-1 block text-xs text-strata-slate-500">
+                ジャンル
+              </label>
+              <select
+                id="patterns-genre"
+                value={selectedGenre}
+                onChange={(e) => setSelectedGenre(e.target.value)}
+                className="rounded-lg border border-white/[0.06] bg-white/[0.03] px-3 py-1.5 text-sm text-white focus:border-strata-amber-500 focus:outline-none"
+              >
+                <option value="">すべて</option>
+                {genres.map((g) => (
+                  <option key={g} value={g}>
+                    {g}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
       </div>
 
@@ -716,6 +879,24 @@ export default function Patterns() {
             {monthly && <MonthlyChart data={monthly} />}
           </ChartSection>
 
+          {tempo && tempo.length > 0 && (
+            <ChartSection title="テンポ分布（BPM）">
+              <DistributionChart
+                data={tempo.map((b) => ({ label: `${b.bpm}–${b.bpm + TEMPO_BUCKET_BPM - 1}`, count: b.playCount }))}
+                labelEvery={2}
+              />
+            </ChartSection>
+          )}
+
+          {keys && keys.length > 0 && (
+            <ChartSection title="キー分布">
+              <DistributionChart
+                data={keys.map((k) => ({ label: formatKey(k.key, k.mode)!, count: k.playCount }))}
+                labelEvery={keys.length > 12 ? 2 : 1}
+              />
+            </ChartSection>
+          )}
+
           {timeArtists && <TimeArtistsSection data={timeArtists} />}
 
           {/* Device breakdown + Shuffle ratio */}
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, fireEvent } from "@testing-library/react";
+import { ToastProvider } from "../components/Toast";
+import Settings from "./Settings";
+
+vi.mock("../lib/api", () => ({
+  apiFetch: vi.fn(),
+}));
+
+import { apiFetch } from "../lib/api";
+
+const mockedApiFetch = apiFetch as ReturnType<typeof vi.fn>;
+
+function renderSettings() {
+  return render(
+    <ToastProvider>
+      <Settings />
+    </ToastProvider>,
+  );
+}
+
+const mockSettings = {
+  data: {
+    timeZone: "Asia/Tokyo",
+    history: [{ id: 3, timeZone: "Europe/Berlin", from: "2019-04-01", to: "2021-08-31" }],
+  },
+};
+
+const mockThreshold = { data: { minPlayMs: 30_000 } };
+
+/** Queue the GETs the page makes on mount, artist aliases last. */
+function mockLoad() {
+  mockedApiFetch
+    .mockResolvedValueOnce(mockSettings)
+    .mockResolvedValueOnce(mockThreshold)
+    .mockResolvedValueOnce({ data: [] });
+}
+
+describe("Settings page", () => {
+  beforeEach(() => {
+    mockedApiFetch.mockReset();
+  });
+
+  it("shows the saved time zone and past periods", async () => {
+    mockLoad();
+    renderSettings();
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("現在のタイムゾーン")).toHaveValue("Asia/Tokyo");
+    });
+    expect(screen.getByText("2019-04-01 – 2021-08-31")).toBeInTheDocument();
+  });
+
+  it("saves a new time zone", async () => {
+    mockLoad();
+    renderSettings();
+
+    const select = await screen.findByLabelText("現在のタイムゾーン");
+    fireEvent.change(select, { target: { value: "UTC" } });
+    mockedApiFetch.mockResolvedValueOnce({ data: { timeZone: "UTC" } });
+    fireEvent.click(screen.getByText("保存"));
+
+    await waitFor(() => {
+      expect(mockedApiFetch).toHaveBeenCalledWith("/settings/time-zone", {
+        method: "PUT",
+        body: JSON.stringify({ timeZone: "UTC" }),
+      });
+    });
+  });
+
+  it("removes a past period", async () => {
+    mockLoad();
+    renderSettings();
+
+    await screen.findByText("2019-04-01 – 2021-08-31");
+    mockedApiFetch.mockResolvedValueOnce({ data: { deleted: true } });
+    fireEvent.click(screen.getByText("削除"));
+
+    await waitFor(() => {
+      expect(screen.queryByText("2019-04-01 – 2021-08-31")).not.toBeInTheDocument();
+    });
+    expect(mockedApiFetch).toHaveBeenCalledWith("/settings/time-zone/history/3", { method: "DELETE" });
+  });
+
+  it("saves a new listen threshold in milliseconds", async () => {
+    mockLoad();
+    renderSettings();
+
+    const input = await screen.findByLabelText("最短再生時間（秒）");
+    expect(input).toHaveValue(30);
+    fireEvent.change(input, { target: { value: "10" } });
+    mockedApiFetch.mockResolvedValueOnce({ data: { minPlayMs: 10_000 } });
+    fireEvent.click(screen.getByText("しきい値を保存"));
+
+    await waitFor(() => {
+      expect(mockedApiFetch).toHaveBeenCalledWith("/settings/listen-threshold", {
+        method: "PUT",
+        body: JSON.stringify({ minPlayMs: 10_000 }),
+      });
+    });
+  });
+
+  it("shows an error when settings fail to load", async () => {
+    mockedApiFetch.mockRejectedValueOnce(new Error("API error: 500"));
+    renderSettings();
+
+    await waitFor(() => {
+      expect(screen.getByText("API error: 500")).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Settings — the time zone stats are bucketed in, how long a play must
+ * last to count as a listen, and which artist names count as one artist.
+ *
+ * Data flow:
+ *   1. Fetch /api/settings/time-zone and /api/settings/listen-threshold
+ *   2. Saving the zone PUTs it; periods are added (POST) and removed (DELETE)
+ *      individually under /api/settings/time-zone/history
+ *   3. Saving the threshold PUTs it in milliseconds (entered in seconds)
+ *   4. Artist aliases are managed by <ArtistAliases /> under /api/vault/artists
+ *
+ * Heatmap days, pattern hours, night-owl stats, the time capsule, and the
+ * drift report all follow the user's wall clock, so a new user defaults to
+ * UTC until they pick (or detect) their zone here.
+ */
+
+import { useState, useEffect } from "react";
+import { apiFetch } from "../lib/api";
+import { useToast } from "../components/Toast";
+import ArtistAliases from "../components/ArtistAliases";
+import {
+  DEFAULT_MIN_PLAY_MS,
+  MAX_MIN_PLAY_MS,
+  type ListenThreshold,
+  type TimeZonePeriod,
+  type TimeZoneSettings,
+} from "../../shared/validators/settings";
+
+// --- Helpers ---
+
+function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function availableTimeZones(current: string): string[] {
+  const zones = typeof Intl.supportedValuesOf === "function"
+    ? Intl.supportedValuesOf("timeZone")
+    : [];
+  // supportedValuesOf omits "UTC" in some runtimes; keep the current zone selectable
+  return Array.from(new Set(["UTC", current, ...zones])).sort();
+}
+
+// --- Main Component ---
+
+export default function Settings() {
+  const toast = useToast();
+  const [timeZone, setTimeZone] = useState("UTC");
+  const [savedTimeZone, setSavedTimeZone] = useState("UTC");
+  const [history, setHistory] = useState<TimeZonePeriod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [period, setPeriod] = useState({ timeZone: "UTC", from: "", to: "" });
+  const [busy, setBusy] = useState(false);
+  const [minPlaySec, setMinPlaySec] = useState(String(DEFAULT_MIN_PLAY_MS / 1000));
+  const [savedMinPlayMs, setSavedMinPlayMs] = useState(DEFAULT_MIN_PLAY_MS);
+
+  useEffect(() => {
+    Promise.all([
+      apiFetch<{ data: TimeZoneSettings }>("/settings/time-zone"),
+      apiFetch<{ data: ListenThreshold }>("/settings/listen-threshold"),
+    ])
+      .then(([zoneRes, thresholdRes]) => {
+        setTimeZone(zoneRes.data.timeZone);
+        setSavedTimeZone(zoneRes.data.timeZone);
+        setHistory(zoneRes.data.history);
+        setMinPlaySec(String(thresholdRes.data.minPlayMs / 1000));
+        setSavedMinPlayMs(thresholdRes.data.minPlayMs);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load settings"))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const zones = availableTimeZones(timeZone);
+  const detected = browserTimeZone();
+  const minPlayMs = Math.round(Number(minPlaySec) * 1000);
+  const minPlayValid =
+    minPlaySec.trim() !== "" && Number.isFinite(minPlayMs) && minPlayMs >= 0 && minPlayMs <= MAX_MIN_PLAY_MS;
+
+  const saveTimeZone = async () => {
+    setBusy(true);
+    try {
+      await apiFetch("/settings/time-zone", {
+        method: "PUT",
+        body: JSON.stringify({ timeZone }),
+      });
+      setSavedTimeZone(timeZone);
+      toast.success("タイムゾーンを保存しました");
+    } catch {
+      toast.error("タイムゾーンの保存に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveThreshold = async () => {
+    setBusy(true);
+    try {
+      await apiFetch("/settings/listen-threshold", {
+        method: "PUT",
+        body: JSON.stringify({ minPlayMs }),
+      });
+      setSavedMinPlayMs(minPlayMs);
+      toast.success("しきい値を保存しました");
+    } catch {
+      toast.error("しきい値の保存に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addPeriod = async () => {
+    setBusy(true);
+    try {
+      const res = await apiFetch<{ data: TimeZonePeriod }>("/settings/time-zone/history", {
+        method: "POST",
+        body: JSON.stringify(period),
+      });
+      setHistory((prev) => [...prev, res.data].sort((a, b) => a.from.localeCompare(b.from)));
+      setPeriod({ timeZone: "UTC", from: "", to: "" });
+    } catch (err) {
+      toast.error(
+        err instanceof Error && err.message.includes("409")
+          ? "既存の期間と重なっています"
+          : "期間の追加に失敗しました",
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const removePeriod = async (id: number) => {
+    setBusy(true);
+    try {
+      await apiFetch(`/settings/time-zone/history/${id}`, { method: "DELETE" });
+      setHistory((prev) => prev.filter((p) => p.id !== id));
+    } catch {
+      toast.error("期間の削除に失敗しました");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-2xl space-y-6 pb-12">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-white">Settings</h1>
+        <p className="text-strata-slate-400 mt-1 text-sm">
+          ヒートマップやリスニングパターンの集計方法を設定します
+        </p>
+      </div>
+
+      {/* Error */}
+      {error && (
+        <div className="rounded-lg border border-red-900/50 bg-red-950/20 p-4 text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
+      {!loading && !error && (
+        <>
+          {/* Current zone */}
+          <section className="glass-card space-y-3 p-4">
+            <h2 className="text-lg font-semibold text-white">タイムゾーン</h2>
+            <div className="flex flex-wrap items-center gap-3">
+              <label htmlFor="time-zone" className="sr-only">
+                現在のタイムゾーン
+              </label>
+              <select
+                id="time-zone"
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                className="rounded-lg border border-white/[0.06] bg-white/[0.03] px-3 py-2 text-sm text-white outline-none"
+              >
+                {zones.map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={saveTimeZone}
+                disabled={busy || timeZone === savedTimeZone}
+                className="bg-strata-amber-500 hover:bg-strata-amber-400 rounded-lg px-4 py-2 text-sm font-medium text-white transition-colors disabled:opacity-50"
+              >
+                保存
+              </button>
+            </div>
+            {detected !== timeZone && (
+              <button
+                type="button"
+                onClick={() => setTimeZone(detected)}
+                className="text-strata-amber-300 hover:text-strata-amber-400 text-sm underline underline-offset-2"
+              >
+                この端末のタイムゾーン（{detected}）を使う
+              </button>
+            )}
+          </section>
+
+          {/* Past periods */}
+          <section className="glass-card space-y-3 p-4">
+            <div>
+              <h2 className="text-lg font-semibold text-white">過去のタイムゾーン</h2>
+              <p className="text-strata-slate-400 mt-1 text-sm">
+                引っ越し前など、別のタイムゾーンで暮らしていた期間の再生はその時刻で集計します
+              </p>
+            </div>
+
+            {history.length > 0 && (
+              <ul className="divide-strata-border/30 divide-y">
+                {history.map((p) => (
+                  <li key={p.id} className="flex items-center gap-3 py-2 text-sm">
+                    <span className="flex-1 text-white">{p.timeZone}</span>
+                    <span className="text-strata-slate-400 font-mono text-xs">
+                      {p.from} – {p.to}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => removePeriod(p.id)}
+                      disabled={busy}
+                      className="text-xs text-red-400 underline underline-offset-2 hover:text-red-300 disabled:opacity-50"
+                    >
+                      削除
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex flex-wrap items-end gap-2">
+              <label className="text-strata-slate-400 text-xs">
+                タイムゾーン
+                <select
+                  value={period.timeZone}
+                  onChange={(e) => setPeriod({ ...period, timeZone: e.target.value })}
+                  className="mt-1 block rounded-lg border border-white/[0.06] bg-white/[0.03] px-3 py-2 text-sm text-white outline-none"
+                >
+                  {zones.map((zone) => (
+                    <option key={zone} value={zone}>
+                      {zone}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-strata-slate-400 text-xs">
+                開始日
+                <input
+                  type="date"
+                  value={period.from}
+                  onChange={(e) => setPeriod({ ...period, from: e.target.value })}
+                  className="mt-1 block rounded-lg border border-white/[0.06] bg-white/[0.03] px-3 py-2 text-sm text-white outline-none"
+                />
+              </label>
+              <label className="text-strata-slate-400 text-xs">
+                終了日
+                <input
+                  type="date"
+                  value={period.to}
+                  onChange={(e) => setPeriod({ ...period, to: e.target.value })}
+                  className="mt-1 block rounded-lg border border-white/[0.06] bg-white/[0.03] px-3 py-2 text-sm text-white outline-none"
+                />
+              </label>
+              <button
+                type="button"
+                onClick={addPeriod}
+                disabled={busy || !period.from || !period.to}
+                className="text-strata-amber-300 hover:text-strata-amber-400 px-2 py-2 text-sm underline underline-offset-2 disabled:opacity-50"
+              >
+                期間を追加
+              </button>
+            </div>
+          </section>
+
+          {/* Listen threshold */}
+          <section className="glass-card space-y-3 p-4">
+            <div>
+              <h2 className="text-lg font-semibold text-white">再生のしきい値</h2>
+              <p className="text-strata-slate-400 mt-1 text-sm">
+                これより短い再生はスキップとして統計から除外します。再生データはすべて保存されているので、変更はすぐに反映されます
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <label htmlFor="min-play-sec" className="text-strata-slate-400 text-sm">
+                最短再生時間（秒）
+              </label>
+              <input
+                id="min-play-sec"
+                type="number"
+                min={0}
+                max={MAX_MIN_PLAY_MS / 1000}
+                step={1}
+                value={minPlaySec}
+                onChange={(e) => setMinPlaySec(e.target.value)}
+                className="w-24 rounded-lg border border-white/[0.06] bg-white/[0.03] px-3 py-2 text-sm text-white outline-none"
+              />
+              <button
+                type="button"
+                onClick={saveThreshold}
+                disabled={busy || !minPlayValid || minPlayMs === savedMinPlayMs}
+                className="bg-strata-amber-500 hover:bg-strata-amber-400 rounded-lg px-4 py-2 text-sm font-medium text-white transition-colors disabled:opacity-50"
+              >
+                しきい値を保存
+              </button>
+            </div>
+          </section>
+
+          <ArtistAliases />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, waitFor, fireEvent } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
+import Shows from "./Shows";
+
+vi.mock("../lib/api", () => ({
+  apiFetch: vi.fn(),
+}));
+
+import { apiFetch } from "../lib/api";
+
+const mockedApiFetch = apiFetch as ReturnType<typeof vi.fn>;
+
+function renderShows() {
+  return render(
+    <MemoryRouter>
+      <Shows />
+    </MemoryRouter>,
+  );
+}
+
+const mockShows = {
+  data: [
+    {
+      showName: "The Daily",
+      contentType: "episode",
+      episodeCount: 4,
+      completedEpisodes: 3,
+      playCount: 5,
+      totalMsPlayed: 7_200_000,
+      lastPlayedAt: "2024-06-15T10:30:00Z",
+    },
+    {
+      showName: "Dune",
+      contentType: "audiobook",
+      episodeCount: 2,
+      completedEpisodes: 0,
+      playCount: 2,
+      totalMsPlayed: 1_800_000,
+      lastPlayedAt: "2024-06-10T10:30:00Z",
+    },
+  ],
+};
+
+const mockEpisodes = {
+  data: [
+    {
+      episodeSpotifyId: "ep1",
+      episodeName: "Monday Briefing",
+      playCount: 1,
+      totalMsPlayed: 1_500_000,
+      completed: true,
+      firstPlayedAt: "2024-06-15T10:30:00Z",
+      lastPlayedAt: "2024-06-15T10:30:00Z",
+    },
+  ],
+};
+
+describe("Shows", () => {
+  beforeEach(() => {
+    mockedApiFetch.mockReset();
+  });
+
+  it("renders per-show listening time and completion", async () => {
+    mockedApiFetch.mockResolvedValueOnce(mockShows);
+    renderShows();
+
+    await waitFor(() => {
+      expect(screen.getByText("The Daily")).toBeInTheDocument();
+    });
+    expect(screen.getByText("Dune")).toBeInTheDocument();
+    expect(screen.getByText("2h")).toBeInTheDocument();
+    expect(screen.getByText("完走 75%")).toBeInTheDocument();
+    expect(screen.getByText(/Audiobook/)).toBeInTheDocument();
+  });
+
+  it("loads a show's episodes when expanded", async () => {
+    mockedApiFetch.mockResolvedValueOnce(mockShows).mockResolvedValueOnce(mockEpisodes);
+    renderShows();
+
+    await waitFor(() => {
+      expect(screen.getByText("The Daily")).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByText("The Daily"));
+
+    await waitFor(() => {
+      expect(screen.getByText("Monday Briefing")).toBeInTheDocument();
+    });
+    expect(mockedApiFetch).toHaveBeenLastCalledWith("/shows/episodes?show=The+Daily");
+  });
+
+  it("shows an empty state without spoken-word plays", async () => {
+    mockedApiFetch.mockResolvedValueOnce({ data: [] });
+    renderShows();
+
+    await waitFor(() => {
+      expect(screen.getByText("ポッドキャストの再生履歴はまだありません")).toBeInTheDocument();
+    });
+  });
+
+  it("shows an error when the request fails", async () => {
+    mockedApiFetch.mockRejectedValueOnce(new Error("Network error"));
+    renderShows();
+
+    await waitFor(() => {
+      expect(screen.getByText("Network error")).toBeInTheDocument();
+    });
+  });
+});
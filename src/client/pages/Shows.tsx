@@ -0,0 +1,228 @@
+/**
+ * Shows — podcast and audiobook listening, kept apart from music stats.
+ *
+ * Data flow:
+ *   1. Fetch /api/shows -> per-show listening time and episode completion
+ *   2. Expanding a show fetches /api/shows/episodes?show=... (once per show)
+ *
+ * Completion is based on how plays ended (reason_end = "trackdone"), since
+ * the export does not include episode durations.
+ */
+
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { apiFetch } from "../lib/api";
+import type { ContentType } from "../../shared/validators/history";
+
+// --- Types ---
+
+interface Show {
+  showName: string;
+  contentType: Exclude<ContentType, "track">;
+  episodeCount: number;
+  completedEpisodes: number;
+  playCount: number;
+  totalMsPlayed: number;
+  lastPlayedAt: string;
+}
+
+interface Episode {
+  episodeSpotifyId: string;
+  episodeName: string;
+  playCount: number;
+  totalMsPlayed: number;
+  completed: boolean;
+  firstPlayedAt: string;
+  lastPlayedAt: string;
+}
+
+// --- Helpers ---
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const remaining = minutes % 60;
+  return remaining > 0 ? `${hours}h ${remaining}m` : `${hours}h`;
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("ja-JP", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+// --- Skeleton ---
+
+function ShowSkeleton() {
+  return (
+    <div className="border-strata-border/50 flex items-center gap-4 border-b px-4 py-4">
+      <div className="flex-1 space-y-2">
+        <div className="bg-strata-border h-4 w-48 animate-pulse rounded" />
+        <div className="bg-strata-border h-3 w-32 animate-pulse rounded" />
+      </div>
+      <div className="bg-strata-border h-4 w-16 animate-pulse rounded" />
+    </div>
+  );
+}
+
+// --- Main Component ---
+
+export default function Shows() {
+  const [shows, setShows] = useState<Show[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [episodes, setEpisodes] = useState<Record<string, Episode[]>>({});
+
+  useEffect(() => {
+    apiFetch<{ data: Show[] }>("/shows")
+      .then((res) => {
+        setShows(res.data);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load shows"))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const toggleShow = (showName: string) => {
+    if (expanded === showName) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(showName);
+    if (episodes[showName]) return;
+
+    const params = new URLSearchParams({ show: showName });
+    apiFetch<{ data: Episode[] }>(`/shows/episodes?${params.toString()}`)
+      .then((res) => setEpisodes((prev) => ({ ...prev, [showName]: res.data })))
+      .catch(() => setEpisodes((prev) => ({ ...prev, [showName]: [] })));
+  };
+
+  const totalMs = shows.reduce((sum, s) => sum + s.totalMsPlayed, 0);
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6 pb-12">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-white">Shows</h1>
+        <p className="text-strata-slate-400 mt-1 text-sm">
+          ポッドキャストとオーディオブック — 音楽の統計とは別に集計しています
+        </p>
+      </div>
+
+      {/* Error */}
+      {error && (
+        <div className="rounded-lg border border-red-900/50 bg-red-950/20 p-4 text-sm text-red-400">
+          {error}
+          <button
+            onClick={() => window.location.reload()}
+            className="ml-3 underline hover:text-red-300"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {/* Loading */}
+      {loading && (
+        <div className="glass-card">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <ShowSkeleton key={i} />
+          ))}
+        </div>
+      )}
+
+      {/* Empty state */}
+      {!loading && !error && shows.length === 0 && (
+        <div className="px-6 py-16 text-center">
+          <p className="text-strata-slate-400">ポッドキャストの再生履歴はまだありません</p>
+          <Link
+            to="/import"
+            className="text-strata-amber-300 hover:text-strata-amber-200 mt-3 inline-block text-sm underline"
+          >
+            Import your streaming history
+          </Link>
+        </div>
+      )}
+
+      {/* Show list */}
+      {!loading && shows.length > 0 && (
+        <>
+          <p className="text-strata-slate-400 text-sm">
+            {shows.length.toLocaleString()} 番組 · 合計 {formatDuration(totalMs)}
+          </p>
+          <div className="glass-card overflow-hidden">
+            {shows.map((show) => {
+              const completion = show.episodeCount > 0
+                ? Math.round((show.completedEpisodes / show.episodeCount) * 100)
+                : 0;
+              const isOpen = expanded === show.showName;
+
+              return (
+                <div key={`${show.contentType}-${show.showName}`} className="border-strata-border/30 border-b last:border-b-0">
+                  <button
+                    type="button"
+                    onClick={() => toggleShow(show.showName)}
+                    className="hover:bg-white/[0.04] flex w-full items-center gap-4 px-4 py-3 text-left transition-colors"
+                  >
+                    <span className="min-w-0 flex-1">
+                      <span className="block truncate text-sm font-medium text-white">
+                        {show.showName}
+                      </span>
+                      <span className="text-strata-slate-400 block text-xs">
+                        {show.contentType === "audiobook" ? "Audiobook" : "Podcast"}
+                        {" · "}
+                        {show.episodeCount.toLocaleString()} エピソード
+                        {" · "}
+                        最終再生 {formatDate(show.lastPlayedAt)}
+                      </span>
+                    </span>
+                    <span className="w-24 text-right">
+                      <span className="block font-mono text-sm text-white">
+                        {formatDuration(show.totalMsPlayed)}
+                      </span>
+                      <span className="text-strata-slate-500 block text-xs">
+                        完走 {completion}%
+                      </span>
+                    </span>
+                  </button>
+
+                  {isOpen && (
+                    <ul className="bg-white/[0.02] px-4 pb-3">
+                      {!episodes[show.showName] ? (
+                        <li className="text-strata-slate-500 py-2 text-xs">Loading...</li>
+                      ) : (
+                        episodes[show.showName].map((ep) => (
+                          <li
+                            key={ep.episodeSpotifyId}
+                            className="flex items-center gap-3 py-2 text-sm"
+                          >
+                            <span
+                              className={`w-4 text-center text-xs ${ep.completed ? "text-strata-amber-300" : "text-strata-slate-500"}`}
+                              title={ep.completed ? "完走" : "途中まで"}
+                            >
+                              {ep.completed ? "✓" : "–"}
+                            </span>
+                            <span className="min-w-0 flex-1 truncate text-strata-slate-300">
+                              {ep.episodeName}
+                            </span>
+                            <span className="text-strata-slate-500 font-mono text-xs">
+                              {formatDuration(ep.totalMsPlayed)}
+                            </span>
+                          </li>
+                        ))
+                      )}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -5,10 +5,19 @@
  *
  * Displays album art, track metadata, listening stats (play count, total time,
  * first/last played, average per session), and a Spotify Embed player.
+ * Provisional tracks (not yet matched to Spotify) get no link or player.
+ *
+ * Stats cover the whole canonical track: when other Spotify IDs (remasters,
+ * deluxe editions) are merged with this one, they are listed under
+ * "Versions" and can be unmerged there. Tempo, key and energy are shown
+ * under "Structure" once the track has been analysed.
  */
 import { useState, useEffect } from "react";
 import { useParams, Link } from "react-router-dom";
 import { apiFetch } from "../lib/api";
+import { isProvisionalTrackId } from "../../shared/validators/history";
+import type { CanonicalTrack } from "../../shared/validators/tracks";
+import { formatKey, type TrackAudioFeatures } from "../../shared/validators/audio-features";
 
 // --- Types ---
 
@@ -99,8 +108,12 @@ export default function TrackDetail() {
 
   const [track, setTrack] = useState<VaultTrack | null>(null);
   const [metadata, setMetadata] = useState<TrackMetadata | null>(null);
+  const [canonical, setCanonical] = useState<CanonicalTrack | null>(null);
+  const [features, setFeatures] = useState<TrackAudioFeatures | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Bumped after an unmerge so stats and versions are reloaded
+  const [mergeVersion, setMergeVersion] = useState(0);
 
   useEffect(() => {
     if (!trackSpotifyId) {
@@ -121,6 +134,22 @@ export default function TrackDetail() {
       `/vault/metadata?trackIds=${encodeURIComponent(trackSpotifyId)}`,
     );
 
+    // Structure is optional too; asked for once the track is catalogued,
+    // since the lookup goes by the catalog's ISRC
+    metadataPromise
+      .then(() =>
+        apiFetch<{ data: Record<string, TrackAudioFeatures> }>(
+          `/vault/features?trackIds=${encodeURIComponent(trackSpotifyId)}`,
+        ),
+      )
+      .then((res) => setFeatures(res.data[trackSpotifyId] ?? null))
+      .catch(() => setFeatures(null));
+
+    // Versions are optional — the page works without them
+    apiFetch<{ data: CanonicalTrack }>(`/vault/merges/${encodeURIComponent(trackSpotifyId)}`)
+      .then((res) => setCanonical(res.data))
+      .catch(() => setCanonical(null));
+
     Promise.all([trackPromise, metadataPromise])
       .then(([trackRes, metaRes]) => {
         if (trackRes.data.length === 0) {
@@ -140,7 +169,16 @@ export default function TrackDetail() {
       .finally(() => {
         setLoading(false);
       });
-  }, [trackSpotifyId]);
+  }, [trackSpotifyId, mergeVersion]);
+
+  async function unmerge(variantId: string) {
+    try {
+      await apiFetch(`/vault/merges/${encodeURIComponent(variantId)}`, { method: "DELETE" });
+      setMergeVersion((v) => v + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to unmerge track");
+    }
+  }
 
   // --- Error state ---
   if (!loading && error) {
@@ -215,19 +253,25 @@ export default function TrackDetail() {
             </div>
 
             {/* Action buttons */}
-            <div className="flex flex-wrap gap-3 pt-2">
-              <a
-                href={`https://open.spotify.com/track/${trackSpotifyId}`}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="border-strata-border bg-white/[0.03] text-strata-slate-400 hover:border-strata-amber-500/50 inline-flex items-center gap-2 rounded-lg border px-4 py-2 text-sm font-medium transition-colors hover:text-white"
-              >
-                <svg className="h-4 w-4" viewBox="0 0 24 24" fill="currentColor">
-                  <path d="M12 0C5.4 0 0 5.4 0 12s5.4 12 12 12 12-5.4 12-12S18.66 0 12 0zm5.521 17.34c-.24.359-.66.48-1.021.24-2.82-1.74-6.36-2.101-10.561-1.141-.418.122-.779-.179-.899-.539-.12-.421.18-.78.54-.9 4.56-1.021 8.52-.6 11.64 1.32.42.18.479.659.301 1.02zm1.44-3.3c-.301.42-.841.6-1.262.3-3.239-1.98-8.159-2.58-11.939-1.38-.479.12-1.02-.12-1.14-.6-.12-.48.12-1.021.6-1.141C9.6 9.9 15 10.561 18.72 12.84c.361.181.54.78.241 1.2zm.12-3.36C15.24 8.4 8.82 8.16 5.16 9.301c-.6.179-1.2-.181-1.38-.721-.18-.601.18-1.2.72-1.381 4.26-1.26 11.28-1.02 15.721 1.621.539.3.719 1.02.419 1.56-.299.421-1.02.599-1.559.3z" />
-                </svg>
-                Open in Spotify
-              </a>
-            </div>
+            {isProvisionalTrackId(trackSpotifyId!) ? (
+              <p className="text-strata-slate-500 pt-2 text-xs">
+                この曲はまだSpotifyと照合されていません（インポート画面から照合できます）
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-3 pt-2">
+                <a
+                  href={`https://open.spotify.com/track/${trackSpotifyId}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="border-strata-border bg-white/[0.03] text-strata-slate-400 hover:border-strata-amber-500/50 inline-flex items-center gap-2 rounded-lg border px-4 py-2 text-sm font-medium transition-colors hover:text-white"
+                >
+                  <svg className="h-4 w-4" viewBox="0 0 24 24" fill="currentColor">
+                    <path d="M12 0C5.4 0 0 5.4 0 12s5.4 12 12 12 12-5.4 12-12S18.66 0 12 0zm5.521 17.34c-.24.359-.66.48-1.021.24-2.82-1.74-6.36-2.101-10.561-1.141-.418.122-.779-.179-.899-.539-.12-.421.18-.78.54-.9 4.56-1.021 8.52-.6 11.64 1.32.42.18.479.659.301 1.02zm1.44-3.3c-.301.42-.841.6-1.262.3-3.239-1.98-8.159-2.58-11.939-1.38-.479.12-1.02-.12-1.14-.6-.12-.48.12-1.021.6-1.141C9.6 9.9 15 10.561 18.72 12.84c.361.181.54.78.241 1.2zm.12-3.36C15.24 8.4 8.82 8.16 5.16 9.301c-.6.179-1.2-.181-1.38-.721-.18-.601.18-1.2.72-1.381 4.26-1.26 11.28-1.02 15.721 1.621.539.3.719 1.02.419 1.56-.299.421-1.02.599-1.559.3z" />
+                  </svg>
+                  Open in Spotify
+                </a>
+              </div>
+            )}
           </div>
         </div>
       ) : null}
@@ -265,8 +309,60 @@ export default function TrackDetail() {
         </div>
       </div>
 
+      {/* Structure — tempo, key and energy */}
+      {!loading && features && (features.bpm !== null || features.key !== null || features.energy !== null) && (
+        <div>
+          <h2 className="text-strata-slate-400 mb-3 text-sm font-medium uppercase tracking-wider">
+            Structure
+          </h2>
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+            <StatCard label="BPM" value={features.bpm !== null ? String(Math.round(features.bpm)) : "—"} />
+            <StatCard label="Key" value={formatKey(features.key, features.mode) ?? "—"} />
+            <StatCard
+              label="Energy"
+              value={features.energy !== null ? `${Math.round(features.energy * 100)}%` : "—"}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Merged versions */}
+      {canonical && canonical.variants.length > 1 && (
+        <div>
+          <h2 className="text-strata-slate-400 mb-3 text-sm font-medium uppercase tracking-wider">
+            Versions
+          </h2>
+          <ul className="border-white/[0.04] divide-y divide-white/[0.04] rounded-lg border">
+            {canonical.variants.map((variant) => (
+              <li key={variant.trackSpotifyId} className="flex items-center gap-3 px-4 py-2.5">
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-sm text-white">{variant.trackName}</span>
+                  <span className="text-strata-slate-500 block truncate text-xs">
+                    {variant.albumName ?? variant.artistName}
+                  </span>
+                </span>
+                <span className="text-strata-amber-300 font-mono text-sm">
+                  {variant.playCount.toLocaleString()}
+                </span>
+                {variant.trackSpotifyId === canonical.canonicalId ? (
+                  <span className="text-strata-slate-500 w-16 text-right text-xs">代表</span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => unmerge(variant.trackSpotifyId)}
+                    className="text-strata-slate-400 w-16 text-right text-xs underline hover:text-white"
+                  >
+                    分離
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Spotify Embed Player */}
-      {trackSpotifyId && !loading && track && (
+      {trackSpotifyId && !isProvisionalTrackId(trackSpotifyId) && !loading && track && (
         <div>
           <h2 className="text-strata-slate-400 mb-3 text-sm font-medium uppercase tracking-wider">
             Player
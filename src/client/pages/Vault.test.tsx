@@ -55,6 +55,10 @@ const mockTracks = {
       totalMsPlayed: 12000000,
       firstPlayedAt: "2023-01-01T00:00:00Z",
       lastPlayedAt: "2025-12-01T00:00:00Z",
+      bpm: 128,
+      key: 9,
+      mode: "minor",
+      energy: 0.8,
     },
     {
       trackSpotifyId: "sp2",
@@ -65,6 +69,10 @@ const mockTracks = {
       totalMsPlayed: 7200000,
       firstPlayedAt: "2023-06-15T00:00:00Z",
       lastPlayedAt: "2025-11-15T00:00:00Z",
+      bpm: null,
+      key: null,
+      mode: null,
+      energy: null,
     },
   ],
   total: 2,
@@ -249,4 +257,110 @@ describe("Vault", () => {
       expect(metadataCalls.length).toBeGreaterThan(0);
     });
   });
+
+  it("ranks artists by every credit when all credited artists are chosen", async () => {
+    mockedApiFetch.mockImplementation((path: string) => {
+      if (path.includes("/vault/stats")) return Promise.resolve(mockStats);
+      if (path.includes("/vault/artists")) return Promise.resolve(mockArtists);
+      if (path.includes("/vault/albums")) return Promise.resolve(mockAlbums);
+      if (path.includes("/vault/tracks")) return Promise.resolve(mockTracks);
+      if (path.includes("/vault/metadata")) return Promise.resolve(mockMetadata);
+      return Promise.reject(new Error("unexpected"));
+    });
+
+    renderVault();
+    const user = userEvent.setup();
+    await user.click(await screen.findByRole("button", { name: "All Credited Artists" }));
+
+    await waitFor(() => {
+      const artistCalls = mockedApiFetch.mock.calls.filter((c: unknown[]) =>
+        (c[0] as string).startsWith("/vault/artists?"),
+      );
+      expect(artistCalls.at(-1)?.[0]).toContain("credit=all");
+    });
+  });
+
+  it("narrows artists and tracks to a genre chosen in the browser", async () => {
+    mockedApiFetch.mockImplementation((path: string) => {
+      if (path === "/vault/genres") return Promise.resolve({ data: ["indie rock", "j-pop"] });
+      if (path.includes("/vault/stats")) return Promise.resolve(mockStats);
+      if (path.includes("/vault/artists")) return Promise.resolve(mockArtists);
+      if (path.includes("/vault/albums")) return Promise.resolve(mockAlbums);
+      if (path.includes("/vault/tracks")) return Promise.resolve(mockTracks);
+      if (path.includes("/vault/metadata")) return Promise.resolve(mockMetadata);
+      return Promise.reject(new Error("unexpected"));
+    });
+
+    renderVault();
+    const user = userEvent.setup();
+    await user.click(await screen.findByRole("option", { name: "j-pop" }));
+
+    await waitFor(() => {
+      const calls = mockedApiFetch.mock.calls.map((c: unknown[]) => c[0] as string);
+      expect(calls.filter((c) => c.startsWith("/vault/artists?")).at(-1)).toContain("genre=j-pop");
+      expect(calls.filter((c) => c.startsWith("/vault/tracks?")).at(-1)).toContain("genre=j-pop");
+    });
+  });
+
+  it("filters tracks by key and tempo", async () => {
+    mockedApiFetch.mockImplementation((path: string) => {
+      if (path.includes("/vault/stats")) return Promise.resolve(mockStats);
+      if (path.includes("/vault/artists")) return Promise.resolve(mockArtists);
+      if (path.includes("/vault/albums")) return Promise.resolve(mockAlbums);
+      if (path.includes("/vault/tracks")) return Promise.resolve(mockTracks);
+      if (path.includes("/vault/metadata")) return Promise.resolve(mockMetadata);
+      return Promise.reject(new Error("unexpected"));
+    });
+
+    renderVault();
+    expect(await screen.findByText("A minor")).toBeTruthy();
+    const user = userEvent.setup();
+    await user.selectOptions(screen.getByRole("combobox", { name: "Key" }), "9-minor");
+    await user.type(screen.getByRole("spinbutton", { name: "Min BPM" }), "120");
+
+    await waitFor(() => {
+      const trackCalls = mockedApiFetch.mock.calls
+        .map((c: unknown[]) => c[0] as string)
+        .filter((c) => c.startsWith("/vault/tracks?"));
+      expect(trackCalls.at(-1)).toContain("bpmMin=120");
+      expect(trackCalls.at(-1)).toContain("key=9&mode=minor");
+    });
+  });
+
+  it("merges a suggested group and reloads the track list", async () => {
+    const suggestion = {
+      canonicalId: "sp1",
+      reason: "isrc",
+      variants: [
+        { trackSpotifyId: "sp1", trackName: "Song One", artistName: "Artist A", albumName: "Album X", playCount: 50, reason: null },
+        { trackSpotifyId: "sp1-remaster", trackName: "Song One - Remastered", artistName: "Artist A", albumName: "Album X (Deluxe)", playCount: 4, reason: null },
+      ],
+    };
+    mockedApiFetch.mockImplementation((path: string) => {
+      if (path.includes("/vault/merges/suggestions")) return Promise.resolve({ data: [suggestion] });
+      if (path === "/vault/merges") return Promise.resolve({ data: { canonicalId: "sp1" } });
+      if (path.includes("/vault/stats")) return Promise.resolve(mockStats);
+      if (path.includes("/vault/artists")) return Promise.resolve(mockArtists);
+      if (path.includes("/vault/albums")) return Promise.resolve(mockAlbums);
+      if (path.includes("/vault/tracks")) return Promise.resolve(mockTracks);
+      if (path.includes("/vault/metadata")) return Promise.resolve(mockMetadata);
+      return Promise.reject(new Error("unexpected"));
+    });
+
+    renderVault();
+    const user = userEvent.setup();
+    await user.click(await screen.findByRole("button", { name: "統合" }));
+
+    expect(mockedApiFetch).toHaveBeenCalledWith("/vault/merges", {
+      method: "POST",
+      body: JSON.stringify({ canonicalId: "sp1", trackIds: ["sp1", "sp1-remaster"], reason: "isrc" }),
+    });
+    await waitFor(() => {
+      expect(screen.queryByText("同じ録音（ISRC一致）")).toBeNull();
+    });
+    const trackCalls = mockedApiFetch.mock.calls.filter((c: unknown[]) =>
+      (c[0] as string).includes("/vault/tracks"),
+    );
+    expect(trackCalls.length).toBeGreaterThan(1);
+  });
 });
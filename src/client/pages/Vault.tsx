@@ -2,7 +2,16 @@ import { useState, useEffect, useCallback, useRef } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { apiFetch } from "../lib/api";
 import ColumnBrowser from "../components/ColumnBrowser";
+import MergeSuggestions from "../components/MergeSuggestions";
 import SpotifyEmbed from "../components/SpotifyEmbed";
+import { isProvisionalTrackId } from "../../shared/validators/history";
+import type { ArtistCredit } from "../../shared/validators/artists";
+import {
+  formatKey,
+  PITCH_CLASSES,
+  type KeyMode,
+  type TrackAudioFeatures,
+} from "../../shared/validators/audio-features";
 
 // --- Types ---
 
@@ -11,10 +20,19 @@ interface VaultTrack {
   trackName: string;
   artistName: string;
   albumName: string | null;
+  /** Spotify track IDs merged into this row (see /vault/merges). */
+  variantCount: number;
   playCount: number;
   totalMsPlayed: number;
   firstPlayedAt: string;
   lastPlayedAt: string;
+  /** From the server's track catalog; null until the track has been catalogued. */
+  albumArt: string | null;
+  /** Tempo, key and energy; null until the track has been analysed (see /vault/features). */
+  bpm: number | null;
+  key: number | null;
+  mode: KeyMode | null;
+  energy: number | null;
 }
 
 interface VaultStats {
@@ -38,7 +56,7 @@ interface TrackMetadata {
   albumName: string;
 }
 
-type SortOption = "plays" | "time" | "recent" | "name";
+type SortOption = "plays" | "time" | "recent" | "name" | "bpm" | "key" | "energy";
 
 // --- Helpers ---
 
@@ -79,6 +97,27 @@ const SORT_OPTIONS: { value: SortOption; label: string }[] = [
   { value: "time", label: "Most Time" },
   { value: "recent", label: "Recently Played" },
   { value: "name", label: "Name A-Z" },
+  { value: "bpm", label: "Fastest BPM" },
+  { value: "key", label: "Key" },
+  { value: "energy", label: "Most Energetic" },
+];
+
+// Sorts that read best ascending: names A-Z, keys from C
+const ASCENDING_SORTS: SortOption[] = ["name", "key"];
+
+// Every key and mode, "C major" first, as "<key>-<mode>" filter values
+const KEY_OPTIONS = PITCH_CLASSES.flatMap((_, key) =>
+  (["major", "minor"] as const).map((mode) => ({ value: `${key}-${mode}`, label: formatKey(key, mode)! })),
+);
+
+function hasFeatures(features: TrackAudioFeatures): boolean {
+  return features.bpm !== null || features.key !== null || features.energy !== null;
+}
+
+// Whether features and collaborations count toward the featured artist
+const CREDIT_OPTIONS: { value: ArtistCredit; label: string }[] = [
+  { value: "primary", label: "Primary Artists" },
+  { value: "all", label: "All Credited Artists" },
 ];
 
 const PAGE_SIZE = 50;
@@ -116,15 +155,21 @@ export default function Vault() {
   const navigate = useNavigate();
 
   // Column browser state
+  const [browserGenres, setBrowserGenres] = useState<string[]>([]);
   const [browserArtists, setBrowserArtists] = useState<string[]>([]);
   const [browserAlbums, setBrowserAlbums] = useState<string[]>([]);
+  const [selectedGenre, setSelectedGenre] = useState<string | null>(null);
   const [selectedArtist, setSelectedArtist] = useState<string | null>(null);
   const [selectedAlbum, setSelectedAlbum] = useState<string | null>(null);
+  const [credit, setCredit] = useState<ArtistCredit>("primary");
 
   // Track list state
   const [sort, setSort] = useState<SortOption>("plays");
   const [search, setSearch] = useState("");
   const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [bpmMin, setBpmMin] = useState("");
+  const [bpmMax, setBpmMax] = useState("");
+  const [keyFilter, setKeyFilter] = useState("");
 
   const [stats, setStats] = useState<VaultStats | null>(null);
   const [tracks, setTracks] = useState<VaultTrack[]>([]);
@@ -140,20 +185,31 @@ export default function Vault() {
   const [metadata, setMetadata] = useState<Record<string, TrackMetadata>>({});
   const fetchedMetadataRef = useRef<Set<string>>(new Set());
 
+  // Tempo, key and energy looked up since the list loaded
+  const [features, setFeatures] = useState<Record<string, TrackAudioFeatures>>({});
+  const fetchedFeaturesRef = useRef<Set<string>>(new Set());
+
   // Player state
   const [nowPlaying, setNowPlaying] = useState<VaultTrack | null>(null);
 
-  // Debounce search input
+  // Bumped after a merge so stats are recounted
+  const [mergeVersion, setMergeVersion] = useState(0);
+
+  // Debounce search and BPM inputs
+  const [debouncedBpm, setDebouncedBpm] = useState({ min: "", max: "" });
   useEffect(() => {
-    const timer = setTimeout(() => setDebouncedSearch(search), 300);
+    const timer = setTimeout(() => {
+      setDebouncedSearch(search);
+      setDebouncedBpm({ min: bpmMin, max: bpmMax });
+    }, 300);
     return () => clearTimeout(timer);
-  }, [search]);
+  }, [search, bpmMin, bpmMax]);
 
   // Reset offset when filters change
   useEffect(() => {
     setOffset(0);
     setTracks([]);
-  }, [sort, debouncedSearch, selectedArtist, selectedAlbum]);
+  }, [sort, debouncedSearch, debouncedBpm, keyFilter, selectedGenre, selectedArtist, selectedAlbum, credit]);
 
   // Fetch stats
   useEffect(() => {
@@ -162,6 +218,13 @@ export default function Vault() {
       .then((res) => setStats(res.data))
       .catch((err) => setError(err.message))
       .finally(() => setStatsLoading(false));
+  }, [mergeVersion]);
+
+  // Fetch browser genres once; the server fills in missing ones in the background
+  useEffect(() => {
+    apiFetch<{ data: string[] }>("/vault/genres")
+      .then((res) => setBrowserGenres(Array.isArray(res.data) ? res.data : []))
+      .catch(() => setBrowserGenres([]));
   }, []);
 
   // Fetch browser artists (all artist names from the artists endpoint)
@@ -171,26 +234,36 @@ export default function Vault() {
       order: "desc",
       limit: "500",
       offset: "0",
+      credit,
     });
+    if (selectedGenre) params.set("genre", selectedGenre);
 
     apiFetch<{ data: Array<{ artistName: string }>; total: number }>(`/vault/artists?${params}`)
       .then((res) => {
         setBrowserArtists(res.data.map((a) => a.artistName));
       })
       .catch(() => setBrowserArtists([]));
-  }, []);
+  }, [credit, selectedGenre]);
 
   // Fetch browser albums when artist changes
   useEffect(() => {
     const params = new URLSearchParams();
     if (selectedArtist) params.set("artist", selectedArtist);
+    if (selectedArtist && credit === "all") params.set("credit", credit);
+    if (selectedGenre) params.set("genre", selectedGenre);
 
     apiFetch<{ data: string[] }>(`/vault/albums?${params}`)
       .then((res) => setBrowserAlbums(res.data))
       .catch(() => setBrowserAlbums([]));
-  }, [selectedArtist]);
+  }, [selectedArtist, credit, selectedGenre]);
 
   // Column browser selection handlers
+  function handleGenreSelect(genre: string | null) {
+    setSelectedGenre(genre);
+    setSelectedArtist(null);
+    setSelectedAlbum(null);
+  }
+
   function handleArtistSelect(artist: string | null) {
     setSelectedArtist(artist);
     setSelectedAlbum(null);
@@ -207,7 +280,7 @@ export default function Vault() {
       else setLoadingMore(true);
 
       try {
-        const order = sort === "name" ? "asc" : "desc";
+        const order = ASCENDING_SORTS.includes(sort) ? "asc" : "desc";
         const params = new URLSearchParams({
           sort,
           order,
@@ -216,7 +289,16 @@ export default function Vault() {
         });
         if (debouncedSearch) params.set("search", debouncedSearch);
         if (selectedArtist) params.set("artist", selectedArtist);
+        if (selectedArtist && credit === "all") params.set("credit", credit);
         if (selectedAlbum) params.set("album", selectedAlbum);
+        if (selectedGenre) params.set("genre", selectedGenre);
+        if (debouncedBpm.min) params.set("bpmMin", debouncedBpm.min);
+        if (debouncedBpm.max) params.set("bpmMax", debouncedBpm.max);
+        if (keyFilter) {
+          const [key, mode] = keyFilter.split("-");
+          params.set("key", key);
+          params.set("mode", mode);
+        }
 
         const res = await apiFetch<{ data: VaultTrack[]; total: number }>(
           `/vault/tracks?${params}`,
@@ -231,18 +313,19 @@ export default function Vault() {
         setLoadingMore(false);
       }
     },
-    [sort, debouncedSearch, selectedArtist, selectedAlbum],
+    [sort, debouncedSearch, debouncedBpm, keyFilter, selectedGenre, selectedArtist, selectedAlbum, credit],
   );
 
   useEffect(() => {
     fetchList(0, false);
   }, [fetchList]);
 
-  // Fetch album art metadata for visible tracks
+  // Fetch album art for visible tracks the catalog does not have yet
   useEffect(() => {
     if (tracks.length === 0) return;
 
     const newIds = tracks
+      .filter((t) => !t.albumArt)
       .map((t) => t.trackSpotifyId)
       .filter((id) => !fetchedMetadataRef.current.has(id));
 
@@ -284,6 +367,33 @@ export default function Vault() {
     }
   }, [tracks]);
 
+  // Look up tempo, key and energy for catalogued tracks without them. The
+  // server fills them in after responding, so they may show on a later load.
+  useEffect(() => {
+    const newIds = tracks
+      .filter((t) => (t.albumArt || metadata[t.trackSpotifyId]) && !hasFeatures(t))
+      .map((t) => t.trackSpotifyId)
+      .filter((id) => !isProvisionalTrackId(id) && !fetchedFeaturesRef.current.has(id));
+    if (newIds.length === 0) return;
+
+    for (const id of newIds) {
+      fetchedFeaturesRef.current.add(id);
+    }
+
+    for (let i = 0; i < newIds.length; i += 50) {
+      const batch = newIds.slice(i, i + 50);
+      apiFetch<{ data: Record<string, TrackAudioFeatures> }>(
+        `/vault/features?trackIds=${batch.join(",")}`,
+      )
+        .then((res) => setFeatures((prev) => ({ ...prev, ...res.data })))
+        .catch(() => {
+          for (const id of batch) {
+            fetchedFeaturesRef.current.delete(id);
+          }
+        });
+    }
+  }, [tracks, metadata]);
+
   function handleLoadMore() {
     const newOffset = offset + PAGE_SIZE;
     setOffset(newOffset);
@@ -335,8 +445,34 @@ export default function Vault() {
         ) : null}
       </div>
 
+      {/* Artist credit mode for the browser's artist ranking */}
+      <div className="flex justify-end gap-1" role="group" aria-label="Artist credits">
+        {CREDIT_OPTIONS.map((opt) => (
+          <button
+            key={opt.value}
+            type="button"
+            aria-pressed={credit === opt.value}
+            onClick={() => {
+              setCredit(opt.value);
+              setSelectedArtist(null);
+              setSelectedAlbum(null);
+            }}
+            className={`rounded-lg px-3 py-1 text-xs transition-colors ${
+              credit === opt.value
+                ? "bg-strata-amber-500/20 text-strata-amber-300"
+                : "text-strata-slate-400 hover:text-white"
+            }`}
+          >
+            {opt.label}
+          </button>
+        ))}
+      </div>
+
       {/* Column Browser */}
       <ColumnBrowser
+        genres={browserGenres.length > 0 ? browserGenres : undefined}
+        selectedGenre={selectedGenre}
+        onGenreSelect={handleGenreSelect}
         artists={browserArtists}
         albums={browserAlbums}
         selectedArtist={selectedArtist}
@@ -345,6 +481,14 @@ export default function Vault() {
         onAlbumSelect={handleAlbumSelect}
       />
 
+      <MergeSuggestions
+        onMerged={() => {
+          setMergeVersion((v) => v + 1);
+          setOffset(0);
+          fetchList(0, false);
+        }}
+      />
+
       {/* Controls */}
       <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
         <div className="flex gap-2">
@@ -369,6 +513,39 @@ export default function Vault() {
               </option>
             ))}
           </select>
+
+          {/* Structure filters */}
+          <input
+            type="number"
+            min={0}
+            aria-label="Min BPM"
+            placeholder="BPM ≥"
+            value={bpmMin}
+            onChange={(e) => setBpmMin(e.target.value)}
+            className="border-white/[0.06] bg-white/[0.03] placeholder-strata-slate-500 focus:border-strata-amber-500/50 w-20 rounded-lg border px-2 py-1.5 text-sm text-white transition-colors outline-none"
+          />
+          <input
+            type="number"
+            min={0}
+            aria-label="Max BPM"
+            placeholder="BPM ≤"
+            value={bpmMax}
+            onChange={(e) => setBpmMax(e.target.value)}
+            className="border-white/[0.06] bg-white/[0.03] placeholder-strata-slate-500 focus:border-strata-amber-500/50 w-20 rounded-lg border px-2 py-1.5 text-sm text-white transition-colors outline-none"
+          />
+          <select
+            aria-label="Key"
+            value={keyFilter}
+            onChange={(e) => setKeyFilter(e.target.value)}
+            className="border-white/[0.06] bg-white/[0.03] text-strata-slate-400 focus:border-strata-amber-500/50 rounded-lg border px-3 py-1.5 text-sm transition-colors outline-none"
+          >
+            <option value="">All Keys</option>
+            {KEY_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>
+                {opt.label}
+              </option>
+            ))}
+          </select>
         </div>
 
         {/* Track count */}
@@ -378,9 +555,20 @@ export default function Vault() {
       </div>
 
       {/* Active filters indicator */}
-      {(selectedArtist || selectedAlbum) && (
+      {(selectedGenre || selectedArtist || selectedAlbum) && (
         <div className="flex flex-wrap items-center gap-2">
           <span className="text-strata-slate-500 text-xs">Filtering by:</span>
+          {selectedGenre && (
+            <span className="bg-strata-amber-500/10 text-strata-amber-300 inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs">
+              {selectedGenre}
+              <button
+                onClick={() => handleGenreSelect(null)}
+                className="text-strata-amber-300/60 hover:text-strata-amber-300 ml-1"
+              >
+                x
+              </button>
+            </span>
+          )}
           {selectedArtist && (
             <span className="bg-strata-amber-500/10 text-strata-amber-300 inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs">
               {selectedArtist}
@@ -447,6 +635,7 @@ export default function Vault() {
           <TrackList
             tracks={tracks}
             metadata={metadata}
+            features={features}
             nowPlaying={nowPlaying}
             onTrackClick={setNowPlaying}
             navigate={navigate}
@@ -475,7 +664,11 @@ export default function Vault() {
       {/* Spotify Player Bar — always rendered, slides in/out */}
       <PlayerBar
         track={nowPlaying}
-        albumArt={nowPlaying ? metadata[nowPlaying.trackSpotifyId]?.albumArt : undefined}
+        albumArt={
+          nowPlaying
+            ? (nowPlaying.albumArt ?? metadata[nowPlaying.trackSpotifyId]?.albumArt)
+            : undefined
+        }
       />
     </div>
   );
@@ -499,12 +692,14 @@ function StatCard({ label, value, small }: { label: string; value: string; small
 function TrackList({
   tracks,
   metadata,
+  features,
   nowPlaying,
   onTrackClick,
   navigate,
 }: {
   tracks: VaultTrack[];
   metadata: Record<string, TrackMetadata>;
+  features: Record<string, TrackAudioFeatures>;
   nowPlaying: VaultTrack | null;
   onTrackClick: (track: VaultTrack) => void;
   navigate: ReturnType<typeof useNavigate>;
@@ -517,13 +712,17 @@ function TrackList({
         <span className="w-10 text-center">#</span>
         <span className="w-12" /> {/* Album art column */}
         <span className="flex-1">Track</span>
+        <span className="hidden w-14 text-right lg:block">BPM</span>
+        <span className="hidden w-20 text-right lg:block">Key</span>
+        <span className="hidden w-16 text-right lg:block">Energy</span>
         <span className="w-20 text-right">Plays</span>
         <span className="w-20 text-right">Time</span>
         <span className="w-24 text-right">Last Played</span>
       </div>
 
       {tracks.map((track, i) => {
-        const meta = metadata[track.trackSpotifyId];
+        const albumArt = track.albumArt ?? metadata[track.trackSpotifyId]?.albumArt;
+        const structure = hasFeatures(track) ? track : (features[track.trackSpotifyId] ?? track);
         const isPlaying = nowPlaying?.trackSpotifyId === track.trackSpotifyId;
 
         return (
@@ -539,15 +738,16 @@ function TrackList({
               isPlaying ? "bg-strata-amber-500/10" : ""
             }`}
           >
-            {/* Play button */}
+            {/* Play button — provisional tracks have no Spotify URI to play */}
             <button
               type="button"
-              title="Play"
+              title={isProvisionalTrackId(track.trackSpotifyId) ? "Spotify未照合" : "Play"}
+              disabled={isProvisionalTrackId(track.trackSpotifyId)}
               onClick={(e) => {
                 e.stopPropagation();
                 onTrackClick(track);
               }}
-              className="flex-shrink-0 w-8 h-8 flex items-center justify-center rounded-full hover:bg-white/10 transition-colors text-stone-400 hover:text-amber-400 group-hover:text-stone-300"
+              className="flex-shrink-0 w-8 h-8 flex items-center justify-center rounded-full hover:bg-white/10 transition-colors text-stone-400 hover:text-amber-400 group-hover:text-stone-300 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-stone-400"
             >
               <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
                 <path d="M8 5v14l11-7z" />
@@ -560,9 +760,9 @@ function TrackList({
 
             {/* Album art */}
             <span className="mr-3 w-10 shrink-0">
-              {meta?.albumArt ? (
+              {albumArt ? (
                 <img
-                  src={meta.albumArt}
+                  src={albumArt}
                   alt=""
                   className="h-10 w-10 rounded object-cover"
                   loading="lazy"
@@ -575,6 +775,11 @@ function TrackList({
             <span className="min-w-0 flex-1">
               <span className="block truncate text-sm font-medium text-white">
                 {track.trackName}
+                {track.variantCount > 1 && (
+                  <span className="text-strata-slate-500 ml-2 text-xs font-normal">
+                    {track.variantCount} versions
+                  </span>
+                )}
               </span>
               <span className="text-strata-slate-400 block truncate text-xs">
                 {track.artistName}
@@ -584,6 +789,15 @@ function TrackList({
               </span>
             </span>
 
+            <span className="text-strata-slate-400 hidden w-14 text-right font-mono text-xs lg:block">
+              {structure.bpm !== null ? Math.round(structure.bpm) : "—"}
+            </span>
+            <span className="text-strata-slate-400 hidden w-20 text-right text-xs lg:block">
+              {formatKey(structure.key, structure.mode) ?? "—"}
+            </span>
+            <span className="text-strata-slate-400 hidden w-16 text-right font-mono text-xs lg:block">
+              {structure.energy !== null ? `${Math.round(structure.energy * 100)}%` : "—"}
+            </span>
             <span className="text-strata-amber-300 w-20 text-right font-mono text-sm font-bold">
               {track.playCount.toLocaleString()}
             </span>
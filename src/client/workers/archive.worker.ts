@@ -0,0 +1,38 @@
+/**
+ * Archive worker: reads dropped export files off the main thread.
+ *
+ * Receives the selected files, streams each one through readExport, and
+ * reports byte progress per file. Cancellation is done by terminating the
+ * worker (see lib/archive-reader.ts), which stops even a JSON.parse that
+ * is already running.
+ */
+import { readExport, type ExportFile } from "../lib/export-reader";
+
+export interface ArchiveWorkerRequest {
+  files: File[];
+}
+
+/** Posted back per file, identified by its index in the request. */
+export type ArchiveWorkerMessage =
+  | { type: "progress"; index: number; loaded: number }
+  | { type: "done"; index: number; files: ExportFile[] }
+  | { type: "error"; index: number; message: string };
+
+function post(message: ArchiveWorkerMessage) {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<ArchiveWorkerRequest>) => {
+  const { files } = event.data;
+  for (let index = 0; index < files.length; index++) {
+    const file = files[index];
+    try {
+      const files = await readExport(file.name, file.stream(), (loaded) =>
+        post({ type: "progress", index, loaded }),
+      );
+      post({ type: "done", index, files });
+    } catch (err) {
+      post({ type: "error", index, message: err instanceof Error ? err.message : "Unknown error" });
+    }
+  }
+};
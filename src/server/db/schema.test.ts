@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { getTableColumns } from "drizzle-orm";
-import { users, listeningHistory } from "./schema";
+import { getTableConfig } from "drizzle-orm/pg-core";
+import { users, listeningHistory, importJobs } from "./schema";
 
 describe("users table", () => {
   it("has expected columns", () => {
@@ -61,4 +62,37 @@ describe("listeningHistory table", () => {
     const columns = getTableColumns(listeningHistory);
     expect(columns.id.primary).toBe(true);
   });
+
+  it("has a unique index on (userId, trackSpotifyId, playedAt)", () => {
+    const { indexes } = getTableConfig(listeningHistory);
+    const playIndex = indexes.find(
+      (i) => i.config.name === "listening_history_play_unique_idx",
+    );
+    expect(playIndex?.config.unique).toBe(true);
+    expect(
+      playIndex?.config.columns.map((c) => ("name" in c ? c.name : null)),
+    ).toEqual(["user_id", "track_spotify_id", "played_at"]);
+  });
+});
+
+describe("importJobs table", () => {
+  it("has expected columns", () => {
+    const columns = getTableColumns(importJobs);
+    const names = Object.keys(columns);
+
+    expect(names).toContain("id");
+    expect(names).toContain("userId");
+    expect(names).toContain("fileName");
+    expect(names).toContain("fileSize");
+    expect(names).toContain("totalChunks");
+    expect(names).toContain("completedChunks");
+    expect(names).toContain("status");
+    expect(names).toContain("skipReasons");
+  });
+
+  it("starts new jobs at chunk 0 in pending status", () => {
+    const columns = getTableColumns(importJobs);
+    expect(columns.completedChunks.default).toBe(0);
+    expect(columns.status.default).toBe("pending");
+  });
 });
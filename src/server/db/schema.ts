@@ -4,7 +4,27 @@
  * files, or `npm run db:push` to apply directly during development.
  */
 
-import { boolean, index, integer, pgTable, serial, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+  bigint,
+  boolean,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  primaryKey,
+  real,
+  serial,
+  smallint,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+} from "drizzle-orm/pg-core";
+import type { SkipReasons } from "../../shared/validators/history";
+import { DEFAULT_MIN_PLAY_MS } from "../../shared/validators/settings";
+import type { ArtistAliasSource } from "../../shared/validators/artists";
+import type { MergeReason } from "../../shared/validators/tracks";
+import type { KeyMode } from "../../shared/validators/audio-features";
 
 /**
  * Application users, identified by their Spotify account.
@@ -22,16 +42,57 @@ export const users = pgTable("users", {
   avatarUrl: text("avatar_url"),
   // Long-lived OAuth refresh token for obtaining new access tokens
   refreshToken: text("refresh_token"),
+  // SHA-256 (hex) of the user's ListenBrainz-compatible submission token.
+  // Only the hash is kept; the token itself is shown once when generated.
+  listenbrainzTokenHash: text("listenbrainz_token_hash").unique(),
+  // IANA zone (e.g. "Asia/Tokyo") that day, hour, and month stats are
+  // bucketed in. Periods spent elsewhere are recorded in user_time_zones.
+  timeZone: text("time_zone").notNull().default("UTC"),
+  // Shortest play (ms) that counts as a listen in stats. Every play is
+  // stored regardless; the threshold is applied at query time.
+  minPlayMs: integer("min_play_ms").notNull().default(DEFAULT_MIN_PLAY_MS),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 /**
- * Individual track plays imported from Spotify Extended Streaming History JSON
- * files or (in the future) continuous scrobbling.
+ * Time zones a user lived in before their current one (users.timeZone).
+ *
+ * Each row covers the half-open UTC range [startsAt, endsAt). Plays inside a
+ * range are bucketed in its zone; every other play uses users.timeZone, so
+ * someone who moved keeps their old listening on the old wall clock.
+ * Ranges of one user never overlap (enforced by the settings route).
+ */
+export const userTimeZones = pgTable(
+  "user_time_zones",
+  {
+    id: serial("id").primaryKey(),
+    userId: uuid("user_id")
+      .references(() => users.id)
+      .notNull(),
+    timeZone: text("time_zone").notNull(),
+    startsAt: timestamp("starts_at").notNull(),
+    endsAt: timestamp("ends_at").notNull(),
+  },
+  (table) => [
+    // Per-play zone lookups: "which range of this user covers played_at?"
+    index("user_time_zones_user_id_idx").on(table.userId, table.startsAt),
+  ],
+);
+
+/**
+ * Individual plays imported from Spotify Extended Streaming History JSON
+ * files, Last.fm exports, ListenBrainz-compatible submissions from other
+ * players, or continuous scrobbling of Spotify's Recently Played feed. Podcast episodes and
+ * audiobook chapters are stored here too, distinguished by `contentType`.
  *
  * Each row represents a single play event. Aggregate statistics (total plays,
  * listening time) are computed at query time via the vault and heatmap routes.
+ *
+ * A play is identified by (user, track, timestamp): the same track can be
+ * played many times a day, but never twice at the same instant. The unique
+ * index enforces this so re-uploads of overlapping files are deduplicated by
+ * the database (`ON CONFLICT DO NOTHING`) rather than in Worker memory.
  */
 export const listeningHistory = pgTable(
   "listening_history",
@@ -40,16 +101,29 @@ export const listeningHistory = pgTable(
     userId: uuid("user_id")
       .references(() => users.id)
       .notNull(),
-    // Spotify track URI without the "spotify:track:" prefix
+    // "track" | "episode" | "audiobook" — music stats only count "track"
+    contentType: text("content_type").notNull().default("track"),
+    // Spotify ID without the URI prefix ("spotify:track:", "spotify:episode:"),
+    // or a provisional ID for plays recorded without one (legacy "Account
+    // data" export, Last.fm, ListenBrainz submissions). For music this is
+    // the key into the catalog's tracks table.
     trackSpotifyId: text("track_spotify_id").notNull(),
+    // Show name for episodes, book title for audiobooks
     artistName: text("artist_name").notNull(),
+    // Episode or chapter title for spoken-word plays
     trackName: text("track_name").notNull(),
     albumName: text("album_name"),
     // Duration the user actually listened, in milliseconds
     msPlayed: integer("ms_played").notNull(),
+    // When the stream started. Every time-based aggregation (heatmap days,
+    // pattern hours, eras) buckets by this, so a long mix that runs past
+    // midnight counts toward the day it began.
     playedAt: timestamp("played_at").notNull(),
-    // Provenance: "import" for Extended Streaming History, future values like
-    // "scrobble" for real-time tracking
+    // When the stream ended — Spotify's raw `ts`. Always playedAt + msPlayed.
+    endedAt: timestamp("ended_at").notNull(),
+    // Provenance: "import" for Spotify exports, "lastfm" for Last.fm
+    // scrobble exports, "listenbrainz" for plays submitted by non-Spotify
+    // players, "scrobble" for plays polled from Spotify's Recently Played
     source: text("source").notNull().default("import"),
     // Why playback started (e.g., trackdone, clickrow, fwdbtn)
     reasonStart: text("reason_start"),
@@ -61,13 +135,340 @@ export const listeningHistory = pgTable(
     platform: text("platform"),
     // Whether shuffle mode was on
     shuffle: boolean("shuffle"),
+    // Whether the stream was played offline (Spotify exports only)
+    offline: boolean("offline"),
+    // When the device recorded an offline play, normalised from the export's
+    // mixed seconds / milliseconds `offline_timestamp`
+    offlineTimestamp: timestamp("offline_timestamp"),
+    // ISO 3166 alpha-2 country of the connection, upper-case
+    connCountry: text("conn_country"),
+    // Upload that inserted this row — null for scrobbled and submitted plays
+    batchId: uuid("batch_id").references(() => importBatches.id),
   },
   (table) => [
     // Filter by user — nearly every query is scoped to a single user
     index("listening_history_user_id_idx").on(table.userId),
     // Chronological queries (heatmap, time-based patterns)
     index("listening_history_played_at_idx").on(table.playedAt),
+    // Music / spoken-word split — nearly every stats query filters on it
+    index("listening_history_content_type_idx").on(table.userId, table.contentType),
     // Composite index for "group by track per user" aggregations (vault)
     index("listening_history_track_idx").on(table.userId, table.trackSpotifyId),
+    // Rolling back one upload
+    index("listening_history_batch_id_idx").on(table.batchId),
+    // One row per play event — the conflict target for import deduplication
+    uniqueIndex("listening_history_play_unique_idx").on(
+      table.userId,
+      table.trackSpotifyId,
+      table.playedAt,
+    ),
+  ],
+);
+
+/**
+ * One uploaded file — the provenance of every listening_history row it
+ * inserted (listening_history.batchId), so a bad upload can be rolled back
+ * on its own instead of wiping the whole history.
+ *
+ * `fileHash` is the SHA-256 of the file's contents; a file whose hash
+ * matches a completed batch is rejected before any rows are sent. Counts
+ * are filled in when the upload finishes (`completedAt`).
+ */
+export const importBatches = pgTable(
+  "import_batches",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id)
+      .notNull(),
+    fileName: text("file_name").notNull(),
+    // Hex SHA-256 of the file's contents
+    fileHash: text("file_hash").notNull(),
+    fileSize: bigint("file_size", { mode: "number" }).notNull(),
+    // ImportResult totals for the whole file
+    total: integer("total").notNull().default(0),
+    imported: integer("imported").notNull().default(0),
+    skipped: integer("skipped").notNull().default(0),
+    duplicates: integer("duplicates").notNull().default(0),
+    skipReasons: jsonb("skip_reasons")
+      .$type<SkipReasons>()
+      .notNull()
+      .default({ noTrackName: 0, noSpotifyUri: 0, noArtistName: 0 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    // Null while the upload is still in progress
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => [
+    // Duplicate-upload lookups: "has this user already imported this file?"
+    index("import_batches_user_hash_idx").on(table.userId, table.fileHash),
   ],
 );
+
+/**
+ * Server-side state for chunked, resumable history uploads.
+ *
+ * One job tracks one JSON file. The client splits the file into fixed-size
+ * chunks and sends them in order; `completedChunks` doubles as the index of
+ * the next expected chunk, so a client that lost its connection (or was
+ * closed) can pick up where the server left off instead of starting over.
+ */
+export const importJobs = pgTable(
+  "import_jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .references(() => users.id)
+      .notNull(),
+    // Batch the job's rows are recorded under
+    batchId: uuid("batch_id").references(() => importBatches.id),
+    fileName: text("file_name").notNull(),
+    // Bytes — extended history files can exceed the 32-bit integer range
+    fileSize: bigint("file_size", { mode: "number" }).notNull(),
+    totalChunks: integer("total_chunks").notNull(),
+    completedChunks: integer("completed_chunks").notNull().default(0),
+    // "pending" | "running" | "completed" | "failed"
+    status: text("status").notNull().default("pending"),
+    // Running ImportResult totals, accumulated as each chunk is processed
+    total: integer("total").notNull().default(0),
+    imported: integer("imported").notNull().default(0),
+    skipped: integer("skipped").notNull().default(0),
+    duplicates: integer("duplicates").notNull().default(0),
+    skipReasons: jsonb("skip_reasons")
+      .$type<SkipReasons>()
+      .notNull()
+      .default({ noTrackName: 0, noSpotifyUri: 0, noArtistName: 0 }),
+    error: text("error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    // Resume lookups: "does this user have an unfinished job for this file?"
+    index("import_jobs_user_id_idx").on(table.userId, table.status),
+  ],
+);
+
+/**
+ * Outcome of looking up a provisional track (see PROVISIONAL_TRACK_PREFIX)
+ * in the Spotify catalog.
+ *
+ * Provisional IDs are derived from the artist and track name alone, so a
+ * lookup is shared by every user who imported the same song. A row with a
+ * null `spotifyTrackId` records a search that found nothing, so the same
+ * song is not searched again on every resolve round.
+ */
+export const trackResolutions = pgTable("track_resolutions", {
+  provisionalId: text("provisional_id").primaryKey(),
+  spotifyTrackId: text("spotify_track_id"),
+  resolvedAt: timestamp("resolved_at").defaultNow().notNull(),
+});
+
+/**
+ * Spotify catalog: tracks, albums and artists keyed by their Spotify IDs.
+ *
+ * Filled on demand from the Web API (see lib/catalog.ts) and shared by every
+ * user, so names, durations and album art live once instead of on every
+ * play. `fetchedAt` is when a row was last fetched; rows older than
+ * CATALOG_REFRESH_MS are fetched again the next time they are needed.
+ *
+ * Plays reference tracks through listening_history.track_spotify_id. There
+ * is no foreign key: provisional IDs and spoken-word plays never get a
+ * catalog row, and a play is stored before its track is fetched.
+ */
+export const catalogArtists = pgTable("artists", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  // Only the full artist object carries images; null until one is fetched
+  imageUrl: text("image_url"),
+  fetchedAt: timestamp("fetched_at").defaultNow().notNull(),
+});
+
+export const catalogAlbums = pgTable("albums", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  // "YYYY", "YYYY-MM" or "YYYY-MM-DD", as precise as Spotify knows it
+  releaseDate: text("release_date"),
+  artistIds: text("artist_ids").array().notNull(),
+  // 300px cover when Spotify has one, else the first image
+  imageUrl: text("image_url"),
+  fetchedAt: timestamp("fetched_at").defaultNow().notNull(),
+});
+
+export const catalogTracks = pgTable(
+  "tracks",
+  {
+    id: text("id").primaryKey(),
+    name: text("name").notNull(),
+    durationMs: integer("duration_ms").notNull(),
+    albumId: text("album_id")
+      .references(() => catalogAlbums.id)
+      .notNull(),
+    // Credited artists in Spotify's order; the first is the primary artist
+    artistIds: text("artist_ids").array().notNull(),
+    isrc: text("isrc"),
+    fetchedAt: timestamp("fetched_at").defaultNow().notNull(),
+  },
+  (table) => [index("tracks_album_id_idx").on(table.albumId)],
+);
+
+/**
+ * Artists credited on a catalogued track, in Spotify's order. Position 0 is
+ * the primary artist — the one Streaming History names on every play — and
+ * the rest are featured or collaborating artists, which plays otherwise
+ * never credit. Plays reach their credits through `track_spotify_id`
+ * (see lib/artist-credits.ts).
+ */
+export const trackArtists = pgTable(
+  "track_artists",
+  {
+    trackId: text("track_id")
+      .references(() => catalogTracks.id)
+      .notNull(),
+    artistId: text("artist_id")
+      .references(() => catalogArtists.id)
+      .notNull(),
+    position: integer("position").notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.trackId, table.artistId] }),
+    index("track_artists_artist_id_idx").on(table.artistId),
+  ],
+);
+
+/**
+ * Track IDs Spotify answered for with no track — removed from the catalog,
+ * or never in it. Recorded by the metadata cache (see
+ * lib/metadata-cache.ts) so they are not fetched again on every page view;
+ * a row older than MISS_TTL_MS is tried again.
+ */
+export const catalogMisses = pgTable("catalog_misses", {
+  trackId: text("track_id").primaryKey(),
+  checkedAt: timestamp("checked_at").defaultNow().notNull(),
+});
+
+/**
+ * Spotify genres of an artist, keyed by the name plays are counted under
+ * (see lib/genres.ts). Shared by every user, like the catalog. An artist
+ * Spotify does not find is stored with no genres, so it is not searched
+ * again until the row is due for a refresh.
+ */
+export const artistGenres = pgTable(
+  "artist_genres",
+  {
+    artistName: text("artist_name").primaryKey(),
+    spotifyArtistId: text("spotify_artist_id"),
+    genres: text("genres").array().notNull(),
+    fetchedAt: timestamp("fetched_at").defaultNow().notNull(),
+  },
+  (table) => [index("artist_genres_genres_idx").using("gin", table.genres)],
+);
+
+/**
+ * Tempo, key and energy of a catalogued track, from the audio feature
+ * provider (see lib/audio-features.ts). Shared by every user, like the
+ * catalog. A track the provider has no analysis of is stored with nulls,
+ * so it is not looked up again until the row is due for a refresh.
+ */
+export const trackAudioFeatures = pgTable(
+  "track_audio_features",
+  {
+    trackId: text("track_id")
+      .primaryKey()
+      .references(() => catalogTracks.id),
+    bpm: real("bpm"),
+    // Pitch class: 0 = C … 11 = B
+    key: smallint("key"),
+    mode: text("mode").$type<KeyMode>(),
+    // 0 (quiet) … 1 (loud, dense)
+    energy: real("energy"),
+    // Provider the values came from, e.g. "acousticbrainz"
+    source: text("source").notNull(),
+    fetchedAt: timestamp("fetched_at").defaultNow().notNull(),
+  },
+  (table) => [index("track_audio_features_bpm_idx").on(table.bpm)],
+);
+
+/**
+ * A user's canonical-track mapping: plays of `trackSpotifyId` count as plays
+ * of `canonicalId` (see lib/canonical-tracks.ts). Reissues, remasters and
+ * deluxe editions give one song several Spotify IDs; merging them makes
+ * Vault rows, track pages and unique-track totals treat it as one song.
+ *
+ * Only merged IDs have a row — an ID without one is its own canonical ID.
+ * Mappings are flat: `canonicalId` never has a row of its own, so a lookup
+ * is a single hop. `reason` records why the merge was made ("isrc",
+ * "title" or "manual").
+ */
+export const trackMerges = pgTable(
+  "track_merges",
+  {
+    id: serial("id").primaryKey(),
+    userId: uuid("user_id")
+      .references(() => users.id)
+      .notNull(),
+    trackSpotifyId: text("track_spotify_id").notNull(),
+    canonicalId: text("canonical_id").notNull(),
+    reason: text("reason").$type<MergeReason>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    // One canonical ID per track — the conflict target for merging
+    uniqueIndex("track_merges_user_track_idx").on(table.userId, table.trackSpotifyId),
+    // Listing the variants of a canonical track
+    index("track_merges_canonical_idx").on(table.userId, table.canonicalId),
+  ],
+);
+
+/**
+ * A user's artist identities: plays credited to `artistName` count toward
+ * `canonicalName` in every artist aggregate (see lib/artist-aliases.ts), so
+ * "クリーピーナッツ" and "Creepy Nuts", or an artist's old and new names, are
+ * one artist.
+ *
+ * "spotify" rows come from the catalog: names whose tracks share a Spotify
+ * artist ID resolve to that artist's catalog name, and `spotifyArtistId`
+ * is kept — also for names that are already canonical. "manual" rows are
+ * the user's own merges and splits and are never overwritten by a
+ * resolution; a split is a manual row mapping a name onto itself. Names
+ * without a row are their own identity.
+ */
+export const artistAliases = pgTable(
+  "artist_aliases",
+  {
+    id: serial("id").primaryKey(),
+    userId: uuid("user_id")
+      .references(() => users.id)
+      .notNull(),
+    artistName: text("artist_name").notNull(),
+    canonicalName: text("canonical_name").notNull(),
+    spotifyArtistId: text("spotify_artist_id"),
+    source: text("source").$type<ArtistAliasSource>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    // One identity per name — the conflict target for merges and resolution
+    uniqueIndex("artist_aliases_user_name_idx").on(table.userId, table.artistName),
+    // Listing the names merged into an artist
+    index("artist_aliases_canonical_idx").on(table.userId, table.canonicalName),
+  ],
+);
+
+/**
+ * Per-user position in Spotify's Recently Played feed, for continuous
+ * scrobbling (see lib/scrobble.ts).
+ *
+ * `afterMs` only advances once a poll's plays are stored, so a failed or
+ * repeated poll re-reads the same window and the play unique index drops
+ * anything already inserted — polling is idempotent.
+ */
+export const scrobbleCursors = pgTable("scrobble_cursors", {
+  userId: uuid("user_id")
+    .primaryKey()
+    .references(() => users.id),
+  // Unix ms of the newest play stored — Spotify's `after` cursor for the next poll
+  afterMs: bigint("after_ms", { mode: "number" }),
+  lastPolledAt: timestamp("last_polled_at"),
+  // Last polling error, cleared by the next successful poll
+  lastError: text("last_error"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
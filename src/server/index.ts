@@ -5,6 +5,10 @@
  * compiled output lives at `dist/_worker.js` and runs on Cloudflare Pages
  * Functions. During development, `@hono/vite-dev-server` serves both this API
  * and the React SPA on a single port (5173).
+ *
+ * `scheduled` is the cron entry point for continuous scrobbling. Cloudflare
+ * Pages does not run cron triggers, so it is deployed as a separate Worker
+ * from `src/server/worker.ts`.
  */
 
 import { Hono } from "hono";
@@ -19,6 +23,11 @@ import vault from "./routes/vault";
 import heatmapRoutes from "./routes/heatmap";
 import patterns from "./routes/patterns";
 import strataRoutes from "./routes/strata";
+import showsRoutes from "./routes/shows";
+import listenbrainzRoutes from "./routes/listenbrainz";
+import settingsRoutes from "./routes/settings";
+import genresRoutes from "./routes/genres";
+import { runScrobblePoll } from "./lib/scrobble";
 
 const app = new Hono<{ Bindings: Env }>()
   // New Relic instrumentation — registered first to wrap the entire lifecycle
@@ -35,13 +44,22 @@ const app = new Hono<{ Bindings: Env }>()
   .route("/api/vault", vault)
   .route("/api/heatmap", heatmapRoutes)
   .route("/api/patterns", patterns)
-  .route("/api/strata", strataRoutes);
+  .route("/api/strata", strataRoutes)
+  .route("/api/shows", showsRoutes)
+  .route("/api/listenbrainz", listenbrainzRoutes)
+  .route("/api/settings", settingsRoutes)
+  .route("/api/genres", genresRoutes);
 
 // Simple liveness probe — no auth required, useful for uptime monitoring
 app.get("/api/health", (c) => c.json({ status: "ok" }));
 
 export default app;
 
+/** Cron handler — polls Recently Played for every connected user. */
+export const scheduled: ExportedHandlerScheduledHandler<Env> = (_controller, env, ctx) => {
+  ctx.waitUntil(runScrobblePoll(env));
+};
+
 // Exported so the client-side fetch wrapper (`src/client/lib/api.ts`) can
 // derive end-to-end type safety from the route definitions.
 export type AppType = typeof app;
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { createMockDb } from "../../test/mocks/db";
+import { mergeArtists, splitArtist, spotifyAliasRows } from "./artist-aliases";
+
+describe("spotifyAliasRows", () => {
+  const catalogNames = new Map([["artist-1", "宇多田ヒカル"]]);
+
+  it("names every resolved name after its catalog artist", () => {
+    expect(
+      spotifyAliasRows(
+        [
+          { artistName: "Utada Hikaru", spotifyArtistId: "artist-1" },
+          { artistName: "宇多田ヒカル", spotifyArtistId: "artist-1" },
+        ],
+        catalogNames,
+        new Set(),
+      ),
+    ).toEqual([
+      { artistName: "Utada Hikaru", canonicalName: "宇多田ヒカル", spotifyArtistId: "artist-1" },
+      { artistName: "宇多田ヒカル", canonicalName: "宇多田ヒカル", spotifyArtistId: "artist-1" },
+    ]);
+  });
+
+  it("skips manual names and artists missing from the catalog", () => {
+    expect(
+      spotifyAliasRows(
+        [
+          { artistName: "Utada", spotifyArtistId: "artist-1" },
+          { artistName: "Hikki", spotifyArtistId: "artist-2" },
+        ],
+        catalogNames,
+        new Set(["Utada"]),
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("mergeArtists", () => {
+  it("merges into the artist the canonical name already belongs to", async () => {
+    const db = createMockDb({ selectData: [{ canonicalName: "宇多田ヒカル" }] });
+    const canonicalName = await mergeArtists(db as never, "user-1", "Utada Hikaru", ["Utada", "宇多田ヒカル"]);
+
+    expect(canonicalName).toBe("宇多田ヒカル");
+    expect(db._lastUpdateChain.set).toHaveBeenCalledWith({ canonicalName: "宇多田ヒカル", source: "manual" });
+    expect(db._lastInsertChain.values).toHaveBeenCalledWith([
+      { userId: "user-1", artistName: "Utada", canonicalName: "宇多田ヒカル", source: "manual" },
+    ]);
+  });
+
+  it("writes nothing when only the canonical name itself is given", async () => {
+    const db = createMockDb();
+    expect(await mergeArtists(db as never, "user-1", "Utada", ["Utada"])).toBe("Utada");
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+});
+
+describe("splitArtist", () => {
+  it("pins the name to itself so resolution leaves it alone", async () => {
+    const db = createMockDb();
+    await splitArtist(db as never, "user-1", "Utada");
+    expect(db._lastInsertChain.values).toHaveBeenCalledWith({
+      userId: "user-1",
+      artistName: "Utada",
+      canonicalName: "Utada",
+      source: "manual",
+    });
+  });
+});
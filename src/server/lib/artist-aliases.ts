@@ -0,0 +1,195 @@
+/**
+ * Artist identities: one artist under every name the plays use for it.
+ *
+ * listening_history keeps the artist name each source wrote, so a rename,
+ * a romanisation or a Last.fm spelling splits one artist into several.
+ * A user's artist_aliases rows map names onto a canonical name. Artist
+ * aggregates join them with `aliasJoin()` and group by `artistIdentity()`;
+ * filters on one artist use `byArtist()`, which needs no join (nor does
+ * `resolvedArtistName()`, for other lookups keyed by the resolved name).
+ *
+ * Names are resolved to Spotify artist IDs through the catalog: each name
+ * takes the primary artist of its catalogued tracks, and names sharing an
+ * ID become that artist's catalog name. Manual merges and splits always
+ * win over a resolution.
+ */
+import { and, eq, inArray, sql, type SQL, type SQLWrapper } from "drizzle-orm";
+import type { Database } from "../db";
+import {
+  artistAliases,
+  catalogArtists,
+  catalogTracks,
+  listeningHistory,
+} from "../db/schema";
+import { musicPlays } from "./plays";
+import type { ArtistResolveResult } from "../../shared/validators/artists";
+
+/**
+ * Join condition attaching a play's artist_aliases row, if it has one.
+ * Use as `.leftJoin(artistAliases, aliasJoin())`. `name` is the artist
+ * name to resolve — the play's own unless a credit is given.
+ */
+export function aliasJoin(name: SQLWrapper = listeningHistory.artistName): SQL {
+  return and(eq(artistAliases.userId, listeningHistory.userId), eq(artistAliases.artistName, name))!;
+}
+
+/** A play's canonical artist name. The query must join `aliasJoin(name)`. */
+export function artistIdentity(name: SQLWrapper = listeningHistory.artistName): SQL<string> {
+  return sql<string>`coalesce(${artistAliases.canonicalName}, ${name})`;
+}
+
+/** A play's canonical artist name, looked up in place. Needs no join. */
+export function resolvedArtistName(): SQL<string> {
+  return sql<string>`coalesce(
+    (select ${artistAliases.canonicalName} from ${artistAliases}
+      where ${artistAliases.userId} = ${listeningHistory.userId}
+        and ${artistAliases.artistName} = ${listeningHistory.artistName}),
+    ${listeningHistory.artistName}
+  )`;
+}
+
+/** Plays credited to `artist` under any of its names. Needs no join. */
+export function byArtist(artist: string): SQL {
+  return sql`${resolvedArtistName()} = ${artist}`;
+}
+
+/** The canonical name `artistName` belongs to for `userId` — itself when unaliased. */
+export async function resolveArtistName(
+  db: Database,
+  userId: string,
+  artistName: string,
+): Promise<string> {
+  const [row] = await db
+    .select({ canonicalName: artistAliases.canonicalName })
+    .from(artistAliases)
+    .where(and(eq(artistAliases.userId, userId), eq(artistAliases.artistName, artistName)));
+  return row?.canonicalName ?? artistName;
+}
+
+/** A play artist name with the Spotify artist its catalogued tracks credit first. */
+export interface ResolvedName {
+  artistName: string;
+  spotifyArtistId: string;
+}
+
+/**
+ * Alias rows for names resolved to Spotify artist IDs, named after the
+ * catalog's artist. Names in `pinned` (manual rows) are left alone.
+ */
+export function spotifyAliasRows(
+  resolved: ResolvedName[],
+  catalogNames: Map<string, string>,
+  pinned: Set<string>,
+) {
+  return resolved
+    .filter((r) => !pinned.has(r.artistName) && catalogNames.has(r.spotifyArtistId))
+    .map((r) => ({
+      artistName: r.artistName,
+      canonicalName: catalogNames.get(r.spotifyArtistId)!,
+      spotifyArtistId: r.spotifyArtistId,
+    }));
+}
+
+/**
+ * Resolve the user's artist names through the catalog and store the
+ * outcome as "spotify" aliases. Tracks not yet catalogued are skipped —
+ * resolving again after more album art has loaded picks them up.
+ */
+export async function resolveArtistAliases(
+  db: Database,
+  userId: string,
+): Promise<ArtistResolveResult> {
+  const lh = listeningHistory;
+
+  const resolved = await db
+    .select({
+      artistName: lh.artistName,
+      spotifyArtistId: sql<string>`mode() within group (order by ${catalogTracks.artistIds}[1])`,
+    })
+    .from(lh)
+    .innerJoin(catalogTracks, eq(catalogTracks.id, lh.trackSpotifyId))
+    .where(musicPlays(userId))
+    .groupBy(lh.artistName);
+  if (resolved.length === 0) return { resolved: 0, merged: 0 };
+
+  const manual = await db
+    .select({ artistName: artistAliases.artistName })
+    .from(artistAliases)
+    .where(and(eq(artistAliases.userId, userId), eq(artistAliases.source, "manual")));
+
+  const artists = await db
+    .select({ id: catalogArtists.id, name: catalogArtists.name })
+    .from(catalogArtists)
+    .where(inArray(catalogArtists.id, [...new Set(resolved.map((r) => r.spotifyArtistId))]));
+
+  const rows = spotifyAliasRows(
+    resolved,
+    new Map(artists.map((a) => [a.id, a.name])),
+    new Set(manual.map((m) => m.artistName)),
+  );
+  if (rows.length === 0) return { resolved: 0, merged: 0 };
+
+  await db
+    .insert(artistAliases)
+    .values(rows.map((row) => ({ ...row, userId, source: "spotify" as const })))
+    .onConflictDoUpdate({
+      target: [artistAliases.userId, artistAliases.artistName],
+      set: {
+        canonicalName: sql`excluded.canonical_name`,
+        spotifyArtistId: sql`excluded.spotify_artist_id`,
+      },
+      // A manual row written since the read above still wins
+      setWhere: sql`${artistAliases.source} = 'spotify'`,
+    });
+
+  return {
+    resolved: rows.length,
+    merged: rows.filter((row) => row.canonicalName !== row.artistName).length,
+  };
+}
+
+/**
+ * Merge `artistNames` into `canonicalName` by hand. A canonical name that
+ * is itself an alias resolves first, and names already merged into one of
+ * `artistNames` move along, so aliases stay one hop deep. Returns the
+ * canonical name used.
+ */
+export async function mergeArtists(
+  db: Database,
+  userId: string,
+  canonicalName: string,
+  artistNames: string[],
+): Promise<string> {
+  const target = await resolveArtistName(db, userId, canonicalName);
+  const names = [...new Set(artistNames)].filter((name) => name !== target);
+  if (names.length === 0) return target;
+
+  await db
+    .update(artistAliases)
+    .set({ canonicalName: target, source: "manual" })
+    .where(and(eq(artistAliases.userId, userId), inArray(artistAliases.canonicalName, names)));
+
+  await db
+    .insert(artistAliases)
+    .values(names.map((artistName) => ({ userId, artistName, canonicalName: target, source: "manual" as const })))
+    .onConflictDoUpdate({
+      target: [artistAliases.userId, artistAliases.artistName],
+      set: { canonicalName: target, source: "manual", createdAt: new Date() },
+    });
+
+  return target;
+}
+
+/**
+ * Split `artistName` back out into its own artist. The name is pinned to
+ * itself with a manual row, so a later resolution does not merge it again.
+ */
+export async function splitArtist(db: Database, userId: string, artistName: string): Promise<void> {
+  await db
+    .insert(artistAliases)
+    .values({ userId, artistName, canonicalName: artistName, source: "manual" })
+    .onConflictDoUpdate({
+      target: [artistAliases.userId, artistAliases.artistName],
+      set: { canonicalName: artistName, source: "manual", createdAt: new Date() },
+    });
+}
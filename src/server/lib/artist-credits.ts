@@ -0,0 +1,68 @@
+/**
+ * Artist credits: every artist a play counts toward.
+ *
+ * Streaming History names one artist per play — the track's primary artist
+ * — so features and collaborations never count toward the featured artist.
+ * The catalog's track_artists rows fill them in: a play credits its own
+ * artist name plus every artist after the first on its catalogued track.
+ * Plays of tracks not yet catalogued credit their primary artist only.
+ */
+import { and, eq, gt, or, sql, type SQL } from "drizzle-orm";
+import type { Database } from "../db";
+import { artistAliases, catalogArtists, listeningHistory, trackArtists } from "../db/schema";
+import { byArtist } from "./artist-aliases";
+import { musicPlays } from "./plays";
+import type { ArtistCredit } from "../../shared/validators/artists";
+
+const ARTIST_CREDITS: readonly ArtistCredit[] = ["primary", "all"];
+
+/** Parse a `credit` query parameter, falling back to primary artists only. */
+export function parseArtistCredit(value: string | undefined): ArtistCredit {
+  return ARTIST_CREDITS.includes(value as ArtistCredit) ? (value as ArtistCredit) : "primary";
+}
+
+/**
+ * The user's music plays, one row per credited artist: `playId` is the
+ * listening_history row and `artistName` the credited name, before alias
+ * resolution. Join listening_history on `playId` for the play itself and
+ * resolve names with `aliasJoin(credits.artistName)`.
+ */
+export function creditedPlays(db: Database, userId: string) {
+  const lh = listeningHistory;
+  return db
+    .select({ playId: lh.id, artistName: lh.artistName })
+    .from(lh)
+    .where(musicPlays(userId))
+    .unionAll(
+      db
+        .select({ playId: lh.id, artistName: catalogArtists.name })
+        .from(lh)
+        .innerJoin(
+          trackArtists,
+          and(eq(trackArtists.trackId, lh.trackSpotifyId), gt(trackArtists.position, 0)),
+        )
+        .innerJoin(catalogArtists, eq(catalogArtists.id, trackArtists.artistId))
+        .where(musicPlays(userId)),
+    )
+    .as("credits");
+}
+
+/**
+ * Plays crediting `artist`: as `byArtist()`, plus with `credit` "all" the
+ * plays of tracks featuring it. Needs no join.
+ */
+export function byCreditedArtist(artist: string, credit: ArtistCredit): SQL {
+  if (credit === "primary") return byArtist(artist);
+  return or(
+    byArtist(artist),
+    sql`exists (
+      select 1 from ${trackArtists}
+        inner join ${catalogArtists} on ${catalogArtists.id} = ${trackArtists.artistId}
+        left join ${artistAliases} on ${artistAliases.userId} = ${listeningHistory.userId}
+          and ${artistAliases.artistName} = ${catalogArtists.name}
+      where ${trackArtists.trackId} = ${listeningHistory.trackSpotifyId}
+        and ${trackArtists.position} > 0
+        and coalesce(${artistAliases.canonicalName}, ${catalogArtists.name}) = ${artist}
+    )`,
+  )!;
+}
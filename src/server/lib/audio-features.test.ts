@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll, vi } from "vitest";
+import { http, HttpResponse } from "msw";
+import { createMockDb } from "../../test/mocks/db";
+import { spotifyServer } from "../../test/mocks/spotify-api";
+import {
+  acousticBrainzProvider,
+  parseLowLevel,
+  refreshAudioFeatures,
+  staleFeatureTrackIds,
+  type AudioFeatureProvider,
+} from "./audio-features";
+import { TokenBucket } from "./token-bucket";
+
+beforeAll(() => spotifyServer.listen({ onUnhandledRequest: "error" }));
+afterEach(() => spotifyServer.resetHandlers());
+afterAll(() => spotifyServer.close());
+
+const fetchedAt = new Date("2025-01-01T00:00:00Z");
+
+const lowLevel = {
+  rhythm: { bpm: 127.96 },
+  tonal: { key_key: "Bb", key_scale: "minor" },
+  lowlevel: { average_loudness: 0.82 },
+};
+
+describe("parseLowLevel", () => {
+  it("reads tempo, key and loudness as energy", () => {
+    expect(parseLowLevel(lowLevel)).toEqual({ bpm: 128, key: 10, mode: "minor", energy: 0.82 });
+  });
+
+  it("leaves out what the document does not have", () => {
+    expect(parseLowLevel({ tonal: { key_key: "H", key_scale: "major" } })).toEqual({
+      bpm: null,
+      key: null,
+      mode: null,
+      energy: null,
+    });
+  });
+});
+
+describe("acousticBrainzProvider", () => {
+  const provider = acousticBrainzProvider({
+    musicBrainzBaseUrl: "http://mb.test",
+    acousticBrainzBaseUrl: "http://ab.test",
+    rateLimiter: new TokenBucket(100, 100),
+  });
+
+  it("maps ISRCs to recordings and reads the first analysed one", async () => {
+    spotifyServer.use(
+      http.get("http://mb.test/ws/2/isrc/:isrc", ({ params }) =>
+        params.isrc === "JPAB01900001"
+          ? HttpResponse.json({ recordings: [{ id: "mbid-unanalysed" }, { id: "mbid-1" }] })
+          : new HttpResponse(null, { status: 404 }),
+      ),
+      http.get("http://ab.test/api/v1/low-level", ({ request }) => {
+        expect(new URL(request.url).searchParams.get("recording_ids")).toBe("mbid-unanalysed;mbid-1");
+        return HttpResponse.json({ "mbid-1": { "0": lowLevel } });
+      }),
+    );
+
+    const result = await provider.fetchFeatures([
+      { trackId: "track123", isrc: "JPAB01900001" },
+      { trackId: "track456", isrc: "UNKNOWN00001" },
+    ]);
+    expect(result.features).toEqual(
+      new Map([["track123", { bpm: 128, key: 10, mode: "minor", energy: 0.82 }]]),
+    );
+    expect(result.deferred).toEqual(new Set());
+  });
+
+  it("defers a track MusicBrainz answers 503 for and keeps the rest", async () => {
+    spotifyServer.use(
+      http.get("http://mb.test/ws/2/isrc/:isrc", ({ params }) =>
+        params.isrc === "JPAB01900002"
+          ? new HttpResponse(null, { status: 503 })
+          : HttpResponse.json({ recordings: [{ id: `mbid-${params.isrc}` }] }),
+      ),
+      http.get("http://ab.test/api/v1/low-level", () =>
+        HttpResponse.json({
+          "mbid-JPAB01900001": { "0": lowLevel },
+          "mbid-JPAB01900003": { "0": lowLevel },
+        }),
+      ),
+    );
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = await provider.fetchFeatures([
+      { trackId: "track1", isrc: "JPAB01900001" },
+      { trackId: "track2", isrc: "JPAB01900002" },
+      { trackId: "track3", isrc: "JPAB01900003" },
+    ]);
+    expect([...result.features.keys()]).toEqual(["track1", "track3"]);
+    expect(result.deferred).toEqual(new Set(["track2"]));
+  });
+
+  it("defers tracks whose recordings AcousticBrainz failed to answer for", async () => {
+    spotifyServer.use(
+      http.get("http://mb.test/ws/2/isrc/:isrc", () => HttpResponse.json({ recordings: [{ id: "mbid-1" }] })),
+      http.get("http://ab.test/api/v1/low-level", () => new HttpResponse(null, { status: 503 })),
+    );
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const result = await provider.fetchFeatures([{ trackId: "track123", isrc: "JPAB01900001" }]);
+    expect(result.features.size).toBe(0);
+    expect(result.deferred).toEqual(new Set(["track123"]));
+  });
+
+  it("takes a rate-limit token for every ISRC lookup", async () => {
+    const rateLimiter = new TokenBucket(5, 1);
+    spotifyServer.use(
+      http.get("http://mb.test/ws/2/isrc/:isrc", () => new HttpResponse(null, { status: 404 })),
+    );
+    const limited = acousticBrainzProvider({ musicBrainzBaseUrl: "http://mb.test", rateLimiter });
+
+    await limited.fetchFeatures([
+      { trackId: "track1", isrc: "JPAB01900001" },
+      { trackId: "track2", isrc: "JPAB01900002" },
+    ]);
+    expect(rateLimiter.available()).toBeLessThan(4);
+  });
+});
+
+describe("staleFeatureTrackIds", () => {
+  it("returns IDs without recently fetched features", async () => {
+    const db = createMockDb({ selectData: [{ trackId: "fresh" }] });
+    expect(await staleFeatureTrackIds(db as never, ["fresh", "missing", "missing"], fetchedAt)).toEqual([
+      "missing",
+    ]);
+  });
+});
+
+describe("refreshAudioFeatures", () => {
+  const provider: AudioFeatureProvider = {
+    name: "test",
+    fetchFeatures: vi.fn(async () => ({
+      features: new Map([["track123", { bpm: 120, key: 0, mode: "major" as const, energy: 0.5 }]]),
+      deferred: new Set<string>(),
+    })),
+  };
+
+  it("stores found tracks and catalogued tracks the provider lacks", async () => {
+    const db = createMockDb({
+      selectData: [
+        { id: "track123", isrc: "JPAB01900001" },
+        { id: "track456", isrc: null },
+      ],
+    });
+    const stored = await refreshAudioFeatures(db as never, provider, ["track123", "track456", "uncatalogued"], fetchedAt);
+
+    expect(stored).toBe(2);
+    expect(provider.fetchFeatures).toHaveBeenCalledWith([{ trackId: "track123", isrc: "JPAB01900001" }]);
+    expect(db._lastInsertChain.values).toHaveBeenCalledWith([
+      { trackId: "track123", bpm: 120, key: 0, mode: "major", energy: 0.5, source: "test", fetchedAt },
+      { trackId: "track456", bpm: null, key: null, mode: null, energy: null, source: "test", fetchedAt },
+    ]);
+  });
+
+  it("leaves deferred tracks to a later refresh and stores the rest", async () => {
+    const partial: AudioFeatureProvider = {
+      name: "test",
+      fetchFeatures: vi.fn(async () => ({
+        features: new Map([["track123", { bpm: 120, key: 0, mode: "major" as const, energy: 0.5 }]]),
+        deferred: new Set(["track789"]),
+      })),
+    };
+    const db = createMockDb({
+      selectData: [
+        { id: "track123", isrc: "JPAB01900001" },
+        { id: "track789", isrc: "JPAB01900009" },
+      ],
+    });
+
+    expect(await refreshAudioFeatures(db as never, partial, ["track123", "track789"], fetchedAt)).toBe(1);
+    expect(db._lastInsertChain.values).toHaveBeenCalledWith([
+      { trackId: "track123", bpm: 120, key: 0, mode: "major", energy: 0.5, source: "test", fetchedAt },
+    ]);
+  });
+
+  it("writes nothing when the provider fails", async () => {
+    const failing: AudioFeatureProvider = {
+      name: "test",
+      fetchFeatures: vi.fn().mockRejectedValue(new Error("offline")),
+    };
+    const db = createMockDb({ selectData: [{ id: "track123", isrc: "JPAB01900001" }] });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await refreshAudioFeatures(db as never, failing, ["track123"])).toBe(0);
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+});
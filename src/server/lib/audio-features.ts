@@ -0,0 +1,317 @@
+/**
+ * Track structure data — tempo, key and energy — from an open metadata
+ * source, since Spotify's Audio Features API is closed to new apps.
+ *
+ * An AudioFeatureProvider looks catalogued tracks up by ISRC. The one
+ * adapter, `acousticBrainzProvider()`, maps ISRCs to MusicBrainz recordings
+ * and reads their AcousticBrainz low-level analysis; both base URLs are
+ * configurable, so it can run against a local mirror of either service.
+ * MusicBrainz allows about one request per second, so ISRC lookups take a
+ * token from a bucket shared by the isolate, and a track the services are
+ * too busy to answer for is deferred rather than failing the whole batch.
+ *
+ * Results are stored per track in track_audio_features, shared by every
+ * user like the catalog. Requests read what is stored and refresh missing
+ * or stale tracks after the response, at most AUDIO_FEATURE_BATCH at a
+ * time. Per-track aggregates join `featureJoin()` after `mergeJoin()`, so
+ * merged variants take the canonical track's features.
+ */
+import { and, eq, gte, inArray, sql, type SQL } from "drizzle-orm";
+import type { Database } from "../db";
+import { catalogTracks, trackAudioFeatures } from "../db/schema";
+import type { Env } from "../types";
+import { canonicalTrackId } from "./canonical-tracks";
+import { TokenBucket } from "./token-bucket";
+import type { KeyMode, TrackAudioFeatures } from "../../shared/validators/audio-features";
+
+/** Stored features older than this are looked up again — the catalog's cadence. */
+export const AUDIO_FEATURE_REFRESH_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Most tracks looked up by one request's background refresh. At one ISRC
+ * lookup a second this stays inside the ~30 s waitUntil allows.
+ */
+export const AUDIO_FEATURE_BATCH = 20;
+
+// Defaults for the configurable MUSICBRAINZ_API_BASE_URL / ACOUSTICBRAINZ_API_BASE_URL
+// bindings, which point the provider at a local mirror
+export const DEFAULT_MUSICBRAINZ_BASE_URL = "https://musicbrainz.org";
+export const DEFAULT_ACOUSTICBRAINZ_BASE_URL = "https://acousticbrainz.org";
+
+// MusicBrainz asks every client to identify itself
+const USER_AGENT = "strata-co/1.0 (audio features)";
+
+// Recordings per AcousticBrainz bulk request — the API's limit
+const ACOUSTICBRAINZ_BULK_LIMIT = 25;
+
+/** MusicBrainz's published limit: one request per second per client. */
+const musicBrainzRateLimiter = new TokenBucket(1, 1);
+
+/** A catalogued track to look up. */
+export interface FeatureLookup {
+  trackId: string;
+  isrc: string;
+}
+
+/** What one lookup found out. */
+export interface FeatureResult {
+  /**
+   * Features of the tracks the source has analysed, keyed by track ID.
+   * Tracks it knows nothing about are left out.
+   */
+  features: Map<string, TrackAudioFeatures>;
+  /** Tracks the source could not answer for this time; looked up again later. */
+  deferred: Set<string>;
+}
+
+/** A source of tempo, key and energy for tracks, looked up by ISRC. */
+export interface AudioFeatureProvider {
+  /** Stored as each row's source, e.g. "acousticbrainz". */
+  readonly name: string;
+  /**
+   * Look `tracks` up. Throws when the source cannot be used at all, so the
+   * whole lookup is tried again later.
+   */
+  fetchFeatures(tracks: FeatureLookup[]): Promise<FeatureResult>;
+}
+
+/** Features of a track the source has no analysis of. */
+const NO_FEATURES: TrackAudioFeatures = { bpm: null, key: null, mode: null, energy: null };
+
+// Key names as Essentia writes them, sharps and flats both
+const PITCH_CLASS_NUMBERS: Record<string, number> = {
+  C: 0,
+  "C#": 1,
+  Db: 1,
+  D: 2,
+  "D#": 3,
+  Eb: 3,
+  E: 4,
+  F: 5,
+  "F#": 6,
+  Gb: 6,
+  G: 7,
+  "G#": 8,
+  Ab: 8,
+  A: 9,
+  "A#": 10,
+  Bb: 10,
+  B: 11,
+};
+
+/** The parts of an AcousticBrainz low-level document that are read. */
+export interface LowLevelDocument {
+  rhythm?: { bpm?: number };
+  tonal?: { key_key?: string; key_scale?: string };
+  lowlevel?: { average_loudness?: number };
+}
+
+/**
+ * Tempo, key and energy from a low-level document. AcousticBrainz has no
+ * energy descriptor; average loudness (0–1) stands in for it.
+ */
+export function parseLowLevel(doc: LowLevelDocument): TrackAudioFeatures {
+  const bpm = doc.rhythm?.bpm;
+  const key = doc.tonal?.key_key !== undefined ? PITCH_CLASS_NUMBERS[doc.tonal.key_key] : undefined;
+  const scale = doc.tonal?.key_scale;
+  const loudness = doc.lowlevel?.average_loudness;
+  return {
+    bpm: typeof bpm === "number" && bpm > 0 ? Math.round(bpm * 10) / 10 : null,
+    key: key ?? null,
+    mode: key !== undefined && (scale === "major" || scale === "minor") ? (scale as KeyMode) : null,
+    energy: typeof loudness === "number" ? Math.min(Math.max(loudness, 0), 1) : null,
+  };
+}
+
+/**
+ * Provider backed by MusicBrainz (ISRC → recording IDs) and AcousticBrainz
+ * (recording → low-level analysis). A track takes the first of its
+ * recordings that has an analysis. A track whose ISRC lookup fails (503
+ * when MusicBrainz is over its limit, or a timeout), or whose recordings
+ * were in a failed AcousticBrainz request, is deferred; the rest are kept.
+ */
+export function acousticBrainzProvider(
+  options: {
+    musicBrainzBaseUrl?: string;
+    acousticBrainzBaseUrl?: string;
+    /** Paces ISRC lookups; defaults to the limiter shared by the isolate. */
+    rateLimiter?: TokenBucket;
+  } = {},
+): AudioFeatureProvider {
+  const musicBrainz = options.musicBrainzBaseUrl ?? DEFAULT_MUSICBRAINZ_BASE_URL;
+  const acousticBrainz = options.acousticBrainzBaseUrl ?? DEFAULT_ACOUSTICBRAINZ_BASE_URL;
+  const rateLimiter = options.rateLimiter ?? musicBrainzRateLimiter;
+  const init = { headers: { "User-Agent": USER_AGENT, Accept: "application/json" } };
+
+  // Response of a GET, or null when it failed to arrive
+  const get = (url: string) =>
+    fetch(url, { ...init, signal: AbortSignal.timeout(10_000) }).catch((err: unknown) => {
+      console.warn(`[audio-features] ${new URL(url).host} unreachable:`, err);
+      return null;
+    });
+
+  return {
+    name: "acousticbrainz",
+
+    async fetchFeatures(tracks) {
+      const deferred = new Set<string>();
+      const recordings = new Map<string, string[]>();
+      for (const track of tracks) {
+        await rateLimiter.take();
+        const res = await get(`${musicBrainz}/ws/2/isrc/${encodeURIComponent(track.isrc)}?fmt=json`);
+        // An ISRC MusicBrainz has never seen
+        if (res?.status === 404) continue;
+        if (!res?.ok) {
+          if (res) console.warn(`[audio-features] MusicBrainz ISRC lookup failed: ${res.status}`);
+          deferred.add(track.trackId);
+          continue;
+        }
+        const data = (await res.json()) as { recordings?: Array<{ id: string }> };
+        recordings.set(track.trackId, (data.recordings ?? []).map((r) => r.id));
+      }
+
+      const ids = [...new Set([...recordings.values()].flat())];
+      const docs = new Map<string, LowLevelDocument>();
+      const unanswered = new Set<string>();
+      for (let i = 0; i < ids.length; i += ACOUSTICBRAINZ_BULK_LIMIT) {
+        const batch = ids.slice(i, i + ACOUSTICBRAINZ_BULK_LIMIT);
+        const res = await get(`${acousticBrainz}/api/v1/low-level?recording_ids=${batch.join(";")}`);
+        if (!res?.ok) {
+          if (res) console.warn(`[audio-features] AcousticBrainz lookup failed: ${res.status}`);
+          for (const id of batch) unanswered.add(id);
+          continue;
+        }
+        // Keyed by recording ID, then by submission ("0" is the first)
+        const data = (await res.json()) as Record<string, Record<string, LowLevelDocument>>;
+        for (const id of batch) {
+          const doc = data[id]?.["0"];
+          if (doc) docs.set(id, doc);
+        }
+      }
+
+      const features = new Map<string, TrackAudioFeatures>();
+      for (const [trackId, recordingIds] of recordings) {
+        const doc = recordingIds.map((id) => docs.get(id)).find((d) => d !== undefined);
+        if (doc) features.set(trackId, parseLowLevel(doc));
+        else if (recordingIds.some((id) => unanswered.has(id))) deferred.add(trackId);
+      }
+      return { features, deferred };
+    },
+  };
+}
+
+/** The provider configured by the environment bindings. */
+export function audioFeatureProvider(env: Env): AudioFeatureProvider {
+  return acousticBrainzProvider({
+    musicBrainzBaseUrl: env.MUSICBRAINZ_API_BASE_URL,
+    acousticBrainzBaseUrl: env.ACOUSTICBRAINZ_API_BASE_URL,
+  });
+}
+
+/**
+ * Join condition attaching a play's track_audio_features row, by canonical
+ * track. Use as `.leftJoin(trackAudioFeatures, featureJoin())` after
+ * `mergeJoin()`.
+ */
+export function featureJoin(): SQL {
+  return eq(trackAudioFeatures.trackId, canonicalTrackId());
+}
+
+/** IDs among `trackIds` with no stored features, or ones due for a refresh. */
+export async function staleFeatureTrackIds(
+  db: Database,
+  trackIds: string[],
+  now = new Date(),
+): Promise<string[]> {
+  if (trackIds.length === 0) return [];
+  const fresh = await db
+    .select({ trackId: trackAudioFeatures.trackId })
+    .from(trackAudioFeatures)
+    .where(
+      and(
+        inArray(trackAudioFeatures.trackId, trackIds),
+        gte(trackAudioFeatures.fetchedAt, new Date(now.getTime() - AUDIO_FEATURE_REFRESH_MS)),
+      ),
+    );
+  const freshIds = new Set(fresh.map((r) => r.trackId));
+  return [...new Set(trackIds)].filter((id) => !freshIds.has(id));
+}
+
+/** Stored features of `trackIds`, keyed by track ID. */
+export async function loadAudioFeatures(
+  db: Database,
+  trackIds: string[],
+): Promise<Map<string, TrackAudioFeatures>> {
+  if (trackIds.length === 0) return new Map();
+  const rows = await db
+    .select({
+      trackId: trackAudioFeatures.trackId,
+      bpm: trackAudioFeatures.bpm,
+      key: trackAudioFeatures.key,
+      mode: trackAudioFeatures.mode,
+      energy: trackAudioFeatures.energy,
+    })
+    .from(trackAudioFeatures)
+    .where(inArray(trackAudioFeatures.trackId, trackIds));
+  return new Map(rows.map(({ trackId, ...features }) => [trackId, features]));
+}
+
+/**
+ * Look `trackIds` up with `provider` and store the results. Tracks not yet
+ * in the catalog are skipped — their ISRC is unknown until album art has
+ * loaded. Catalogued tracks the provider has nothing for, or that have no
+ * ISRC, are stored without features. Tracks the provider deferred are not
+ * stored, and when it fails outright nothing is, so those are tried again
+ * on a later request. Returns how many tracks were stored.
+ */
+export async function refreshAudioFeatures(
+  db: Database,
+  provider: AudioFeatureProvider,
+  trackIds: string[],
+  now = new Date(),
+): Promise<number> {
+  if (trackIds.length === 0) return 0;
+  const catalogued = await db
+    .select({ id: catalogTracks.id, isrc: catalogTracks.isrc })
+    .from(catalogTracks)
+    .where(inArray(catalogTracks.id, trackIds));
+  if (catalogued.length === 0) return 0;
+
+  const lookups = catalogued.flatMap((t) => (t.isrc ? [{ trackId: t.id, isrc: t.isrc }] : []));
+  let found: FeatureResult;
+  try {
+    found =
+      lookups.length > 0
+        ? await provider.fetchFeatures(lookups)
+        : { features: new Map(), deferred: new Set() };
+  } catch (err) {
+    console.error(`[audio-features] ${provider.name} lookup failed:`, err);
+    return 0;
+  }
+
+  const answered = catalogued.filter((t) => !found.deferred.has(t.id));
+  if (answered.length === 0) return 0;
+
+  await db
+    .insert(trackAudioFeatures)
+    .values(
+      answered.map((t) => ({
+        trackId: t.id,
+        ...(found.features.get(t.id) ?? NO_FEATURES),
+        source: provider.name,
+        fetchedAt: now,
+      })),
+    )
+    .onConflictDoUpdate({
+      target: trackAudioFeatures.trackId,
+      set: {
+        bpm: sql`excluded.bpm`,
+        key: sql`excluded.key`,
+        mode: sql`excluded.mode`,
+        energy: sql`excluded.energy`,
+        source: sql`excluded.source`,
+        fetchedAt: now,
+      },
+    });
+  return answered.length;
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { createMockDb } from "../../test/mocks/db";
+import { mergeTracks, suggestMerges, titleKey, type MergeCandidate } from "./canonical-tracks";
+
+function candidate(overrides: Partial<MergeCandidate> & { trackSpotifyId: string }): MergeCandidate {
+  return {
+    trackName: "Karma Police",
+    artistName: "Radiohead",
+    albumName: "OK Computer",
+    playCount: 1,
+    isrc: null,
+    canonicalId: null,
+    reason: null,
+    ...overrides,
+  };
+}
+
+describe("titleKey", () => {
+  it("drops edition suffixes in brackets and after a dash", () => {
+    const key = titleKey("Radiohead", "Karma Police");
+    expect(titleKey("Radiohead", "Karma Police - Remastered 2017")).toBe(key);
+    expect(titleKey("RADIOHEAD", "Karma Police (2017 Remaster) [Deluxe Edition]")).toBe(key);
+    expect(titleKey("Radiohead", "Karma Police (feat. Nobody)")).toBe(key);
+  });
+
+  it("keeps suffixes that name a different recording", () => {
+    const key = titleKey("Radiohead", "Karma Police");
+    expect(titleKey("Radiohead", "Karma Police - Live at Glastonbury")).not.toBe(key);
+    expect(titleKey("Radiohead", "Karma Police (Acoustic)")).not.toBe(key);
+  });
+});
+
+describe("suggestMerges", () => {
+  it("groups remasters by title and suggests the most played real ID", () => {
+    const [suggestion, ...rest] = suggestMerges([
+      candidate({ trackSpotifyId: "provisional:kp", playCount: 50 }),
+      candidate({ trackSpotifyId: "original", playCount: 20 }),
+      candidate({ trackSpotifyId: "remaster", trackName: "Karma Police - Remastered", playCount: 30 }),
+      candidate({ trackSpotifyId: "airbag", trackName: "Airbag", playCount: 90 }),
+    ]);
+    expect(rest).toEqual([]);
+    expect(suggestion.canonicalId).toBe("remaster");
+    expect(suggestion.reason).toBe("title");
+    expect(suggestion.variants.map((v) => v.trackSpotifyId)).toEqual([
+      "provisional:kp",
+      "remaster",
+      "original",
+    ]);
+  });
+
+  it("matches differently titled releases of one recording by ISRC", () => {
+    const [suggestion] = suggestMerges([
+      candidate({ trackSpotifyId: "a", isrc: "GBAYE9700090" }),
+      candidate({ trackSpotifyId: "b", trackName: "Karma Police (OKNOTOK)", isrc: "GBAYE9700090" }),
+    ]);
+    expect(suggestion.reason).toBe("isrc");
+  });
+
+  it("leaves out groups that are already merged", () => {
+    expect(
+      suggestMerges([
+        candidate({ trackSpotifyId: "original" }),
+        candidate({ trackSpotifyId: "remaster", canonicalId: "original", reason: "title" }),
+      ]),
+    ).toEqual([]);
+  });
+});
+
+describe("mergeTracks", () => {
+  it("merges into the canonical ID the target already belongs to", async () => {
+    const db = createMockDb({ selectData: [{ canonicalId: "original" }] });
+    const canonicalId = await mergeTracks(db as never, "user-1", "remaster", ["deluxe", "original"], "manual");
+
+    expect(canonicalId).toBe("original");
+    expect(db._lastUpdateChain.set).toHaveBeenCalledWith({ canonicalId: "original" });
+    expect(db._lastInsertChain.values).toHaveBeenCalledWith([
+      { userId: "user-1", trackSpotifyId: "deluxe", canonicalId: "original", reason: "manual" },
+    ]);
+  });
+
+  it("writes nothing when only the canonical ID itself is given", async () => {
+    const db = createMockDb();
+    expect(await mergeTracks(db as never, "user-1", "original", ["original"], "manual")).toBe("original");
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Canonical tracks: one identity for a song that Spotify lists under
+ * several track IDs.
+ *
+ * A remaster, a deluxe edition, a compilation appearance or a relinked ID
+ * is a new Spotify track, so grouping plays by `track_spotify_id` splits
+ * one song across several Vault rows. A user's track_merges rows map those
+ * variants onto a canonical ID; per-track stats join them with `mergeJoin()`
+ * and group by `canonicalTrackId()` instead of the raw ID.
+ *
+ * Merge suggestions group the user's tracks by ISRC (from the catalog —
+ * the same recording on any release) and by a normalised artist and title
+ * that ignores edition suffixes like "- 2011 Remaster" or "(Deluxe)".
+ * Nothing is merged until the user accepts a suggestion.
+ */
+import { and, eq, inArray, or, sql, type SQL } from "drizzle-orm";
+import type { Database } from "../db";
+import { listeningHistory, trackMerges } from "../db/schema";
+import { isProvisionalTrackId } from "../../shared/validators/history";
+import type { MergeReason, MergeSuggestion, TrackVariant } from "../../shared/validators/tracks";
+
+/** Most suggestions returned at once, largest groups by plays first. */
+export const SUGGESTION_LIMIT = 50;
+
+// Bracketed or dash-separated title suffixes that name an edition, not a song
+const EDITION_SUFFIX =
+  /\b(remaster(ed)?|deluxe|edition|anniversary|expanded|bonus track|single version|album version|mono|stereo|explicit)\b|^(feat|ft)\.?\s/;
+
+/**
+ * Join condition attaching a play's track_merges row, if it has one.
+ * Use as `.leftJoin(trackMerges, mergeJoin())`.
+ */
+export function mergeJoin(): SQL {
+  return and(
+    eq(trackMerges.userId, listeningHistory.userId),
+    eq(trackMerges.trackSpotifyId, listeningHistory.trackSpotifyId),
+  )!;
+}
+
+/** A play's canonical track ID. The query must join `mergeJoin()`. */
+export function canonicalTrackId(): SQL<string> {
+  return sql<string>`coalesce(${trackMerges.canonicalId}, ${listeningHistory.trackSpotifyId})`;
+}
+
+/** The canonical ID `trackId` belongs to for `userId` — itself when unmerged. */
+export async function resolveCanonicalId(
+  db: Database,
+  userId: string,
+  trackId: string,
+): Promise<string> {
+  const [row] = await db
+    .select({ canonicalId: trackMerges.canonicalId })
+    .from(trackMerges)
+    .where(and(eq(trackMerges.userId, userId), eq(trackMerges.trackSpotifyId, trackId)));
+  return row?.canonicalId ?? trackId;
+}
+
+function normalize(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Artist and title reduced to what identifies the song: edition suffixes
+ * in brackets or after " - " are dropped, then case, width and punctuation
+ * are folded. Versions that are different recordings ("Live", "Acoustic")
+ * keep their suffix and stay apart.
+ */
+export function titleKey(artistName: string, trackName: string): string {
+  let title = trackName;
+  for (;;) {
+    const stripped = title
+      .replace(/\s*[([]([^)\]]*)[)\]]\s*$/, (match, inner: string) =>
+        EDITION_SUFFIX.test(inner.trim().toLowerCase()) ? "" : match,
+      )
+      .replace(/\s+-\s+([^-]+)$/, (match, suffix: string) =>
+        EDITION_SUFFIX.test(suffix.trim().toLowerCase()) ? "" : match,
+      );
+    if (stripped === title) break;
+    title = stripped;
+  }
+  return `${normalize(artistName)}\u0000${normalize(title)}`;
+}
+
+/** One of the user's tracks, as read for merge suggestions. */
+export interface MergeCandidate extends Omit<TrackVariant, "reason"> {
+  isrc: string | null;
+  /** Current canonical ID when the track is merged, else null. */
+  canonicalId: string | null;
+  reason: MergeReason | null;
+}
+
+/**
+ * Groups of candidates that look like one song but are not merged yet.
+ * Tracks sharing an ISRC or a title key end up in one group (transitively),
+ * together with anything already merged with them.
+ */
+export function suggestMerges(candidates: MergeCandidate[]): MergeSuggestion[] {
+  const parent = new Map<string, string>();
+  const byIsrc = new Set<string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(id, root);
+    return root;
+  };
+  const union = (a: string, b: string, isrc: boolean) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return;
+    parent.set(rootB, rootA);
+    if (isrc || byIsrc.has(rootB)) byIsrc.add(rootA);
+  };
+
+  // Nodes are canonical IDs, so existing merges start out as one group
+  const canonicalOf = (c: MergeCandidate) => c.canonicalId ?? c.trackSpotifyId;
+  for (const candidate of candidates) parent.set(canonicalOf(candidate), canonicalOf(candidate));
+
+  const firstByKey = new Map<string, string>();
+  for (const candidate of candidates) {
+    // ISRC first, so a group that shares both is reported as an ISRC match
+    const keys: [string, boolean][] = candidate.isrc ? [[`i:${candidate.isrc}`, true]] : [];
+    keys.push([`t:${titleKey(candidate.artistName, candidate.trackName)}`, false]);
+    for (const [key, isrc] of keys) {
+      const first = firstByKey.get(key);
+      if (first) union(first, canonicalOf(candidate), isrc);
+      else firstByKey.set(key, canonicalOf(candidate));
+    }
+  }
+
+  const groups = new Map<string, MergeCandidate[]>();
+  for (const candidate of candidates) {
+    const root = find(canonicalOf(candidate));
+    groups.set(root, [...(groups.get(root) ?? []), candidate]);
+  }
+
+  const suggestions: { suggestion: MergeSuggestion; plays: number }[] = [];
+  for (const [root, members] of groups) {
+    const playsByCanonical = new Map<string, number>();
+    for (const member of members) {
+      const id = canonicalOf(member);
+      playsByCanonical.set(id, (playsByCanonical.get(id) ?? 0) + member.playCount);
+    }
+    if (playsByCanonical.size < 2) continue;
+
+    // Prefer a real Spotify ID so the merged track stays playable
+    const [canonicalId] = [...playsByCanonical]
+      .sort(([a, playsA], [b, playsB]) =>
+        Number(isProvisionalTrackId(a)) - Number(isProvisionalTrackId(b)) || playsB - playsA,
+      )
+      .map(([id]) => id);
+
+    const suggestion: MergeSuggestion = {
+      canonicalId,
+      reason: byIsrc.has(root) ? "isrc" : "title",
+      variants: members
+        .sort((a, b) => b.playCount - a.playCount)
+        .map(({ trackSpotifyId, trackName, artistName, albumName, playCount, reason }) => ({
+          trackSpotifyId,
+          trackName,
+          artistName,
+          albumName,
+          playCount,
+          reason,
+        })),
+    };
+    suggestions.push({ suggestion, plays: members.reduce((sum, m) => sum + m.playCount, 0) });
+  }
+
+  return suggestions
+    .sort((a, b) => b.plays - a.plays)
+    .slice(0, SUGGESTION_LIMIT)
+    .map(({ suggestion }) => suggestion);
+}
+
+/**
+ * Merge `trackIds` into `canonicalId`. A canonical ID that is itself merged
+ * resolves to its own canonical first, and variants of a merged ID move
+ * with it, so the mapping stays one hop deep. Returns the canonical ID used.
+ */
+export async function mergeTracks(
+  db: Database,
+  userId: string,
+  canonicalId: string,
+  trackIds: string[],
+  reason: MergeReason,
+): Promise<string> {
+  const target = await resolveCanonicalId(db, userId, canonicalId);
+  const ids = [...new Set(trackIds)].filter((id) => id !== target);
+  if (ids.length === 0) return target;
+
+  await db
+    .update(trackMerges)
+    .set({ canonicalId: target })
+    .where(and(eq(trackMerges.userId, userId), inArray(trackMerges.canonicalId, ids)));
+
+  await db
+    .insert(trackMerges)
+    .values(ids.map((trackSpotifyId) => ({ userId, trackSpotifyId, canonicalId: target, reason })))
+    .onConflictDoUpdate({
+      target: [trackMerges.userId, trackMerges.trackSpotifyId],
+      set: { canonicalId: target, reason, createdAt: new Date() },
+    });
+
+  return target;
+}
+
+/**
+ * Unmerge `trackId`: a variant goes back to being its own track, and a
+ * canonical ID releases every variant merged into it. Returns how many
+ * mappings were removed.
+ */
+export async function unmergeTrack(
+  db: Database,
+  userId: string,
+  trackId: string,
+): Promise<number> {
+  const result = await db
+    .delete(trackMerges)
+    .where(
+      and(
+        eq(trackMerges.userId, userId),
+        or(eq(trackMerges.trackSpotifyId, trackId), eq(trackMerges.canonicalId, trackId)),
+      ),
+    );
+  return result?.rowCount ?? 0;
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeAll, afterEach, afterAll } from "vitest";
+import { http, HttpResponse } from "msw";
+import { createMockDb } from "../../test/mocks/db";
+import { spotifyServer, spotifyTrack } from "../../test/mocks/spotify-api";
+import {
+  catalogArt,
+  catalogRows,
+  pickImage,
+  saveCatalogTracks,
+  staleTrackIds,
+} from "./catalog";
+import { SpotifyClient } from "./spotify";
+import { TokenBucket } from "./token-bucket";
+
+beforeAll(() => spotifyServer.listen({ onUnhandledRequest: "error" }));
+afterEach(() => spotifyServer.resetHandlers());
+afterAll(() => spotifyServer.close());
+
+const fetchedAt = new Date("2025-01-01T00:00:00Z");
+const spotify = new SpotifyClient({ clientId: "id", clientSecret: "secret", rateLimiter: new TokenBucket(100, 100) });
+
+describe("pickImage", () => {
+  it("prefers the 300px image", () => {
+    expect(pickImage(spotifyTrack.album.images)).toBe("https://example.com/album-300.jpg");
+  });
+
+  it("falls back to the first image, or null without images", () => {
+    expect(pickImage([{ url: "https://example.com/big.jpg", width: 640, height: 640 }])).toBe(
+      "https://example.com/big.jpg",
+    );
+    expect(pickImage([])).toBeNull();
+  });
+});
+
+describe("catalogRows", () => {
+  it("maps a track onto track, album and artist rows", () => {
+    const rows = catalogRows([spotifyTrack], fetchedAt);
+    expect(rows.tracks).toEqual([
+      {
+        id: "track123",
+        name: "Test Track",
+        durationMs: 215000,
+        albumId: "album123",
+        artistIds: ["artist123"],
+        isrc: "USRC17607839",
+        fetchedAt,
+      },
+    ]);
+    expect(rows.albums).toEqual([
+      {
+        id: "album123",
+        name: "Test Album",
+        releaseDate: "2019-05-17",
+        artistIds: ["artist123"],
+        imageUrl: "https://example.com/album-300.jpg",
+        fetchedAt,
+      },
+    ]);
+    expect(rows.artists).toEqual([{ id: "artist123", name: "Test Artist", fetchedAt }]);
+    expect(rows.credits).toEqual([{ trackId: "track123", artistId: "artist123", position: 0 }]);
+  });
+
+  it("credits featured artists after the primary artist", () => {
+    const featuring = {
+      ...spotifyTrack,
+      artists: [...spotifyTrack.artists, { id: "artist456", name: "Featured Artist" }],
+    };
+    const rows = catalogRows([featuring], fetchedAt);
+    expect(rows.credits.map((c) => [c.artistId, c.position])).toEqual([
+      ["artist123", 0],
+      ["artist456", 1],
+    ]);
+    expect(rows.artists.map((a) => a.id)).toContain("artist456");
+  });
+
+  it("writes each album and artist once across tracks", () => {
+    const second = { ...spotifyTrack, id: "track456", external_ids: undefined };
+    const rows = catalogRows([spotifyTrack, second], fetchedAt);
+    expect(rows.tracks).toHaveLength(2);
+    expect(rows.tracks[1].isrc).toBeNull();
+    expect(rows.albums).toHaveLength(1);
+    expect(rows.artists).toHaveLength(1);
+  });
+});
+
+describe("staleTrackIds", () => {
+  it("returns IDs without a recently fetched catalog row", async () => {
+    const db = createMockDb({ selectData: [{ id: "fresh" }] });
+    const stale = await staleTrackIds(db as never, ["fresh", "missing", "missing"], fetchedAt);
+    expect(stale).toEqual(["missing"]);
+  });
+
+  it("skips the query for no IDs", async () => {
+    const db = createMockDb();
+    expect(await staleTrackIds(db as never, [])).toEqual([]);
+    expect(db.select).not.toHaveBeenCalled();
+  });
+});
+
+describe("saveCatalogTracks", () => {
+  it("upserts albums and artists before the tracks and credits that reference them", async () => {
+    const db = createMockDb();
+    const saved = await saveCatalogTracks(db as never, spotify, "tok", ["track123"], fetchedAt);
+
+    expect(saved).toEqual({ stored: ["track123"], notFound: [] });
+    const inserts = db.insert.mock.results.map((r) => r.value.values.mock.calls[0][0]);
+    expect(inserts.map((rows: { id?: string; artistId?: string }[]) => rows[0].id ?? rows[0].artistId)).toEqual([
+      "album123",
+      "artist123",
+      "track123",
+      "artist123",
+    ]);
+    // Old credits are cleared first so dropped artists do not linger
+    expect(db.delete).toHaveBeenCalledTimes(1);
+    for (const result of db.insert.mock.results) {
+      expect(result.value.onConflictDoUpdate).toHaveBeenCalled();
+    }
+  });
+
+  it("writes nothing when Spotify returns no tracks", async () => {
+    spotifyServer.use(
+      http.get("https://api.spotify.com/v1/tracks/:id", () => new HttpResponse(null, { status: 404 })),
+    );
+    const db = createMockDb();
+    expect(await saveCatalogTracks(db as never, spotify, "tok", ["gone"])).toEqual({ stored: [], notFound: ["gone"] });
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+});
+
+describe("catalogArt", () => {
+  it("returns album art and name keyed by track", async () => {
+    const db = createMockDb({
+      selectData: [{ id: "track123", albumArt: "https://example.com/album-300.jpg", albumName: "Test Album" }],
+    });
+    const art = await catalogArt(db as never, ["track123"]);
+    expect(art.get("track123")).toEqual({
+      albumArt: "https://example.com/album-300.jpg",
+      albumName: "Test Album",
+    });
+  });
+});
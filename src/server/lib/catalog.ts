@@ -0,0 +1,186 @@
+/**
+ * Spotify catalog persistence.
+ *
+ * Tracks, albums and artists fetched from the Web API are upserted into the
+ * catalog tables, so album art, durations and release dates survive isolate
+ * restarts and are shared by every user. Rows are re-fetched once they are
+ * older than CATALOG_REFRESH_MS, which keeps names and images current
+ * without asking Spotify for the same track on every page view.
+ *
+ * Each track's credited artists are also stored one row per artist in
+ * track_artists, so featured artists can be counted per play.
+ */
+import { and, eq, gte, inArray, sql } from "drizzle-orm";
+import type { Database } from "../db";
+import { catalogAlbums, catalogArtists, catalogTracks, trackArtists } from "../db/schema";
+import type { SpotifyClient, SpotifyImage, SpotifyTrack } from "./spotify";
+
+/** A catalog row fetched longer ago than this is fetched again. */
+export const CATALOG_REFRESH_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** What the Vault, Mosaic and track pages show for a track. */
+export interface CatalogArt {
+  albumArt: string;
+  albumName: string;
+}
+
+/** The 300px image when Spotify has one, else the first (largest). */
+export function pickImage(images: SpotifyImage[]): string | null {
+  return images.find((img) => img.width === 300)?.url ?? images[0]?.url ?? null;
+}
+
+/**
+ * Catalog rows for fetched tracks, one per distinct album and artist, plus
+ * a credit row per artist on each track.
+ */
+export function catalogRows(spotifyTracks: SpotifyTrack[], fetchedAt: Date) {
+  const albums = new Map<string, typeof catalogAlbums.$inferInsert>();
+  const artists = new Map<string, typeof catalogArtists.$inferInsert>();
+  const tracks: (typeof catalogTracks.$inferInsert)[] = [];
+  const credits: (typeof trackArtists.$inferInsert)[] = [];
+
+  for (const track of spotifyTracks) {
+    const albumArtists = track.album.artists ?? track.artists;
+    albums.set(track.album.id, {
+      id: track.album.id,
+      name: track.album.name,
+      releaseDate: track.album.release_date ?? null,
+      artistIds: albumArtists.map((a) => a.id),
+      imageUrl: pickImage(track.album.images),
+      fetchedAt,
+    });
+    for (const artist of [...track.artists, ...albumArtists]) {
+      artists.set(artist.id, { id: artist.id, name: artist.name, fetchedAt });
+    }
+    tracks.push({
+      id: track.id,
+      name: track.name,
+      durationMs: track.duration_ms,
+      albumId: track.album.id,
+      artistIds: track.artists.map((a) => a.id),
+      isrc: track.external_ids?.isrc ?? null,
+      fetchedAt,
+    });
+    track.artists.forEach((artist, position) => {
+      credits.push({ trackId: track.id, artistId: artist.id, position });
+    });
+  }
+
+  return { tracks, albums: [...albums.values()], artists: [...artists.values()], credits };
+}
+
+/** IDs among `trackIds` with no catalog row, or one due for a refresh. */
+export async function staleTrackIds(
+  db: Database,
+  trackIds: string[],
+  now = new Date(),
+): Promise<string[]> {
+  if (trackIds.length === 0) return [];
+  const fresh = await db
+    .select({ id: catalogTracks.id })
+    .from(catalogTracks)
+    .where(
+      and(
+        inArray(catalogTracks.id, trackIds),
+        gte(catalogTracks.fetchedAt, new Date(now.getTime() - CATALOG_REFRESH_MS)),
+      ),
+    );
+  const freshIds = new Set(fresh.map((r) => r.id));
+  return [...new Set(trackIds)].filter((id) => !freshIds.has(id));
+}
+
+/** Result of `saveCatalogTracks`. */
+export interface SavedCatalogTracks {
+  /** IDs of the tracks stored. */
+  stored: string[];
+  /** IDs Spotify has no track for; they are not stored. */
+  notFound: string[];
+}
+
+/**
+ * Fetch tracks from Spotify and upsert them with their albums, artists and
+ * credits. Artists keep any image already stored — the simplified artist
+ * objects on a track carry none.
+ */
+export async function saveCatalogTracks(
+  db: Database,
+  spotify: SpotifyClient,
+  accessToken: string,
+  trackIds: string[],
+  now = new Date(),
+): Promise<SavedCatalogTracks> {
+  const { tracks: fetched, notFound } = await spotify.fetchTracks(accessToken, trackIds);
+  if (fetched.length === 0) return { stored: [], notFound };
+
+  const rows = catalogRows(fetched, now);
+  // Albums and artists first: tracks reference albums
+  await db
+    .insert(catalogAlbums)
+    .values(rows.albums)
+    .onConflictDoUpdate({
+      target: catalogAlbums.id,
+      set: {
+        name: sql`excluded.name`,
+        releaseDate: sql`excluded.release_date`,
+        artistIds: sql`excluded.artist_ids`,
+        imageUrl: sql`excluded.image_url`,
+        fetchedAt: now,
+      },
+    });
+  await db
+    .insert(catalogArtists)
+    .values(rows.artists)
+    .onConflictDoUpdate({
+      target: catalogArtists.id,
+      set: { name: sql`excluded.name`, fetchedAt: now },
+    });
+  await db
+    .insert(catalogTracks)
+    .values(rows.tracks)
+    .onConflictDoUpdate({
+      target: catalogTracks.id,
+      set: {
+        name: sql`excluded.name`,
+        durationMs: sql`excluded.duration_ms`,
+        albumId: sql`excluded.album_id`,
+        artistIds: sql`excluded.artist_ids`,
+        isrc: sql`excluded.isrc`,
+        fetchedAt: now,
+      },
+    });
+  // Replace the credits: a refreshed track may credit fewer artists
+  await db.delete(trackArtists).where(inArray(trackArtists.trackId, rows.tracks.map((t) => t.id)));
+  await db
+    .insert(trackArtists)
+    .values(rows.credits)
+    .onConflictDoUpdate({
+      target: [trackArtists.trackId, trackArtists.artistId],
+      set: { position: sql`excluded.position` },
+    });
+
+  return { stored: rows.tracks.map((t) => t.id), notFound };
+}
+
+/** Album art and name of each catalogued track among `trackIds`. */
+export async function catalogArt(
+  db: Database,
+  trackIds: string[],
+): Promise<Map<string, CatalogArt>> {
+  const result = new Map<string, CatalogArt>();
+  if (trackIds.length === 0) return result;
+
+  const rows = await db
+    .select({
+      id: catalogTracks.id,
+      albumArt: catalogAlbums.imageUrl,
+      albumName: catalogAlbums.name,
+    })
+    .from(catalogTracks)
+    .innerJoin(catalogAlbums, eq(catalogTracks.albumId, catalogAlbums.id))
+    .where(inArray(catalogTracks.id, trackIds));
+
+  for (const row of rows) {
+    result.set(row.id, { albumArt: row.albumArt ?? "", albumName: row.albumName });
+  }
+  return result;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { findCoverageGaps, monthsBetween } from "./data-quality";
+
+describe("monthsBetween", () => {
+  it("lists months across a year boundary", () => {
+    expect(monthsBetween("2019-11", "2020-02")).toEqual(["2019-11", "2019-12", "2020-01", "2020-02"]);
+  });
+});
+
+describe("findCoverageGaps", () => {
+  const steady = (months: string[], plays = 400) => months.map((month) => ({ month, plays }));
+
+  it("flags a month missing entirely from the middle of the history", () => {
+    const monthly = steady(["2019-01", "2019-02", "2019-03", "2019-05", "2019-06", "2019-07"]);
+    expect(findCoverageGaps(monthly)).toEqual([{ month: "2019-04", plays: 0, expected: 400 }]);
+  });
+
+  it("flags a month far below its neighbors", () => {
+    const monthly = [
+      ...steady(["2019-01", "2019-02", "2019-03"]),
+      { month: "2019-04", plays: 40 },
+      ...steady(["2019-05", "2019-06"]),
+    ];
+    expect(findCoverageGaps(monthly)).toEqual([{ month: "2019-04", plays: 40, expected: 400 }]);
+  });
+
+  it("ignores ordinary dips and partial first and last months", () => {
+    const monthly = [
+      { month: "2019-01", plays: 5 },
+      ...steady(["2019-02", "2019-03"]),
+      { month: "2019-04", plays: 250 },
+      ...steady(["2019-05", "2019-06"]),
+      { month: "2019-07", plays: 3 },
+    ];
+    expect(findCoverageGaps(monthly)).toEqual([]);
+  });
+
+  it("does not flag quiet months of a light listener", () => {
+    const monthly = [
+      ...steady(["2019-01", "2019-02", "2019-03"], 12),
+      ...steady(["2019-05", "2019-06", "2019-07"], 12),
+    ];
+    expect(findCoverageGaps(monthly)).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Data-quality checks for imported history.
+ *
+ * Spotify exports are not always complete: a file can be empty, a period
+ * can be missing, or rows can carry impossible values. These checks find
+ * months whose coverage drops far below the months around them, so the
+ * user knows when to re-request their data, and define which rows count
+ * as impossible.
+ */
+
+/** A music play longer than this is not a real listen (no track runs 3 hours). */
+export const LONGEST_TRACK_MS = 3 * 60 * 60 * 1000;
+
+// Months on each side compared against
+const NEIGHBOR_MONTHS = 3;
+// A month below this share of its neighbors' median is a gap
+const LOW_COVERAGE_RATIO = 0.25;
+// Neighbors this quiet are normal variation for a light listener, not a gap
+const MIN_EXPECTED_PLAYS = 30;
+
+export interface MonthlyPlays {
+  /** "YYYY-MM" */
+  month: string;
+  plays: number;
+}
+
+export interface MonthGap {
+  month: string;
+  plays: number;
+  /** Median plays of the surrounding months. */
+  expected: number;
+}
+
+/** Every "YYYY-MM" from `first` to `last`, inclusive. */
+export function monthsBetween(first: string, last: string): string[] {
+  const months: string[] = [];
+  let [year, month] = first.split("-").map(Number);
+  const [lastYear, lastMonth] = last.split("-").map(Number);
+  while (year < lastYear || (year === lastYear && month <= lastMonth)) {
+    months.push(`${year}-${String(month).padStart(2, "0")}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Months with zero or suspiciously low plays compared with the median of
+ * the months around them. `monthly` need not include empty months. The
+ * first and last months are never flagged: history usually starts and
+ * ends partway through a month.
+ */
+export function findCoverageGaps(monthly: MonthlyPlays[]): MonthGap[] {
+  if (monthly.length === 0) return [];
+
+  const sorted = [...monthly].sort((a, b) => a.month.localeCompare(b.month));
+  const counts = new Map(sorted.map((m) => [m.month, m.plays]));
+  const months = monthsBetween(sorted[0].month, sorted[sorted.length - 1].month);
+  const plays = months.map((month) => counts.get(month) ?? 0);
+
+  const gaps: MonthGap[] = [];
+  for (let i = 1; i < months.length - 1; i++) {
+    const neighbors = [
+      ...plays.slice(Math.max(0, i - NEIGHBOR_MONTHS), i),
+      ...plays.slice(i + 1, i + 1 + NEIGHBOR_MONTHS),
+    ];
+    const expected = median(neighbors);
+    if (expected >= MIN_EXPECTED_PLAYS && plays[i] < expected * LOW_COVERAGE_RATIO) {
+      gaps.push({ month: months[i], plays: plays[i], expected: Math.round(expected) });
+    }
+  }
+  return gaps;
+}
@@ -17,6 +17,12 @@ export const envSchema = z.object({
   // Minimum 32 chars required for AES-256 encryption used by CookieStore
   SESSION_ENCRYPTION_KEY: z.string().min(32),
   ENVIRONMENT: z.enum(["development", "production"]).default("development"),
+  // Spotify base URLs for every SpotifyClient — optional, default to Spotify's hosts
+  SPOTIFY_API_BASE_URL: z.string().url().optional(),
+  SPOTIFY_ACCOUNTS_BASE_URL: z.string().url().optional(),
+  // Audio feature provider hosts — optional, default to the public services
+  MUSICBRAINZ_API_BASE_URL: z.string().url().optional(),
+  ACOUSTICBRAINZ_API_BASE_URL: z.string().url().optional(),
   // New Relic — optional; omitted in local dev, set via Cloudflare secrets
   NEW_RELIC_LICENSE_KEY: z.string().min(1).optional(),
   NEW_RELIC_ACCOUNT_ID: z.string().min(1).optional(),
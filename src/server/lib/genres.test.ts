@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { createMockDb } from "../../test/mocks/db";
+import { byGenre, refreshArtistGenres, staleGenreArtists } from "./genres";
+import { SpotifyRateLimitError, type SpotifyClient } from "./spotify";
+
+const spotify = {
+  searchArtist: vi.fn(async (_token: string, name: string) => {
+    if (name === "Unknown") return null;
+    if (name === "Broken") throw new Error("network");
+    if (name === "Limited") throw new SpotifyRateLimitError(3600);
+    return { id: `id-${name}`, genres: ["j-pop"] };
+  }),
+} as unknown as SpotifyClient;
+
+const dialect = new PgDialect();
+const fetchedAt = new Date("2025-01-01T00:00:00Z");
+
+describe("byGenre", () => {
+  it("matches plays whose resolved artist is tagged with the genre", () => {
+    const { sql, params } = dialect.sqlToQuery(byGenre("j-pop"));
+    expect(sql).toContain('"artist_genres"."genres" @> array[$');
+    expect(sql).toContain('"artist_aliases"."canonical_name"');
+    expect(params).toContain("j-pop");
+  });
+});
+
+describe("staleGenreArtists", () => {
+  it("returns names without recently fetched genres", async () => {
+    const db = createMockDb({ selectData: [{ artistName: "Fresh" }] });
+    expect(await staleGenreArtists(db as never, ["Fresh", "Missing", "Missing"], fetchedAt)).toEqual([
+      "Missing",
+    ]);
+  });
+
+  it("skips the query for no names", async () => {
+    const db = createMockDb();
+    expect(await staleGenreArtists(db as never, [])).toEqual([]);
+    expect(db.select).not.toHaveBeenCalled();
+  });
+});
+
+describe("refreshArtistGenres", () => {
+  it("stores found and unknown artists, skipping failed searches", async () => {
+    const db = createMockDb();
+    const stored = await refreshArtistGenres(db as never, spotify, "tok", ["Perfume", "Unknown", "Broken"], fetchedAt);
+
+    expect(stored).toBe(2);
+    expect(db._lastInsertChain.values).toHaveBeenCalledWith([
+      { artistName: "Perfume", spotifyArtistId: "id-Perfume", genres: ["j-pop"], fetchedAt },
+      { artistName: "Unknown", spotifyArtistId: null, genres: [], fetchedAt },
+    ]);
+  });
+
+  it("stops searching once Spotify rate-limits and keeps what was found", async () => {
+    const db = createMockDb();
+    vi.mocked(spotify.searchArtist).mockClear();
+    const stored = await refreshArtistGenres(db as never, spotify, "tok", ["Perfume", "Limited", "YOASOBI"], fetchedAt);
+
+    expect(stored).toBe(1);
+    expect(spotify.searchArtist).toHaveBeenCalledTimes(2);
+    expect(db._lastInsertChain.values).toHaveBeenCalledWith([
+      { artistName: "Perfume", spotifyArtistId: "id-Perfume", genres: ["j-pop"], fetchedAt },
+    ]);
+  });
+
+  it("stores artists in small groups as it goes", async () => {
+    const db = createMockDb();
+    const names = Array.from({ length: 25 }, (_, i) => `Artist ${i}`);
+
+    expect(await refreshArtistGenres(db as never, spotify, "tok", names, fetchedAt)).toBe(25);
+    expect(db.insert).toHaveBeenCalledTimes(3);
+  });
+
+  it("writes nothing when every search fails", async () => {
+    const db = createMockDb();
+    expect(await refreshArtistGenres(db as never, spotify, "tok", ["Broken"])).toBe(0);
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+});
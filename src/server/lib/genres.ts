@@ -0,0 +1,136 @@
+/**
+ * Artist genres, stored so genre views never wait on Spotify.
+ *
+ * artist_genres keeps each artist's Spotify genres under the name plays
+ * are counted under — the resolved identity from lib/artist-aliases.ts —
+ * shared by every user like the catalog. Requests read what is stored and
+ * refresh missing or stale artists after the response, at most
+ * GENRE_REFRESH_BATCH per request, so the genres fill in over a few visits
+ * instead of one request searching Spotify for a hundred artists.
+ *
+ * A play belongs to every genre of its artist. Aggregates join
+ * `genreJoin()` (after `aliasJoin()`) and `unnestGenres()`, then group by
+ * `genreName()`; filters on one genre use `byGenre()`, which needs no join.
+ */
+import { and, eq, gte, inArray, sql, type SQL } from "drizzle-orm";
+import type { Database } from "../db";
+import { artistGenres } from "../db/schema";
+import { artistIdentity, resolvedArtistName } from "./artist-aliases";
+import { SpotifyRateLimitError, type SpotifyClient } from "./spotify";
+
+/** Stored genres older than this are searched again — the catalog's cadence. */
+export const GENRE_REFRESH_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Most artists searched on Spotify by one request's background refresh. */
+export const GENRE_REFRESH_BATCH = 50;
+
+// Artists stored per upsert, so a refresh cut off mid-batch keeps its progress
+const GENRE_WRITE_GROUP = 10;
+
+/**
+ * Join condition attaching a play's artist_genres row.
+ * Use as `.innerJoin(artistGenres, genreJoin())` after `aliasJoin()`.
+ */
+export function genreJoin(): SQL {
+  return eq(artistGenres.artistName, artistIdentity());
+}
+
+/**
+ * One row per genre of the joined artist_genres row.
+ * Use as `.innerJoin(unnestGenres(), sql\`true\`)`.
+ */
+export function unnestGenres(): SQL {
+  return sql`unnest(${artistGenres.genres}) as genre`;
+}
+
+/** The genre of a row produced by `unnestGenres()`. */
+export function genreName(): SQL<string> {
+  return sql<string>`genre`;
+}
+
+/** Plays whose artist is tagged with `genre`. Needs no join. */
+export function byGenre(genre: string): SQL {
+  return sql`exists (
+    select 1 from ${artistGenres}
+    where ${artistGenres.artistName} = ${resolvedArtistName()}
+      and ${artistGenres.genres} @> array[${genre}]::text[]
+  )`;
+}
+
+/** Names among `artistNames` with no stored genres, or ones due for a refresh. */
+export async function staleGenreArtists(
+  db: Database,
+  artistNames: string[],
+  now = new Date(),
+): Promise<string[]> {
+  if (artistNames.length === 0) return [];
+  const fresh = await db
+    .select({ artistName: artistGenres.artistName })
+    .from(artistGenres)
+    .where(
+      and(
+        inArray(artistGenres.artistName, artistNames),
+        gte(artistGenres.fetchedAt, new Date(now.getTime() - GENRE_REFRESH_MS)),
+      ),
+    );
+  const freshNames = new Set(fresh.map((r) => r.artistName));
+  return [...new Set(artistNames)].filter((name) => !freshNames.has(name));
+}
+
+type ArtistGenresRow = typeof artistGenres.$inferInsert;
+
+async function storeGenres(db: Database, rows: ArtistGenresRow[], now: Date): Promise<void> {
+  await db
+    .insert(artistGenres)
+    .values(rows)
+    .onConflictDoUpdate({
+      target: artistGenres.artistName,
+      set: {
+        spotifyArtistId: sql`excluded.spotify_artist_id`,
+        genres: sql`excluded.genres`,
+        fetchedAt: now,
+      },
+    });
+}
+
+/**
+ * Search Spotify for each artist in turn and store its genres, a few
+ * artists at a time so the work done survives the background task being
+ * cut off. Artists that fail to search are skipped and tried again on a
+ * later request; once Spotify rate-limits the search, the rest are left
+ * for later too. Returns how many artists were stored.
+ */
+export async function refreshArtistGenres(
+  db: Database,
+  spotify: SpotifyClient,
+  accessToken: string,
+  artistNames: string[],
+  now = new Date(),
+): Promise<number> {
+  let stored = 0;
+  let rows: ArtistGenresRow[] = [];
+  for (const artistName of artistNames) {
+    try {
+      const artist = await spotify.searchArtist(accessToken, artistName);
+      rows.push({
+        artistName,
+        spotifyArtistId: artist?.id ?? null,
+        genres: artist?.genres ?? [],
+        fetchedAt: now,
+      });
+    } catch (err) {
+      if (err instanceof SpotifyRateLimitError) break;
+      continue;
+    }
+    if (rows.length >= GENRE_WRITE_GROUP) {
+      await storeGenres(db, rows, now);
+      stored += rows.length;
+      rows = [];
+    }
+  }
+  if (rows.length > 0) {
+    await storeGenres(db, rows, now);
+    stored += rows.length;
+  }
+  return stored;
+}
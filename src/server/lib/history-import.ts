@@ -0,0 +1,784 @@
+/**
+ * Streaming History import pipeline.
+ *
+ * Shared by the single-request upload (`POST /api/import/history`) and the
+ * chunked import jobs (`PUT /api/import/jobs/:id/chunks/:index`), so both
+ * paths filter, deduplicate, and insert play events identically. The
+ * preview (`POST /api/import/preview`) runs Phases 0–2 without inserting.
+ *
+ *   Phase 0: Detect the export format (extended, legacy "Account data", or
+ *            Last.fm scrobbles)
+ *   Phase 1: Filter & transform raw entries into listening_history rows
+ *   Phase 2 & 3: Batch insert, letting the play unique index drop duplicates
+ *
+ * Last.fm scrobbles and Spotify plays describe the same listening, so a
+ * scrobble that overlaps a Spotify play of the same song is dropped — in
+ * whichever order the two exports are uploaded. Likewise, plays polled from
+ * Recently Played give way to the same plays in a later Spotify export.
+ */
+import { and, eq, exists, gte, inArray, lt, lte, or, sql } from "drizzle-orm";
+import { alias, QueryBuilder } from "drizzle-orm/pg-core";
+import type { Database } from "../db";
+import { listeningHistory } from "../db/schema";
+import {
+  lastfmScrobblesSchema,
+  legacyStreamingHistorySchema,
+  PROVISIONAL_TRACK_PREFIX,
+  streamingHistorySchema,
+} from "../../shared/validators/history";
+import type {
+  ImportPreview,
+  ImportResult,
+  LastfmScrobble,
+  LegacyStreamingHistoryEntry,
+  SkipReasons,
+  StreamingHistoryEntry,
+} from "../../shared/validators/history";
+import type { Listen } from "../../shared/validators/listenbrainz";
+
+export type PlayRow = typeof listeningHistory.$inferInsert;
+
+/** A validated upload, tagged with the export format it was detected as. */
+export type HistoryUpload =
+  | { format: "extended"; entries: StreamingHistoryEntry[] }
+  | { format: "legacy"; entries: LegacyStreamingHistoryEntry[] }
+  | { format: "lastfm"; entries: LastfmScrobble[] };
+
+// Insert rows in batches to avoid oversized SQL statements and Neon request limits
+const BATCH_SIZE = 500;
+// Last.fm only scrobbles tracks played for at least 30 seconds, so no
+// scrobble's estimated duration is shorter
+const MIN_SCROBBLE_MS = 30_000;
+// Scrobbles carry no duration. A play is assumed to last until the next
+// scrobble; a longer gap than this means listening paused, so the play gets
+// the default length (roughly an average track) instead.
+const MAX_SCROBBLE_GAP_MS = 10 * 60_000;
+const DEFAULT_SCROBBLE_MS = 210_000;
+// Sources that record plays made on Spotify itself
+const SPOTIFY_SOURCES = ["import", "scrobble"];
+
+// Extract the ID portion from a Spotify URI of one of the given types
+// (e.g., "spotify:track:6rqhF..." -> "6rqhF...")
+function extractSpotifyId(uri: string | null | undefined, ...types: string[]): string | null {
+  const match = uri?.match(/^spotify:([a-z]+):([a-zA-Z0-9]+)$/);
+  return match && types.includes(match[1]) ? match[2] : null;
+}
+
+/**
+ * Phase 0: Detect the export format and validate the upload against it.
+ *
+ * Legacy "Account data" rows are recognised by their `endTime` field and
+ * Last.fm scrobbles by `uts`; anything else is validated as Extended
+ * Streaming History. Returns null when the body matches none of the formats
+ * (or holds more than `maxEntries` rows).
+ */
+export function parseHistoryUpload(
+  body: unknown,
+  maxEntries = Infinity,
+): HistoryUpload | null {
+  const first: unknown = Array.isArray(body) ? body[0] : undefined;
+  const hasKey = (key: string) => typeof first === "object" && first !== null && key in first;
+
+  if (hasKey("endTime")) {
+    const parsed = legacyStreamingHistorySchema.max(maxEntries).safeParse(body);
+    return parsed.success ? { format: "legacy", entries: parsed.data } : null;
+  }
+
+  if (hasKey("uts")) {
+    const parsed = lastfmScrobblesSchema.max(maxEntries).safeParse(body);
+    return parsed.success ? { format: "lastfm", entries: parsed.data } : null;
+  }
+
+  const parsed = streamingHistorySchema.max(maxEntries).safeParse(body);
+  return parsed.success ? { format: "extended", entries: parsed.data } : null;
+}
+
+/**
+ * Provisional track ID for a play without a Spotify URI: a SHA-256 of the
+ * normalised artist and track name. Deterministic, so re-uploads still hit
+ * the play unique index and every play of a song groups under one ID.
+ */
+export async function provisionalTrackId(
+  artistName: string,
+  trackName: string,
+): Promise<string> {
+  const key = `${artistName.trim().toLowerCase()}\u0000${trackName.trim().toLowerCase()}`;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 16), (b) =>
+    b.toString(16).padStart(2, "0"),
+  ).join("");
+  return `${PROVISIONAL_TRACK_PREFIX}${hex}`;
+}
+
+// Songs repeat heavily within one file — hash each artist/track pair once
+function provisionalIdCache(): (artistName: string, trackName: string) => Promise<string> {
+  const ids = new Map<string, string>();
+  return async (artistName, trackName) => {
+    const key = `${artistName}\u0000${trackName}`;
+    let trackId = ids.get(key);
+    if (!trackId) {
+      trackId = await provisionalTrackId(artistName, trackName);
+      ids.set(key, trackId);
+    }
+    return trackId;
+  };
+}
+
+export function emptySkipReasons(): SkipReasons {
+  return { noTrackName: 0, noSpotifyUri: 0, noArtistName: 0 };
+}
+
+export function countSkipped(skipReasons: SkipReasons): number {
+  return (
+    skipReasons.noTrackName +
+    skipReasons.noSpotifyUri +
+    skipReasons.noArtistName
+  );
+}
+
+/**
+ * Phase 1: Filter & Transform.
+ *
+ * Each entry must have a track name, a valid Spotify URI, and an artist name.
+ * Short plays are stored too — whether a play counts as a listen is decided
+ * at query time by the user's threshold (see lib/plays.ts), and skips stay
+ * available for analysis. Podcast episodes and audiobook chapters are kept too,
+ * under their own content type, given an episode/chapter name, URI and show.
+ * Entries missing any of these are not usable for analytics and are tallied
+ * by reason instead.
+ */
+export function transformEntries(
+  userId: string,
+  entries: StreamingHistoryEntry[],
+): { rows: PlayRow[]; skipReasons: SkipReasons } {
+  const skipReasons = emptySkipReasons();
+  const rows: PlayRow[] = [];
+
+  for (const entry of entries) {
+    // Podcast episodes and audiobook chapters carry no track name
+    if (!entry.master_metadata_track_name && (entry.episode_name || entry.audiobook_title)) {
+      const row = toSpokenWordRow(userId, entry, skipReasons);
+      if (row) rows.push(row);
+      continue;
+    }
+
+    // Skip entries without track name
+    if (!entry.master_metadata_track_name) {
+      skipReasons.noTrackName++;
+      continue;
+    }
+
+    // Skip entries without track URI
+    if (!entry.spotify_track_uri) {
+      skipReasons.noSpotifyUri++;
+      continue;
+    }
+
+    const trackId = extractSpotifyId(entry.spotify_track_uri, "track");
+    if (!trackId) {
+      skipReasons.noSpotifyUri++;
+      continue;
+    }
+
+    // Skip entries without artist name
+    if (!entry.master_metadata_album_artist_name) {
+      skipReasons.noArtistName++;
+      continue;
+    }
+
+    rows.push({
+      userId,
+      contentType: "track",
+      trackSpotifyId: trackId,
+      trackName: entry.master_metadata_track_name,
+      artistName: entry.master_metadata_album_artist_name,
+      albumName: entry.master_metadata_album_album_name ?? null,
+      ...playFields(entry),
+    });
+  }
+
+  return { rows, skipReasons };
+}
+
+// Fields shared by every kind of play event
+// Unix times below this are in seconds: 1e11 ms is March 1973, 1e11 s is
+// the year 5138, so the two scales cannot be confused for real plays
+const SECONDS_THRESHOLD = 1e11;
+
+/**
+ * Spotify switched `offline_timestamp` from seconds to milliseconds partway
+ * through, and one export can contain both. 0 marks an online play.
+ */
+export function normalizeOfflineTimestamp(value: number | null | undefined): Date | null {
+  if (!value || value < 0) return null;
+  return new Date(value < SECONDS_THRESHOLD ? value * 1000 : value);
+}
+
+/** Upper-cased country code, or null when missing or unknown ("ZZ"). */
+export function normalizeCountry(value: string | null | undefined): string | null {
+  const code = value?.trim().toUpperCase();
+  return code && code !== "ZZ" ? code : null;
+}
+
+function playFields(entry: StreamingHistoryEntry) {
+  return {
+    msPlayed: entry.ms_played,
+    // `ts` is when the stream ended
+    playedAt: new Date(new Date(entry.ts).getTime() - entry.ms_played),
+    endedAt: new Date(entry.ts),
+    source: "import",
+    reasonStart: entry.reason_start ?? null,
+    reasonEnd: entry.reason_end ?? null,
+    skipped: entry.skipped ?? null,
+    platform: entry.platform ?? null,
+    shuffle: entry.shuffle ?? null,
+    offline: entry.offline ?? null,
+    offlineTimestamp: normalizeOfflineTimestamp(entry.offline_timestamp),
+    connCountry: normalizeCountry(entry.conn_country),
+  };
+}
+
+/**
+ * Map a podcast or audiobook entry onto a listening_history row. The show
+ * (or book) takes the artist slot and the episode (or chapter) the track
+ * slot, so the Shows view can reuse the same grouping as music stats.
+ * Returns null, tallying the reason, when the entry is unusable.
+ */
+function toSpokenWordRow(
+  userId: string,
+  entry: StreamingHistoryEntry,
+  skipReasons: SkipReasons,
+): PlayRow | null {
+  if (entry.episode_name) {
+    const episodeId = extractSpotifyId(entry.spotify_episode_uri, "episode");
+    if (!episodeId) {
+      skipReasons.noSpotifyUri++;
+      return null;
+    }
+    if (!entry.episode_show_name) {
+      skipReasons.noArtistName++;
+      return null;
+    }
+    return {
+      userId,
+      contentType: "episode",
+      trackSpotifyId: episodeId,
+      trackName: entry.episode_name,
+      artistName: entry.episode_show_name,
+      albumName: null,
+      ...playFields(entry),
+    };
+  }
+
+  // Prefer the chapter ID so each chapter is its own "track"
+  const audiobookId =
+    extractSpotifyId(entry.audiobook_chapter_uri, "episode", "chapter") ??
+    extractSpotifyId(entry.audiobook_uri, "show", "audiobook");
+  if (!audiobookId) {
+    skipReasons.noSpotifyUri++;
+    return null;
+  }
+  return {
+    userId,
+    contentType: "audiobook",
+    trackSpotifyId: audiobookId,
+    trackName: entry.audiobook_chapter_title ?? entry.audiobook_title!,
+    artistName: entry.audiobook_title!,
+    albumName: null,
+    ...playFields(entry),
+  };
+}
+
+/**
+ * Phase 1 for the legacy "Account data" export.
+ *
+ * Rows carry only names, a minute-precision end time, and play duration.
+ * There is no URI to check, so usable rows are keyed by a provisional track
+ * ID until POST /api/vault/resolve maps them to the Spotify catalog.
+ */
+export async function transformLegacyEntries(
+  userId: string,
+  entries: LegacyStreamingHistoryEntry[],
+): Promise<{ rows: PlayRow[]; skipReasons: SkipReasons }> {
+  const skipReasons = emptySkipReasons();
+  const rows: PlayRow[] = [];
+  const trackIdFor = provisionalIdCache();
+
+  for (const entry of entries) {
+    if (!entry.trackName.trim()) {
+      skipReasons.noTrackName++;
+      continue;
+    }
+
+    if (!entry.artistName.trim()) {
+      skipReasons.noArtistName++;
+      continue;
+    }
+
+    const endedAt = new Date(`${entry.endTime.replace(" ", "T")}:00Z`);
+    rows.push({
+      userId,
+      contentType: "track",
+      trackSpotifyId: await trackIdFor(entry.artistName, entry.trackName),
+      trackName: entry.trackName,
+      artistName: entry.artistName,
+      albumName: null,
+      msPlayed: entry.msPlayed,
+      // endTime ("YYYY-MM-DD HH:mm", UTC) is when the stream ended
+      playedAt: new Date(endedAt.getTime() - entry.msPlayed),
+      endedAt,
+      source: "import",
+    });
+  }
+
+  return { rows, skipReasons };
+}
+
+/**
+ * Phase 1 for Last.fm scrobbles.
+ *
+ * Last.fm only scrobbles a track once half of it (or four minutes) has
+ * played, so every scrobble counts as a listen and none are dropped as too
+ * short. The play duration is estimated from the gap to the next scrobble
+ * (see MAX_SCROBBLE_GAP_MS). Gaps are only known within one upload, so the
+ * last scrobble of each chunk gets the default duration.
+ */
+export async function transformLastfmEntries(
+  userId: string,
+  entries: LastfmScrobble[],
+): Promise<{ rows: PlayRow[]; skipReasons: SkipReasons }> {
+  const skipReasons = emptySkipReasons();
+  const rows: PlayRow[] = [];
+  const trackIdFor = provisionalIdCache();
+  const scrobbles = [...entries].sort((a, b) => a.uts - b.uts);
+
+  for (let i = 0; i < scrobbles.length; i++) {
+    const entry = scrobbles[i];
+
+    if (!entry.track.trim()) {
+      skipReasons.noTrackName++;
+      continue;
+    }
+
+    if (!entry.artist.trim()) {
+      skipReasons.noArtistName++;
+      continue;
+    }
+
+    const next = scrobbles[i + 1];
+    const gapMs = next ? (next.uts - entry.uts) * 1000 : Infinity;
+    const msPlayed =
+      gapMs <= MAX_SCROBBLE_GAP_MS ? Math.max(gapMs, MIN_SCROBBLE_MS) : DEFAULT_SCROBBLE_MS;
+
+    rows.push({
+      userId,
+      contentType: "track",
+      trackSpotifyId: await trackIdFor(entry.artist, entry.track),
+      trackName: entry.track,
+      artistName: entry.artist,
+      albumName: entry.album || null,
+      msPlayed,
+      // Scrobbles record when the play started
+      playedAt: new Date(entry.uts * 1000),
+      endedAt: new Date(entry.uts * 1000 + msPlayed),
+      source: "lastfm",
+    });
+  }
+
+  return { rows, skipReasons };
+}
+
+// Spotify track ID from a ListenBrainz `spotify_id` track URL
+function spotifyIdFromUrl(url: string | undefined): string | null {
+  const match = url?.match(/^https:\/\/open\.spotify\.com\/track\/([a-zA-Z0-9]+)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Phase 1 for listens submitted over the ListenBrainz protocol.
+ *
+ * Players submit a listen once it counts as played, so none are dropped as
+ * too short. The duration is the track length when the client sends it,
+ * otherwise the default scrobble length. A listen keeps its Spotify track ID
+ * when the client knows it and is keyed by a provisional ID otherwise.
+ */
+export async function transformListens(
+  userId: string,
+  listens: Listen[],
+): Promise<PlayRow[]> {
+  const rows: PlayRow[] = [];
+  const trackIdFor = provisionalIdCache();
+
+  for (const listen of listens) {
+    const { artist_name, track_name, release_name, additional_info: info } =
+      listen.track_metadata;
+    const msPlayed =
+      info?.duration_ms ??
+      (info?.duration ? Math.round(info.duration * 1000) : DEFAULT_SCROBBLE_MS);
+
+    rows.push({
+      userId,
+      contentType: "track",
+      trackSpotifyId:
+        spotifyIdFromUrl(info?.spotify_id) ?? (await trackIdFor(artist_name, track_name)),
+      trackName: track_name,
+      artistName: artist_name,
+      albumName: release_name || null,
+      msPlayed,
+      // listened_at is when the play started
+      playedAt: new Date(listen.listened_at! * 1000),
+      endedAt: new Date(listen.listened_at! * 1000 + msPlayed),
+      source: "listenbrainz",
+      platform: info?.media_player ?? info?.submission_client ?? null,
+    });
+  }
+
+  return rows;
+}
+
+// Normalised song identity used to match scrobbles against Spotify plays
+function songKey(artistName: string, trackName: string): string {
+  return `${artistName.trim().toLowerCase()}\u0000${trackName.trim().toLowerCase()}`;
+}
+
+// Earliest start and latest end of a set of plays
+function playWindow(rows: PlayRow[]): { from: Date; to: Date } {
+  let from = Infinity;
+  let to = -Infinity;
+  for (const row of rows) {
+    from = Math.min(from, new Date(row.playedAt).getTime());
+    to = Math.max(to, new Date(row.endedAt).getTime());
+  }
+  return { from: new Date(from), to: new Date(to) };
+}
+
+/**
+ * Drop scrobbles that overlap an already-imported Spotify play of the same
+ * song. Spotify's export is the richer record, so it always wins.
+ */
+export async function dropSpotifyOverlaps(
+  db: Database,
+  userId: string,
+  rows: PlayRow[],
+): Promise<{ rows: PlayRow[]; overlapping: number }> {
+  if (rows.length === 0) return { rows, overlapping: 0 };
+
+  const lh = listeningHistory;
+  const { from, to } = playWindow(rows);
+  const spotifyPlays = await db
+    .select({
+      artistName: lh.artistName,
+      trackName: lh.trackName,
+      playedAt: lh.playedAt,
+      endedAt: lh.endedAt,
+    })
+    .from(lh)
+    .where(
+      and(
+        eq(lh.userId, userId),
+        inArray(lh.source, SPOTIFY_SOURCES),
+        gte(lh.endedAt, from),
+        lte(lh.playedAt, to),
+      ),
+    );
+
+  const ranges = new Map<string, Array<[number, number]>>();
+  for (const play of spotifyPlays) {
+    const key = songKey(play.artistName, play.trackName);
+    ranges.set(key, [
+      ...(ranges.get(key) ?? []),
+      [play.playedAt.getTime(), play.endedAt.getTime()],
+    ]);
+  }
+
+  const kept = rows.filter((row) => {
+    const start = new Date(row.playedAt).getTime();
+    const end = new Date(row.endedAt).getTime();
+    return !ranges
+      .get(songKey(row.artistName, row.trackName))
+      ?.some(([playStart, playEnd]) => start < playEnd && playStart < end);
+  });
+
+  return { rows: kept, overlapping: rows.length - kept.length };
+}
+
+/**
+ * After Spotify plays are stored, delete the weaker records of the same
+ * plays: Last.fm scrobbles overlapping any Spotify play of the same song
+ * (the reverse of dropSpotifyOverlaps), and polled Recently Played plays
+ * overlapping a play from a Spotify export, which carries the real
+ * `ms_played` and playback context.
+ */
+export async function deleteSupersededPlays(
+  db: Database,
+  userId: string,
+  rows: PlayRow[],
+): Promise<void> {
+  if (rows.length === 0) return;
+
+  const lh = listeningHistory;
+  const other = alias(listeningHistory, "other");
+  const { from, to } = playWindow(rows);
+
+  await db
+    .delete(lh)
+    .where(
+      and(
+        eq(lh.userId, userId),
+        inArray(lh.source, ["lastfm", "scrobble"]),
+        gte(lh.endedAt, from),
+        lte(lh.playedAt, to),
+        exists(
+          new QueryBuilder()
+            .select({ id: other.id })
+            .from(other)
+            .where(
+              and(
+                eq(other.userId, lh.userId),
+                or(
+                  and(eq(lh.source, "lastfm"), inArray(other.source, SPOTIFY_SOURCES)),
+                  and(eq(lh.source, "scrobble"), eq(other.source, "import")),
+                ),
+                sql`lower(${other.artistName}) = lower(${lh.artistName})`,
+                sql`lower(${other.trackName}) = lower(${lh.trackName})`,
+                lt(other.playedAt, lh.endedAt),
+                lt(lh.playedAt, other.endedAt),
+              ),
+            ),
+        ),
+      ),
+    );
+}
+
+/**
+ * Phases 2 & 3: Deduplicate and batch insert.
+ *
+ * Users may re-upload the same file or upload overlapping files. Instead of
+ * loading every existing (track, timestamp) pair into memory, each batch is
+ * inserted with ON CONFLICT DO NOTHING against the play unique index; rows
+ * the database skipped are the duplicates. A user can legitimately play the
+ * same track many times a day — the timestamp makes each play event unique.
+ */
+export async function insertPlays(
+  db: Database,
+  rows: PlayRow[],
+): Promise<{ imported: number; duplicates: number }> {
+  let imported = 0;
+
+  // Insert in chunks to stay within Neon's per-statement size limits
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const batch = rows.slice(i, i + BATCH_SIZE);
+    const inserted = await db
+      .insert(listeningHistory)
+      .values(batch)
+      .onConflictDoNothing({
+        target: [
+          listeningHistory.userId,
+          listeningHistory.trackSpotifyId,
+          listeningHistory.playedAt,
+        ],
+      })
+      .returning({ id: listeningHistory.id });
+    imported += inserted.length;
+  }
+
+  return { imported, duplicates: rows.length - imported };
+}
+
+/**
+ * Phase 1 for any export format. Scrobbles that overlap a stored Spotify
+ * play are dropped here too, and counted as `overlapping`.
+ */
+async function transformUpload(
+  db: Database,
+  userId: string,
+  upload: HistoryUpload,
+): Promise<{ rows: PlayRow[]; skipReasons: SkipReasons; overlapping: number }> {
+  if (upload.format === "lastfm") {
+    const { rows, skipReasons } = await transformLastfmEntries(userId, upload.entries);
+    const { rows: kept, overlapping } = await dropSpotifyOverlaps(db, userId, rows);
+    return { rows: kept, skipReasons, overlapping };
+  }
+
+  const { rows, skipReasons } =
+    upload.format === "legacy"
+      ? await transformLegacyEntries(userId, upload.entries)
+      : transformEntries(userId, upload.entries);
+  return { rows, skipReasons, overlapping: 0 };
+}
+
+/**
+ * Run the full pipeline over one batch of validated entries. Inserted rows
+ * are recorded under `batchId` (an import_batches row) when one is given.
+ */
+export async function importEntries(
+  db: Database,
+  userId: string,
+  upload: HistoryUpload,
+  batchId: string | null = null,
+): Promise<ImportResult> {
+  const { rows, skipReasons, overlapping } = await transformUpload(db, userId, upload);
+  const tagged = batchId ? rows.map((row) => ({ ...row, batchId })) : rows;
+  const inserted = await insertPlays(db, tagged);
+
+  // A retry of a chunk whose earlier attempt died after inserting finds
+  // those plays already stored. They are this batch's own, so they count
+  // as imported rather than as duplicates.
+  const imported =
+    batchId && inserted.duplicates > 0
+      ? await countBatchPlays(db, userId, batchId, rows)
+      : inserted.imported;
+  const duplicates = rows.length - imported;
+
+  // Spotify plays replace the weaker records of the same listening
+  if (upload.format !== "lastfm" && imported > 0) {
+    await deleteSupersededPlays(db, userId, rows);
+  }
+
+  return {
+    total: upload.entries.length,
+    imported,
+    skipped: countSkipped(skipReasons),
+    duplicates: duplicates + overlapping,
+    skipReasons,
+  };
+}
+
+// Artists listed in a preview
+const PREVIEW_TOP_ARTISTS = 10;
+
+/** The play unique index's key, less the user. */
+function playKey(trackSpotifyId: string, playedAt: Date | string): string {
+  return `${trackSpotifyId}\u0000${new Date(playedAt).getTime()}`;
+}
+
+/**
+ * Stored plays of `userId` matching `rows` on the play unique index,
+ * optionally only those `batchId` inserted.
+ */
+async function selectStoredPlays(
+  db: Database,
+  userId: string,
+  rows: PlayRow[],
+  batchId?: string,
+): Promise<Array<{ trackSpotifyId: string; playedAt: Date }>> {
+  const lh = listeningHistory;
+  const times = rows.map((row) => new Date(row.playedAt).getTime());
+
+  return db
+    .select({ trackSpotifyId: lh.trackSpotifyId, playedAt: lh.playedAt })
+    .from(lh)
+    .where(
+      and(
+        eq(lh.userId, userId),
+        batchId ? eq(lh.batchId, batchId) : undefined,
+        inArray(lh.trackSpotifyId, [...new Set(rows.map((row) => row.trackSpotifyId))]),
+        gte(lh.playedAt, new Date(Math.min(...times))),
+        lte(lh.playedAt, new Date(Math.max(...times))),
+      ),
+    );
+}
+
+/**
+ * Distinct plays among `rows` that batch `batchId` has stored — whether by
+ * this attempt or an earlier one of the same chunk.
+ */
+async function countBatchPlays(
+  db: Database,
+  userId: string,
+  batchId: string,
+  rows: PlayRow[],
+): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  const stored = new Set(
+    (await selectStoredPlays(db, userId, rows, batchId)).map((play) =>
+      playKey(play.trackSpotifyId, play.playedAt),
+    ),
+  );
+  return new Set(
+    rows.map((row) => playKey(row.trackSpotifyId, row.playedAt)).filter((key) => stored.has(key)),
+  ).size;
+}
+
+/**
+ * Phase 2 without the insert: rows the play unique index would reject,
+ * either because the play is already stored or because the upload repeats it.
+ */
+async function countDuplicatePlays(
+  db: Database,
+  userId: string,
+  rows: PlayRow[],
+): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  const stored = await selectStoredPlays(db, userId, rows);
+
+  const seen = new Set(stored.map((play) => playKey(play.trackSpotifyId, play.playedAt)));
+  let duplicates = 0;
+  for (const row of rows) {
+    const key = playKey(row.trackSpotifyId, row.playedAt);
+    if (seen.has(key)) duplicates++;
+    else seen.add(key);
+  }
+  return duplicates;
+}
+
+/**
+ * Dry run of `importEntries`: the same transform and deduplication, but
+ * nothing is written. Reports what the upload would add and how it
+ * overlaps the history already stored.
+ */
+export async function previewEntries(
+  db: Database,
+  userId: string,
+  upload: HistoryUpload,
+): Promise<ImportPreview> {
+  const { rows, skipReasons, overlapping } = await transformUpload(db, userId, upload);
+  const duplicates = await countDuplicatePlays(db, userId, rows);
+
+  const artists = new Map<string, number>();
+  for (const row of rows) {
+    artists.set(row.artistName, (artists.get(row.artistName) ?? 0) + 1);
+  }
+  const topArtists = [...artists]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, PREVIEW_TOP_ARTISTS)
+    .map(([artistName, count]) => ({ artistName, count }));
+
+  let dateRange: ImportPreview["dateRange"] = null;
+  let overlap: ImportPreview["overlap"] = null;
+  if (rows.length > 0) {
+    const { from, to } = playWindow(rows);
+    dateRange = { from: from.toISOString(), to: to.toISOString() };
+
+    const lh = listeningHistory;
+    const [stored] = await db
+      .select({
+        count: sql<number>`count(*)`.mapWith(Number),
+        from: sql<Date | null>`min(${lh.playedAt})`.mapWith(lh.playedAt),
+        to: sql<Date | null>`max(${lh.playedAt})`.mapWith(lh.playedAt),
+      })
+      .from(lh)
+      .where(and(eq(lh.userId, userId), gte(lh.playedAt, from), lte(lh.playedAt, to)));
+
+    if (stored && stored.count > 0 && stored.from && stored.to) {
+      overlap = {
+        from: stored.from.toISOString(),
+        to: stored.to.toISOString(),
+        existingPlays: stored.count,
+      };
+    }
+  }
+
+  return {
+    total: upload.entries.length,
+    newPlays: rows.length - duplicates,
+    skipped: countSkipped(skipReasons),
+    duplicates: duplicates + overlapping,
+    skipReasons,
+    dateRange,
+    topArtists,
+    overlap,
+  };
+}
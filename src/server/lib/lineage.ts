@@ -0,0 +1,159 @@
+/**
+ * Sonic Lineage — how a listener's artists lead into one another.
+ *
+ * Plays are split into listening sessions: a play starting more than
+ * SESSION_GAP_MS after the previous one ended opens a new session. Inside a
+ * session, each change of artist from one play to the next is a transition,
+ * an edge from the earlier artist to the later one weighted by how often it
+ * happens. When the later play is the first play of that artist ever — the
+ * listener discovered it right after the earlier one — the transition is
+ * also the artist's gateway.
+ *
+ * Sessions and discoveries are worked out over the whole history, so a
+ * window (see GET /api/strata/lineage) only narrows which transitions are
+ * counted, never who counts as discovered. Weights are kept per local year
+ * so the client can grow the graph one year at a time.
+ */
+import { sql } from "drizzle-orm";
+import type { Database } from "../db";
+import { artistAliases, listeningHistory } from "../db/schema";
+import { aliasJoin, artistIdentity } from "./artist-aliases";
+import { localPlayedAt } from "./local-time";
+import { musicPlays } from "./plays";
+
+/** A gap longer than this between two plays ends a listening session. */
+export const SESSION_GAP_MS = 30 * 60 * 1000;
+
+/** Most artists in one graph, and the default. */
+export const MAX_LINEAGE_ARTISTS = 100;
+export const DEFAULT_LINEAGE_ARTISTS = 40;
+
+/** Transitions an edge needs over the window to be drawn, unless it is a gateway. */
+export const MIN_EDGE_TRANSITIONS = 2;
+
+export interface LineageNode {
+  artist: string;
+  /** Plays per local year, keyed by year. */
+  plays: Record<string, number>;
+  /** First year in the window with a play. */
+  firstYear: number;
+}
+
+export interface LineageEdge {
+  source: string;
+  target: string;
+  /** Transitions from `source` to `target` per local year, keyed by year. */
+  transitions: Record<string, number>;
+  /** Year `target` was discovered right after `source`, or null. */
+  gatewayYear: number | null;
+}
+
+export interface LineageData {
+  /** Every year in the window with a play, ascending. */
+  years: number[];
+  nodes: LineageNode[];
+  edges: LineageEdge[];
+}
+
+/** Plays of one artist in one year, from `playSequence`. */
+export interface ArtistYearRow {
+  artist: string;
+  year: number;
+  plays: number;
+}
+
+/** Transitions between two artists in one year, from `playSequence`. */
+export interface TransitionYearRow {
+  source: string;
+  target: string;
+  year: number;
+  transitions: number;
+  /** How many of the transitions were the target's discovery — 0 or 1. */
+  gateways: number;
+}
+
+/**
+ * The user's music plays in order, one row each: its canonical `artist`,
+ * local `year`, the artist of the play before (`prevArtist`), the gap since
+ * that play ended (`gapMs`), and whether it is the artist's first play.
+ */
+export function playSequence(db: Database, userId: string) {
+  const lh = listeningHistory;
+  const inOrder = sql`order by ${lh.playedAt}, ${lh.id}`;
+  return db
+    .select({
+      artist: sql<string>`${artistIdentity()}`.as("artist"),
+      year: sql<number>`extract(year from ${localPlayedAt()})::int`.as("year"),
+      prevArtist: sql<string | null>`lag(${artistIdentity()}) over (${inOrder})`.as("prev_artist"),
+      gapMs: sql<number | null>`extract(epoch from ${lh.playedAt} - lag(${lh.endedAt}) over (${inOrder})) * 1000`.as(
+        "gap_ms",
+      ),
+      firstPlay: sql<boolean>`row_number() over (partition by ${artistIdentity()} ${inOrder}) = 1`.as(
+        "first_play",
+      ),
+    })
+    .from(lh)
+    .leftJoin(artistAliases, aliasJoin())
+    .where(musicPlays(userId))
+    .as("sequence");
+}
+
+/** The `limit` most played artists, most played first (ties by name). */
+export function rankArtists(rows: ArtistYearRow[], limit: number): string[] {
+  const totals = new Map<string, number>();
+  for (const row of rows) {
+    totals.set(row.artist, (totals.get(row.artist) ?? 0) + row.plays);
+  }
+  return [...totals]
+    .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([artist]) => artist);
+}
+
+/**
+ * Assemble the graph of `artists` from their yearly plays and transitions.
+ * Rows for other artists are ignored; edges below MIN_EDGE_TRANSITIONS that
+ * are not gateways are dropped.
+ */
+export function buildLineage(
+  artists: string[],
+  artistRows: ArtistYearRow[],
+  transitionRows: TransitionYearRow[],
+): LineageData {
+  const included = new Set(artists);
+  const years = new Set<number>();
+
+  const nodes = new Map<string, LineageNode>(
+    artists.map((artist) => [artist, { artist, plays: {}, firstYear: Infinity }]),
+  );
+  for (const row of artistRows) {
+    years.add(row.year);
+    const node = nodes.get(row.artist);
+    if (!node) continue;
+    node.plays[row.year] = (node.plays[row.year] ?? 0) + row.plays;
+    node.firstYear = Math.min(node.firstYear, row.year);
+  }
+
+  const edges = new Map<string, LineageEdge>();
+  const totals = new Map<LineageEdge, number>();
+  for (const row of transitionRows) {
+    if (!included.has(row.source) || !included.has(row.target)) continue;
+    const key = JSON.stringify([row.source, row.target]);
+    let edge = edges.get(key);
+    if (!edge) {
+      edge = { source: row.source, target: row.target, transitions: {}, gatewayYear: null };
+      edges.set(key, edge);
+    }
+    edge.transitions[row.year] = (edge.transitions[row.year] ?? 0) + row.transitions;
+    totals.set(edge, (totals.get(edge) ?? 0) + row.transitions);
+    if (row.gateways > 0) edge.gatewayYear = row.year;
+  }
+
+  return {
+    years: [...years].sort((a, b) => a - b),
+    nodes: [...nodes.values()].filter((node) => Number.isFinite(node.firstYear)),
+    edges: [...edges.values()].filter(
+      (edge) => totals.get(edge)! >= MIN_EDGE_TRANSITIONS || edge.gatewayYear !== null,
+    ),
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { eq, sql, type SQL } from "drizzle-orm";
+import { createTestDb, TEST_DB_TIMEOUT_MS } from "../../test/pglite";
+import type { Database } from "../db";
+import { listeningHistory, users, userTimeZones } from "../db/schema";
+import { localPlayedAt, localToday, playedBetweenLocal } from "./local-time";
+
+const dialect = new PgDialect();
+const render = (query: SQL) => dialect.sqlToQuery(query);
+
+describe("localPlayedAt", () => {
+  it("converts played_at from UTC into the play's zone", () => {
+    const { sql, params } = render(localPlayedAt());
+    expect(sql).toContain(`("listening_history"."played_at" AT TIME ZONE 'UTC') AT TIME ZONE coalesce(`);
+    expect(sql).toContain('"user_time_zones"."user_id" = "listening_history"."user_id"');
+    expect(params).toEqual([]);
+  });
+
+  it("prefers a past period covering the play over the current zone", () => {
+    const { sql } = render(localPlayedAt());
+    expect(sql.indexOf('"user_time_zones"."time_zone"')).toBeLessThan(
+      sql.indexOf('"users"."time_zone"'),
+    );
+    expect(sql).toContain('"user_time_zones"."starts_at" <= "listening_history"."played_at"');
+  });
+});
+
+describe("playedBetweenLocal", () => {
+  it("widens the UTC bounds by 14 hours and compares local wall-clock times", () => {
+    const from = new Date(Date.UTC(2024, 0, 1));
+    const to = new Date(Date.UTC(2025, 0, 1));
+    const { sql, params } = render(playedBetweenLocal(from, to));
+    expect(params).toContain("2023-12-31T10:00:00.000Z");
+    expect(params).toContain("2025-01-01T14:00:00.000Z");
+    expect(params).toContain("2024-01-01T00:00:00.000");
+    expect(params).toContain("2025-01-01T00:00:00.000");
+    expect(sql).toContain("::timestamp");
+  });
+});
+
+describe("localToday", () => {
+  it("returns the date on the zone's wall clock", () => {
+    // 20:00 UTC on June 15 is already June 16 in Tokyo
+    const now = new Date("2024-06-15T20:00:00Z");
+    expect(localToday("Asia/Tokyo", now)).toEqual(new Date("2024-06-16T00:00:00Z"));
+    expect(localToday("UTC", now)).toEqual(new Date("2024-06-15T00:00:00Z"));
+    expect(localToday("America/Los_Angeles", now)).toEqual(new Date("2024-06-15T00:00:00Z"));
+  });
+});
+
+describe("against Postgres", () => {
+  const userId = "00000000-0000-4000-8000-000000000001";
+  let db: Database;
+
+  beforeAll(async () => {
+    db = await createTestDb();
+    await db.insert(users).values({ id: userId, spotifyId: "spotify_user_1", timeZone: "Asia/Tokyo" });
+    // Lived in London for the first half of 2024
+    await db.insert(userTimeZones).values({
+      userId,
+      timeZone: "Europe/London",
+      startsAt: new Date("2024-01-01T00:00:00Z"),
+      endsAt: new Date("2024-07-01T00:00:00Z"),
+    });
+    await db.insert(listeningHistory).values(
+      ["2024-01-31T23:30:00Z", "2024-02-01T10:00:00Z", "2024-07-31T20:00:00Z"].map((playedAt, i) => ({
+        userId,
+        trackSpotifyId: `track${i}`,
+        artistName: "Test Artist",
+        trackName: `Track ${i}`,
+        msPlayed: 180000,
+        playedAt: new Date(playedAt),
+        endedAt: new Date(playedAt),
+      })),
+    );
+  }, TEST_DB_TIMEOUT_MS);
+
+  it("groups plays by local month in each play's zone", async () => {
+    const localMonth = sql`to_char(${localPlayedAt()}, 'YYYY-MM')`;
+    const rows = await db
+      .select({ month: sql<string>`${localMonth}`.as("month"), plays: sql<number>`count(*)::int` })
+      .from(listeningHistory)
+      .where(eq(listeningHistory.userId, userId))
+      .groupBy(localMonth)
+      .orderBy(localMonth);
+
+    // 23:30 in London is still January; 20:00 UTC in Tokyo is already August
+    expect(rows).toEqual([
+      { month: "2024-01", plays: 1 },
+      { month: "2024-02", plays: 1 },
+      { month: "2024-08", plays: 1 },
+    ]);
+  });
+
+  it("filters by a local wall-clock range", async () => {
+    const rows = await db
+      .select({ trackName: listeningHistory.trackName })
+      .from(listeningHistory)
+      .where(playedBetweenLocal(new Date(Date.UTC(2024, 7, 1)), new Date(Date.UTC(2024, 8, 1))));
+    expect(rows).toEqual([{ trackName: "Track 2" }]);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Local wall-clock time for listening_history queries.
+ *
+ * played_at is stored in UTC. Stats that bucket by day, hour, weekday, or
+ * month convert it to the user's wall-clock time first, so a Tokyo listener's
+ * 14:00 counts as afternoon rather than 05:00. The zone for a play is the
+ * user_time_zones period covering it, if any, otherwise users.timeZone.
+ *
+ * Local dates and times are passed around as `Date`s whose UTC fields hold
+ * the wall-clock value (e.g. `new Date(Date.UTC(2024, 0, 1))` for local
+ * midnight on Jan 1), which keeps calendar arithmetic free of DST shifts.
+ */
+import { and, eq, gte, lt, sql, type SQL } from "drizzle-orm";
+import type { Database } from "../db";
+import { listeningHistory, users, userTimeZones } from "../db/schema";
+
+// No zone is further than 14 hours from UTC (Pacific/Kiritimati is +14)
+const MAX_UTC_OFFSET_MS = 14 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SQL for the zone a play happened in. It is correlated on the play's own
+// user_id rather than bound to a parameter, so every use renders the same
+// text and Postgres can match a SELECT expression to its GROUP BY.
+function playTimeZone(): SQL {
+  const lh = listeningHistory;
+  const tz = userTimeZones;
+  return sql`coalesce(
+    (select ${tz.timeZone} from ${tz}
+      where ${tz.userId} = ${lh.userId} and ${tz.startsAt} <= ${lh.playedAt} and ${lh.playedAt} < ${tz.endsAt}
+      limit 1),
+    (select ${users.timeZone} from ${users} where ${users.id} = ${lh.userId})
+  )`;
+}
+
+/**
+ * When a play started, on its user's local wall clock. Use it in place of
+ * `played_at` inside EXTRACT / to_char / DATE; the same expression may be
+ * selected and grouped by.
+ */
+export function localPlayedAt(): SQL {
+  return sql`((${listeningHistory.playedAt} AT TIME ZONE 'UTC') AT TIME ZONE ${playTimeZone()})`;
+}
+
+/** A local wall-clock value as a SQL `timestamp` literal. */
+export function localTimestamp(wallClock: Date): SQL {
+  return sql`${wallClock.toISOString().slice(0, 23)}::timestamp`;
+}
+
+/**
+ * Plays that started in the local wall-clock range [from, to). The UTC bounds,
+ * widened by the largest zone offset, keep the played_at index usable.
+ */
+export function playedBetweenLocal(from: Date, to: Date): SQL {
+  const lh = listeningHistory;
+  const local = localPlayedAt();
+  return and(
+    gte(lh.playedAt, new Date(from.getTime() - MAX_UTC_OFFSET_MS)),
+    lt(lh.playedAt, new Date(to.getTime() + MAX_UTC_OFFSET_MS)),
+    sql`${local} >= ${localTimestamp(from)}`,
+    sql`${local} < ${localTimestamp(to)}`,
+  )!;
+}
+
+/** Plays that started on one local calendar day ("YYYY-MM-DD"). */
+export function playedOnLocalDate(date: string): SQL {
+  const dayStart = new Date(`${date}T00:00:00Z`);
+  return playedBetweenLocal(dayStart, new Date(dayStart.getTime() + DAY_MS));
+}
+
+/** The user's current time zone. */
+export async function currentTimeZone(db: Database, userId: string): Promise<string> {
+  const [row] = await db
+    .select({ timeZone: users.timeZone })
+    .from(users)
+    .where(eq(users.id, userId));
+  return row?.timeZone ?? "UTC";
+}
+
+/** Today's date in `timeZone`, as local midnight (see the module comment). */
+export function localToday(timeZone: string, now = new Date()): Date {
+  // en-CA formats dates as YYYY-MM-DD
+  const date = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+  return new Date(`${date}T00:00:00Z`);
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from "vitest";
+import { createMockDb } from "../../test/mocks/db";
+import { Logger } from "./logger";
+import {
+  METADATA_TTL_MS,
+  MISS_TTL_MS,
+  MetadataCache,
+  isFresh,
+  memoryMetadataStore,
+  postgresMetadataStore,
+  type CacheEntry,
+} from "./metadata-cache";
+
+const now = new Date("2025-01-31T00:00:00Z");
+const art = { albumArt: "https://example.com/album-300.jpg", albumName: "Test Album" };
+
+function ago(ms: number): Date {
+  return new Date(now.getTime() - ms);
+}
+
+describe("isFresh", () => {
+  it("keeps found tracks for METADATA_TTL_MS and misses for MISS_TTL_MS", () => {
+    expect(isFresh({ art, fetchedAt: ago(METADATA_TTL_MS - 1) }, now)).toBe(true);
+    expect(isFresh({ art, fetchedAt: ago(METADATA_TTL_MS) }, now)).toBe(false);
+    expect(isFresh({ art: null, fetchedAt: ago(MISS_TTL_MS - 1) }, now)).toBe(true);
+    expect(isFresh({ art: null, fetchedAt: ago(MISS_TTL_MS) }, now)).toBe(false);
+  });
+});
+
+describe("memoryMetadataStore", () => {
+  it("evicts the least recently read entries beyond its size", async () => {
+    const store = memoryMetadataStore(2);
+    const entry = { art, fetchedAt: now };
+    await store.put(new Map([["a", entry], ["b", entry]]));
+    await store.get(["a"]);
+    await store.put(new Map([["c", entry]]));
+
+    expect([...(await store.get(["a", "b", "c"])).keys()]).toEqual(["a", "c"]);
+  });
+});
+
+describe("postgresMetadataStore", () => {
+  it("reads catalogued tracks over miss rows", async () => {
+    const db = createMockDb();
+    const misses = createMockDb({
+      selectData: [
+        { trackId: "gone", checkedAt: now },
+        { trackId: "back", checkedAt: ago(1000) },
+      ],
+    });
+    const found = createMockDb({
+      selectData: [{ id: "back", albumArt: null, albumName: "Returned", fetchedAt: now }],
+    });
+    db.select.mockImplementationOnce(misses.select).mockImplementationOnce(found.select);
+
+    expect(await postgresMetadataStore(db as never).get(["gone", "back", "unknown"])).toEqual(
+      new Map<string, CacheEntry>([
+        ["gone", { art: null, fetchedAt: now }],
+        ["back", { art: { albumArt: "", albumName: "Returned" }, fetchedAt: now }],
+      ]),
+    );
+  });
+
+  it("records misses and clears them once a track is found", async () => {
+    const db = createMockDb();
+    await postgresMetadataStore(db as never).put(
+      new Map([
+        ["gone", { art: null, fetchedAt: now }],
+        ["back", { art, fetchedAt: now }],
+      ]),
+    );
+
+    expect(db._lastInsertChain.values).toHaveBeenCalledWith([{ trackId: "gone", checkedAt: now }]);
+    expect(db._lastInsertChain.onConflictDoUpdate).toHaveBeenCalled();
+    expect(db.delete).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips the queries for no IDs", async () => {
+    const db = createMockDb();
+    expect((await postgresMetadataStore(db as never).get([])).size).toBe(0);
+    expect(db.select).not.toHaveBeenCalled();
+  });
+});
+
+describe("MetadataCache", () => {
+  it("reads memory first, then the durable store, and warms memory", async () => {
+    const memory = memoryMetadataStore();
+    const durable = memoryMetadataStore();
+    await memory.put(new Map([["a", { art, fetchedAt: now }]]));
+    await durable.put(
+      new Map([
+        ["b", { art, fetchedAt: ago(1000) }],
+        ["gone", { art: null, fetchedAt: ago(1000) }],
+        ["old", { art, fetchedAt: ago(METADATA_TTL_MS) }],
+      ]),
+    );
+    const durableGet = vi.spyOn(durable, "get");
+    const cache = new MetadataCache(memory, durable);
+
+    const result = await cache.read(["a", "b", "gone", "old", "new"], now);
+    expect([...result.art.keys()]).toEqual(["a", "b"]);
+    expect(result.pending).toEqual(["old", "new"]);
+    expect(durableGet).toHaveBeenCalledWith(["b", "gone", "old", "new"]);
+
+    // Fresh durable entries are now in memory; the expired one is not
+    expect([...(await memory.get(["b", "gone", "old"])).keys()]).toEqual(["b", "gone"]);
+  });
+
+  it("writes found and missing tracks to both layers", async () => {
+    const memory = memoryMetadataStore();
+    const durable = memoryMetadataStore();
+    const cache = new MetadataCache(memory, durable);
+
+    await cache.write(new Map([["a", art]]), ["gone"], now);
+    const expected = new Map<string, CacheEntry>([
+      ["a", { art, fetchedAt: now }],
+      ["gone", { art: null, fetchedAt: now }],
+    ]);
+    expect(await memory.get(["a", "gone"])).toEqual(expected);
+    expect(await durable.get(["a", "gone"])).toEqual(expected);
+  });
+
+  it("logs hits and misses", async () => {
+    const memory = memoryMetadataStore();
+    const durable = memoryMetadataStore();
+    const logger = new Logger({ environment: "test" });
+    const info = vi.spyOn(logger, "info");
+    await memory.put(new Map([["a", { art, fetchedAt: now }]]));
+    await durable.put(new Map([["gone", { art: null, fetchedAt: now }]]));
+
+    await new MetadataCache(memory, durable, logger).read(["a", "gone", "new"], now);
+    expect(info).toHaveBeenCalledWith("metadata cache read", {
+      "cache.requested": 3,
+      "cache.memory_hits": 1,
+      "cache.store_hits": 1,
+      "cache.negative_hits": 1,
+      "cache.misses": 1,
+    });
+  });
+});
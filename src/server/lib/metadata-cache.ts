@@ -0,0 +1,215 @@
+/**
+ * Album art cache behind GET /api/vault/metadata.
+ *
+ * A lookup goes through two layers before Spotify: a MetadataStore in
+ * memory, one per isolate, then a durable MetadataStore shared by every
+ * isolate and user. The durable store is Postgres — found tracks are the
+ * catalog rows lib/catalog.ts writes, missing ones are catalog_misses rows
+ * — and `memoryMetadataStore()` stands in for it in tests. What the durable
+ * store answers is copied into memory, so a warm isolate serves repeat
+ * lookups without a query, and a cold one without asking Spotify.
+ *
+ * Tracks Spotify has no track for are cached too, for MISS_TTL_MS, so
+ * removed tracks in an old history do not cost a request on every view.
+ *
+ * Spotify's developer terms allow caching content only while the app needs
+ * it and as long as it is kept current, so nothing is served past its TTL,
+ * whichever layer it is read from: a found track expires METADATA_TTL_MS
+ * after it was fetched. An expired track is fetched again, and is left out
+ * of the response when that fails.
+ *
+ * Every read logs its hits and misses through the request's Logger.
+ */
+import { eq, inArray, sql } from "drizzle-orm";
+import type { Database } from "../db";
+import { catalogAlbums, catalogMisses, catalogTracks } from "../db/schema";
+import { CATALOG_REFRESH_MS, type CatalogArt } from "./catalog";
+import type { Logger } from "./logger";
+
+/** A found track is served for this long after it was fetched — the catalog's cadence. */
+export const METADATA_TTL_MS = CATALOG_REFRESH_MS;
+
+/** A track Spotify did not have is looked up again after this long. */
+export const MISS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Most tracks one isolate keeps in memory; the least recently read go first. */
+export const MEMORY_MAX_ENTRIES = 5000;
+
+/** A cached lookup of one track. */
+export interface CacheEntry {
+  /** Null when Spotify has no such track. */
+  art: CatalogArt | null;
+  /** When Spotify was asked. */
+  fetchedAt: Date;
+}
+
+/** A layer of the cache. Stores keep what they are given; the cache applies the TTLs. */
+export interface MetadataStore {
+  /** Stored entries of `trackIds`, expired or not. Unknown IDs are left out. */
+  get(trackIds: string[]): Promise<Map<string, CacheEntry>>;
+  put(entries: Map<string, CacheEntry>): Promise<void>;
+}
+
+/** Whether `entry` may still be served at `now`. */
+export function isFresh(entry: CacheEntry, now: Date): boolean {
+  const ttl = entry.art ? METADATA_TTL_MS : MISS_TTL_MS;
+  return now.getTime() - entry.fetchedAt.getTime() < ttl;
+}
+
+/** Store in a Map of at most `maxEntries`, evicting the least recently read. */
+export function memoryMetadataStore(maxEntries = MEMORY_MAX_ENTRIES): MetadataStore {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    async get(trackIds) {
+      const result = new Map<string, CacheEntry>();
+      for (const id of trackIds) {
+        const entry = entries.get(id);
+        if (!entry) continue;
+        // Re-insert so the Map's order runs from least to most recently read
+        entries.delete(id);
+        entries.set(id, entry);
+        result.set(id, entry);
+      }
+      return result;
+    },
+
+    async put(batch) {
+      for (const [id, entry] of batch) {
+        entries.delete(id);
+        entries.set(id, entry);
+      }
+      for (const id of entries.keys()) {
+        if (entries.size <= maxEntries) break;
+        entries.delete(id);
+      }
+    },
+  };
+}
+
+/**
+ * Store backed by the catalog tables and catalog_misses. Found tracks are
+ * already in the catalog when they are put — `saveCatalogTracks` wrote them
+ * with their albums and credits — so putting one only clears its miss row.
+ */
+export function postgresMetadataStore(db: Database): MetadataStore {
+  return {
+    async get(trackIds) {
+      const result = new Map<string, CacheEntry>();
+      if (trackIds.length === 0) return result;
+
+      const misses = await db
+        .select({ trackId: catalogMisses.trackId, checkedAt: catalogMisses.checkedAt })
+        .from(catalogMisses)
+        .where(inArray(catalogMisses.trackId, trackIds));
+      for (const row of misses) {
+        result.set(row.trackId, { art: null, fetchedAt: row.checkedAt });
+      }
+
+      // A catalogued track wins over a miss row left from before it returned
+      const found = await db
+        .select({
+          id: catalogTracks.id,
+          albumArt: catalogAlbums.imageUrl,
+          albumName: catalogAlbums.name,
+          fetchedAt: catalogTracks.fetchedAt,
+        })
+        .from(catalogTracks)
+        .innerJoin(catalogAlbums, eq(catalogTracks.albumId, catalogAlbums.id))
+        .where(inArray(catalogTracks.id, trackIds));
+      for (const row of found) {
+        result.set(row.id, {
+          art: { albumArt: row.albumArt ?? "", albumName: row.albumName },
+          fetchedAt: row.fetchedAt,
+        });
+      }
+      return result;
+    },
+
+    async put(entries) {
+      const missing = [...entries].filter(([, entry]) => !entry.art);
+      const found = [...entries].filter(([, entry]) => entry.art).map(([id]) => id);
+
+      if (missing.length > 0) {
+        await db
+          .insert(catalogMisses)
+          .values(missing.map(([trackId, entry]) => ({ trackId, checkedAt: entry.fetchedAt })))
+          .onConflictDoUpdate({
+            target: catalogMisses.trackId,
+            set: { checkedAt: sql`excluded.checked_at` },
+          });
+      }
+      if (found.length > 0) {
+        await db.delete(catalogMisses).where(inArray(catalogMisses.trackId, found));
+      }
+    },
+  };
+}
+
+/** Result of `MetadataCache.read`. */
+export interface CachedArt {
+  /** Art of the cached tracks Spotify has. */
+  art: Map<string, CatalogArt>;
+  /** IDs to fetch from Spotify: cached in neither layer, or expired. */
+  pending: string[];
+}
+
+/** The two cache layers in front of Spotify. */
+export class MetadataCache {
+  constructor(
+    private memory: MetadataStore,
+    private durable: MetadataStore,
+    private logger?: Logger,
+  ) {}
+
+  async read(trackIds: string[], now = new Date()): Promise<CachedArt> {
+    const ids = [...new Set(trackIds)];
+    const art = new Map<string, CatalogArt>();
+    let negativeHits = 0;
+
+    // Serves the fresh entries among `candidates` and returns the IDs still to look up
+    const serve = (entries: Map<string, CacheEntry>, candidates: string[]) =>
+      candidates.filter((id) => {
+        const entry = entries.get(id);
+        if (!entry || !isFresh(entry, now)) return true;
+        if (entry.art) art.set(id, entry.art);
+        else negativeHits++;
+        return false;
+      });
+
+    const notInMemory = serve(await this.memory.get(ids), ids);
+    const stored = notInMemory.length > 0 ? await this.durable.get(notInMemory) : new Map<string, CacheEntry>();
+    const pending = serve(stored, notInMemory);
+
+    const warm = new Map([...stored].filter(([, entry]) => isFresh(entry, now)));
+    if (warm.size > 0) await this.memory.put(warm);
+
+    this.logger?.info("metadata cache read", {
+      "cache.requested": ids.length,
+      "cache.memory_hits": ids.length - notInMemory.length,
+      "cache.store_hits": notInMemory.length - pending.length,
+      "cache.negative_hits": negativeHits,
+      "cache.misses": pending.length,
+    });
+    return { art, pending };
+  }
+
+  /**
+   * Cache what Spotify answered: `found` tracks and the `notFound` IDs it
+   * has no track for. IDs in neither were not fetched and stay uncached.
+   */
+  async write(found: Map<string, CatalogArt>, notFound: string[], now = new Date()): Promise<void> {
+    const entries = new Map<string, CacheEntry>();
+    for (const [id, art] of found) entries.set(id, { art, fetchedAt: now });
+    for (const id of notFound) entries.set(id, { art: null, fetchedAt: now });
+    if (entries.size === 0) return;
+
+    await this.durable.put(entries);
+    await this.memory.put(entries);
+
+    this.logger?.info("metadata cache write", {
+      "cache.fetched": found.size,
+      "cache.not_found": notFound.length,
+    });
+  }
+}
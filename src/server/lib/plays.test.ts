@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import type { SQL } from "drizzle-orm";
+import { musicPlays, parseContentFilter, userPlays } from "./plays";
+
+const dialect = new PgDialect();
+const render = (where: SQL) => dialect.sqlToQuery(where);
+
+describe("parseContentFilter", () => {
+  it("accepts known filters", () => {
+    expect(parseContentFilter("spoken")).toBe("spoken");
+    expect(parseContentFilter("all")).toBe("all");
+  });
+
+  it("falls back to music for missing or unknown values", () => {
+    expect(parseContentFilter(undefined)).toBe("music");
+    expect(parseContentFilter("video")).toBe("music");
+  });
+});
+
+describe("userPlays", () => {
+  it("limits music queries to tracks", () => {
+    const { sql, params } = render(musicPlays("user-1"));
+    expect(sql).toContain('"content_type" = $3');
+    expect(params).toEqual(["user-1", "user-1", "track"]);
+  });
+
+  it("limits spoken-word queries to non-track content", () => {
+    const { sql, params } = render(userPlays("user-1", "spoken"));
+    expect(sql).toContain('"content_type" <> $3');
+    expect(params).toEqual(["user-1", "user-1", "track"]);
+  });
+
+  it("only scopes to the user for all content", () => {
+    const { sql, params } = render(userPlays("user-1", "all"));
+    expect(sql).not.toContain("content_type");
+    expect(params).toEqual(["user-1", "user-1"]);
+  });
+
+  it("applies the user's listen threshold to every content filter", () => {
+    for (const content of ["music", "spoken", "all"] as const) {
+      const { sql } = render(userPlays("user-1", content));
+      expect(sql).toContain('"listening_history"."ms_played" >= (');
+      expect(sql).toContain('select "users"."min_play_ms" from "users" where "users"."id" = $2');
+    }
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Shared row filters for listening_history queries.
+ *
+ * listening_history stores every kind of play — music tracks, podcast
+ * episodes, and audiobook chapters (see `contentType`). Music analytics
+ * (Vault, Heatmap, Patterns, Strata) scope their queries with
+ * `musicPlays(userId)` so spoken-word listening never inflates track,
+ * artist, or habit stats. The Shows view uses `userPlays(userId, "spoken")`.
+ *
+ * Every play is stored, skips included. Whether a play counts as a listen
+ * is decided here, against the user's `minPlayMs` setting, so changing the
+ * threshold takes effect on the next query without a re-import.
+ */
+import { and, eq, ne, sql, type SQL } from "drizzle-orm";
+import { listeningHistory, users } from "../db/schema";
+import type { ContentFilter } from "../../shared/validators/history";
+
+const CONTENT_FILTERS: readonly ContentFilter[] = ["music", "spoken", "all"];
+
+/** Parse a `content` query parameter, falling back to music-only. */
+export function parseContentFilter(value: string | undefined): ContentFilter {
+  return CONTENT_FILTERS.includes(value as ContentFilter)
+    ? (value as ContentFilter)
+    : "music";
+}
+
+/** Plays long enough to count as a listen under the user's threshold. */
+function countsAsListen(userId: string): SQL {
+  return sql`${listeningHistory.msPlayed} >= (
+    select ${users.minPlayMs} from ${users} where ${users.id} = ${userId}
+  )`;
+}
+
+/** A user's listens, narrowed to one kind of content. */
+export function userPlays(userId: string, content: ContentFilter = "music"): SQL {
+  const lh = listeningHistory;
+  const owner = and(eq(lh.userId, userId), countsAsListen(userId))!;
+
+  switch (content) {
+    case "music":
+      return and(owner, eq(lh.contentType, "track"))!;
+    case "spoken":
+      return and(owner, ne(lh.contentType, "track"))!;
+    case "all":
+      return owner;
+  }
+}
+
+/** A user's music plays — the default scope for every music stat. */
+export function musicPlays(userId: string): SQL {
+  return userPlays(userId, "music");
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach, afterAll } from "vitest";
+import { http, HttpResponse } from "msw";
+import { createMockDb, mockUser, type MockDb } from "../../test/mocks/db";
+import { mockEnv } from "../../test/mocks/hono-context";
+import { spotifyServer, spotifyRecentlyPlayed } from "../../test/mocks/spotify-api";
+
+// ---------------------------------------------------------------------------
+// Mock createDb so runScrobblePoll uses our mock DB
+// ---------------------------------------------------------------------------
+let mockDb: MockDb;
+
+vi.mock("../db", () => ({
+  createDb: vi.fn(() => mockDb),
+}));
+
+import { pollUser, runScrobblePoll, toScrobbleRow } from "./scrobble";
+
+beforeAll(() => spotifyServer.listen({ onUnhandledRequest: "error" }));
+afterEach(() => spotifyServer.resetHandlers());
+afterAll(() => spotifyServer.close());
+
+/** A select chain resolving to `data`, for queueing per-query results. */
+function selectResult(data: unknown[]) {
+  return createMockDb({ selectData: data }).select();
+}
+
+const user = { id: mockUser.id, refreshToken: "refresh_tok" };
+
+describe("toScrobbleRow", () => {
+  it("maps a Recently Played item onto a scrobble play", () => {
+    const row = toScrobbleRow(user.id, spotifyRecentlyPlayed.items[1]);
+    expect(row).toEqual({
+      userId: user.id,
+      contentType: "track",
+      trackSpotifyId: "track123",
+      trackName: "Test Track",
+      artistName: "Test Artist",
+      albumName: "Test Album",
+      msPlayed: 180000,
+      playedAt: new Date("2024-06-15T10:27:00.000Z"),
+      endedAt: new Date("2024-06-15T10:30:00.000Z"),
+      source: "scrobble",
+    });
+  });
+});
+
+describe("pollUser", () => {
+  beforeEach(() => {
+    mockDb = createMockDb({ insertData: [{ id: 1 }, { id: 2 }] });
+  });
+
+  it("inserts new plays and advances the cursor to the newest play", async () => {
+    mockDb.select = vi.fn(() => selectResult([{ afterMs: 1718440000000 }]));
+
+    const imported = await pollUser(mockDb as never, mockEnv, user);
+
+    expect(imported).toBe(2);
+    const [plays] = mockDb.insert.mock.results.map((r) => r.value.values.mock.calls[0][0]);
+    expect(plays).toHaveLength(2);
+    expect(plays[0].source).toBe("scrobble");
+
+    const cursor = mockDb._lastInsertChain.values.mock.calls[0][0];
+    expect(cursor).toMatchObject({
+      userId: user.id,
+      afterMs: Date.parse("2024-06-15T11:00:00.000Z"),
+      lastError: null,
+    });
+    expect(mockDb._lastInsertChain.onConflictDoUpdate).toHaveBeenCalled();
+  });
+
+  it("polls from the stored cursor", async () => {
+    let after: string | null = null;
+    spotifyServer.use(
+      http.get("https://api.spotify.com/v1/me/player/recently-played", ({ request }) => {
+        after = new URL(request.url).searchParams.get("after");
+        return HttpResponse.json({ items: [] });
+      }),
+    );
+    mockDb.select = vi.fn(() => selectResult([{ afterMs: 1718440000000 }]));
+
+    const imported = await pollUser(mockDb as never, mockEnv, user);
+
+    expect(after).toBe("1718440000000");
+    expect(imported).toBe(0);
+    // An empty poll keeps the cursor where it was
+    expect(mockDb._lastInsertChain.values.mock.calls[0][0].afterMs).toBe(1718440000000);
+  });
+
+  it("saves a rotated refresh token", async () => {
+    mockDb.select = vi.fn(() => selectResult([]));
+
+    await pollUser(mockDb as never, mockEnv, user);
+
+    expect(mockDb._lastUpdateChain.set).toHaveBeenCalledWith({ refreshToken: "new_refresh_token" });
+  });
+
+  it("uses the configured Spotify base URLs", async () => {
+    spotifyServer.use(
+      http.post("http://spotify.test/api/token", () =>
+        HttpResponse.json({ access_token: "stand_in", token_type: "Bearer", expires_in: 60, scope: "" }),
+      ),
+      http.get("http://spotify.test/v1/me/player/recently-played", () =>
+        HttpResponse.json({ items: [] }),
+      ),
+    );
+    mockDb.select = vi.fn(() => selectResult([]));
+    const env = {
+      ...mockEnv,
+      SPOTIFY_API_BASE_URL: "http://spotify.test",
+      SPOTIFY_ACCOUNTS_BASE_URL: "http://spotify.test",
+    };
+
+    await expect(pollUser(mockDb as never, env, user)).resolves.toBe(0);
+  });
+});
+
+describe("runScrobblePoll", () => {
+  beforeEach(() => {
+    mockDb = createMockDb({ insertData: [{ id: 1 }, { id: 2 }] });
+  });
+
+  it("records a failure on the user's cursor and keeps polling others", async () => {
+    const other = { id: "other-user", refreshToken: "other_refresh" };
+    mockDb.select = vi
+      .fn()
+      .mockReturnValueOnce(selectResult([user, other]))
+      .mockReturnValue(selectResult([]));
+    spotifyServer.use(
+      http.post("https://accounts.spotify.com/api/token", async ({ request }) => {
+        const body = await request.text();
+        return body.endsWith("refresh_token=refresh_tok")
+          ? HttpResponse.json({ error: "invalid_grant" }, { status: 400 })
+          : HttpResponse.json({ access_token: "ok", token_type: "Bearer", expires_in: 60, scope: "" });
+      }),
+    );
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await runScrobblePoll(mockEnv);
+
+    const cursorWrites = mockDb.insert.mock.results
+      .map((r) => r.value.values.mock.calls[0][0])
+      .filter((v) => !Array.isArray(v));
+    expect(cursorWrites).toEqual([
+      expect.objectContaining({ userId: user.id, lastError: "Token refresh failed: 400" }),
+      expect.objectContaining({ userId: "other-user", lastError: null }),
+    ]);
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Continuous scrobbling — polls Spotify's Recently Played feed so new plays
+ * arrive without a manual export upload.
+ *
+ * Run from the Worker's scheduled (cron) handler. For each user with a stored
+ * refresh token:
+ *   1. Exchange the refresh token for an access token (saving a rotated one)
+ *   2. Fetch plays after the user's cursor (scrobble_cursors.afterMs)
+ *   3. Insert them with source "scrobble", then advance the cursor
+ *
+ * Recently Played returns at most 50 plays per request, so the cron must run
+ * more often than 50 tracks' worth of listening (every 15 minutes is plenty).
+ */
+import { eq, isNotNull } from "drizzle-orm";
+import type { Env } from "../types";
+import { createDb, type Database } from "../db";
+import { scrobbleCursors, users } from "../db/schema";
+import { createSpotifyClient, type RecentlyPlayedItem } from "./spotify";
+import { deleteSupersededPlays, insertPlays, type PlayRow } from "./history-import";
+
+/** Map a Recently Played item onto a listening_history row. */
+export function toScrobbleRow(userId: string, item: RecentlyPlayedItem): PlayRow {
+  return {
+    userId,
+    contentType: "track",
+    trackSpotifyId: item.track.id,
+    trackName: item.track.name,
+    artistName: item.track.artists[0]?.name ?? "",
+    albumName: item.track.album.name || null,
+    // The feed has no play duration — assume the track was played through
+    msPlayed: item.track.duration_ms,
+    // played_at is when the track finished
+    playedAt: new Date(new Date(item.played_at).getTime() - item.track.duration_ms),
+    endedAt: new Date(item.played_at),
+    source: "scrobble",
+  };
+}
+
+/**
+ * Poll one user's Recently Played feed. Returns the number of new plays.
+ * Throws on Spotify or database errors without moving the cursor.
+ */
+export async function pollUser(
+  db: Database,
+  env: Env,
+  user: { id: string; refreshToken: string },
+): Promise<number> {
+  const [cursor] = await db
+    .select({ afterMs: scrobbleCursors.afterMs })
+    .from(scrobbleCursors)
+    .where(eq(scrobbleCursors.userId, user.id))
+    .limit(1);
+
+  const spotify = createSpotifyClient(env, db);
+  const { accessToken } = await spotify.userAccessToken(user);
+  const items = await spotify.fetchRecentlyPlayed(accessToken, cursor?.afterMs ?? null);
+  const rows = items
+    .filter((item) => item.track?.id && item.track.artists.length > 0)
+    .map((item) => toScrobbleRow(user.id, item));
+
+  const { imported } = await insertPlays(db, rows);
+  if (imported > 0) {
+    await deleteSupersededPlays(db, user.id, rows);
+  }
+
+  const newest = Math.max(cursor?.afterMs ?? 0, ...items.map((i) => Date.parse(i.played_at)));
+  const now = new Date();
+  await db
+    .insert(scrobbleCursors)
+    .values({
+      userId: user.id,
+      afterMs: newest > 0 ? newest : null,
+      lastPolledAt: now,
+      lastError: null,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: scrobbleCursors.userId,
+      set: { afterMs: newest > 0 ? newest : null, lastPolledAt: now, lastError: null, updatedAt: now },
+    });
+
+  return imported;
+}
+
+/**
+ * Poll every user with a stored refresh token, one at a time to stay well
+ * inside Spotify's rate limits. A failure is recorded on that user's cursor
+ * and does not stop the others.
+ */
+export async function runScrobblePoll(env: Env): Promise<void> {
+  const db = createDb(env.DATABASE_URL);
+
+  const pollable = await db
+    .select({ id: users.id, refreshToken: users.refreshToken })
+    .from(users)
+    .where(isNotNull(users.refreshToken));
+
+  let total = 0;
+  for (const user of pollable) {
+    try {
+      total += await pollUser(db, env, { id: user.id, refreshToken: user.refreshToken! });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Polling failed";
+      console.error(`[scrobble] Poll failed for user ${user.id}:`, message);
+      const now = new Date();
+      await db
+        .insert(scrobbleCursors)
+        .values({ userId: user.id, lastPolledAt: now, lastError: message, updatedAt: now })
+        .onConflictDoUpdate({
+          target: scrobbleCursors.userId,
+          set: { lastPolledAt: now, lastError: message, updatedAt: now },
+        });
+    }
+  }
+
+  console.log(`[scrobble] Polled ${pollable.length} users, ${total} new plays`);
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { OAuth2Client } from "arctic";
+import { createSpotifyEmulator } from "../../test/mocks/spotify-emulator";
+import { spotifyTrack, spotifyUserProfile } from "../../test/mocks/spotify-fixtures";
+import { SpotifyClient } from "./spotify";
+import { TokenBucket } from "./token-bucket";
+
+// ---------------------------------------------------------------------------
+// Every fetch goes to the emulator, as it does under SPOTIFY_EMULATOR
+// ---------------------------------------------------------------------------
+
+const BASE_URL = "http://spotify.emulator";
+
+beforeEach(() => {
+  const emulator = createSpotifyEmulator();
+  vi.stubGlobal("fetch", (input: RequestInfo | URL, init?: RequestInit) =>
+    emulator.request(input instanceof Request ? input : String(input), init),
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const client = new SpotifyClient({
+  clientId: "test-client-id",
+  clientSecret: "test-client-secret",
+  apiBaseUrl: BASE_URL,
+  accountsBaseUrl: BASE_URL,
+  rateLimiter: new TokenBucket(1000, 1000),
+});
+
+describe("Spotify emulator — OAuth", () => {
+  it("completes the authorization code flow and refreshes the token", async () => {
+    const oauth = new OAuth2Client("test-client-id", "test-client-secret", "http://localhost:5173/api/auth/callback");
+    const authorizeUrl = oauth.createAuthorizationURL(`${BASE_URL}/authorize`, "state-1", ["user-read-email"]);
+
+    const authorized = await fetch(authorizeUrl);
+    expect(authorized.status).toBe(302);
+    const callback = new URL(authorized.headers.get("Location")!);
+    expect(callback.origin + callback.pathname).toBe("http://localhost:5173/api/auth/callback");
+    expect(callback.searchParams.get("state")).toBe("state-1");
+
+    const tokens = await oauth.validateAuthorizationCode(
+      `${BASE_URL}/api/token`,
+      callback.searchParams.get("code")!,
+      null,
+    );
+    expect(tokens.accessToken()).toMatch(/^emulator-access-/);
+    expect(tokens.hasRefreshToken()).toBe(true);
+
+    const refreshed = await client.refreshAccessToken(tokens.refreshToken());
+    expect(refreshed.accessToken).toMatch(/^emulator-access-/);
+    expect(refreshed.newRefreshToken).toBeUndefined();
+  });
+
+  it("rejects a token request without a grant", async () => {
+    await expect(client.refreshAccessToken("")).rejects.toThrow();
+  });
+});
+
+describe("Spotify emulator — Web API", () => {
+  it("requires a bearer token", async () => {
+    const res = await fetch(`${BASE_URL}/v1/me`);
+    expect(res.status).toBe(401);
+    expect(await client.getCurrentUser("")).toBeNull();
+  });
+
+  it("returns the fixture profile", async () => {
+    expect(await client.getCurrentUser("token")).toEqual(spotifyUserProfile);
+  });
+
+  it("fetches known tracks and reports unknown ones as not found", async () => {
+    const result = await client.fetchTracks("token", ["track123", "track456", "missing"]);
+    expect(result.tracks.map((t) => t.id)).toEqual(["track123", "track456"]);
+    expect(result.tracks[0]).toEqual(spotifyTrack);
+    expect(result.notFound).toEqual(["missing"]);
+  });
+
+  it("answers a single unknown track with 404", async () => {
+    const res = await fetch(`${BASE_URL}/v1/tracks/missing`, {
+      headers: { Authorization: "Bearer token" },
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it("fetches artist genres", async () => {
+    const genres = await client.fetchArtistGenres("token", ["artist123", "missing"]);
+    expect(genres).toEqual(new Map([["artist123", ["indie rock", "alternative"]]]));
+  });
+
+  it("searches artists and tracks by field", async () => {
+    expect(await client.searchArtist("token", "test artist")).toEqual({
+      id: "artist123",
+      genres: ["indie rock", "alternative"],
+    });
+    expect(await client.searchArtist("token", "Nobody")).toBeNull();
+    expect(await client.searchTrack("token", "Second Track", "Test Artist")).toBe("track456");
+    expect(await client.searchTrack("token", "Second Track", "Nobody")).toBeNull();
+  });
+
+  it("returns recently played tracks after a cursor, newest first", async () => {
+    const all = await client.fetchRecentlyPlayed("token", null);
+    expect(all.map((item) => item.track.id)).toEqual(["track456", "track123"]);
+
+    const after = await client.fetchRecentlyPlayed("token", Date.parse("2024-06-15T10:30:00.000Z"));
+    expect(after.map((item) => item.track.id)).toEqual(["track456"]);
+  });
+});
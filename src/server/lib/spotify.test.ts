@@ -1,28 +1,38 @@
-import { describe, it, expect, beforeAll, beforeEach, afterAll, afterEach } from "vitest";
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
 import { http, HttpResponse } from "msw";
 import {
   spotifyServer,
   spotifyTrack,
   spotifySearchResult,
+  spotifyTrackSearchResult,
+  spotifyRecentlyPlayed,
+  spotifyUserProfile,
 } from "../../test/mocks/spotify-api";
 import { createMockSession, createAuthenticatedSession } from "../../test/mocks/session";
-import {
-  getValidAccessToken,
-  refreshAndUpdateSession,
-  fetchTrackMetadata,
-  searchArtist,
-  clearMetadataCache,
-} from "./spotify";
+import { createMockDb } from "../../test/mocks/db";
+import { getValidAccessToken, SpotifyClient, SpotifyRateLimitError, type SpotifyClientOptions } from "./spotify";
+import { TokenBucket } from "./token-bucket";
 
 // ---------------------------------------------------------------------------
 // MSW lifecycle
 // ---------------------------------------------------------------------------
 
 beforeAll(() => spotifyServer.listen({ onUnhandledRequest: "error" }));
-beforeEach(() => clearMetadataCache()); // clear in-memory cache between tests
 afterEach(() => spotifyServer.resetHandlers());
 afterAll(() => spotifyServer.close());
 
+/** A client with its own unthrottled limiter, so tests never wait on the shared one. */
+function createClient(options: Partial<SpotifyClientOptions> = {}) {
+  return new SpotifyClient({
+    clientId: "test-client-id",
+    clientSecret: "test-client-secret",
+    rateLimiter: new TokenBucket(1000, 1000),
+    ...options,
+  });
+}
+
+const client = createClient();
+
 // ---------------------------------------------------------------------------
 // getValidAccessToken
 // ---------------------------------------------------------------------------
@@ -57,115 +67,279 @@ describe("getValidAccessToken", () => {
 });
 
 // ---------------------------------------------------------------------------
-// refreshAndUpdateSession
+// SpotifyClient — tokens
 // ---------------------------------------------------------------------------
 
-describe("refreshAndUpdateSession", () => {
-  it("calls Spotify token endpoint and updates session", async () => {
-    const session = createMockSession({ userId: "u1", accessToken: "old" });
+describe("refreshAccessToken", () => {
+  it("returns the new token and its expiry without a session", async () => {
+    const before = Date.now();
+    const result = await client.refreshAccessToken("refresh_tok");
+
+    expect(result.accessToken).toBe("new_access_token");
+    expect(result.newRefreshToken).toBe("new_refresh_token");
+    expect(result.expiresAt).toBeGreaterThanOrEqual(before + 3600 * 1000);
+  });
 
-    const result = await refreshAndUpdateSession(
-      session as never,
-      "test-client-id",
-      "test-client-secret",
-      "refresh_tok",
+  it("returns undefined newRefreshToken when Spotify omits refresh_token", async () => {
+    spotifyServer.use(
+      http.post("https://accounts.spotify.com/api/token", () =>
+        HttpResponse.json({ access_token: "refreshed_tok", token_type: "bearer", expires_in: 3600, scope: "" }),
+      ),
     );
 
-    // spotifyTokenResponse from MSW mock returns access_token: "new_access_token"
-    expect(result).toEqual({
-      accessToken: "new_access_token",
-      newRefreshToken: "new_refresh_token",
-    });
+    const result = await client.refreshAccessToken("my_refresh");
+    expect(result.accessToken).toBe("refreshed_tok");
+    expect(result.newRefreshToken).toBeUndefined();
+  });
+
+  it("throws when token endpoint returns an error", async () => {
+    spotifyServer.use(
+      http.post("https://accounts.spotify.com/api/token", () =>
+        HttpResponse.json(
+          { error: "invalid_grant", error_description: "Refresh token revoked" },
+          { status: 400 },
+        ),
+      ),
+    );
+
+    await expect(client.refreshAccessToken("bad_refresh")).rejects.toThrow("Token refresh failed: 400");
+  });
+
+  it("uses a configured accounts base URL", async () => {
+    spotifyServer.use(
+      http.post("http://spotify.test/api/token", () =>
+        HttpResponse.json({ access_token: "stand_in_tok", token_type: "Bearer", expires_in: 60, scope: "" }),
+      ),
+    );
+
+    const result = await createClient({ accountsBaseUrl: "http://spotify.test" }).refreshAccessToken("refresh_tok");
+    expect(result.accessToken).toBe("stand_in_tok");
+  });
+});
+
+describe("userAccessToken", () => {
+  it("saves a rotated refresh token to the user", async () => {
+    const db = createMockDb();
+    const token = await createClient({ db: db as never }).userAccessToken({ id: "u1", refreshToken: "old" });
+
+    expect(token.accessToken).toBe("new_access_token");
+    expect(db._lastUpdateChain.set).toHaveBeenCalledWith({ refreshToken: "new_refresh_token" });
+  });
+});
+
+describe("sessionAccessToken", () => {
+  it("returns a valid session token without refreshing", async () => {
+    const db = createMockDb();
+    const session = createAuthenticatedSession();
+
+    expect(await createClient({ db: db as never }).sessionAccessToken(session as never)).toBe(
+      "mock_access_token_valid",
+    );
+    expect(db.query.users.findFirst).not.toHaveBeenCalled();
+  });
+
+  it("refreshes an expired token from the stored refresh token and updates the session", async () => {
+    const db = createMockDb({ findFirstData: { refreshToken: "stored_refresh" } });
+    const session = createMockSession({ userId: "u1", accessToken: "old", accessTokenExpiresAt: Date.now() - 1 });
+
+    const token = await createClient({ db: db as never }).sessionAccessToken(session as never);
+    expect(token).toBe("new_access_token");
     expect(session.set).toHaveBeenCalledWith("accessToken", "new_access_token");
     expect(session.set).toHaveBeenCalledWith("accessTokenExpiresAt", expect.any(Number));
+    expect(db._lastUpdateChain.set).toHaveBeenCalledWith({ refreshToken: "new_refresh_token" });
   });
 
-  it("returns undefined newRefreshToken when Spotify omits refresh_token", async () => {
+  it("shares one refresh between concurrent requests of a user", async () => {
+    let refreshes = 0;
     spotifyServer.use(
       http.post("https://accounts.spotify.com/api/token", () => {
-        return HttpResponse.json({
-          access_token: "refreshed_tok",
-          token_type: "bearer",
-          expires_in: 3600,
-          scope: "user-read-email",
-        });
+        refreshes++;
+        return HttpResponse.json({ access_token: "shared_tok", token_type: "bearer", expires_in: 3600, scope: "" });
       }),
     );
+    const db = createMockDb({ findFirstData: { refreshToken: "stored_refresh" } });
+    const spotify = createClient({ db: db as never });
+    const sessions = [createMockSession({ userId: "u2" }), createMockSession({ userId: "u2" })];
+
+    const tokens = await Promise.all(sessions.map((s) => spotify.sessionAccessToken(s as never)));
+    expect(tokens).toEqual(["shared_tok", "shared_tok"]);
+    expect(refreshes).toBe(1);
+    expect(sessions[1].set).toHaveBeenCalledWith("accessToken", "shared_tok");
+  });
 
-    const session = createMockSession({ userId: "u1", accessToken: "old" });
+  it("throws when the user has no stored refresh token", async () => {
+    const db = createMockDb({ findFirstData: { refreshToken: null } });
+    const session = createMockSession({ userId: "u3" });
 
-    const result = await refreshAndUpdateSession(
-      session as never,
-      "test-client-id",
-      "test-client-secret",
-      "my_refresh",
+    await expect(createClient({ db: db as never }).sessionAccessToken(session as never)).rejects.toThrow(
+      "No refresh token available",
     );
+  });
+});
 
-    expect(result).toEqual({
-      accessToken: "refreshed_tok",
-      newRefreshToken: undefined,
+// ---------------------------------------------------------------------------
+// SpotifyClient — rate limits
+// ---------------------------------------------------------------------------
+
+describe("rate limiting", () => {
+  it("gives up after its retries with a SpotifyRateLimitError", async () => {
+    let calls = 0;
+    spotifyServer.use(
+      http.get("https://api.spotify.com/v1/search", () => {
+        calls++;
+        return new HttpResponse(null, { status: 429, headers: { "Retry-After": "0" } });
+      }),
+    );
+
+    await expect(client.searchArtist("tok", "Test Artist")).rejects.toBeInstanceOf(SpotifyRateLimitError);
+    expect(calls).toBe(3);
+  });
+
+  it("does not wait out a Retry-After longer than its limit", async () => {
+    let calls = 0;
+    spotifyServer.use(
+      http.get("https://api.spotify.com/v1/search", () => {
+        calls++;
+        return new HttpResponse(null, { status: 429, headers: { "Retry-After": "3600" } });
+      }),
+    );
+
+    await expect(client.searchTrack("tok", "Test Track", "Test Artist")).rejects.toMatchObject({
+      retryAfterSec: 3600,
     });
+    expect(calls).toBe(1);
   });
 
-  it("throws when token endpoint returns an error", async () => {
+  it("reads a Retry-After given as an HTTP-date", async () => {
+    let calls = 0;
+    const inAnHour = new Date(Date.now() + 60 * 60 * 1000).toUTCString();
     spotifyServer.use(
-      http.post("https://accounts.spotify.com/api/token", () => {
-        return HttpResponse.json(
-          { error: "invalid_grant", error_description: "Refresh token revoked" },
-          { status: 400 },
-        );
+      http.get("https://api.spotify.com/v1/search", () => {
+        calls++;
+        return new HttpResponse(null, { status: 429, headers: { "Retry-After": inAnHour } });
       }),
     );
 
-    const session = createMockSession({ userId: "u1", accessToken: "old" });
+    await expect(client.searchArtist("tok", "Test Artist")).rejects.toSatisfy(
+      (err: SpotifyRateLimitError) => err instanceof SpotifyRateLimitError && err.retryAfterSec > 3500,
+    );
+    expect(calls).toBe(1);
+  });
 
-    await expect(
-      refreshAndUpdateSession(
-        session as never,
-        "test-client-id",
-        "test-client-secret",
-        "bad_refresh",
+  it("retries at once when the Retry-After date has passed", async () => {
+    let calls = 0;
+    spotifyServer.use(
+      http.get("https://api.spotify.com/v1/search", () => {
+        calls++;
+        return new HttpResponse(null, {
+          status: 429,
+          headers: { "Retry-After": "Wed, 21 Oct 2015 07:28:00 GMT" },
+        });
+      }),
+    );
+
+    await expect(client.searchArtist("tok", "Test Artist")).rejects.toMatchObject({ retryAfterSec: 0 });
+    expect(calls).toBe(3);
+  });
+
+  it("falls back to a backoff when Retry-After is unreadable", async () => {
+    spotifyServer.use(
+      http.get("https://api.spotify.com/v1/search", () =>
+        new HttpResponse(null, { status: 429, headers: { "Retry-After": "soon" } }),
       ),
-    ).rejects.toThrow("Token refresh failed: 400");
+    );
+
+    await expect(
+      createClient({ maxRetryAfterSec: 0 }).searchArtist("tok", "Test Artist"),
+    ).rejects.toMatchObject({ retryAfterSec: 1 });
+  });
+
+  it("takes a token from its limiter for every request", async () => {
+    const limiter = new TokenBucket(5, 1);
+    await createClient({ rateLimiter: limiter }).getCurrentUser("tok");
+    expect(limiter.available()).toBe(4);
   });
 });
 
 // ---------------------------------------------------------------------------
-// fetchTrackMetadata  (uses MSW)
+// getCurrentUser
 // ---------------------------------------------------------------------------
 
-describe("fetchTrackMetadata", () => {
-  it("returns metadata for valid track IDs", async () => {
-    const result = await fetchTrackMetadata("tok", ["track123"]);
-    expect(result.size).toBe(1);
-    expect(result.get("track123")).toEqual({
-      albumArt: "https://example.com/album-300.jpg",
-      albumName: "Test Album",
-      genres: [],
-    });
+describe("getCurrentUser", () => {
+  it("returns the profile", async () => {
+    expect(await client.getCurrentUser("tok")).toEqual(spotifyUserProfile);
   });
 
-  it("prefers 300px image", async () => {
-    const result = await fetchTrackMetadata("tok", ["track123"]);
-    expect(result.get("track123")?.albumArt).toBe("https://example.com/album-300.jpg");
+  it("returns null when Spotify refuses the token", async () => {
+    spotifyServer.use(
+      http.get("https://api.spotify.com/v1/me", () => new HttpResponse(null, { status: 401 })),
+    );
+    expect(await client.getCurrentUser("tok")).toBeNull();
   });
+});
+
+// ---------------------------------------------------------------------------
+// fetchTracks  (uses MSW)
+// ---------------------------------------------------------------------------
 
-  it("falls back to first image when no 300px", async () => {
+describe("fetchTracks", () => {
+  it("returns full track objects for valid track IDs", async () => {
+    const { tracks: result } = await client.fetchTracks("tok", ["track123"]);
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({
+      id: "track123",
+      duration_ms: 215000,
+      external_ids: { isrc: "USRC17607839" },
+      album: { id: "album123", name: "Test Album", release_date: "2019-05-17" },
+    });
+  });
+
+  it("uses the batch endpoint when it is available", async () => {
+    let batchCalls = 0;
     spotifyServer.use(
-      http.get("https://api.spotify.com/v1/tracks/:id", ({ params }) => {
-        return HttpResponse.json({
-          ...spotifyTrack,
-          id: params.id,
-          album: {
-            name: "No300",
-            images: [{ url: "https://example.com/big.jpg", width: 640, height: 640 }],
-          },
-        });
+      http.get("https://api.spotify.com/v1/tracks", ({ request }) => {
+        batchCalls++;
+        const ids = new URL(request.url).searchParams.get("ids")!.split(",");
+        return HttpResponse.json({ tracks: ids.map((id) => ({ ...spotifyTrack, id })) });
       }),
     );
 
-    const result = await fetchTrackMetadata("tok", ["t1"]);
-    expect(result.get("t1")?.albumArt).toBe("https://example.com/big.jpg");
+    const { tracks: result } = await client.fetchTracks("tok", ["a", "b"]);
+    expect(batchCalls).toBe(1);
+    expect(result.map((t) => t.id)).toEqual(["a", "b"]);
+  });
+
+  it("lists IDs Spotify has no track for", async () => {
+    spotifyServer.use(
+      http.get("https://api.spotify.com/v1/tracks", () =>
+        HttpResponse.json({ tracks: [{ ...spotifyTrack, id: "a" }, null] }),
+      ),
+    );
+
+    const result = await client.fetchTracks("tok", ["a", "gone"]);
+    expect(result.tracks.map((t) => t.id)).toEqual(["a"]);
+    expect(result.notFound).toEqual(["gone"]);
+  });
+
+  it("treats a 404 from the single-track endpoint as not found", async () => {
+    spotifyServer.use(
+      http.get("https://api.spotify.com/v1/tracks/:id", () => new HttpResponse(null, { status: 404 })),
+    );
+
+    expect(await client.fetchTracks("tok", ["gone"])).toEqual({ tracks: [], notFound: ["gone"] });
+  });
+
+  it("does not list tracks it failed to fetch as not found", async () => {
+    spotifyServer.use(
+      http.get("https://api.spotify.com/v1/tracks/:id", () =>
+        HttpResponse.json(
+          { error: { status: 429, message: "Rate limited" } },
+          { status: 429, headers: { "Retry-After": "3600" } },
+        ),
+      ),
+    );
+
+    expect(await client.fetchTracks("tok", ["trackX"])).toEqual({ tracks: [], notFound: [] });
   });
 
   it("handles 429 rate limit with retry", async () => {
@@ -183,9 +357,9 @@ describe("fetchTrackMetadata", () => {
       }),
     );
 
-    const result = await fetchTrackMetadata("tok", ["trackX"]);
+    const { tracks: result } = await client.fetchTracks("tok", ["trackX"]);
     expect(callCount).toBe(2);
-    expect(result.has("trackX")).toBe(true);
+    expect(result.map((t) => t.id)).toEqual(["trackX"]);
   });
 
   it("deduplicates input track IDs", async () => {
@@ -197,13 +371,13 @@ describe("fetchTrackMetadata", () => {
       }),
     );
 
-    await fetchTrackMetadata("tok", ["dup1", "dup1", "dup1"]);
+    await client.fetchTracks("tok", ["dup1", "dup1", "dup1"]);
     expect(fetchCount).toBe(1);
   });
 
   it("handles empty input array", async () => {
-    const result = await fetchTrackMetadata("tok", []);
-    expect(result.size).toBe(0);
+    const result = await client.fetchTracks("tok", []);
+    expect(result).toEqual({ tracks: [], notFound: [] });
   });
 });
 
@@ -213,7 +387,7 @@ describe("fetchTrackMetadata", () => {
 
 describe("searchArtist", () => {
   it("returns id and genres for found artist", async () => {
-    const result = await searchArtist("tok", "Test Artist");
+    const result = await client.searchArtist("tok", "Test Artist");
     expect(result).toEqual({
       id: spotifySearchResult.artists.items[0].id,
       genres: spotifySearchResult.artists.items[0].genres,
@@ -227,7 +401,7 @@ describe("searchArtist", () => {
       }),
     );
 
-    const result = await searchArtist("tok", "Nobody");
+    const result = await client.searchArtist("tok", "Nobody");
     expect(result).toBeNull();
   });
 
@@ -246,7 +420,7 @@ describe("searchArtist", () => {
       }),
     );
 
-    const result = await searchArtist("tok", "Test Artist");
+    const result = await client.searchArtist("tok", "Test Artist");
     expect(callCount).toBe(2);
     expect(result).toEqual({
       id: "artist123",
@@ -254,3 +428,67 @@ describe("searchArtist", () => {
     });
   });
 });
+
+// ---------------------------------------------------------------------------
+// searchTrack  (uses MSW)
+// ---------------------------------------------------------------------------
+
+describe("searchTrack", () => {
+  it("returns the id of an exact title and artist match", async () => {
+    const result = await client.searchTrack("tok", "test track", "Test Artist");
+    expect(result).toBe(spotifyTrackSearchResult.tracks.items[0].id);
+  });
+
+  it("returns null when no result matches the artist", async () => {
+    const result = await client.searchTrack("tok", "Test Track", "Someone Else");
+    expect(result).toBeNull();
+  });
+
+  it("returns null when not found", async () => {
+    spotifyServer.use(
+      http.get("https://api.spotify.com/v1/search", () => {
+        return HttpResponse.json({ tracks: { items: [] } });
+      }),
+    );
+
+    const result = await client.searchTrack("tok", "Nothing", "Nobody");
+    expect(result).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// fetchRecentlyPlayed
+// ---------------------------------------------------------------------------
+
+describe("fetchRecentlyPlayed", () => {
+  it("returns recently played items", async () => {
+    const items = await client.fetchRecentlyPlayed("tok", null);
+    expect(items).toEqual(spotifyRecentlyPlayed.items);
+  });
+
+  it("passes the cursor as `after` to a configured base URL", async () => {
+    let url: URL | undefined;
+    spotifyServer.use(
+      http.get("http://spotify.test/v1/me/player/recently-played", ({ request }) => {
+        url = new URL(request.url);
+        return HttpResponse.json({ items: [] });
+      }),
+    );
+
+    await createClient({ apiBaseUrl: "http://spotify.test" }).fetchRecentlyPlayed("tok", 1718447400000);
+    expect(url?.searchParams.get("after")).toBe("1718447400000");
+    expect(url?.searchParams.get("limit")).toBe("50");
+  });
+
+  it("throws when Spotify returns an error", async () => {
+    spotifyServer.use(
+      http.get("https://api.spotify.com/v1/me/player/recently-played", () =>
+        HttpResponse.json({ error: { status: 401 } }, { status: 401 }),
+      ),
+    );
+
+    await expect(client.fetchRecentlyPlayed("tok", null)).rejects.toThrow(
+      "Recently played request failed: 401",
+    );
+  });
+});
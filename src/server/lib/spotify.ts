@@ -1,9 +1,58 @@
+/**
+ * Spotify Web API client.
+ *
+ * Every call to Spotify — the accounts service and the Web API — goes
+ * through a SpotifyClient, which owns:
+ *   - Token management: a session's access token is refreshed from the
+ *     user's stored refresh token when it nears expiry, one refresh per user
+ *     at a time, and a rotated refresh token is saved to users.refreshToken.
+ *   - Rate limiting: requests take a token from a TokenBucket shared by every
+ *     client in the isolate. A 429 is retried after its Retry-After at most
+ *     `maxRetries` times; a longer wait, or another 429, ends in a
+ *     SpotifyRateLimitError.
+ *   - Timeouts on every request, and configurable base URLs, so background
+ *     jobs and tests can point at a local stand-in.
+ *
+ * Create one per request with `createSpotifyClient(env, db)`.
+ */
+import { eq } from "drizzle-orm";
 import type { Session } from "hono-sessions";
+import type { Database } from "../db";
+import { users } from "../db/schema";
+import type { Env } from "../types";
 import type { SessionData } from "../middleware/session";
+import { TokenBucket } from "./token-bucket";
+
+// Defaults for the configurable SPOTIFY_API_BASE_URL / SPOTIFY_ACCOUNTS_BASE_URL
+// bindings, which point the client at a local stand-in during testing
+export const DEFAULT_SPOTIFY_API_BASE_URL = "https://api.spotify.com";
+export const DEFAULT_SPOTIFY_ACCOUNTS_BASE_URL = "https://accounts.spotify.com";
+
+// Spotify does not publish its limit (a rolling 30-second window per app);
+// this keeps an isolate well under it while allowing short bursts
+const RATE_LIMIT_BURST = 10;
+const RATE_LIMIT_PER_SECOND = 5;
+
+/** Shared by every client in the isolate, so concurrent requests pace together. */
+const sharedRateLimiter = new TokenBucket(RATE_LIMIT_BURST, RATE_LIMIT_PER_SECOND);
+
+/**
+ * In-flight session refreshes keyed by user ID — concurrent requests of one
+ * user wait on the same refresh instead of each rotating the refresh token.
+ */
+const sessionRefreshes = new Map<string, Promise<RefreshedToken>>();
+
+/** Thrown when Spotify keeps rate limiting a request past the retry budget. */
+export class SpotifyRateLimitError extends Error {
+  constructor(readonly retryAfterSec: number) {
+    super(`Spotify rate limit, Retry-After=${retryAfterSec}s`);
+    this.name = "SpotifyRateLimitError";
+  }
+}
 
 /**
  * Returns the access token if still valid, otherwise throws.
- * Callers should catch and use refreshAndUpdateSession with the DB refresh token.
+ * `SpotifyClient.sessionAccessToken` refreshes it instead.
  */
 export function getValidAccessToken(session: Session<SessionData>): string {
   const accessToken = session.get("accessToken");
@@ -30,420 +79,478 @@ interface SpotifyTokenResponse {
   scope: string;
 }
 
-/**
- * Refreshes the access token by calling Spotify's token endpoint directly.
- * Uses AbortSignal.timeout to prevent hanging (Arctic's internal fetch has no timeout).
- */
-export async function refreshAndUpdateSession(
-  session: Session<SessionData>,
-  clientId: string,
-  clientSecret: string,
-  refreshToken: string,
-): Promise<{ accessToken: string; newRefreshToken?: string }> {
-  console.log("[spotify] Refreshing access token...");
-
-  const credentials = btoa(`${clientId}:${clientSecret}`);
-
-  const res = await fetch("https://accounts.spotify.com/api/token", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-      Authorization: `Basic ${credentials}`,
-    },
-    body: `grant_type=refresh_token&refresh_token=${refreshToken}`,
-    signal: AbortSignal.timeout(10_000),
-  });
-
-  if (!res.ok) {
-    const body = await res.text();
-    console.error("[spotify] Token refresh failed:", res.status, body);
-    throw new Error(`Token refresh failed: ${res.status}`);
-  }
-
-  const data = (await res.json()) as SpotifyTokenResponse;
-
-  session.set("accessToken", data.access_token);
-  session.set("accessTokenExpiresAt", Date.now() + data.expires_in * 1000);
-
-  console.log("[spotify] Access token refreshed successfully");
+/** An access token from the token endpoint. */
+export interface RefreshedToken {
+  accessToken: string;
+  /** Unix ms. */
+  expiresAt: number;
+  /** Set when Spotify rotated the refresh token. */
+  newRefreshToken?: string;
+}
 
-  return {
-    accessToken: data.access_token,
-    newRefreshToken: data.refresh_token,
-  };
+/** The current user's profile (GET /v1/me). */
+export interface SpotifyProfile {
+  id: string;
+  display_name: string | null;
+  email: string | null;
+  images: Array<{ url: string }>;
 }
 
-interface TrackMetadata {
-  albumArt: string;
-  albumName: string;
-  genres: string[];
+export interface SpotifyImage {
+  url: string;
+  width: number;
+  height: number;
 }
 
-interface SpotifyTrack {
+/** The fields of Spotify's full track object that the catalog stores. */
+export interface SpotifyTrack {
   id: string;
+  name: string;
+  duration_ms: number;
+  external_ids?: { isrc?: string };
   album: {
+    id: string;
     name: string;
-    images: Array<{ url: string; width: number; height: number }>;
+    /** "YYYY", "YYYY-MM" or "YYYY-MM-DD", depending on release_date_precision. */
+    release_date?: string;
+    images: SpotifyImage[];
+    artists?: Array<{ id: string; name: string }>;
   };
   artists: Array<{ id: string; name: string }>;
 }
 
-// ---------------------------------------------------------------------------
-// In-memory metadata cache — TTL-based to comply with Spotify TOS
-// (server-side cache is allowed; permanent local storage is not)
-// ---------------------------------------------------------------------------
-
-const metadataCache = new Map<string, { data: TrackMetadata; expiresAt: number }>();
-const CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-
-/** Clear the in-memory metadata cache. Exported for test isolation. */
-export function clearMetadataCache(): void {
-  metadataCache.clear();
+/** Result of `fetchTracks`. */
+export interface FetchedTracks {
+  tracks: SpotifyTrack[];
+  /**
+   * IDs Spotify answered for with no track — unknown or removed. IDs left
+   * out of both lists were not fetched (a rate limit or a network error).
+   */
+  notFound: string[];
 }
 
-// ---------------------------------------------------------------------------
-// Helpers
-// ---------------------------------------------------------------------------
+interface SpotifyBatchResponse {
+  tracks: (SpotifyTrack | null)[];
+}
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+interface SpotifyArtist {
+  id: string;
+  name: string;
+  genres: string[];
 }
 
-/** Extract the fields we care about from a Spotify track object. */
-function extractMetadata(track: SpotifyTrack): TrackMetadata {
-  const albumArt =
-    track.album.images.find((img) => img.width === 300)?.url ??
-    track.album.images[0]?.url ??
-    "";
-
-  return {
-    albumArt,
-    albumName: track.album.name,
-    genres: [],
+interface SpotifySearchResponse {
+  artists: {
+    items: Array<{
+      id: string;
+      name: string;
+      genres: string[];
+    }>;
   };
 }
 
-/**
- * Fetch a single track from Spotify, handling 429 rate limits with retry.
- *
- * Returns:
- *  - SpotifyTrack on success
- *  - 'rate_limited' if Retry-After > maxRetryAfter (caller should stop all fetches)
- *  - null on non-rate-limit errors (caller should skip this track)
- */
-async function fetchSingleTrack(
-  accessToken: string,
-  id: string,
-  maxRetryAfter: number,
-): Promise<SpotifyTrack | "rate_limited" | null> {
-  const MAX_RETRIES = 2;
-
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      const res = await fetch(`https://api.spotify.com/v1/tracks/${id}`, {
-        headers: { Authorization: `Bearer ${accessToken}` },
-        signal: AbortSignal.timeout(10_000),
-      });
-
-      if (res.status === 429) {
-        const retryAfter = Number(res.headers.get("Retry-After") ?? "1");
-
-        if (retryAfter > maxRetryAfter) {
-          console.warn(
-            `[fetchSingleTrack] 429 for track ${id}, Retry-After=${retryAfter}s (>${maxRetryAfter}s limit) — stopping`,
-          );
-          return "rate_limited";
-        }
-
-        // Short Retry-After — wait and retry if we have attempts left
-        if (attempt < MAX_RETRIES) {
-          console.warn(
-            `[fetchSingleTrack] 429 for track ${id}, Retry-After=${retryAfter}s — waiting (attempt ${attempt + 1}/${MAX_RETRIES})`,
-          );
-          await sleep(retryAfter * 1000);
-          continue;
-        }
-
-        // Exhausted retries on short 429
-        console.warn(
-          `[fetchSingleTrack] 429 for track ${id} — exhausted ${MAX_RETRIES} retries`,
-        );
-        return null;
-      }
-
-      if (!res.ok) {
-        console.error(`[fetchSingleTrack] Spotify API ${res.status} for track ${id}`);
-        return null;
-      }
+interface SpotifyTrackSearchResponse {
+  tracks: {
+    items: Array<{
+      id: string;
+      name: string;
+      artists: Array<{ id: string; name: string }>;
+    }>;
+  };
+}
 
-      return (await res.json()) as SpotifyTrack;
-    } catch (err) {
-      console.error(
-        `[fetchSingleTrack] Network error for track ${id}:`,
-        (err as Error)?.message ?? err,
-      );
-      return null;
-    }
-  }
+export interface RecentlyPlayedItem {
+  track: {
+    id: string;
+    name: string;
+    duration_ms: number;
+    artists: Array<{ id: string; name: string }>;
+    album: { name: string };
+  };
+  /** ISO 8601 timestamp of when the play was recorded. */
+  played_at: string;
+}
 
-  // Should not reach here, but satisfy TypeScript
-  return null;
+interface RecentlyPlayedResponse {
+  items: RecentlyPlayedItem[];
 }
 
-// ---------------------------------------------------------------------------
-// Batch fetch — GET /v1/tracks?ids=... (up to 50 per request)
-// ---------------------------------------------------------------------------
+export interface SpotifyClientOptions {
+  clientId: string;
+  clientSecret: string;
+  apiBaseUrl?: string;
+  accountsBaseUrl?: string;
+  /** Where refresh tokens are read and rotated ones saved. */
+  db?: Database;
+  /** Defaults to the limiter shared by the isolate. */
+  rateLimiter?: TokenBucket;
+  /** Retries of a rate-limited request; 2 by default. */
+  maxRetries?: number;
+  /** Longest Retry-After waited out, in seconds; 30 by default. */
+  maxRetryAfterSec?: number;
+  /** Per-request timeout; 10 s by default. */
+  timeoutMs?: number;
+}
 
-interface SpotifyBatchResponse {
-  tracks: (SpotifyTrack | null)[];
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 /**
- * Fetch up to 50 tracks in a single batch request.
- * Returns the tracks array on success, or null if the endpoint is unavailable
- * (e.g. 403 in Spotify dev mode).
+ * Seconds to wait before retry `attempt` of a 429. Retry-After may be
+ * delta-seconds or an HTTP-date; when it is missing or unreadable the wait
+ * doubles from 1 s with each attempt.
  */
-async function fetchTracksBatch(
-  accessToken: string,
-  ids: string[],
-): Promise<SpotifyTrack[] | null> {
-  try {
-    const res = await fetch(
-      `https://api.spotify.com/v1/tracks?ids=${ids.join(",")}`,
-      {
-        headers: { Authorization: `Bearer ${accessToken}` },
-        signal: AbortSignal.timeout(15_000),
-      },
-    );
+function retryAfterSeconds(header: string | null, attempt: number): number {
+  const backoff = 2 ** attempt;
+  if (header === null) return backoff;
+  if (/^\s*\d+\s*$/.test(header)) return Number(header);
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return backoff;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
 
-    if (res.status === 429) {
-      const retryAfter = Number(res.headers.get("Retry-After") ?? "1");
-      if (retryAfter > 30) {
-        console.warn(`[fetchTracksBatch] 429, Retry-After=${retryAfter}s (too long, giving up)`);
-        return null;
-      }
-      console.warn(`[fetchTracksBatch] 429, Retry-After=${retryAfter}s — waiting`);
-      await sleep(retryAfter * 1000);
-      // Retry once
-      const retry = await fetch(
-        `https://api.spotify.com/v1/tracks?ids=${ids.join(",")}`,
-        {
-          headers: { Authorization: `Bearer ${accessToken}` },
-          signal: AbortSignal.timeout(15_000),
-        },
-      );
-      if (!retry.ok) return null;
-      const data = (await retry.json()) as SpotifyBatchResponse;
-      return data.tracks.filter((t): t is SpotifyTrack => t !== null);
-    }
+export class SpotifyClient {
+  private readonly apiBaseUrl: string;
+  private readonly accountsBaseUrl: string;
+  private readonly rateLimiter: TokenBucket;
+  private readonly maxRetries: number;
+  private readonly maxRetryAfterSec: number;
+  private readonly timeoutMs: number;
+
+  constructor(private readonly options: SpotifyClientOptions) {
+    this.apiBaseUrl = options.apiBaseUrl ?? DEFAULT_SPOTIFY_API_BASE_URL;
+    this.accountsBaseUrl = options.accountsBaseUrl ?? DEFAULT_SPOTIFY_ACCOUNTS_BASE_URL;
+    this.rateLimiter = options.rateLimiter ?? sharedRateLimiter;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.maxRetryAfterSec = options.maxRetryAfterSec ?? 30;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+  }
 
-    if (res.status === 403) {
-      console.warn("[fetchTracksBatch] 403 — batch endpoint restricted, falling back to individual");
-      return null;
-    }
+  // ---------------------------------------------------------------------------
+  // Tokens
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Exchange a refresh token for a new access token. Needs no session, so
+   * background jobs can use it too.
+   */
+  async refreshAccessToken(refreshToken: string): Promise<RefreshedToken> {
+    const credentials = btoa(`${this.options.clientId}:${this.options.clientSecret}`);
+    const res = await this.send(`${this.accountsBaseUrl}/api/token`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: `Basic ${credentials}`,
+      },
+      body: new URLSearchParams({ grant_type: "refresh_token", refresh_token: refreshToken }).toString(),
+    });
 
     if (!res.ok) {
-      console.error(`[fetchTracksBatch] Spotify API ${res.status}`);
-      return null;
+      const body = await res.text();
+      console.error("[spotify] Token refresh failed:", res.status, body);
+      throw new Error(`Token refresh failed: ${res.status}`);
     }
 
-    const data = (await res.json()) as SpotifyBatchResponse;
-    return data.tracks.filter((t): t is SpotifyTrack => t !== null);
-  } catch (err) {
-    console.error("[fetchTracksBatch] Network error:", (err as Error)?.message ?? err);
-    return null;
+    const data = (await res.json()) as SpotifyTokenResponse;
+    return {
+      accessToken: data.access_token,
+      expiresAt: Date.now() + data.expires_in * 1000,
+      newRefreshToken: data.refresh_token,
+    };
   }
-}
 
-// ---------------------------------------------------------------------------
-// Main entry point
-// ---------------------------------------------------------------------------
+  /**
+   * A fresh access token for `user`, saving a rotated refresh token to
+   * users.refreshToken.
+   */
+  async userAccessToken(user: { id: string; refreshToken: string }): Promise<RefreshedToken> {
+    const token = await this.refreshAccessToken(user.refreshToken);
+    if (token.newRefreshToken && this.options.db) {
+      await this.options.db
+        .update(users)
+        .set({ refreshToken: token.newRefreshToken })
+        .where(eq(users.id, user.id));
+      console.log("[spotify] Refresh token rotated and saved");
+    }
+    return token;
+  }
 
-/**
- * Fetch track metadata from Spotify API.
- *
- * Strategy:
- *  1. Serve from in-memory cache (24h TTL)
- *  2. Try batch endpoint (GET /v1/tracks?ids=...) — 1 request for up to 50 tracks
- *  3. If batch fails (403 in dev mode), fall back to sequential individual fetches
- *     with rate-limit-aware retry and exponential backoff
- */
-export async function fetchTrackMetadata(
-  accessToken: string,
-  trackIds: string[],
-): Promise<Map<string, TrackMetadata>> {
-  const result = new Map<string, TrackMetadata>();
-  const uniqueIds = [...new Set(trackIds)];
-  const now = Date.now();
-
-  // 1. Check cache — serve what we can from memory
-  const uncachedIds: string[] = [];
-  for (const id of uniqueIds) {
-    const cached = metadataCache.get(id);
-    if (cached && cached.expiresAt > now) {
-      result.set(id, cached.data);
-    } else {
-      uncachedIds.push(id);
+  /**
+   * The session's access token, refreshed with the user's stored refresh
+   * token when it is missing or about to expire. The new token is written
+   * back to the session. Throws when there is nothing to refresh with.
+   */
+  async sessionAccessToken(session: Session<SessionData>): Promise<string> {
+    try {
+      return getValidAccessToken(session);
+    } catch (err) {
+      console.log("[spotify] Access token expired, refreshing:", (err as Error).message);
     }
+
+    const userId = session.get("userId");
+    if (!userId) throw new Error("No user in session");
+
+    let refresh = sessionRefreshes.get(userId);
+    if (!refresh) {
+      refresh = this.refreshStoredToken(userId).finally(() => sessionRefreshes.delete(userId));
+      sessionRefreshes.set(userId, refresh);
+    }
+
+    const { accessToken, expiresAt } = await refresh;
+    session.set("accessToken", accessToken);
+    session.set("accessTokenExpiresAt", expiresAt);
+    return accessToken;
   }
 
-  if (uncachedIds.length === 0) {
-    console.log(
-      `[fetchTrackMetadata] All ${uniqueIds.length} tracks served from cache`,
-    );
-    return result;
+  private async refreshStoredToken(userId: string): Promise<RefreshedToken> {
+    const db = this.options.db;
+    if (!db) throw new Error("No database to read the refresh token from");
+
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { refreshToken: true },
+    });
+    if (!user?.refreshToken) {
+      console.error("[spotify] No refresh token in DB for user", userId);
+      throw new Error("No refresh token available");
+    }
+    return this.userAccessToken({ id: userId, refreshToken: user.refreshToken });
   }
 
-  console.log(
-    `[fetchTrackMetadata] ${uniqueIds.length - uncachedIds.length} cached, ${uncachedIds.length} to fetch from Spotify API`,
-  );
+  // ---------------------------------------------------------------------------
+  // Web API
+  // ---------------------------------------------------------------------------
+
+  /** The signed-in user's profile, or null when Spotify refuses the token. */
+  async getCurrentUser(accessToken: string): Promise<SpotifyProfile | null> {
+    const res = await this.get(accessToken, "/v1/me");
+    if (!res.ok) return null;
+    return (await res.json()) as SpotifyProfile;
+  }
 
-  // 2. Try batch endpoint first (50 tracks per request)
-  const BATCH_SIZE = 50;
-  let useBatch = true;
+  /**
+   * Fetch full track objects. Tracks Spotify does not have are listed in
+   * `notFound`; a rate limit ends the fetch early with what was fetched so
+   * far.
+   *
+   * Strategy:
+   *  1. Try the batch endpoint (GET /v1/tracks?ids=...) — 1 request for up to 50 tracks
+   *  2. If it is unavailable (403 in dev mode), fall back to individual
+   *     fetches for the rest, paced by the rate limiter
+   *
+   * Results are persisted in the catalog tables (see lib/catalog.ts), and
+   * IDs Spotify does not have are remembered by lib/metadata-cache.ts, so
+   * both survive isolate restarts.
+   */
+  async fetchTracks(accessToken: string, trackIds: string[]): Promise<FetchedTracks> {
+    const tracks: SpotifyTrack[] = [];
+    const notFound: string[] = [];
+    const uniqueIds = [...new Set(trackIds)];
+    if (uniqueIds.length === 0) return { tracks, notFound };
+
+    const BATCH_SIZE = 50;
+    let useBatch = true;
 
-  for (let i = 0; i < uncachedIds.length; i += BATCH_SIZE) {
-    const batch = uncachedIds.slice(i, i + BATCH_SIZE);
+    try {
+      for (let i = 0; i < uniqueIds.length; i += BATCH_SIZE) {
+        const batch = uniqueIds.slice(i, i + BATCH_SIZE);
+
+        if (useBatch) {
+          const results = await this.fetchTracksBatch(accessToken, batch);
+          if (results) {
+            results.forEach((track, index) => {
+              if (track) tracks.push(track);
+              else notFound.push(batch[index]);
+            });
+            continue;
+          }
+          // Batch endpoint unavailable — individual fetches for the rest
+          useBatch = false;
+        }
 
-    if (useBatch) {
-      const tracks = await fetchTracksBatch(accessToken, batch);
-      if (tracks) {
-        for (const track of tracks) {
-          const meta = extractMetadata(track);
-          result.set(track.id, meta);
-          metadataCache.set(track.id, { data: meta, expiresAt: now + CACHE_TTL_MS });
+        for (const id of batch) {
+          const track = await this.fetchTrack(accessToken, id);
+          if (track === "not_found") notFound.push(id);
+          else if (track) tracks.push(track);
         }
-        console.log(`[fetchTrackMetadata] Batch: ${tracks.length}/${batch.length} tracks OK`);
-        continue;
       }
-      // Batch failed — switch to individual for remaining tracks
-      useBatch = false;
+    } catch (err) {
+      if (!(err instanceof SpotifyRateLimitError)) throw err;
+      console.warn(`[spotify] Stopping track fetch — rate limited. Got ${tracks.length}/${uniqueIds.length}`);
     }
 
-    // 3. Fallback: sequential individual fetches with rate limit awareness
-    console.log(`[fetchTrackMetadata] Falling back to individual fetches for ${batch.length} tracks`);
-    let delay = 300;
-    const MAX_DELAY = 5000;
-    const MAX_RETRY_AFTER = 30;
-
-    for (let j = 0; j < batch.length; j++) {
-      if (j > 0) await sleep(delay);
+    console.log(`[spotify] Fetched ${tracks.length}/${uniqueIds.length} tracks`);
+    return { tracks, notFound };
+  }
 
-      const trackOrSignal = await fetchSingleTrack(accessToken, batch[j], MAX_RETRY_AFTER);
+  /**
+   * Up to 50 tracks in one request, aligned with `ids` — null for IDs
+   * Spotify has no track for — or null when the endpoint cannot be used.
+   */
+  private async fetchTracksBatch(
+    accessToken: string,
+    ids: string[],
+  ): Promise<(SpotifyTrack | null)[] | null> {
+    let res: Response;
+    try {
+      res = await this.get(accessToken, `/v1/tracks?ids=${ids.join(",")}`);
+    } catch (err) {
+      if (err instanceof SpotifyRateLimitError) throw err;
+      console.error("[spotify] Batch track fetch failed:", (err as Error)?.message ?? err);
+      return null;
+    }
+    if (!res.ok) {
+      console.warn(`[spotify] Batch track endpoint ${res.status} — falling back to individual fetches`);
+      return null;
+    }
+    return ((await res.json()) as SpotifyBatchResponse).tracks;
+  }
 
-      if (trackOrSignal === "rate_limited") {
-        console.warn(`[fetchTrackMetadata] Stopping — rate limited. Got ${result.size}/${uniqueIds.length} tracks`);
-        console.log(`[fetchTrackMetadata] Done: ${result.size}/${uniqueIds.length} tracks with metadata`);
-        return result;
-      }
+  /** One track; "not_found" for an unknown or malformed ID, null on other errors. */
+  private async fetchTrack(accessToken: string, id: string): Promise<SpotifyTrack | "not_found" | null> {
+    let res: Response;
+    try {
+      res = await this.get(accessToken, `/v1/tracks/${id}`);
+    } catch (err) {
+      if (err instanceof SpotifyRateLimitError) throw err;
+      console.error(`[spotify] Network error for track ${id}:`, (err as Error)?.message ?? err);
+      return null;
+    }
+    if (res.status === 404 || res.status === 400) return "not_found";
+    if (!res.ok) {
+      console.error(`[spotify] Spotify API ${res.status} for track ${id}`);
+      return null;
+    }
+    return (await res.json()) as SpotifyTrack;
+  }
 
-      if (trackOrSignal === null) {
-        delay = Math.min(delay * 2, MAX_DELAY);
-        continue;
+  /**
+   * Artist genres keyed by artist ID, from GET /v1/artists/{id} (the batch
+   * endpoint is restricted in dev mode). Artists that fail are left out.
+   */
+  async fetchArtistGenres(accessToken: string, artistIds: string[]): Promise<Map<string, string[]>> {
+    const result = new Map<string, string[]>();
+    const uniqueIds = [...new Set(artistIds)];
+    const CONCURRENCY = 10;
+
+    for (let i = 0; i < uniqueIds.length; i += CONCURRENCY) {
+      const chunk = uniqueIds.slice(i, i + CONCURRENCY);
+      const settled = await Promise.allSettled(
+        chunk.map(async (id) => {
+          const res = await this.get(accessToken, `/v1/artists/${id}`);
+          if (!res.ok) return null;
+          return (await res.json()) as SpotifyArtist;
+        }),
+      );
+      for (const entry of settled) {
+        if (entry.status !== "fulfilled" || !entry.value) continue;
+        result.set(entry.value.id, entry.value.genres);
       }
-
-      const meta = extractMetadata(trackOrSignal);
-      result.set(trackOrSignal.id, meta);
-      metadataCache.set(trackOrSignal.id, { data: meta, expiresAt: now + CACHE_TTL_MS });
-      delay = 300;
     }
+
+    return result;
   }
 
-  console.log(
-    `[fetchTrackMetadata] Done: ${result.size}/${uniqueIds.length} tracks with metadata`,
-  );
-  return result;
-}
+  /**
+   * Search for an artist by name and return their Spotify ID and genres.
+   * Returns null if not found; throws when rate limited or offline.
+   */
+  async searchArtist(accessToken: string, artistName: string): Promise<{ id: string; genres: string[] } | null> {
+    const q = encodeURIComponent(`artist:${artistName}`);
+    const res = await this.get(accessToken, `/v1/search?q=${q}&type=artist&limit=1`);
+    if (!res.ok) return null;
 
-// --- Artist genres ---
+    const data = (await res.json()) as SpotifySearchResponse;
+    const artist = data.artists.items[0];
+    if (!artist) return null;
 
-interface SpotifyArtist {
-  id: string;
-  name: string;
-  genres: string[];
-}
-
-/**
- * Fetch artist genres from Spotify API using individual endpoints.
- * Uses GET /v1/artists/{id} to avoid batch endpoint restrictions.
- */
-export async function fetchArtistGenres(
-  accessToken: string,
-  artistIds: string[],
-): Promise<Map<string, string[]>> {
-  const result = new Map<string, string[]>();
-  const uniqueIds = [...new Set(artistIds)];
-  const CONCURRENCY = 10;
-
-  for (let i = 0; i < uniqueIds.length; i += CONCURRENCY) {
-    const chunk = uniqueIds.slice(i, i + CONCURRENCY);
-
-    const settled = await Promise.allSettled(
-      chunk.map(async (id) => {
-        const res = await fetch(`https://api.spotify.com/v1/artists/${id}`, {
-          headers: { Authorization: `Bearer ${accessToken}` },
-        });
-
-        if (res.status === 429) {
-          const retryAfter = Number(res.headers.get("Retry-After") ?? "1");
-          await new Promise((r) => setTimeout(r, retryAfter * 1000));
-          const retry = await fetch(`https://api.spotify.com/v1/artists/${id}`, {
-            headers: { Authorization: `Bearer ${accessToken}` },
-          });
-          if (!retry.ok) return null;
-          return (await retry.json()) as SpotifyArtist;
-        }
+    return { id: artist.id, genres: artist.genres };
+  }
 
-        if (!res.ok) return null;
-        return (await res.json()) as SpotifyArtist;
-      }),
+  /**
+   * Search for a track by title and artist and return its Spotify ID.
+   * Only an exact (case-insensitive) title and artist match is accepted, so a
+   * near miss never merges plays into the wrong track. Returns null if not
+   * found; throws when rate limited or offline.
+   */
+  async searchTrack(accessToken: string, trackName: string, artistName: string): Promise<string | null> {
+    const q = encodeURIComponent(`track:${trackName} artist:${artistName}`);
+    const res = await this.get(accessToken, `/v1/search?q=${q}&type=track&limit=5`);
+    if (!res.ok) return null;
+
+    const data = (await res.json()) as SpotifyTrackSearchResponse;
+    const title = trackName.toLowerCase();
+    const artist = artistName.toLowerCase();
+    const match = data.tracks.items.find(
+      (t) =>
+        t.name.toLowerCase() === title &&
+        t.artists.some((a) => a.name.toLowerCase() === artist),
     );
 
-    for (const entry of settled) {
-      if (entry.status !== "fulfilled" || !entry.value) continue;
-      result.set(entry.value.id, entry.value.genres);
-    }
+    return match?.id ?? null;
   }
 
-  return result;
-}
+  /**
+   * Fetch the user's recently played tracks (at most 50, newest first), only
+   * those played after `afterMs` (Unix ms) when given. Throws on any error so
+   * the caller can retry the same window later.
+   */
+  async fetchRecentlyPlayed(accessToken: string, afterMs: number | null): Promise<RecentlyPlayedItem[]> {
+    const params = new URLSearchParams({ limit: "50" });
+    if (afterMs !== null) params.set("after", String(afterMs));
 
-// --- Artist search ---
+    const res = await this.get(accessToken, `/v1/me/player/recently-played?${params}`);
+    if (!res.ok) {
+      throw new Error(`Recently played request failed: ${res.status}`);
+    }
 
-interface SpotifySearchResponse {
-  artists: {
-    items: Array<{
-      id: string;
-      name: string;
-      genres: string[];
-    }>;
-  };
-}
+    const data = (await res.json()) as RecentlyPlayedResponse;
+    return data.items;
+  }
 
-/**
- * Search for an artist by name and return their Spotify ID and genres.
- * Returns null if not found.
- */
-export async function searchArtist(
-  accessToken: string,
-  artistName: string,
-): Promise<{ id: string; genres: string[] } | null> {
-  const q = encodeURIComponent(`artist:${artistName}`);
-  const res = await fetch(`https://api.spotify.com/v1/search?q=${q}&type=artist&limit=1`, {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
+  // ---------------------------------------------------------------------------
+  // Transport
+  // ---------------------------------------------------------------------------
 
-  if (res.status === 429) {
-    const retryAfter = Number(res.headers.get("Retry-After") ?? "1");
-    await new Promise((resolve) => setTimeout(resolve, retryAfter * 1000));
-    return searchArtist(accessToken, artistName);
+  private get(accessToken: string, path: string): Promise<Response> {
+    return this.send(`${this.apiBaseUrl}${path}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
   }
 
-  if (!res.ok) return null;
-
-  const data = (await res.json()) as SpotifySearchResponse;
-  const artist = data.artists.items[0];
-  if (!artist) return null;
+  /**
+   * Send a request through the rate limiter with a timeout. A 429 is
+   * retried after its Retry-After; past `maxRetries`, or when Spotify asks
+   * for more than `maxRetryAfterSec`, a SpotifyRateLimitError is thrown.
+   * Other responses are returned as they are.
+   */
+  private async send(url: string, init: RequestInit): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.take();
+      const res = await fetch(url, { ...init, signal: AbortSignal.timeout(this.timeoutMs) });
+      if (res.status !== 429) return res;
+
+      const retryAfter = retryAfterSeconds(res.headers.get("Retry-After"), attempt);
+      if (retryAfter > this.maxRetryAfterSec || attempt >= this.maxRetries) {
+        console.warn(`[spotify] 429 for ${new URL(url).pathname}, Retry-After=${retryAfter}s — giving up`);
+        throw new SpotifyRateLimitError(retryAfter);
+      }
+      console.warn(
+        `[spotify] 429 for ${new URL(url).pathname}, Retry-After=${retryAfter}s — waiting (attempt ${attempt + 1}/${this.maxRetries})`,
+      );
+      await sleep(retryAfter * 1000);
+    }
+  }
+}
 
-  return { id: artist.id, genres: artist.genres };
+/** A client configured by the environment bindings, persisting tokens to `db`. */
+export function createSpotifyClient(env: Env, db?: Database): SpotifyClient {
+  return new SpotifyClient({
+    clientId: env.SPOTIFY_CLIENT_ID,
+    clientSecret: env.SPOTIFY_CLIENT_SECRET,
+    apiBaseUrl: env.SPOTIFY_API_BASE_URL,
+    accountsBaseUrl: env.SPOTIFY_ACCOUNTS_BASE_URL,
+    db,
+  });
 }
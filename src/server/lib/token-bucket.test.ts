@@ -0,0 +1,45 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { TokenBucket } from "./token-bucket";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("TokenBucket", () => {
+  it("allows a burst up to its capacity", async () => {
+    const bucket = new TokenBucket(3, 1, () => 0);
+    await bucket.take();
+    await bucket.take();
+    await bucket.take();
+    expect(bucket.available()).toBe(0);
+  });
+
+  it("refills at its rate without exceeding capacity", () => {
+    let now = 0;
+    const bucket = new TokenBucket(5, 2, () => now);
+    void bucket.take();
+    void bucket.take();
+    expect(bucket.available()).toBe(3);
+
+    now = 500;
+    expect(bucket.available()).toBe(4);
+    now = 60_000;
+    expect(bucket.available()).toBe(5);
+  });
+
+  it("waits for the next token when empty", async () => {
+    vi.useFakeTimers();
+    const bucket = new TokenBucket(1, 4);
+    await bucket.take();
+
+    let taken = false;
+    const pending = bucket.take().then(() => {
+      taken = true;
+    });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(taken).toBe(false);
+    await vi.advanceTimersByTimeAsync(200);
+    await pending;
+    expect(taken).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Token-bucket rate limiter.
+ *
+ * The bucket holds up to `capacity` tokens and gains `refillPerSecond` of
+ * them continuously. Each request takes one, waiting for the next token
+ * when the bucket is empty, so bursts up to `capacity` go out at once and
+ * sustained traffic is held to the refill rate.
+ */
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private refilledAt: number;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerSecond: number,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.tokens = capacity;
+    this.refilledAt = now();
+  }
+
+  /** Take a token, waiting until one is available. */
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(((1 - this.tokens) / this.refillPerSecond) * 1000);
+    }
+  }
+
+  /** Tokens available right now. */
+  available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const elapsed = (now - this.refilledAt) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerSecond);
+    this.refilledAt = now;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Token authentication for the ListenBrainz-compatible ingest API.
+ *
+ * Players cannot hold a session cookie, so they authenticate the way
+ * ListenBrainz clients do: `Authorization: Token <token>`. Each user has at
+ * most one token; only its SHA-256 hash is stored (users.listenbrainzTokenHash),
+ * so a leaked database does not leak working tokens.
+ */
+
+import { createMiddleware } from "hono/factory";
+import { eq } from "drizzle-orm";
+import type { Env } from "../types";
+import { createDb, type Database } from "../db";
+import { users } from "../db/schema";
+
+// Extend Hono's context so the token's owner is typed in ingest routes
+declare module "hono" {
+  interface ContextVariableMap {
+    listenbrainzUserId: string;
+  }
+}
+
+/** Generate a new submission token (ListenBrainz tokens are UUIDs too). */
+export function generateListenbrainzToken(): string {
+  return crypto.randomUUID();
+}
+
+/** Hex SHA-256 of a token, as stored in users.listenbrainzTokenHash. */
+export async function hashListenbrainzToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Read the token from `Authorization: Token <token>` (case-insensitive scheme). */
+export function tokenFromHeader(header: string | undefined): string | null {
+  const match = header?.match(/^Token\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/** The user owning a token, or undefined when the token is unknown. */
+export async function findTokenUser(
+  db: Database,
+  token: string,
+): Promise<{ id: string; displayName: string | null; spotifyId: string } | undefined> {
+  const [user] = await db
+    .select({ id: users.id, displayName: users.displayName, spotifyId: users.spotifyId })
+    .from(users)
+    .where(eq(users.listenbrainzTokenHash, await hashListenbrainzToken(token)))
+    .limit(1);
+  return user;
+}
+
+/**
+ * Route-level guard for ingest endpoints. Rejects requests without a valid
+ * token using ListenBrainz's error shape, so clients surface the message.
+ */
+export function listenbrainzTokenGuard() {
+  return createMiddleware<{ Bindings: Env }>(async (c, next) => {
+    const token = tokenFromHeader(c.req.header("Authorization"));
+    if (!token) {
+      return c.json({ code: 401, error: "You need to provide an Authorization header." }, 401);
+    }
+
+    const user = await findTokenUser(createDb(c.env.DATABASE_URL), token);
+    if (!user) {
+      return c.json({ code: 401, error: "Invalid authorization token." }, 401);
+    }
+
+    c.set("listenbrainzUserId", user.id);
+    await next();
+  });
+}
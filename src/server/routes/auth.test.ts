@@ -43,9 +43,23 @@ vi.mock("../middleware/session", () => ({
 }));
 
 // ---------------------------------------------------------------------------
-// Mock Arctic Spotify to avoid real OAuth calls
+// Mock Arctic Spotify (and the generic client used for SPOTIFY_ACCOUNTS_BASE_URL)
+// to avoid real OAuth calls
 // ---------------------------------------------------------------------------
 vi.mock("arctic", () => ({
+  OAuth2Client: vi.fn().mockImplementation(() => ({
+    createAuthorizationURL: vi.fn((endpoint: string, state: string) => {
+      const url = new URL(endpoint);
+      url.searchParams.set("state", state);
+      return url;
+    }),
+    validateAuthorizationCode: vi.fn().mockResolvedValue({
+      accessToken: () => "mock_access_token",
+      accessTokenExpiresAt: () => new Date(Date.now() + 3600000),
+      hasRefreshToken: () => true,
+      refreshToken: () => "mock_refresh_token",
+    }),
+  })),
   Spotify: vi.fn().mockImplementation(() => ({
     createAuthorizationURL: vi.fn(
       () => new URL("https://accounts.spotify.com/authorize?mock=true"),
@@ -173,6 +187,18 @@ describe("Auth routes — GET /api/auth/login", () => {
     expect(location).toContain("accounts.spotify.com");
   });
 
+  it("redirects to SPOTIFY_ACCOUNTS_BASE_URL when set", async () => {
+    const app = createApp();
+    const res = await app.request("/api/auth/login", undefined, {
+      ...mockEnv,
+      SPOTIFY_ACCOUNTS_BASE_URL: "http://127.0.0.1:5173/__spotify",
+    });
+    expect(res.status).toBe(302);
+    expect(res.headers.get("Location")).toMatch(
+      /^http:\/\/127\.0\.0\.1:5173\/__spotify\/authorize\?state=/,
+    );
+  });
+
   it("sets oauth_state cookie", async () => {
     const app = createApp();
     await req(app, "/api/auth/login");
@@ -12,7 +12,7 @@
  * Session tokens are stored in encrypted cookies via hono-sessions (CookieStore).
  */
 import { Hono } from "hono";
-import { Spotify } from "arctic";
+import { OAuth2Client, Spotify } from "arctic";
 import { getCookie, setCookie, deleteCookie } from "hono/cookie";
 import { eq } from "drizzle-orm";
 import type { Session } from "hono-sessions";
@@ -20,6 +20,7 @@ import type { Env } from "../types";
 import { createDb } from "../db";
 import { users } from "../db/schema";
 import { authGuard, type SessionData } from "../middleware/session";
+import { createSpotifyClient } from "../lib/spotify";
 import type { User, ApiResponse } from "../../shared/types";
 
 const auth = new Hono<{ Bindings: Env }>();
@@ -27,13 +28,27 @@ const auth = new Hono<{ Bindings: Env }>();
 /**
  * Build a Spotify OAuth client per-request so the redirect URI
  * dynamically matches the request origin (works across localhost / production).
+ *
+ * Arctic's Spotify provider has Spotify's endpoints built in, so with
+ * SPOTIFY_ACCOUNTS_BASE_URL set (e.g. the Spotify emulator) a generic
+ * OAuth2Client talks to that host's /authorize and /api/token instead.
  */
-function createSpotify(c: { env: Env; req: { url: string } }) {
-  return new Spotify(
-    c.env.SPOTIFY_CLIENT_ID,
-    c.env.SPOTIFY_CLIENT_SECRET,
-    `${new URL(c.req.url).origin}/api/auth/callback`,
-  );
+function createSpotify(
+  c: { env: Env; req: { url: string } },
+): Pick<Spotify, "createAuthorizationURL" | "validateAuthorizationCode"> {
+  const redirectUri = `${new URL(c.req.url).origin}/api/auth/callback`;
+  const accountsBaseUrl = c.env.SPOTIFY_ACCOUNTS_BASE_URL;
+  if (!accountsBaseUrl) {
+    return new Spotify(c.env.SPOTIFY_CLIENT_ID, c.env.SPOTIFY_CLIENT_SECRET, redirectUri);
+  }
+
+  const client = new OAuth2Client(c.env.SPOTIFY_CLIENT_ID, c.env.SPOTIFY_CLIENT_SECRET, redirectUri);
+  return {
+    createAuthorizationURL: (state, _codeVerifier, scopes) =>
+      client.createAuthorizationURL(`${accountsBaseUrl}/authorize`, state, scopes),
+    validateAuthorizationCode: (code, codeVerifier) =>
+      client.validateAuthorizationCode(`${accountsBaseUrl}/api/token`, code, codeVerifier),
+  };
 }
 
 auth.get("/login", async (c) => {
@@ -89,21 +104,11 @@ auth.get("/callback", async (c) => {
       : null;
 
     // Fetch Spotify user profile
-    const profileRes = await fetch("https://api.spotify.com/v1/me", {
-      headers: { Authorization: `Bearer ${accessToken}` },
-    });
-
-    if (!profileRes.ok) {
+    const profile = await createSpotifyClient(c.env).getCurrentUser(accessToken);
+    if (!profile) {
       return c.json({ error: "Failed to fetch Spotify profile" }, 500);
     }
 
-    const profile = (await profileRes.json()) as {
-      id: string;
-      display_name: string | null;
-      email: string | null;
-      images: Array<{ url: string }>;
-    };
-
     // Upsert: insert a new user or update an existing one keyed by spotifyId.
     // On conflict we refresh profile fields but preserve the refresh token
     // if Spotify didn't issue a new one (happens on re-auth within the same session).
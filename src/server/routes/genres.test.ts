@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { createMockDb, type MockDb } from "../../test/mocks/db";
+import { createAuthenticatedSession, type MockSession } from "../../test/mocks/session";
+import { mockEnv } from "../../test/mocks/hono-context";
+
+// ---------------------------------------------------------------------------
+// Mock createDb so the route uses our mock DB
+// ---------------------------------------------------------------------------
+let mockDb: MockDb;
+
+vi.mock("../db", () => ({
+  createDb: vi.fn(() => mockDb),
+}));
+
+// ---------------------------------------------------------------------------
+// Mock authGuard to inject session without real cookie encryption
+// ---------------------------------------------------------------------------
+let mockSession: MockSession;
+
+vi.mock("../middleware/session", () => ({
+  authGuard: () => {
+    return async (c: { get: (k: string) => unknown; set: (k: string, v: unknown) => void; json: (d: unknown, s: number) => Response }, next: () => Promise<void>) => {
+      c.set("session", mockSession);
+      const userId = mockSession.get("userId");
+      if (!userId) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+      await next();
+    };
+  },
+}));
+
+// ---------------------------------------------------------------------------
+// Import route after mocks are set up
+// ---------------------------------------------------------------------------
+import genresRoutes from "./genres";
+
+function createApp() {
+  const app = new Hono();
+  app.route("/api/genres", genresRoutes);
+  return app;
+}
+
+/** Helper to make requests with env bindings */
+function request(app: Hono, path: string, init?: RequestInit) {
+  return app.request(path, init, mockEnv);
+}
+
+describe("Genre routes — GET /api/genres", () => {
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+    mockDb = createMockDb();
+  });
+
+  it("returns 401 when not authenticated", async () => {
+    mockSession = { get: vi.fn(() => undefined), set: vi.fn(), deleteSession: vi.fn() };
+    const app = createApp();
+    const res = await request(app, "/api/genres");
+    expect(res.status).toBe(401);
+  });
+
+  it("returns per-genre totals", async () => {
+    const genres = [
+      { genre: "j-pop", playCount: 120, totalMsPlayed: 25_000_000, artistCount: 8 },
+      { genre: "city pop", playCount: 40, totalMsPlayed: 9_000_000, artistCount: 3 },
+    ];
+    mockDb = createMockDb({ selectData: genres });
+    const app = createApp();
+    const res = await request(app, "/api/genres?year=2024");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toEqual({ data: genres });
+  });
+});
+
+describe("Genre routes — GET /api/genres/trends", () => {
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+    mockDb = createMockDb();
+  });
+
+  it("returns monthly plays of the top genres", async () => {
+    const months = [{ month: "2024-01", genre: "j-pop", playCount: 30 }];
+    mockDb = createMockDb({ selectData: months });
+    const app = createApp();
+    const res = await request(app, "/api/genres/trends");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data).toEqual({ genres: ["j-pop"], months });
+    expect(mockDb.select).toHaveBeenCalledTimes(2);
+  });
+
+  it("skips the monthly query when no genres are stored", async () => {
+    const app = createApp();
+    const res = await request(app, "/api/genres/trends");
+    const body = await res.json();
+    expect(body.data).toEqual({ genres: [], months: [] });
+    expect(mockDb.select).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Genre routes — GET /api/genres/:genre/artists", () => {
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+  });
+
+  it("returns the top artists of a genre", async () => {
+    const artists = [{ artistName: "宇多田ヒカル", playCount: 80, totalMsPlayed: 16_000_000 }];
+    mockDb = createMockDb({ selectData: artists });
+    const app = createApp();
+    const res = await request(app, `/api/genres/${encodeURIComponent("j-pop")}/artists`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data).toEqual(artists);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Genre Routes — listening aggregated by the genres of the user's artists.
+ *
+ * Genres come from stored artist genres (see lib/genres.ts; GET
+ * /api/vault/genres fills them in). A play counts once toward each genre
+ * of its artist, so per-genre totals add up to more than the user's plays.
+ * Artists without stored genres are left out until they are fetched.
+ *
+ * Endpoints:
+ *   GET /api/genres                 - Plays, time and artists per genre
+ *   GET /api/genres/trends          - Monthly plays of the top genres
+ *   GET /api/genres/:genre/artists  - Top artists within one genre
+ *
+ * All endpoints support an optional ?year= filter (local calendar year).
+ * All routes require authentication.
+ */
+import { Hono } from "hono";
+import { and, countDistinct, desc, inArray, sql, type SQL } from "drizzle-orm";
+import type { Session } from "hono-sessions";
+import type { Env } from "../types";
+import { authGuard, type SessionData } from "../middleware/session";
+import { createDb } from "../db";
+import { artistAliases, artistGenres, listeningHistory } from "../db/schema";
+import { musicPlays } from "../lib/plays";
+import { localPlayedAt } from "../lib/local-time";
+import { aliasJoin, artistIdentity } from "../lib/artist-aliases";
+import { byGenre, genreJoin, genreName, unnestGenres } from "../lib/genres";
+import type { GenreArtist, GenreMonth, GenreStat } from "../../shared/validators/genres";
+
+const genresRoutes = new Hono<{ Bindings: Env }>();
+
+genresRoutes.use("*", authGuard());
+
+// Genres charted by /trends unless ?limit= asks for another count
+const DEFAULT_TREND_GENRES = 8;
+
+/** The user's music plays, narrowed to a local year when one is given. */
+function playsWhere(userId: string, year?: string): SQL {
+  const conditions = [musicPlays(userId)];
+  if (year) {
+    conditions.push(sql`EXTRACT(YEAR FROM ${localPlayedAt()}) = ${Number(year)}`);
+  }
+  return and(...conditions)!;
+}
+
+/**
+ * GET / — One row per genre, most played first.
+ *
+ * Response shape:
+ *   { data: Array<{ genre, playCount, totalMsPlayed, artistCount }> }
+ */
+genresRoutes.get("/", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const year = c.req.query("year");
+  const limit = Math.min(Number(c.req.query("limit") ?? "50"), 200);
+
+  const db = createDb(c.env.DATABASE_URL);
+  const lh = listeningHistory;
+
+  const genres: GenreStat[] = await db
+    .select({
+      genre: genreName(),
+      playCount: sql<number>`count(*)`.mapWith(Number),
+      totalMsPlayed: sql<number>`coalesce(sum(${lh.msPlayed}), 0)`.mapWith(Number),
+      artistCount: countDistinct(artistIdentity()).mapWith(Number),
+    })
+    .from(lh)
+    .leftJoin(artistAliases, aliasJoin())
+    .innerJoin(artistGenres, genreJoin())
+    .innerJoin(unnestGenres(), sql`true`)
+    .where(playsWhere(userId, year))
+    .groupBy(genreName())
+    .orderBy(desc(sql`count(*)`))
+    .limit(limit);
+
+  return c.json({ data: genres });
+});
+
+/**
+ * GET /trends — Monthly plays of the user's most played genres.
+ *
+ * Picks the top ?limit= genres (8 by default) over the period, then counts
+ * their plays per local month. Months without plays of a genre are left
+ * out; the chart fills them in as zero.
+ *
+ * Response shape:
+ *   { data: { genres: string[], months: Array<{ month, genre, playCount }> } }
+ */
+genresRoutes.get("/trends", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const year = c.req.query("year");
+  const limit = Math.min(Number(c.req.query("limit") ?? String(DEFAULT_TREND_GENRES)), 20);
+
+  const db = createDb(c.env.DATABASE_URL);
+  const lh = listeningHistory;
+  const where = playsWhere(userId, year);
+
+  const top = await db
+    .select({ genre: genreName() })
+    .from(lh)
+    .leftJoin(artistAliases, aliasJoin())
+    .innerJoin(artistGenres, genreJoin())
+    .innerJoin(unnestGenres(), sql`true`)
+    .where(where)
+    .groupBy(genreName())
+    .orderBy(desc(sql`count(*)`))
+    .limit(limit);
+
+  const genres = top.map((g) => g.genre);
+  if (genres.length === 0) {
+    return c.json({ data: { genres, months: [] } });
+  }
+
+  const localMonth = sql<string>`to_char(${localPlayedAt()}, 'YYYY-MM')`;
+  const months: GenreMonth[] = await db
+    .select({
+      month: localMonth,
+      genre: genreName(),
+      playCount: sql<number>`count(*)`.mapWith(Number),
+    })
+    .from(lh)
+    .leftJoin(artistAliases, aliasJoin())
+    .innerJoin(artistGenres, genreJoin())
+    .innerJoin(unnestGenres(), sql`true`)
+    .where(and(where, inArray(genreName(), genres)))
+    .groupBy(localMonth, genreName())
+    .orderBy(localMonth);
+
+  return c.json({ data: { genres, months } });
+});
+
+/**
+ * GET /:genre/artists — The user's most played artists tagged with a genre.
+ *
+ * Response shape:
+ *   { data: Array<{ artistName, playCount, totalMsPlayed }> }
+ */
+genresRoutes.get("/:genre/artists", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const genre = c.req.param("genre");
+  const year = c.req.query("year");
+  const limit = Math.min(Number(c.req.query("limit") ?? "20"), 100);
+
+  const db = createDb(c.env.DATABASE_URL);
+  const lh = listeningHistory;
+
+  const artists: GenreArtist[] = await db
+    .select({
+      artistName: artistIdentity(),
+      playCount: sql<number>`count(*)`.mapWith(Number),
+      totalMsPlayed: sql<number>`coalesce(sum(${lh.msPlayed}), 0)`.mapWith(Number),
+    })
+    .from(lh)
+    .leftJoin(artistAliases, aliasJoin())
+    .where(and(playsWhere(userId, year), byGenre(genre)))
+    .groupBy(artistIdentity())
+    .orderBy(desc(sql`count(*)`))
+    .limit(limit);
+
+  return c.json({ data: artists });
+});
+
+export default genresRoutes;
@@ -487,6 +487,7 @@ describe("Heatmap Routes", () => {
           trackSpotifyId: "sp1",
           msPlayed: 180000,
           playedAt: new Date("2024-06-15T10:00:00Z"),
+          localTime: "19:00",
         },
         {
           trackName: "Track B",
@@ -495,6 +496,7 @@ describe("Heatmap Routes", () => {
           trackSpotifyId: "sp2",
           msPlayed: 240000,
           playedAt: new Date("2024-06-15T14:30:00Z"),
+          localTime: "23:30",
         },
       ];
       mockDb = createMockDb({ selectData: tracks });
@@ -506,6 +508,7 @@ describe("Heatmap Routes", () => {
       const json = await res.json();
       expect(json.data).toHaveLength(2);
       expect(json.data[0].trackName).toBe("Track A");
+      expect(json.data[0].localTime).toBe("19:00");
     });
 
     it("returns empty array when no date param", async () => {
@@ -517,6 +520,12 @@ describe("Heatmap Routes", () => {
       expect(json.data).toEqual([]);
     });
 
+    it("returns 400 for a malformed date", async () => {
+      const app = createApp();
+      const res = await req(app, "/heatmap/day?date=June-15");
+      expect(res.status).toBe(400);
+    });
+
     it("returns empty array when no tracks on date", async () => {
       mockDb = createMockDb({ selectData: [] });
       const app = createApp();
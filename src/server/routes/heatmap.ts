@@ -3,7 +3,10 @@
  *
  * Powers the GitHub-contribution-graph-style heatmap that visualizes
  * a user's listening "intensity" across every day of a given year.
- * Optionally filterable by artist to show per-artist fandom depth.
+ * Optionally filterable by artist (under any of its aliases, see
+ * lib/artist-aliases.ts) to show per-artist fandom depth, by genre (see
+ * lib/genres.ts), and by content (`content=music|spoken|all`, music by default) so podcast and
+ * audiobook listening can be viewed on its own or alongside music.
  *
  * Endpoints:
  *   GET /api/heatmap/data     - Daily play counts & ms_played for a year
@@ -11,14 +14,26 @@
  *   GET /api/heatmap/summary  - Year summary: streaks, most active day, avg daily plays
  *   GET /api/heatmap/silences - Silence periods (3+ consecutive days with no plays)
  *
+ * Days and months are the user's local calendar (see lib/local-time.ts).
+ *
  * All routes require authentication.
  */
 import { Hono } from "hono";
-import { and, asc, count, desc, eq, gte, lte, lt, sql, sum } from "drizzle-orm";
+import { and, asc, count, desc, sql, sum } from "drizzle-orm";
 import type { Session } from "hono-sessions";
 import type { Env } from "../types";
 import { createDb } from "../db";
-import { listeningHistory } from "../db/schema";
+import { artistAliases, listeningHistory, trackMerges } from "../db/schema";
+import { aliasJoin, artistIdentity, byArtist } from "../lib/artist-aliases";
+import { byGenre } from "../lib/genres";
+import { canonicalTrackId, mergeJoin } from "../lib/canonical-tracks";
+import { musicPlays, parseContentFilter, userPlays } from "../lib/plays";
+import {
+  localPlayedAt,
+  localTimestamp,
+  playedBetweenLocal,
+  playedOnLocalDate,
+} from "../lib/local-time";
 import { authGuard, type SessionData } from "../middleware/session";
 
 const heatmapRoutes = new Hono<{ Bindings: Env }>();
@@ -28,15 +43,18 @@ heatmapRoutes.use("*", authGuard());
 /**
  * GET /data — Daily aggregated listening data for a calendar year.
  *
- * Groups play events by UTC date, returning one row per day that has
+ * Groups play events by the local date they started on, returning one row per day that has
  * at least one play. The frontend fills in empty days as zero-intensity cells.
- * Supports optional artist filter to drill into a single artist's heatmap.
+ * Supports optional artist and genre filters to drill into one artist's or
+ * genre's heatmap, and a content filter (music by default) for podcasts and audiobooks.
  */
 heatmapRoutes.get("/data", async (c) => {
   const session = c.get("session") as Session<SessionData>;
   const userId = session.get("userId")!;
 
   const artist = c.req.query("artist");
+  const genre = c.req.query("genre");
+  const content = parseContentFilter(c.req.query("content"));
   const yearParam = c.req.query("year");
   // Default to the current year if none specified
   const year = yearParam ? parseInt(yearParam, 10) : new Date().getUTCFullYear();
@@ -50,29 +68,32 @@ heatmapRoutes.get("/data", async (c) => {
   const endDate = new Date(Date.UTC(year + 1, 0, 1));
 
   const db = createDb(c.env.DATABASE_URL);
+  const localDate = sql`DATE(${localPlayedAt()})`;
 
   const conditions = [
-    eq(listeningHistory.userId, userId),
-    gte(listeningHistory.playedAt, startDate),
-    lt(listeningHistory.playedAt, endDate),
+    userPlays(userId, content),
+    playedBetweenLocal(startDate, endDate),
   ];
 
   if (artist) {
-    conditions.push(eq(listeningHistory.artistName, artist));
+    conditions.push(byArtist(artist));
+  }
+  if (genre) {
+    conditions.push(byGenre(genre));
   }
 
-  // Aggregate by calendar date (UTC). Each row = one day with at least one play.
+  // Aggregate by local calendar date. Each row = one day with at least one play.
   // The frontend renders these as heatmap cells with intensity based on count/msPlayed.
   const rows = await db
     .select({
-      date: sql<string>`DATE(${listeningHistory.playedAt} AT TIME ZONE 'UTC')`.as("date"),
+      date: sql<string>`${localDate}`.as("date"),
       count: count().as("count"),
       msPlayed: sum(listeningHistory.msPlayed).mapWith(Number).as("ms_played"),
     })
     .from(listeningHistory)
     .where(and(...conditions))
-    .groupBy(sql`DATE(${listeningHistory.playedAt} AT TIME ZONE 'UTC')`)
-    .orderBy(sql`DATE(${listeningHistory.playedAt} AT TIME ZONE 'UTC')`);
+    .groupBy(localDate)
+    .orderBy(localDate);
 
   const data = rows.map((r) => ({
     date: String(r.date),
@@ -97,12 +118,13 @@ heatmapRoutes.get("/artists", async (c) => {
 
   const rows = await db
     .select({
-      artistName: listeningHistory.artistName,
+      artistName: artistIdentity(),
       totalPlays: count().as("total_plays"),
     })
     .from(listeningHistory)
-    .where(eq(listeningHistory.userId, userId))
-    .groupBy(listeningHistory.artistName)
+    .leftJoin(artistAliases, aliasJoin())
+    .where(musicPlays(userId))
+    .groupBy(artistIdentity())
     .orderBy(desc(count()))
     .limit(50);
 
@@ -110,7 +132,8 @@ heatmapRoutes.get("/artists", async (c) => {
 });
 
 /**
- * GET /summary — Engagement summary for a given year (optionally per-artist).
+ * GET /summary — Engagement summary for a given year (optionally per-artist
+ * or per-genre).
  *
  * Computes:
  *   - totalPlays / activeDays — basic volume metrics
@@ -123,6 +146,8 @@ heatmapRoutes.get("/summary", async (c) => {
   const userId = session.get("userId")!;
 
   const artist = c.req.query("artist");
+  const genre = c.req.query("genre");
+  const content = parseContentFilter(c.req.query("content"));
   const yearParam = c.req.query("year");
   const year = yearParam ? parseInt(yearParam, 10) : new Date().getUTCFullYear();
 
@@ -134,15 +159,18 @@ heatmapRoutes.get("/summary", async (c) => {
   const endDate = new Date(Date.UTC(year + 1, 0, 1));
 
   const db = createDb(c.env.DATABASE_URL);
+  const localDate = sql`DATE(${localPlayedAt()})`;
 
   const conditions = [
-    eq(listeningHistory.userId, userId),
-    gte(listeningHistory.playedAt, startDate),
-    lt(listeningHistory.playedAt, endDate),
+    userPlays(userId, content),
+    playedBetweenLocal(startDate, endDate),
   ];
 
   if (artist) {
-    conditions.push(eq(listeningHistory.artistName, artist));
+    conditions.push(byArtist(artist));
+  }
+  if (genre) {
+    conditions.push(byGenre(genre));
   }
 
   // Fetch per-day counts sorted chronologically — needed for both
@@ -150,13 +178,13 @@ heatmapRoutes.get("/summary", async (c) => {
   // finding the single most active day.
   const dailyCounts = await db
     .select({
-      date: sql<string>`DATE(${listeningHistory.playedAt} AT TIME ZONE 'UTC')`.as("date"),
+      date: sql<string>`${localDate}`.as("date"),
       count: count().as("count"),
     })
     .from(listeningHistory)
     .where(and(...conditions))
-    .groupBy(sql`DATE(${listeningHistory.playedAt} AT TIME ZONE 'UTC')`)
-    .orderBy(sql`DATE(${listeningHistory.playedAt} AT TIME ZONE 'UTC')`);
+    .groupBy(localDate)
+    .orderBy(localDate);
 
   if (dailyCounts.length === 0) {
     return c.json({
@@ -267,22 +295,22 @@ heatmapRoutes.get("/silences", async (c) => {
   const yearEnd = new Date(Date.UTC(year + 1, 0, 1));
 
   const db = createDb(c.env.DATABASE_URL);
+  const localDate = sql`DATE(${localPlayedAt()})`;
 
   // Fetch per-day counts for the year (same query pattern as /data and /summary)
   const dailyCounts = await db
     .select({
-      date: sql<string>`DATE(${listeningHistory.playedAt} AT TIME ZONE 'UTC')`.as("date"),
+      date: sql<string>`${localDate}`.as("date"),
       count: count().as("count"),
     })
     .from(listeningHistory)
     .where(
       and(
-        eq(listeningHistory.userId, userId),
-        gte(listeningHistory.playedAt, yearStart),
-        lt(listeningHistory.playedAt, yearEnd)
+        musicPlays(userId),
+        playedBetweenLocal(yearStart, yearEnd)
       )
     )
-    .groupBy(sql`DATE(${listeningHistory.playedAt} AT TIME ZONE 'UTC')`);
+    .groupBy(localDate);
 
   const playDates = new Set(dailyCounts.map((d) => String(d.date)));
 
@@ -357,8 +385,8 @@ heatmapRoutes.get("/silences", async (c) => {
         .from(listeningHistory)
         .where(
           and(
-            eq(listeningHistory.userId, userId),
-            lt(listeningHistory.playedAt, silenceStart)
+            musicPlays(userId),
+            sql`${localPlayedAt()} < ${localTimestamp(silenceStart)}`
           )
         )
         .orderBy(desc(listeningHistory.playedAt))
@@ -371,8 +399,8 @@ heatmapRoutes.get("/silences", async (c) => {
         .from(listeningHistory)
         .where(
           and(
-            eq(listeningHistory.userId, userId),
-            gte(listeningHistory.playedAt, silenceEndNext)
+            musicPlays(userId),
+            sql`${localPlayedAt()} >= ${localTimestamp(silenceEndNext)}`
           )
         )
         .orderBy(asc(listeningHistory.playedAt))
@@ -404,7 +432,7 @@ heatmapRoutes.get("/silences", async (c) => {
  * Powers the "Obsession Curve" line chart that reveals peaks of obsession,
  * abandonment, and rediscovery for a single artist across time. Each row
  * is one calendar month (YYYY-MM) with aggregate play count, total listening
- * time, and unique track count.
+ * time, and unique track count (merged variants count once).
  *
  * Requires the `artist` query parameter. Returns empty months array if omitted.
  */
@@ -418,22 +446,25 @@ heatmapRoutes.get("/obsession", async (c) => {
     return c.json({ data: { months: [] } });
   }
 
+  const localMonth = sql`to_char(${localPlayedAt()}, 'YYYY-MM')`;
+
   const monthlyData = await db
     .select({
-      month: sql<string>`to_char(${listeningHistory.playedAt}, 'YYYY-MM')`.as("month"),
+      month: sql<string>`${localMonth}`.as("month"),
       playCount: sql<number>`count(*)`.as("playCount"),
       msPlayed: sql<number>`sum(${listeningHistory.msPlayed})`.as("msPlayed"),
-      trackCount: sql<number>`count(distinct ${listeningHistory.trackSpotifyId})`.as("trackCount"),
+      trackCount: sql<number>`count(distinct ${canonicalTrackId()})`.as("trackCount"),
     })
     .from(listeningHistory)
+    .leftJoin(trackMerges, mergeJoin())
     .where(
       and(
-        eq(listeningHistory.userId, userId),
-        eq(listeningHistory.artistName, artist)
+        musicPlays(userId),
+        byArtist(artist)
       )
     )
-    .groupBy(sql`to_char(${listeningHistory.playedAt}, 'YYYY-MM')`)
-    .orderBy(sql`to_char(${listeningHistory.playedAt}, 'YYYY-MM')`);
+    .groupBy(localMonth)
+    .orderBy(localMonth);
 
   return c.json({ data: { artist, months: monthlyData } });
 });
@@ -443,7 +474,8 @@ heatmapRoutes.get("/obsession", async (c) => {
  *
  * Powers the heatmap drill-down panel: clicking a day cell fetches the
  * full track list for that day, ordered chronologically. Returns each
- * track's name, artist, album, Spotify ID, duration, and timestamp.
+ * track's name, artist, album, Spotify ID, duration, and timestamp, plus
+ * the local start time ("HH:mm") it was bucketed by.
  *
  * Requires `date` query parameter in YYYY-MM-DD format.
  */
@@ -452,11 +484,12 @@ heatmapRoutes.get("/day", async (c) => {
   const userId = session.get("userId")!;
   const db = createDb(c.env.DATABASE_URL);
   const date = c.req.query("date"); // YYYY-MM-DD
+  const content = parseContentFilter(c.req.query("content"));
 
   if (!date) return c.json({ data: [] });
-
-  const dayStart = new Date(`${date}T00:00:00Z`);
-  const dayEnd = new Date(`${date}T23:59:59Z`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return c.json({ error: "Invalid date" }, 400);
+  }
 
   const tracks = await db
     .select({
@@ -466,13 +499,13 @@ heatmapRoutes.get("/day", async (c) => {
       trackSpotifyId: listeningHistory.trackSpotifyId,
       msPlayed: listeningHistory.msPlayed,
       playedAt: listeningHistory.playedAt,
+      localTime: sql<string>`to_char(${localPlayedAt()}, 'HH24:MI')`,
     })
     .from(listeningHistory)
     .where(
       and(
-        eq(listeningHistory.userId, userId),
-        gte(listeningHistory.playedAt, dayStart),
-        lte(listeningHistory.playedAt, dayEnd)
+        userPlays(userId, content),
+        playedOnLocalDate(date)
       )
     )
     .orderBy(listeningHistory.playedAt);
@@ -1,6 +1,9 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, beforeAll } from "vitest";
 import { Hono } from "hono";
 import { createMockDb, type MockDb } from "../../test/mocks/db";
+import { createTestDb, TEST_DB_TIMEOUT_MS } from "../../test/pglite";
+import type { Database } from "../db";
+import { importBatches, importJobs, listeningHistory, users } from "../db/schema";
 import {
   createAuthenticatedSession,
   type MockSession,
@@ -13,6 +16,8 @@ import {
   noUriEntry,
   noArtistEntry,
   podcastEntry,
+  episodeEntry,
+  audiobookEntry,
 } from "../../test/fixtures/streaming-history";
 
 // ---------------------------------------------------------------------------
@@ -108,6 +113,54 @@ function createInsertChain<T>(data: T[] = []) {
   return chain;
 }
 
+/**
+ * Insert chain for listening_history batches: `returning()` echoes one id per
+ * inserted value, as Postgres does when no row hits the unique index.
+ * Pass `conflicting` to simulate rows dropped by ON CONFLICT DO NOTHING.
+ * A single-row insert (the import batch) echoes the row with an id.
+ */
+function createPlayInsertChain(conflicting = 0) {
+  let rows: unknown[] | Record<string, unknown> = [];
+  const chain = createInsertChain();
+  (chain.values as ReturnType<typeof vi.fn>).mockImplementation(
+    (values: unknown[] | Record<string, unknown>) => {
+      rows = values;
+      return chain;
+    },
+  );
+  chain.then = vi.fn((resolve?: (v: unknown[]) => unknown) =>
+    Promise.resolve(
+      Array.isArray(rows)
+        ? rows.slice(conflicting).map((_, i) => ({ id: i + 1 }))
+        : [{ id: "batch-uuid-1", ...rows }],
+    ).then(resolve),
+  );
+  return chain;
+}
+
+/** The listening_history rows passed to the first multi-row insert. */
+function insertedPlays(chain: Record<string, unknown>) {
+  const calls = (chain.values as ReturnType<typeof vi.fn>).mock.calls;
+  return calls.find(([values]) => Array.isArray(values))![0];
+}
+
+function createUpdateChain<T>(data: T[] = []) {
+  const chain: Record<string, unknown> = {
+    set: vi.fn(),
+    where: vi.fn(),
+    returning: vi.fn(),
+    then: vi.fn((resolve?: (v: T[]) => unknown) =>
+      Promise.resolve(data).then(resolve),
+    ),
+  };
+  for (const key of Object.keys(chain)) {
+    if (key !== "then") {
+      (chain[key] as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+    }
+  }
+  return chain;
+}
+
 function createDeleteChain(rowCount = 0) {
   const result = { rowCount };
   const chain: Record<string, unknown> = {
@@ -124,6 +177,21 @@ function createDeleteChain(rowCount = 0) {
   return chain;
 }
 
+const batchRow = {
+  id: "batch-uuid-1",
+  userId: "test-user-uuid-123",
+  fileName: "Streaming_History_Audio_2020.json",
+  fileHash: "a".repeat(64),
+  fileSize: 1024,
+  total: 10,
+  imported: 8,
+  skipped: 2,
+  duplicates: 0,
+  skipReasons: { noTrackName: 2, noSpotifyUri: 0, noArtistName: 0 },
+  createdAt: new Date("2024-06-15T10:00:00Z"),
+  completedAt: new Date("2024-06-15T10:05:00Z"),
+};
+
 // ---------------------------------------------------------------------------
 // Tests
 // ---------------------------------------------------------------------------
@@ -132,9 +200,9 @@ describe("Import routes — POST /api/import/history", () => {
   beforeEach(() => {
     mockSession = createAuthenticatedSession();
     mockDb = createMockDb();
-    // Default: no existing records (empty dedup set), insert succeeds
+    // Default: no conflicting plays, every row is inserted
     mockDb.select = vi.fn(() => createSelectChain([]));
-    mockDb.insert = vi.fn(() => createInsertChain());
+    mockDb.insert = vi.fn(() => createPlayInsertChain());
   });
 
   it("returns 401 when not authenticated", async () => {
@@ -176,7 +244,9 @@ describe("Import routes — POST /api/import/history", () => {
     expect(body.error).toBe("Invalid streaming history format");
   });
 
-  it("filters entries with ms_played < 30000", async () => {
+  it("keeps short plays so skips stay queryable", async () => {
+    const chain = createPlayInsertChain();
+    mockDb.insert = vi.fn(() => chain);
     const app = createApp();
     const res = await req(app, "/api/import/history", {
       method: "POST",
@@ -186,9 +256,11 @@ describe("Import routes — POST /api/import/history", () => {
     expect(res.status).toBe(200);
     const body = await res.json();
     expect(body.data.total).toBe(1);
-    expect(body.data.imported).toBe(0);
-    expect(body.data.skipped).toBe(1);
-    expect(body.data.skipReasons.tooShort).toBe(1);
+    expect(body.data.imported).toBe(1);
+    expect(body.data.skipped).toBe(0);
+
+    const rows = insertedPlays(chain);
+    expect(rows[0].msPlayed).toBe(shortPlayEntry.ms_played);
   });
 
   it("filters entries with null track name", async () => {
@@ -243,6 +315,47 @@ describe("Import routes — POST /api/import/history", () => {
     expect(body.data.skipReasons.noSpotifyUri).toBe(1);
   });
 
+  it("keeps podcast episodes and audiobook chapters as spoken-word plays", async () => {
+    const chain = createPlayInsertChain();
+    mockDb.insert = vi.fn(() => chain);
+    const app = createApp();
+    const res = await req(app, "/api/import/history", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([episodeEntry, audiobookEntry]),
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data.imported).toBe(2);
+    expect(body.data.skipped).toBe(0);
+
+    const [episode, chapter] = insertedPlays(chain);
+    expect(episode).toMatchObject({
+      contentType: "episode",
+      trackSpotifyId: "5AvwZVawapvyhJUIx71pdJ",
+      trackName: "Episode 42: Deep Dive",
+      artistName: "Tech Podcast",
+    });
+    expect(chapter).toMatchObject({
+      contentType: "audiobook",
+      trackSpotifyId: "3nUbAJQmrMlOZtXqLKvAwA",
+      trackName: "Chapter 3",
+      artistName: "Dune",
+    });
+  });
+
+  it("skips episodes without an episode URI", async () => {
+    const app = createApp();
+    const res = await req(app, "/api/import/history", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([{ ...episodeEntry, spotify_episode_uri: null }]),
+    });
+    const body = await res.json();
+    expect(body.data.imported).toBe(0);
+    expect(body.data.skipReasons.noSpotifyUri).toBe(1);
+  });
+
   it("successfully imports a valid entry", async () => {
     const app = createApp();
     const res = await req(app, "/api/import/history", {
@@ -258,6 +371,43 @@ describe("Import routes — POST /api/import/history", () => {
     expect(body.data.duplicates).toBe(0);
   });
 
+  it("stores when the stream started and keeps ts as the end", async () => {
+    const chain = createPlayInsertChain();
+    mockDb.insert = vi.fn(() => chain);
+    const app = createApp();
+    await req(app, "/api/import/history", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([validEntry]),
+    });
+
+    const rows = insertedPlays(chain);
+    expect(rows[0].playedAt).toEqual(new Date(Date.parse(validEntry.ts) - validEntry.ms_played));
+    expect(rows[0].endedAt).toEqual(new Date(validEntry.ts));
+  });
+
+  it("keeps offline and country fields, normalising offline_timestamp to one unit", async () => {
+    const chain = createPlayInsertChain();
+    mockDb.insert = vi.fn(() => chain);
+    const app = createApp();
+    const recorded = Date.UTC(2019, 4, 1, 8, 0);
+    await req(app, "/api/import/history", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([
+        // Older rows give seconds, newer ones milliseconds
+        { ...validEntry, offline: true, offline_timestamp: recorded / 1000, conn_country: "de" },
+        { ...validEntry, ts: "2024-06-15T10:40:00Z", offline: true, offline_timestamp: recorded },
+        { ...validEntry, ts: "2024-06-15T10:50:00Z", offline: false, offline_timestamp: 0, conn_country: "ZZ" },
+      ]),
+    });
+
+    const rows = insertedPlays(chain);
+    expect(rows[0]).toMatchObject({ offline: true, offlineTimestamp: new Date(recorded), connCountry: "DE" });
+    expect(rows[1].offlineTimestamp).toEqual(new Date(recorded));
+    expect(rows[2]).toMatchObject({ offline: false, offlineTimestamp: null, connCountry: null });
+  });
+
   it("returns correct ImportResult structure", async () => {
     const app = createApp();
     const res = await req(app, "/api/import/history", {
@@ -271,7 +421,6 @@ describe("Import routes — POST /api/import/history", () => {
     expect(body.data).toHaveProperty("skipped");
     expect(body.data).toHaveProperty("duplicates");
     expect(body.data).toHaveProperty("skipReasons");
-    expect(body.data.skipReasons).toHaveProperty("tooShort");
     expect(body.data.skipReasons).toHaveProperty("noTrackName");
     expect(body.data.skipReasons).toHaveProperty("noSpotifyUri");
     expect(body.data.skipReasons).toHaveProperty("noArtistName");
@@ -308,16 +457,12 @@ describe("Import routes — POST /api/import/history", () => {
     expect(res.status).toBe(200);
     const body = await res.json();
     expect(body.data.total).toBe(5);
-    expect(body.data.imported).toBe(1);
-    expect(body.data.skipped).toBe(4);
+    expect(body.data.imported).toBe(2);
+    expect(body.data.skipped).toBe(3);
   });
 
-  it("detects duplicates against existing records", async () => {
-    const trackId = "63OQupATfueTdZMWIaAKMd";
-    const playedAt = new Date("2024-06-15T10:30:00Z");
-    mockDb.select = vi.fn(() =>
-      createSelectChain([{ trackSpotifyId: trackId, playedAt }]),
-    );
+  it("counts rows skipped by the play unique index as duplicates", async () => {
+    mockDb.insert = vi.fn(() => createPlayInsertChain(1));
 
     const app = createApp();
     const res = await req(app, "/api/import/history", {
@@ -330,6 +475,171 @@ describe("Import routes — POST /api/import/history", () => {
     expect(body.data.duplicates).toBe(1);
     expect(body.data.imported).toBe(0);
   });
+
+  it("imports legacy Account data entries under a provisional track ID", async () => {
+    const chain = createPlayInsertChain();
+    mockDb.insert = vi.fn(() => chain);
+    const app = createApp();
+    const res = await req(app, "/api/import/history", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([
+        { endTime: "2024-06-15 10:30", artistName: "Artist", trackName: "Song", msPlayed: 200000 },
+        { endTime: "2024-06-15 10:35", artistName: "Artist", trackName: "Song", msPlayed: 200000 },
+        { endTime: "2024-06-15 10:36", artistName: "Artist", trackName: "Skip", msPlayed: 5000 },
+      ]),
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data.total).toBe(3);
+    expect(body.data.imported).toBe(3);
+    expect(body.data.skipped).toBe(0);
+
+    const rows = insertedPlays(chain);
+    expect(rows[0].trackSpotifyId).toMatch(/^provisional:[0-9a-f]{32}$/);
+    // Same song, same provisional identity
+    expect(rows[1].trackSpotifyId).toBe(rows[0].trackSpotifyId);
+    // endTime is when the stream ended; playedAt is when it started
+    expect(rows[0].playedAt).toEqual(new Date("2024-06-15T10:26:40Z"));
+    expect(rows[0].endedAt).toEqual(new Date("2024-06-15T10:30:00Z"));
+  });
+
+  it("returns 400 for a malformed legacy entry", async () => {
+    const app = createApp();
+    const res = await req(app, "/api/import/history", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([{ endTime: "yesterday", artistName: "A", trackName: "B", msPlayed: 1 }]),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("imports Last.fm scrobbles with an estimated play duration", async () => {
+    const chain = createPlayInsertChain();
+    mockDb.insert = vi.fn(() => chain);
+    const app = createApp();
+    const start = Date.UTC(2014, 2, 1, 12, 0) / 1000;
+    const res = await req(app, "/api/import/history", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([
+        { uts: start, artist: "Radiohead", track: "Airbag", album: "OK Computer" },
+        { uts: start + 284, artist: "Radiohead", track: "Paranoid Android", album: "OK Computer" },
+        { uts: start + 3600, artist: "Radiohead", track: "Airbag", album: null },
+        { uts: start + 4000, artist: "", track: "Untitled" },
+      ]),
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data.total).toBe(4);
+    expect(body.data.imported).toBe(3);
+    expect(body.data.skipReasons.noArtistName).toBe(1);
+
+    const rows = insertedPlays(chain);
+    expect(rows[0]).toMatchObject({ source: "lastfm", msPlayed: 284_000, albumName: "OK Computer" });
+    expect(rows[0].trackSpotifyId).toMatch(/^provisional:[0-9a-f]{32}$/);
+    expect(rows[2].trackSpotifyId).toBe(rows[0].trackSpotifyId);
+    // An hour until the next scrobble is a pause, not a long track
+    expect(rows[1].msPlayed).toBe(210_000);
+    // The scrobble is the start; the end is estimated
+    expect(rows[0].playedAt).toEqual(new Date(start * 1000));
+    expect(rows[0].endedAt).toEqual(new Date((start + 284) * 1000));
+  });
+
+  it("drops scrobbles that overlap a Spotify play of the same song", async () => {
+    const chain = createPlayInsertChain();
+    mockDb.insert = vi.fn(() => chain);
+    // First the duplicate-file lookup, then the Spotify plays the scrobbles overlap
+    const selects = [
+      [],
+      [
+        {
+          artistName: "radiohead",
+          trackName: "Airbag",
+          playedAt: new Date("2014-03-01T12:00:00Z"),
+          endedAt: new Date("2014-03-01T12:04:00Z"),
+        },
+      ],
+    ];
+    mockDb.select = vi.fn(() => createSelectChain(selects.shift() ?? []));
+    const app = createApp();
+    const res = await req(app, "/api/import/history", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([
+        { uts: Date.UTC(2014, 2, 1, 12, 0, 10) / 1000, artist: "Radiohead", track: "Airbag" },
+        { uts: Date.UTC(2014, 2, 1, 12, 4, 5) / 1000, artist: "Radiohead", track: "Let Down" },
+      ]),
+    });
+    const body = await res.json();
+    expect(body.data.imported).toBe(1);
+    expect(body.data.duplicates).toBe(1);
+
+    const rows = insertedPlays(chain);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].trackName).toBe("Let Down");
+  });
+
+  it("replaces overlapping Last.fm and polled plays when Spotify plays are imported", async () => {
+    const app = createApp();
+    await req(app, "/api/import/history", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([validEntry]),
+    });
+    expect(mockDb.delete).toHaveBeenCalledTimes(1);
+  });
+
+  it("inserts plays with ON CONFLICT DO NOTHING instead of pre-selecting", async () => {
+    const chain = createPlayInsertChain();
+    mockDb.insert = vi.fn(() => chain);
+    const app = createApp();
+    await req(app, "/api/import/history", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([validEntry]),
+    });
+    expect(chain.onConflictDoNothing).toHaveBeenCalled();
+    // Only the duplicate-file lookup; existing plays are never pre-selected
+    expect(mockDb.select).toHaveBeenCalledTimes(1);
+  });
+
+  it("records the upload as a batch and links every inserted row to it", async () => {
+    const chain = createPlayInsertChain();
+    mockDb.insert = vi.fn(() => chain);
+    const app = createApp();
+    const res = await req(app, "/api/import/history?fileName=Streaming_History_Audio_2024.json", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([validEntry]),
+    });
+    expect(res.status).toBe(200);
+
+    const batch = (chain.values as ReturnType<typeof vi.fn>).mock.calls[0][0];
+    expect(batch).toMatchObject({
+      userId: "test-user-uuid-123",
+      fileName: "Streaming_History_Audio_2024.json",
+    });
+    expect(batch.fileHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(insertedPlays(chain)[0].batchId).toBe("batch-uuid-1");
+    expect(mockDb._lastUpdateChain.set).toHaveBeenCalledWith(
+      expect.objectContaining({ imported: 1, completedAt: expect.any(Date) }),
+    );
+  });
+
+  it("returns 409 for a file that was already imported", async () => {
+    mockDb.select = vi.fn(() => createSelectChain([batchRow]));
+    const app = createApp();
+    const res = await req(app, "/api/import/history", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([validEntry]),
+    });
+    expect(res.status).toBe(409);
+    const body = await res.json();
+    expect(body.data.id).toBe("batch-uuid-1");
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
 });
 
 describe("Import routes — GET /api/import/status", () => {
@@ -351,6 +661,18 @@ describe("Import routes — GET /api/import/status", () => {
     expect(body.data.dateRange).toBeNull();
   });
 
+  it("reports tracks still awaiting Spotify ID resolution", async () => {
+    mockDb.select = vi.fn(() =>
+      createSelectChain([
+        { totalTracks: 40, minPlayedAt: new Date(), maxPlayedAt: new Date(), unresolvedTracks: 3 },
+      ]),
+    );
+    const app = createApp();
+    const res = await req(app, "/api/import/status");
+    const body = await res.json();
+    expect(body.data.unresolvedTracks).toBe(3);
+  });
+
   it("returns status with hasData=true and dateRange when data exists", async () => {
     const minDate = new Date("2024-01-01T00:00:00Z");
     const maxDate = new Date("2024-12-31T23:59:59Z");
@@ -372,6 +694,216 @@ describe("Import routes — GET /api/import/status", () => {
   });
 });
 
+describe("Import routes — GET /api/import/quality", () => {
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+    mockDb = createMockDb();
+  });
+
+  function mockSelects(...results: unknown[][]) {
+    const selects = [...results];
+    mockDb.select = vi.fn(() => createSelectChain(selects.shift() ?? []));
+  }
+
+  const month = (m: string, plays = 400) => ({ month: m, plays });
+
+  it("reports a clean history for an empty account", async () => {
+    mockSelects([], [{ tooLong: 0, future: 0 }], []);
+    const res = await req(createApp(), "/api/import/quality");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data).toEqual({
+      monthsCovered: 0,
+      gaps: [],
+      tooLongPlays: 0,
+      futurePlays: 0,
+      anomalies: [],
+    });
+    // No gaps, so no file spans are looked up
+    expect(mockDb.select).toHaveBeenCalledTimes(3);
+  });
+
+  it("flags a missing month and lists the files that span it", async () => {
+    mockSelects(
+      [month("2019-01"), month("2019-02"), month("2019-03"), month("2019-05"), month("2019-06")],
+      [{ tooLong: 0, future: 0 }],
+      [],
+      [
+        { id: "batch-1", fileName: "Streaming_History_Audio_2018-2019.json", from: "2018-06", to: "2019-06" },
+        { id: "batch-2", fileName: "Streaming_History_Audio_2019-2020.json", from: "2019-05", to: "2020-03" },
+      ],
+    );
+    const res = await req(createApp(), "/api/import/quality");
+    const body = await res.json();
+    expect(body.data.monthsCovered).toBe(6);
+    expect(body.data.gaps).toEqual([
+      {
+        month: "2019-04",
+        plays: 0,
+        expected: 400,
+        files: [{ id: "batch-1", fileName: "Streaming_History_Audio_2018-2019.json" }],
+      },
+    ]);
+  });
+
+  it("lists impossible rows with the file that inserted them", async () => {
+    const future = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+    const past = new Date("2020-03-01T12:00:00Z");
+    mockSelects(
+      [month("2020-03", 50)],
+      [{ tooLong: 1, future: 1 }],
+      [
+        { id: 9, trackName: "Song A", artistName: "Artist", playedAt: future, msPlayed: 200_000, fileName: "a.json" },
+        { id: 4, trackName: "Song B", artistName: "Artist", playedAt: past, msPlayed: 36_000_000, fileName: null },
+      ],
+    );
+    const res = await req(createApp(), "/api/import/quality");
+    const body = await res.json();
+    expect(body.data.tooLongPlays).toBe(1);
+    expect(body.data.futurePlays).toBe(1);
+    expect(body.data.anomalies.map((a: { id: number; kind: string }) => [a.id, a.kind])).toEqual([
+      [9, "future"],
+      [4, "tooLong"],
+    ]);
+    expect(body.data.anomalies[1]).toMatchObject({
+      playedAt: past.toISOString(),
+      msPlayed: 36_000_000,
+      fileName: null,
+    });
+  });
+});
+
+describe("Import routes — against Postgres", () => {
+  const userId = "00000000-0000-4000-8000-000000000001";
+  const uploaderId = "00000000-0000-4000-8000-000000000002";
+  let db: Database;
+
+  beforeAll(async () => {
+    db = await createTestDb();
+    await db.insert(users).values([
+      { id: userId, spotifyId: "spotify_user_1", timeZone: "Asia/Tokyo" },
+      { id: uploaderId, spotifyId: "spotify_user_2" },
+    ]);
+    const [batch] = await db
+      .insert(importBatches)
+      .values({ userId, fileName: "Streaming_History_Audio_2019.json", fileHash: "c".repeat(64), fileSize: 1024 })
+      .returning();
+    // 40 plays in each month from January to June, except April
+    const months = [0, 1, 2, 4, 5];
+    const playedAts = months.flatMap((month) =>
+      Array.from({ length: 40 }, (_, day) => new Date(Date.UTC(2019, month, 1 + (day % 28), day))),
+    );
+    // Still March in UTC, already April 1st in Tokyo
+    playedAts.push(new Date("2019-03-31T20:00:00Z"));
+    await db.insert(listeningHistory).values(
+      playedAts.map((playedAt, i) => ({
+        userId,
+        batchId: batch.id,
+        trackSpotifyId: `track${i}`,
+        artistName: "Test Artist",
+        trackName: `Track ${i}`,
+        msPlayed: 180000,
+        playedAt,
+        endedAt: playedAt,
+      })),
+    );
+  }, TEST_DB_TIMEOUT_MS);
+
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession(userId);
+    mockDb = db as unknown as MockDb;
+  });
+
+  it("GET /quality measures coverage in local months and lists the files spanning a gap", async () => {
+    const res = await req(createApp(), "/api/import/quality");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data.monthsCovered).toBe(6);
+    expect(body.data.gaps).toEqual([
+      {
+        month: "2019-04",
+        plays: 1,
+        expected: 40,
+        files: [{ id: expect.any(String), fileName: "Streaming_History_Audio_2019.json" }],
+      },
+    ]);
+  });
+
+  it("PUT chunk adds the chunk's skip reasons to the job's in the database", async () => {
+    mockSession = createAuthenticatedSession(uploaderId);
+    const [job] = await db
+      .insert(importJobs)
+      .values({
+        userId: uploaderId,
+        fileName: "Streaming_History_Audio_2024.json",
+        fileSize: 1024,
+        totalChunks: 2,
+        status: "running",
+        skipReasons: { noTrackName: 2, noSpotifyUri: 1, noArtistName: 0 },
+      })
+      .returning();
+
+    const res = await req(createApp(), `/api/import/jobs/${job.id}/chunks/0`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([validEntry, noTrackNameEntry]),
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data.completedChunks).toBe(1);
+    expect(body.data.result.skipReasons).toEqual({ noTrackName: 3, noSpotifyUri: 1, noArtistName: 0 });
+  });
+
+  it("PUT chunk retried after failing mid-insert reports the chunk's own plays as imported", async () => {
+    mockSession = createAuthenticatedSession(uploaderId);
+    const [batch] = await db
+      .insert(importBatches)
+      .values({ userId: uploaderId, fileName: "Streaming_History_Audio_2023.json", fileHash: "d".repeat(64), fileSize: 2048 })
+      .returning();
+    const [job] = await db
+      .insert(importJobs)
+      .values({
+        userId: uploaderId,
+        batchId: batch.id,
+        fileName: "Streaming_History_Audio_2023.json",
+        fileSize: 2048,
+        totalChunks: 1,
+        status: "running",
+      })
+      .returning();
+    // More plays than one insert statement takes, plus one repeated play
+    const entries = Array.from({ length: 600 }, (_, i) => ({
+      ...validEntry,
+      ts: new Date(Date.UTC(2023, 0, 1, 0, i)).toISOString(),
+    }));
+    entries.push(entries[0]);
+    const put = () =>
+      req(createApp(), `/api/import/jobs/${job.id}/chunks/0`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(entries),
+      });
+
+    // The second insert statement fails after the first has stored 500 plays
+    const insert = db.insert.bind(db);
+    let playInserts = 0;
+    const spy = vi.spyOn(db, "insert").mockImplementation(((table: typeof listeningHistory) => {
+      if (table === listeningHistory && ++playInserts === 2) throw new Error("Connection reset");
+      return insert(table);
+    }) as typeof db.insert);
+    const quiet = vi.spyOn(console, "error").mockImplementation(() => {});
+    expect((await put()).status).toBe(500);
+    spy.mockRestore();
+    quiet.mockRestore();
+
+    const res = await put();
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data.status).toBe("completed");
+    expect(body.data.result).toMatchObject({ total: 601, imported: 600, duplicates: 1 });
+  });
+});
+
 describe("Import routes — DELETE /api/import/data", () => {
   beforeEach(() => {
     mockSession = createAuthenticatedSession();
@@ -385,6 +917,8 @@ describe("Import routes — DELETE /api/import/data", () => {
     expect(res.status).toBe(200);
     const body = await res.json();
     expect(body.data.deleted).toBe(42);
+    // History, jobs, and batches
+    expect(mockDb.delete).toHaveBeenCalledTimes(3);
   });
 
   it("returns 0 deleted when no data exists", async () => {
@@ -396,3 +930,335 @@ describe("Import routes — DELETE /api/import/data", () => {
     expect(body.data.deleted).toBe(0);
   });
 });
+
+describe("Import routes — POST /api/import/preview", () => {
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+    mockDb = createMockDb();
+  });
+
+  const laterEntry = {
+    ...validEntry,
+    ts: "2024-06-15T10:40:00Z",
+    master_metadata_track_name: "Creep",
+    master_metadata_album_artist_name: "Radiohead",
+    spotify_track_uri: "spotify:track:70LcF31zb1H0PyJoS1Sx1r",
+  };
+
+  it("reports new, duplicate, and skipped entries without writing", async () => {
+    const selects = [
+      // Plays already stored with the same track and start time
+      [{ trackSpotifyId: "63OQupATfueTdZMWIaAKMd", playedAt: new Date(Date.parse(validEntry.ts) - validEntry.ms_played) }],
+      // Stored plays inside the upload's range
+      [{ count: 4, from: new Date("2024-06-15T10:20:00Z"), to: new Date("2024-06-15T10:35:00Z") }],
+    ];
+    mockDb.select = vi.fn(() => createSelectChain(selects.shift() ?? []));
+    const app = createApp();
+    const res = await req(app, "/api/import/preview", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([validEntry, laterEntry, laterEntry, noTrackNameEntry]),
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data).toMatchObject({
+      total: 4,
+      newPlays: 1,
+      // One stored already, one repeated within the upload
+      duplicates: 2,
+      skipped: 1,
+      skipReasons: { noTrackName: 1 },
+      topArtists: [{ artistName: "Radiohead", count: 3 }],
+      overlap: { existingPlays: 4, from: "2024-06-15T10:20:00.000Z", to: "2024-06-15T10:35:00.000Z" },
+    });
+    expect(body.data.dateRange.to).toBe("2024-06-15T10:40:00.000Z");
+    expect(mockDb.insert).not.toHaveBeenCalled();
+    expect(mockDb.delete).not.toHaveBeenCalled();
+  });
+
+  it("reports no overlap when nothing is stored in the upload's range", async () => {
+    const selects = [[], [{ count: 0, from: null, to: null }]];
+    mockDb.select = vi.fn(() => createSelectChain(selects.shift() ?? []));
+    const app = createApp();
+    const res = await req(app, "/api/import/preview", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([validEntry]),
+    });
+    const body = await res.json();
+    expect(body.data.newPlays).toBe(1);
+    expect(body.data.overlap).toBeNull();
+  });
+
+  it("returns 400 for an invalid body", async () => {
+    const app = createApp();
+    const res = await req(app, "/api/import/preview", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ not: "an array" }),
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("Import routes — import batches", () => {
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+    mockDb = createMockDb();
+  });
+
+  it("GET /batches lists past uploads", async () => {
+    mockDb.select = vi.fn(() => createSelectChain([batchRow]));
+    const app = createApp();
+    const res = await req(app, "/api/import/batches");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data).toEqual([
+      {
+        id: "batch-uuid-1",
+        fileName: "Streaming_History_Audio_2020.json",
+        fileHash: "a".repeat(64),
+        fileSize: 1024,
+        result: {
+          total: 10,
+          imported: 8,
+          skipped: 2,
+          duplicates: 0,
+          skipReasons: { noTrackName: 2, noSpotifyUri: 0, noArtistName: 0 },
+        },
+        createdAt: "2024-06-15T10:00:00.000Z",
+        completedAt: "2024-06-15T10:05:00.000Z",
+      },
+    ]);
+  });
+
+  it("DELETE /batches/:id removes the batch's rows, job, and record", async () => {
+    mockDb.select = vi.fn(() => createSelectChain([{ id: "batch-uuid-1" }]));
+    mockDb.delete = vi.fn(() => createDeleteChain(8));
+    const app = createApp();
+    const res = await req(app, "/api/import/batches/batch-uuid-1", { method: "DELETE" });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data.deleted).toBe(8);
+    expect(mockDb.delete).toHaveBeenCalledTimes(3);
+  });
+
+  it("DELETE /batches/:id returns 404 for another user's or a missing batch", async () => {
+    mockDb.select = vi.fn(() => createSelectChain([]));
+    const app = createApp();
+    const res = await req(app, "/api/import/batches/missing", { method: "DELETE" });
+    expect(res.status).toBe(404);
+    expect(mockDb.delete).not.toHaveBeenCalled();
+  });
+});
+
+describe("Import routes — import jobs", () => {
+  const fileHash = "b".repeat(64);
+
+  const jobRow = {
+    id: "job-uuid-1",
+    userId: "test-user-uuid-123",
+    batchId: "batch-uuid-1",
+    fileName: "Streaming_History_Audio_2020.json",
+    fileSize: 1024,
+    totalChunks: 3,
+    completedChunks: 1,
+    status: "running",
+    total: 10,
+    imported: 8,
+    skipped: 2,
+    duplicates: 0,
+    skipReasons: { noTrackName: 2, noSpotifyUri: 0, noArtistName: 0 },
+    error: null,
+    createdAt: new Date("2024-06-15T10:00:00Z"),
+    updatedAt: new Date("2024-06-15T10:05:00Z"),
+  };
+
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+    mockDb = createMockDb();
+    mockDb.insert = vi.fn(() => createInsertChain());
+  });
+
+  it("POST /jobs returns 400 for an invalid job body", async () => {
+    const app = createApp();
+    const res = await req(app, "/api/import/jobs", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fileName: "", totalChunks: 0 }),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("POST /jobs creates a batch and a new job when none is resumable", async () => {
+    mockDb.select = vi.fn(() => createSelectChain([]));
+    const batchChain = createInsertChain([{ ...batchRow, completedAt: null }]);
+    const jobChain = createInsertChain([{ ...jobRow, completedChunks: 0, status: "pending" }]);
+    const inserts = [batchChain, jobChain];
+    mockDb.insert = vi.fn(() => inserts.shift()!);
+    const app = createApp();
+    const res = await req(app, "/api/import/jobs", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fileName: jobRow.fileName, fileSize: 1024, totalChunks: 3, fileHash }),
+    });
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.data.id).toBe("job-uuid-1");
+    expect(body.data.completedChunks).toBe(0);
+    expect(batchChain.values).toHaveBeenCalledWith(
+      expect.objectContaining({ fileName: jobRow.fileName, fileHash }),
+    );
+    expect(jobChain.values).toHaveBeenCalledWith(
+      expect.objectContaining({ batchId: "batch-uuid-1" }),
+    );
+  });
+
+  it("POST /jobs returns 409 for a file that was already imported", async () => {
+    const selects = [[], [batchRow]];
+    mockDb.select = vi.fn(() => createSelectChain(selects.shift() ?? []));
+    const app = createApp();
+    const res = await req(app, "/api/import/jobs", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fileName: "renamed.json", fileSize: 1024, totalChunks: 3, fileHash }),
+    });
+    expect(res.status).toBe(409);
+    const body = await res.json();
+    expect(body.data.fileName).toBe("Streaming_History_Audio_2020.json");
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+
+  it("POST /jobs resumes an unfinished job for the same file", async () => {
+    mockDb.select = vi.fn(() => createSelectChain([jobRow]));
+    const app = createApp();
+    const res = await req(app, "/api/import/jobs", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fileName: jobRow.fileName, fileSize: 1024, totalChunks: 3, fileHash }),
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data.completedChunks).toBe(1);
+    expect(body.data.result.imported).toBe(8);
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+
+  it("GET /jobs/:id returns 404 for an unknown job", async () => {
+    mockDb.select = vi.fn(() => createSelectChain([]));
+    const app = createApp();
+    const res = await req(app, "/api/import/jobs/missing");
+    expect(res.status).toBe(404);
+  });
+
+  it("GET /jobs/:id returns job progress", async () => {
+    mockDb.select = vi.fn(() => createSelectChain([jobRow]));
+    const app = createApp();
+    const res = await req(app, "/api/import/jobs/job-uuid-1");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data.status).toBe("running");
+    expect(body.data.totalChunks).toBe(3);
+    expect(body.data.updatedAt).toBe("2024-06-15T10:05:00.000Z");
+  });
+
+  it("PUT chunk acknowledges an already-processed chunk without inserting", async () => {
+    mockDb.select = vi.fn(() => createSelectChain([jobRow]));
+    const app = createApp();
+    const res = await req(app, "/api/import/jobs/job-uuid-1/chunks/0", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([validEntry]),
+    });
+    expect(res.status).toBe(200);
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+
+  it("PUT chunk rejects out-of-order chunks with 409", async () => {
+    mockDb.select = vi.fn(() => createSelectChain([jobRow]));
+    const app = createApp();
+    const res = await req(app, "/api/import/jobs/job-uuid-1/chunks/2", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([validEntry]),
+    });
+    expect(res.status).toBe(409);
+    const body = await res.json();
+    expect(body.data.completedChunks).toBe(1);
+  });
+
+  it("PUT chunk processes the next expected chunk and advances the job", async () => {
+    const chains = [createSelectChain([jobRow])];
+    mockDb.select = vi.fn(() => chains.shift() ?? createSelectChain([]));
+    mockDb.update = vi.fn(() =>
+      createUpdateChain([
+        { ...jobRow, completedChunks: 2, total: 11, imported: 9 },
+      ]),
+    );
+    const app = createApp();
+    const res = await req(app, "/api/import/jobs/job-uuid-1/chunks/1", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([validEntry]),
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data.completedChunks).toBe(2);
+    expect(body.data.result.imported).toBe(9);
+    expect(mockDb.insert).toHaveBeenCalled();
+    expect(mockDb.update).toHaveBeenCalled();
+  });
+
+  it("PUT chunk reports the job as stored when a concurrent retry advanced it first", async () => {
+    const advanced = { ...jobRow, completedChunks: 2, total: 11, imported: 9 };
+    const chains = [createSelectChain([jobRow]), createSelectChain([advanced])];
+    mockDb.select = vi.fn(() => chains.shift() ?? createSelectChain([]));
+    mockDb.insert = vi.fn(() => createPlayInsertChain());
+    mockDb.update = vi.fn(() => createUpdateChain([]));
+    const app = createApp();
+    const res = await req(app, "/api/import/jobs/job-uuid-1/chunks/1", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([validEntry]),
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data.completedChunks).toBe(2);
+    expect(body.data.result.imported).toBe(9);
+  });
+
+  it("PUT chunk tags rows with the job's batch and completes it after the last chunk", async () => {
+    const chains = [createSelectChain([{ ...jobRow, completedChunks: 2 }])];
+    mockDb.select = vi.fn(() => chains.shift() ?? createSelectChain([]));
+    const playChain = createPlayInsertChain();
+    mockDb.insert = vi.fn(() => playChain);
+    const jobUpdate = createUpdateChain([
+      { ...jobRow, completedChunks: 3, status: "completed", total: 11, imported: 9 },
+    ]);
+    const batchUpdate = createUpdateChain();
+    const updates = [jobUpdate, batchUpdate];
+    mockDb.update = vi.fn(() => updates.shift()!);
+    const app = createApp();
+    const res = await req(app, "/api/import/jobs/job-uuid-1/chunks/2", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify([validEntry]),
+    });
+    expect(res.status).toBe(200);
+    expect(insertedPlays(playChain)[0].batchId).toBe("batch-uuid-1");
+    expect(batchUpdate.set).toHaveBeenCalledWith(
+      expect.objectContaining({ total: 11, imported: 9, completedAt: expect.any(Date) }),
+    );
+  });
+
+  it("PUT chunk returns 400 for an invalid chunk body", async () => {
+    mockDb.select = vi.fn(() => createSelectChain([jobRow]));
+    const app = createApp();
+    const res = await req(app, "/api/import/jobs/job-uuid-1/chunks/1", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ not: "an array" }),
+    });
+    expect(res.status).toBe(400);
+  });
+});
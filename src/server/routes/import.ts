@@ -4,24 +4,55 @@
  * Handles ingestion of Spotify's "Extended Streaming History" JSON export.
  * Users request this data from Spotify's privacy settings — it arrives as
  * one or more JSON files containing every play event in their account history.
+ * The quicker "Account data" export (StreamingHistory_music_*.json) is also
+ * accepted, as are Last.fm scrobble exports (normalised by the client); the
+ * format is detected per upload.
+ *
+ * Every upload is recorded as an import batch (file name, content hash,
+ * counts), and the rows it inserts point back to it, so one bad upload can
+ * be rolled back without touching the rest of the history. A file whose
+ * hash matches an already completed batch is rejected with 409 up front.
  *
  * Endpoints:
- *   POST /api/import/history - Parse, validate, deduplicate, and insert play records
- *   GET  /api/import/status  - Check how much data the user has imported so far
+ *   POST /api/import/history               - Parse, validate, deduplicate, and insert play records
+ *   POST /api/import/preview               - Dry run: what importing up to one chunk of entries would do
+ *   POST /api/import/jobs                  - Start (or resume) a chunked upload for one file
+ *   GET  /api/import/jobs                  - List the user's recent import jobs
+ *   GET  /api/import/jobs/:id              - Poll a job's progress
+ *   PUT  /api/import/jobs/:id/chunks/:index - Process one chunk of a job's entries
+ *   GET  /api/import/batches               - List past uploads
+ *   DELETE /api/import/batches/:id         - Roll back one upload
+ *   GET  /api/import/status                - Check how much data the user has imported so far
+ *   GET  /api/import/quality               - Find coverage gaps and impossible rows
+ *   DELETE /api/import/data                - Delete all imported history
  *
  * All routes require authentication.
  */
 import { Hono } from "hono";
-import { count, eq, max, min } from "drizzle-orm";
+import { and, count, desc, eq, gt, inArray, isNotNull, max, min, or, sql, type SQL } from "drizzle-orm";
 import type { Session } from "hono-sessions";
 import type { Env } from "../types";
-import { createDb } from "../db";
-import { listeningHistory } from "../db/schema";
+import { createDb, type Database } from "../db";
+import { importBatches, importJobs, listeningHistory } from "../db/schema";
 import { authGuard, type SessionData } from "../middleware/session";
-import { streamingHistorySchema } from "../../shared/validators/history";
+import { importEntries, parseHistoryUpload, previewEntries } from "../lib/history-import";
+import { findCoverageGaps, LONGEST_TRACK_MS, monthsBetween } from "../lib/data-quality";
+import { localPlayedAt } from "../lib/local-time";
+import {
+  IMPORT_CHUNK_SIZE,
+  importJobCreateSchema,
+  PROVISIONAL_TRACK_PREFIX,
+} from "../../shared/validators/history";
 import type {
+  CoverageGap,
+  ImportBatch,
+  ImportJob,
+  ImportJobStatus,
+  ImportPreview,
+  ImportQualityReport,
   ImportResult,
   ImportStatus,
+  SkipReasons,
 } from "../../shared/validators/history";
 
 const importRoutes = new Hono<{ Bindings: Env }>();
@@ -29,172 +60,435 @@ const importRoutes = new Hono<{ Bindings: Env }>();
 // All import routes require authentication
 importRoutes.use("*", authGuard());
 
-// Extract the track ID portion from a Spotify URI (e.g., "spotify:track:6rqhF..." -> "6rqhF...")
-function extractTrackId(uri: string): string | null {
-  const match = uri.match(/^spotify:track:([a-zA-Z0-9]+)$/);
-  return match ? match[1] : null;
+// --- Import batches ---
+
+type ImportBatchRow = typeof importBatches.$inferSelect;
+
+/** Shape a DB row into the client-facing ImportBatch contract. */
+function toImportBatch(row: ImportBatchRow): ImportBatch {
+  return {
+    id: row.id,
+    fileName: row.fileName,
+    fileHash: row.fileHash,
+    fileSize: row.fileSize,
+    result: {
+      total: row.total,
+      imported: row.imported,
+      skipped: row.skipped,
+      duplicates: row.duplicates,
+      skipReasons: row.skipReasons,
+    },
+    createdAt: row.createdAt.toISOString(),
+    completedAt: row.completedAt?.toISOString() ?? null,
+  };
+}
+
+/** Hex SHA-256 of an uploaded file's contents. */
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
 }
 
-// Insert rows in batches to avoid oversized SQL statements and Neon request limits
-const BATCH_SIZE = 500;
-// Plays under 30 seconds are likely skips or accidental plays — not meaningful listens.
-// This threshold keeps the Vault and Heatmap data focused on intentional engagement.
-const MIN_MS_PLAYED = 30_000;
+/** The user's completed batch for a file with this hash, if any. */
+async function findImportedBatch(
+  db: Database,
+  userId: string,
+  fileHash: string,
+): Promise<ImportBatchRow | undefined> {
+  const [batch] = await db
+    .select()
+    .from(importBatches)
+    .where(
+      and(
+        eq(importBatches.userId, userId),
+        eq(importBatches.fileHash, fileHash),
+        isNotNull(importBatches.completedAt),
+      ),
+    )
+    .limit(1);
+  return batch;
+}
 
+/** Record a batch's final totals once its last rows are in. */
+async function completeBatch(db: Database, batchId: string, result: ImportResult) {
+  await db
+    .update(importBatches)
+    .set({
+      total: result.total,
+      imported: result.imported,
+      skipped: result.skipped,
+      duplicates: result.duplicates,
+      skipReasons: result.skipReasons,
+      completedAt: new Date(),
+    })
+    .where(eq(importBatches.id, batchId));
+}
+
+/**
+ * Imports a whole file in one request. The file name can be passed as
+ * ?fileName= for the batch record; the hash is taken from the body.
+ */
 importRoutes.post("/history", async (c) => {
   const session = c.get("session") as Session<SessionData>;
   const userId = session.get("userId")!;
 
+  const text = await c.req.text();
   let body: unknown;
   try {
-    body = await c.req.json();
+    body = JSON.parse(text);
   } catch {
     return c.json({ error: "Invalid JSON body" }, 400);
   }
 
-  // Validate the incoming array against Spotify's Extended Streaming History schema.
+  // Detect the export format and validate the incoming array against it.
   // Zod strips unknown fields and coerces types; invalid files fail fast here.
-  const parsed = streamingHistorySchema.safeParse(body);
-  if (!parsed.success) {
+  const upload = parseHistoryUpload(body);
+  if (!upload) {
     return c.json({ error: "Invalid streaming history format" }, 400);
   }
 
-  const entries = parsed.data;
-  const total = entries.length;
-  let duplicates = 0;
-  const skipReasons = {
-    tooShort: 0,
-    noTrackName: 0,
-    noSpotifyUri: 0,
-    noArtistName: 0,
-  };
+  const db = createDb(c.env.DATABASE_URL);
+  const fileHash = await sha256Hex(text);
+
+  const imported = await findImportedBatch(db, userId, fileHash);
+  if (imported) {
+    return c.json({ error: "File already imported", data: toImportBatch(imported) }, 409);
+  }
 
-  // --- Phase 1: Filter & Transform ---
-  // Each entry must have sufficient play time, a track name, a valid Spotify URI,
-  // and an artist name. Entries missing any of these are not usable for analytics.
-  const validRows: Array<{
-    userId: string;
-    trackSpotifyId: string;
-    trackName: string;
-    artistName: string;
-    albumName: string | null;
-    msPlayed: number;
-    playedAt: Date;
-    source: string;
-    reasonStart: string | null;
-    reasonEnd: string | null;
-    skipped: boolean | null;
-    platform: string | null;
-    shuffle: boolean | null;
-  }> = [];
-
-  for (const entry of entries) {
-    // Skip short plays — under 30s is not an intentional listen
-    if (entry.ms_played < MIN_MS_PLAYED) {
-      skipReasons.tooShort++;
-      continue;
-    }
-
-    // Skip entries without track name
-    if (!entry.master_metadata_track_name) {
-      skipReasons.noTrackName++;
-      continue;
-    }
-
-    // Skip entries without track URI
-    if (!entry.spotify_track_uri) {
-      skipReasons.noSpotifyUri++;
-      continue;
-    }
-
-    const trackId = extractTrackId(entry.spotify_track_uri);
-    if (!trackId) {
-      skipReasons.noSpotifyUri++;
-      continue;
-    }
-
-    // Skip entries without artist name
-    if (!entry.master_metadata_album_artist_name) {
-      skipReasons.noArtistName++;
-      continue;
-    }
-
-    validRows.push({
+  const [batch] = await db
+    .insert(importBatches)
+    .values({
       userId,
-      trackSpotifyId: trackId,
-      trackName: entry.master_metadata_track_name,
-      artistName: entry.master_metadata_album_artist_name,
-      albumName: entry.master_metadata_album_album_name ?? null,
-      msPlayed: entry.ms_played,
-      playedAt: new Date(entry.ts),
-      source: "import",
-      reasonStart: entry.reason_start ?? null,
-      reasonEnd: entry.reason_end ?? null,
-      skipped: entry.skipped ?? null,
-      platform: entry.platform ?? null,
-      shuffle: entry.shuffle ?? null,
-    });
-  }
-
-  const skipped =
-    skipReasons.tooShort +
-    skipReasons.noTrackName +
-    skipReasons.noSpotifyUri +
-    skipReasons.noArtistName;
+      fileName: c.req.query("fileName") || "history.json",
+      fileHash,
+      fileSize: new TextEncoder().encode(text).byteLength,
+    })
+    .returning();
+
+  const result: ImportResult = await importEntries(db, userId, upload, batch.id);
+  await completeBatch(db, batch.id, result);
+
+  return c.json({ data: result });
+});
+
+/**
+ * Dry run of an import: the same format detection, filtering, and duplicate
+ * check, but nothing is inserted. Takes at most one chunk of entries, like
+ * the chunk endpoint — the client previews large files chunk by chunk.
+ */
+importRoutes.post("/preview", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const upload = parseHistoryUpload(body, IMPORT_CHUNK_SIZE);
+  if (!upload) {
+    return c.json({ error: "Invalid streaming history format" }, 400);
+  }
 
   const db = createDb(c.env.DATABASE_URL);
+  const result: ImportPreview = await previewEntries(db, userId, upload);
 
-  // --- Phase 2: Deduplicate against existing records ---
-  // Users may re-upload the same file or upload overlapping files.
-  // We build an in-memory set of (trackSpotifyId, playedAt) pairs already
-  // in the DB, then filter out any incoming rows that match.
-  // This is an application-level dedup rather than a DB unique constraint
-  // because a user can legitimately play the same track multiple times
-  // in a day — the timestamp makes each play event unique.
-  const existingRecords = await db
-    .select({
-      trackSpotifyId: listeningHistory.trackSpotifyId,
-      playedAt: listeningHistory.playedAt,
-    })
-    .from(listeningHistory)
-    .where(eq(listeningHistory.userId, userId));
+  return c.json({ data: result });
+});
 
-  const existingSet = new Set(
-    existingRecords.map(
-      (r) => `${r.trackSpotifyId}:${r.playedAt.toISOString()}`,
-    ),
-  );
+/** Lists the user's 50 most recent uploads, newest first. */
+importRoutes.get("/batches", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  const db = createDb(c.env.DATABASE_URL);
+
+  const rows = await db
+    .select()
+    .from(importBatches)
+    .where(eq(importBatches.userId, userId))
+    .orderBy(desc(importBatches.createdAt))
+    .limit(50);
+
+  return c.json({ data: rows.map(toImportBatch) });
+});
+
+/**
+ * Rolls back one upload: deletes the rows it inserted, then its job and the
+ * batch itself. Plays the upload only duplicated belong to the batch that
+ * first inserted them and are kept. Last.fm or polled plays the upload
+ * replaced are not restored.
+ */
+importRoutes.delete("/batches/:id", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const batchId = c.req.param("id");
+
+  const db = createDb(c.env.DATABASE_URL);
+
+  const [batch] = await db
+    .select({ id: importBatches.id })
+    .from(importBatches)
+    .where(and(eq(importBatches.id, batchId), eq(importBatches.userId, userId)))
+    .limit(1);
+
+  if (!batch) {
+    return c.json({ error: "Import batch not found" }, 404);
+  }
+
+  const result = await db
+    .delete(listeningHistory)
+    .where(and(eq(listeningHistory.batchId, batchId), eq(listeningHistory.userId, userId)));
+  await db.delete(importJobs).where(eq(importJobs.batchId, batchId));
+  await db.delete(importBatches).where(eq(importBatches.id, batchId));
+
+  return c.json({ data: { deleted: result.rowCount } });
+});
 
-  const newRows = validRows.filter((row) => {
-    const key = `${row.trackSpotifyId}:${row.playedAt.toISOString()}`;
-    if (existingSet.has(key)) {
-      duplicates++;
-      return false;
-    }
-    return true;
-  });
-
-  // --- Phase 3: Batch insert ---
-  // Insert in chunks to stay within Neon's per-statement size limits
-  for (let i = 0; i < newRows.length; i += BATCH_SIZE) {
-    const batch = newRows.slice(i, i + BATCH_SIZE);
-    await db.insert(listeningHistory).values(batch);
-  }
-
-  const result: ImportResult = {
-    total,
-    imported: newRows.length,
-    skipped,
-    duplicates,
-    skipReasons,
+// --- Import jobs ---
+
+type ImportJobRow = typeof importJobs.$inferSelect;
+
+/** Shape a DB row into the client-facing ImportJob contract. */
+function toImportJob(row: ImportJobRow): ImportJob {
+  return {
+    id: row.id,
+    fileName: row.fileName,
+    fileSize: row.fileSize,
+    totalChunks: row.totalChunks,
+    completedChunks: row.completedChunks,
+    status: row.status as ImportJobStatus,
+    result: {
+      total: row.total,
+      imported: row.imported,
+      skipped: row.skipped,
+      duplicates: row.duplicates,
+      skipReasons: row.skipReasons,
+    },
+    error: row.error,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
   };
+}
 
-  return c.json({ data: result });
+/**
+ * Creates a job for one file, or returns the user's unfinished job for the
+ * same file (matched by name, size, and chunk count) so the client can
+ * resume from `completedChunks` after a dropped connection or closed tab.
+ * A new job opens an import batch for the file; a file whose hash matches a
+ * completed batch is rejected with 409 before any chunk is sent.
+ */
+importRoutes.post("/jobs", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const parsed = importJobCreateSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: "Invalid import job" }, 400);
+  }
+
+  const { fileName, fileSize, totalChunks, fileHash } = parsed.data;
+  const db = createDb(c.env.DATABASE_URL);
+
+  const [existing] = await db
+    .select()
+    .from(importJobs)
+    .where(
+      and(
+        eq(importJobs.userId, userId),
+        eq(importJobs.fileName, fileName),
+        eq(importJobs.fileSize, fileSize),
+        eq(importJobs.totalChunks, totalChunks),
+        inArray(importJobs.status, ["pending", "running", "failed"]),
+      ),
+    )
+    .orderBy(desc(importJobs.updatedAt))
+    .limit(1);
+
+  if (existing) {
+    return c.json({ data: toImportJob(existing) });
+  }
+
+  const imported = await findImportedBatch(db, userId, fileHash);
+  if (imported) {
+    return c.json({ error: "File already imported", data: toImportBatch(imported) }, 409);
+  }
+
+  const [batch] = await db
+    .insert(importBatches)
+    .values({ userId, fileName, fileHash, fileSize })
+    .returning();
+
+  const [created] = await db
+    .insert(importJobs)
+    .values({ userId, batchId: batch.id, fileName, fileSize, totalChunks })
+    .returning();
+
+  return c.json({ data: toImportJob(created) }, 201);
+});
+
+/** Lists the user's 20 most recently touched jobs, newest first. */
+importRoutes.get("/jobs", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  const db = createDb(c.env.DATABASE_URL);
+
+  const rows = await db
+    .select()
+    .from(importJobs)
+    .where(eq(importJobs.userId, userId))
+    .orderBy(desc(importJobs.updatedAt))
+    .limit(20);
+
+  return c.json({ data: rows.map(toImportJob) });
+});
+
+importRoutes.get("/jobs/:id", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  const db = createDb(c.env.DATABASE_URL);
+
+  const [job] = await db
+    .select()
+    .from(importJobs)
+    .where(and(eq(importJobs.id, c.req.param("id")), eq(importJobs.userId, userId)))
+    .limit(1);
+
+  if (!job) {
+    return c.json({ error: "Import job not found" }, 404);
+  }
+
+  return c.json({ data: toImportJob(job) });
 });
 
+/** SQL adding a chunk's skip reasons to the job's, reason by reason. */
+function addSkipReasons(reasons: SkipReasons): SQL {
+  const sums = Object.entries(reasons).map(
+    ([reason, n]) =>
+      sql`${reason}::text, coalesce((${importJobs.skipReasons} ->> ${reason}::text)::int, 0) + ${n}::int`,
+  );
+  return sql`jsonb_build_object(${sql.join(sums, sql`, `)})`;
+}
+
 /**
- * Returns a summary of the user's imported data: total play count
- * and the date range covered. Used by the frontend to show import
+ * Processes one chunk of a job. Chunks must arrive in order:
+ *   - index <  completedChunks: already processed (a retry after a dropped
+ *     response) — acknowledged without re-inserting anything
+ *   - index == completedChunks: processed and the job's totals advanced.
+ *     Plays an earlier, interrupted attempt already inserted count as
+ *     imported, so a retried chunk reports the same totals
+ *   - index >  completedChunks: rejected with 409 so the client re-syncs
+ */
+importRoutes.put("/jobs/:id/chunks/:index", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  const index = Number(c.req.param("index"));
+  if (!Number.isInteger(index) || index < 0) {
+    return c.json({ error: "Invalid chunk index" }, 400);
+  }
+
+  const db = createDb(c.env.DATABASE_URL);
+
+  const [job] = await db
+    .select()
+    .from(importJobs)
+    .where(and(eq(importJobs.id, c.req.param("id")), eq(importJobs.userId, userId)))
+    .limit(1);
+
+  if (!job) {
+    return c.json({ error: "Import job not found" }, 404);
+  }
+
+  if (index >= job.totalChunks) {
+    return c.json({ error: "Invalid chunk index" }, 400);
+  }
+
+  if (index < job.completedChunks) {
+    return c.json({ data: toImportJob(job) });
+  }
+
+  if (index > job.completedChunks) {
+    return c.json({ error: "Chunk out of order", data: toImportJob(job) }, 409);
+  }
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const upload = parseHistoryUpload(body, IMPORT_CHUNK_SIZE);
+  if (!upload) {
+    return c.json({ error: "Invalid streaming history format" }, 400);
+  }
+
+  let result: ImportResult;
+  try {
+    result = await importEntries(db, userId, upload, job.batchId);
+  } catch (err) {
+    // Leave completedChunks untouched so the same chunk can be retried
+    await db
+      .update(importJobs)
+      .set({
+        status: "failed",
+        error: err instanceof Error ? err.message : "Chunk processing failed",
+        updatedAt: new Date(),
+      })
+      .where(eq(importJobs.id, job.id));
+    throw err;
+  }
+
+  const completedChunks = index + 1;
+  const status: ImportJobStatus =
+    completedChunks >= job.totalChunks ? "completed" : "running";
+
+  // Counters are incremented in SQL, guarded on completedChunks, so a
+  // concurrent retry of the same chunk cannot advance the job twice.
+  const [updated] = await db
+    .update(importJobs)
+    .set({
+      completedChunks,
+      status,
+      total: sql`${importJobs.total} + ${result.total}`,
+      imported: sql`${importJobs.imported} + ${result.imported}`,
+      skipped: sql`${importJobs.skipped} + ${result.skipped}`,
+      duplicates: sql`${importJobs.duplicates} + ${result.duplicates}`,
+      skipReasons: addSkipReasons(result.skipReasons),
+      error: null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(importJobs.id, job.id), eq(importJobs.completedChunks, index)))
+    .returning();
+
+  if (!updated) {
+    // A concurrent request advanced the job first; report its totals
+    const [current] = await db.select().from(importJobs).where(eq(importJobs.id, job.id)).limit(1);
+    return c.json({ data: toImportJob(current ?? job) });
+  }
+
+  if (status === "completed" && job.batchId) {
+    await completeBatch(db, job.batchId, toImportJob(updated).result);
+  }
+
+  return c.json({ data: toImportJob(updated) });
+});
+
+/**
+ * Returns a summary of the user's imported data: total play count, the date
+ * range covered, and how many tracks still await Spotify ID resolution. Used by the frontend to show import
  * status and decide whether to prompt for a first-time upload.
  */
 importRoutes.get("/status", async (c) => {
@@ -208,6 +502,7 @@ importRoutes.get("/status", async (c) => {
       totalTracks: count(),
       minPlayedAt: min(listeningHistory.playedAt),
       maxPlayedAt: max(listeningHistory.playedAt),
+      unresolvedTracks: sql<number>`count(distinct ${listeningHistory.trackSpotifyId}) filter (where ${listeningHistory.trackSpotifyId} like ${`${PROVISIONAL_TRACK_PREFIX}%`})`.mapWith(Number),
     })
     .from(listeningHistory)
     .where(eq(listeningHistory.userId, userId));
@@ -225,13 +520,112 @@ importRoutes.get("/status", async (c) => {
     hasData,
     totalTracks: stats.totalTracks,
     dateRange,
+    unresolvedTracks: stats.unresolvedTracks ?? 0,
+  };
+
+  return c.json({ data: result });
+});
+
+/**
+ * Diagnoses the imported history: months whose play count drops to zero or
+ * far below the surrounding months (with the uploaded files that span each
+ * one), and rows no real play could produce — music plays longer than any
+ * track, or plays dated in the future. Counts every stored row, ignoring
+ * the listen threshold, since gaps are about what the export contained.
+ */
+importRoutes.get("/quality", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  const db = createDb(c.env.DATABASE_URL);
+  const lh = listeningHistory;
+  const now = new Date();
+  const localMonth = sql`to_char(${localPlayedAt()}, 'YYYY-MM')`;
+
+  const monthly = await db
+    .select({
+      month: sql<string>`${localMonth}`.as("month"),
+      plays: count().as("plays"),
+    })
+    .from(lh)
+    .where(eq(lh.userId, userId))
+    .groupBy(localMonth)
+    .orderBy(localMonth);
+
+  const tooLong = and(eq(lh.contentType, "track"), gt(lh.msPlayed, LONGEST_TRACK_MS));
+  const future = gt(lh.playedAt, now);
+
+  const [anomalyCounts] = await db
+    .select({
+      tooLong: sql<number>`count(*) filter (where ${tooLong})`.mapWith(Number),
+      future: sql<number>`count(*) filter (where ${future})`.mapWith(Number),
+    })
+    .from(lh)
+    .where(eq(lh.userId, userId));
+
+  const anomalies = await db
+    .select({
+      id: lh.id,
+      trackName: lh.trackName,
+      artistName: lh.artistName,
+      playedAt: lh.playedAt,
+      msPlayed: lh.msPlayed,
+      fileName: importBatches.fileName,
+    })
+    .from(lh)
+    .leftJoin(importBatches, eq(lh.batchId, importBatches.id))
+    .where(and(eq(lh.userId, userId), or(tooLong, future)))
+    .orderBy(desc(lh.playedAt))
+    .limit(20);
+
+  const monthGaps = findCoverageGaps(monthly);
+  let gaps: CoverageGap[] = [];
+  if (monthGaps.length > 0) {
+    // Each file's span in the same local months the gaps are measured in
+    const fileSpans = await db
+      .select({
+        id: importBatches.id,
+        fileName: importBatches.fileName,
+        from: sql<string>`min(${localMonth})`,
+        to: sql<string>`max(${localMonth})`,
+      })
+      .from(lh)
+      .innerJoin(importBatches, eq(lh.batchId, importBatches.id))
+      .where(eq(lh.userId, userId))
+      .groupBy(importBatches.id, importBatches.fileName);
+
+    gaps = monthGaps.map((gap) => ({
+      ...gap,
+      files: fileSpans
+        .filter((f) => f.from <= gap.month && gap.month <= f.to)
+        .map((f) => ({ id: f.id, fileName: f.fileName })),
+    }));
+  }
+
+  const result: ImportQualityReport = {
+    monthsCovered: monthly.length > 0
+      ? monthsBetween(monthly[0].month, monthly[monthly.length - 1].month).length
+      : 0,
+    gaps,
+    tooLongPlays: anomalyCounts?.tooLong ?? 0,
+    futurePlays: anomalyCounts?.future ?? 0,
+    anomalies: anomalies.map((r) => ({
+      id: r.id,
+      kind: r.playedAt > now ? "future" : "tooLong",
+      trackName: r.trackName,
+      artistName: r.artistName,
+      playedAt: r.playedAt.toISOString(),
+      msPlayed: r.msPlayed,
+      fileName: r.fileName,
+    })),
   };
 
   return c.json({ data: result });
 });
 
 /**
- * Deletes all imported listening history for the authenticated user.
+ * Deletes all imported listening history for the authenticated user, along
+ * with the import jobs and batches that recorded it.
  * Returns the number of rows removed so the frontend can confirm the operation.
  */
 importRoutes.delete("/data", async (c) => {
@@ -243,6 +637,8 @@ importRoutes.delete("/data", async (c) => {
   const result = await db
     .delete(listeningHistory)
     .where(eq(listeningHistory.userId, userId));
+  await db.delete(importJobs).where(eq(importJobs.userId, userId));
+  await db.delete(importBatches).where(eq(importBatches.userId, userId));
 
   return c.json({ data: { deleted: result.rowCount } });
 });
@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { createMockDb, mockUser, type MockDb } from "../../test/mocks/db";
+import { createAuthenticatedSession, type MockSession } from "../../test/mocks/session";
+import { mockEnv } from "../../test/mocks/hono-context";
+
+// ---------------------------------------------------------------------------
+// Mock createDb so the route and token guard use our mock DB
+// ---------------------------------------------------------------------------
+let mockDb: MockDb;
+
+vi.mock("../db", () => ({
+  createDb: vi.fn(() => mockDb),
+}));
+
+// ---------------------------------------------------------------------------
+// Mock authGuard to inject session without real cookie encryption
+// ---------------------------------------------------------------------------
+let mockSession: MockSession;
+
+vi.mock("../middleware/session", () => ({
+  authGuard: () => {
+    return async (c: { get: (k: string) => unknown; set: (k: string, v: unknown) => void; json: (d: unknown, s: number) => Response }, next: () => Promise<void>) => {
+      c.set("session", mockSession);
+      const userId = mockSession.get("userId");
+      if (!userId) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+      await next();
+    };
+  },
+}));
+
+// ---------------------------------------------------------------------------
+// Import route after mocks are set up
+// ---------------------------------------------------------------------------
+import listenbrainzRoutes from "./listenbrainz";
+
+function createApp() {
+  const app = new Hono();
+  app.route("/api/listenbrainz", listenbrainzRoutes);
+  return app;
+}
+
+/** Helper to make requests with env bindings */
+function request(app: Hono, path: string, init?: RequestInit) {
+  return app.request(path, init, mockEnv);
+}
+
+const tokenUser = { id: mockUser.id, displayName: mockUser.displayName, spotifyId: mockUser.spotifyId };
+
+function submit(app: Hono, body: unknown, token = "secret-token") {
+  return request(app, "/api/listenbrainz/1/submit-listens", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Token ${token}` },
+    body: JSON.stringify(body),
+  });
+}
+
+const listen = {
+  listened_at: 1718447400,
+  track_metadata: {
+    artist_name: "Radiohead",
+    track_name: "Airbag",
+    release_name: "OK Computer",
+    additional_info: { duration_ms: 284000, media_player: "Navidrome" },
+  },
+};
+
+describe("ListenBrainz routes — GET /1/validate-token", () => {
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+    mockDb = createMockDb({ selectData: [tokenUser] });
+  });
+
+  it("reports a known token as valid", async () => {
+    const app = createApp();
+    const res = await request(app, "/api/listenbrainz/1/validate-token", {
+      headers: { Authorization: "Token secret-token" },
+    });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      code: 200,
+      message: "Token valid.",
+      valid: true,
+      user_name: "Test User",
+    });
+  });
+
+  it("accepts the token as a query parameter", async () => {
+    const app = createApp();
+    const res = await request(app, "/api/listenbrainz/1/validate-token?token=secret-token");
+    const body = await res.json();
+    expect(body.valid).toBe(true);
+  });
+
+  it("reports an unknown token as invalid", async () => {
+    mockDb = createMockDb({ selectData: [] });
+    const app = createApp();
+    const res = await request(app, "/api/listenbrainz/1/validate-token?token=nope");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.valid).toBe(false);
+  });
+
+  it("returns 400 without a token", async () => {
+    const app = createApp();
+    const res = await request(app, "/api/listenbrainz/1/validate-token");
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("ListenBrainz routes — POST /1/submit-listens", () => {
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+    mockDb = createMockDb({ selectData: [tokenUser] });
+  });
+
+  it("returns 401 without an Authorization header", async () => {
+    const app = createApp();
+    const res = await request(app, "/api/listenbrainz/1/submit-listens", {
+      method: "POST",
+      body: JSON.stringify({ listen_type: "single", payload: [listen] }),
+    });
+    expect(res.status).toBe(401);
+  });
+
+  it("returns 401 for an unknown token", async () => {
+    mockDb = createMockDb({ selectData: [] });
+    const app = createApp();
+    const res = await submit(app, { listen_type: "single", payload: [listen] });
+    expect(res.status).toBe(401);
+    const body = await res.json();
+    expect(body.code).toBe(401);
+  });
+
+  it("stores a single listen with source listenbrainz", async () => {
+    const app = createApp();
+    const res = await submit(app, { listen_type: "single", payload: [listen] });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ status: "ok" });
+
+    const rows = mockDb._lastInsertChain.values.mock.calls[0][0];
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      userId: mockUser.id,
+      source: "listenbrainz",
+      artistName: "Radiohead",
+      trackName: "Airbag",
+      albumName: "OK Computer",
+      msPlayed: 284000,
+      platform: "Navidrome",
+      playedAt: new Date(1718447400 * 1000),
+      endedAt: new Date((1718447400 + 284) * 1000),
+    });
+    // No Spotify ID from the player — keyed provisionally until resolved
+    expect(rows[0].trackSpotifyId).toMatch(/^provisional:/);
+  });
+
+  it("keeps the Spotify track ID when the client sends one", async () => {
+    const app = createApp();
+    const withSpotify = {
+      listened_at: 1718447400,
+      track_metadata: {
+        artist_name: "Radiohead",
+        track_name: "Airbag",
+        additional_info: { spotify_id: "https://open.spotify.com/track/6QCYTFbeVHK4dfdqL1XSEP" },
+      },
+    };
+    await submit(app, { listen_type: "import", payload: [withSpotify] });
+
+    const rows = mockDb._lastInsertChain.values.mock.calls[0][0];
+    expect(rows[0].trackSpotifyId).toBe("6QCYTFbeVHK4dfdqL1XSEP");
+    // No duration from the client — the default scrobble length is assumed
+    expect(rows[0].msPlayed).toBe(210000);
+  });
+
+  it("acknowledges playing_now without storing it", async () => {
+    const app = createApp();
+    const { listened_at: _, ...nowPlaying } = listen;
+    const res = await submit(app, { listen_type: "playing_now", payload: [nowPlaying] });
+    expect(res.status).toBe(200);
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for an invalid submission", async () => {
+    const app = createApp();
+    const res = await submit(app, { listen_type: "single", payload: [] });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.code).toBe(400);
+  });
+});
+
+describe("ListenBrainz routes — /token", () => {
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+    mockDb = createMockDb();
+  });
+
+  it("returns 401 when not authenticated", async () => {
+    mockSession = { get: vi.fn(() => undefined), set: vi.fn(), deleteSession: vi.fn() };
+    const app = createApp();
+    const res = await request(app, "/api/listenbrainz/token");
+    expect(res.status).toBe(401);
+  });
+
+  it("reports whether a token exists", async () => {
+    mockDb = createMockDb({ selectData: [{ tokenHash: "abc" }] });
+    const app = createApp();
+    const res = await request(app, "/api/listenbrainz/token");
+    expect(await res.json()).toEqual({ data: { enabled: true } });
+  });
+
+  it("generates a token and stores only its hash", async () => {
+    const app = createApp();
+    const res = await request(app, "/api/listenbrainz/token", { method: "POST" });
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.data.token).toMatch(/^[0-9a-f-]{36}$/);
+
+    const set = mockDb._lastUpdateChain.set.mock.calls[0][0];
+    expect(set.listenbrainzTokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(set.listenbrainzTokenHash).not.toBe(body.data.token);
+  });
+
+  it("revokes the token", async () => {
+    const app = createApp();
+    const res = await request(app, "/api/listenbrainz/token", { method: "DELETE" });
+    expect(await res.json()).toEqual({ data: { enabled: false } });
+    expect(mockDb._lastUpdateChain.set.mock.calls[0][0].listenbrainzTokenHash).toBeNull();
+  });
+});
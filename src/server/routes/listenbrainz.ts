@@ -0,0 +1,153 @@
+/**
+ * ListenBrainz-compatible Ingest Routes
+ *
+ * Lets players that are not Spotify (Navidrome, mpd scrobblers, car head
+ * units) send plays into the archive. Clients are configured with
+ * `<origin>/api/listenbrainz` (or `.../1/`) as their ListenBrainz API URL and
+ * the user's token; submitted listens are stored with source "listenbrainz".
+ *
+ * Endpoints (token auth, ListenBrainz response shapes):
+ *   GET  /api/listenbrainz/1/validate-token - Check a token
+ *   POST /api/listenbrainz/1/submit-listens - Submit listens
+ *
+ * Endpoints (session auth):
+ *   GET    /api/listenbrainz/token - Whether the user has a token
+ *   POST   /api/listenbrainz/token - Generate (or rotate) the user's token
+ *   DELETE /api/listenbrainz/token - Revoke the user's token
+ */
+import { Hono } from "hono";
+import { eq } from "drizzle-orm";
+import type { Session } from "hono-sessions";
+import type { Env } from "../types";
+import { createDb } from "../db";
+import { users } from "../db/schema";
+import { authGuard, type SessionData } from "../middleware/session";
+import {
+  findTokenUser,
+  generateListenbrainzToken,
+  hashListenbrainzToken,
+  listenbrainzTokenGuard,
+  tokenFromHeader,
+} from "../middleware/listenbrainz";
+import { insertPlays, transformListens } from "../lib/history-import";
+import { submitListensSchema } from "../../shared/validators/listenbrainz";
+import type {
+  ListenbrainzToken,
+  ListenbrainzTokenStatus,
+} from "../../shared/validators/listenbrainz";
+
+const listenbrainzRoutes = new Hono<{ Bindings: Env }>();
+
+listenbrainzRoutes.use("/1/submit-listens", listenbrainzTokenGuard());
+listenbrainzRoutes.use("/token", authGuard());
+
+// --- ListenBrainz protocol ---
+
+/**
+ * Token check used by clients when the user saves their settings. Like
+ * ListenBrainz, an unknown token is a 200 with `valid: false`.
+ */
+listenbrainzRoutes.get("/1/validate-token", async (c) => {
+  const token = tokenFromHeader(c.req.header("Authorization")) ?? c.req.query("token");
+  if (!token) {
+    return c.json({ code: 400, error: "You need to provide an Authorization token." }, 400);
+  }
+
+  const user = await findTokenUser(createDb(c.env.DATABASE_URL), token);
+  if (!user) {
+    return c.json({ code: 200, message: "Token invalid.", valid: false });
+  }
+
+  return c.json({
+    code: 200,
+    message: "Token valid.",
+    valid: true,
+    user_name: user.displayName ?? user.spotifyId,
+  });
+});
+
+/**
+ * Stores "single" and "import" listens. "playing_now" notifications are
+ * acknowledged but not stored — they are not completed plays. Re-submitted
+ * listens are dropped by the play unique index.
+ */
+listenbrainzRoutes.post("/1/submit-listens", async (c) => {
+  const userId = c.get("listenbrainzUserId");
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ code: 400, error: "Invalid JSON document submitted." }, 400);
+  }
+
+  const parsed = submitListensSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ code: 400, error: parsed.error.issues[0].message }, 400);
+  }
+
+  if (parsed.data.listen_type === "playing_now") {
+    return c.json({ status: "ok" });
+  }
+
+  const db = createDb(c.env.DATABASE_URL);
+  const rows = await transformListens(userId, parsed.data.payload);
+  await insertPlays(db, rows);
+
+  return c.json({ status: "ok" });
+});
+
+// --- Token management ---
+
+listenbrainzRoutes.get("/token", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  const db = createDb(c.env.DATABASE_URL);
+
+  const [user] = await db
+    .select({ tokenHash: users.listenbrainzTokenHash })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  const result: ListenbrainzTokenStatus = { enabled: Boolean(user?.tokenHash) };
+  return c.json({ data: result });
+});
+
+/**
+ * Generates a new token, replacing any existing one (which stops working
+ * immediately). The token is returned only in this response.
+ */
+listenbrainzRoutes.post("/token", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  const db = createDb(c.env.DATABASE_URL);
+  const token = generateListenbrainzToken();
+
+  await db
+    .update(users)
+    .set({ listenbrainzTokenHash: await hashListenbrainzToken(token), updatedAt: new Date() })
+    .where(eq(users.id, userId));
+
+  const result: ListenbrainzToken = { token };
+  return c.json({ data: result }, 201);
+});
+
+listenbrainzRoutes.delete("/token", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  const db = createDb(c.env.DATABASE_URL);
+
+  await db
+    .update(users)
+    .set({ listenbrainzTokenHash: null, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+
+  const result: ListenbrainzTokenStatus = { enabled: false };
+  return c.json({ data: result });
+});
+
+export default listenbrainzRoutes;
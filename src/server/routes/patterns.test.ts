@@ -1,14 +1,17 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, beforeAll } from "vitest";
 import { Hono } from "hono";
 import type { Env } from "../types";
 import { createMockDb, type MockDb } from "../../test/mocks/db";
 import { mockEnv } from "../../test/mocks/hono-context";
+import { createTestDb, TEST_DB_TIMEOUT_MS } from "../../test/pglite";
+import { listeningHistory, users, userTimeZones } from "../db/schema";
 
 // ---------------------------------------------------------------------------
 // Module mocks
 // ---------------------------------------------------------------------------
 
 let mockDb: MockDb;
+let sessionUserId = "test-user-uuid-123";
 
 vi.mock("../db", () => ({
   createDb: vi.fn(() => mockDb),
@@ -19,7 +22,7 @@ vi.mock("../middleware/session", () => ({
     return async (c: any, next: () => Promise<void>) => {
       c.set("session", {
         get: (key: string) => {
-          if (key === "userId") return "test-user-uuid-123";
+          if (key === "userId") return sessionUserId;
           return undefined;
         },
         set: vi.fn(),
@@ -438,6 +441,55 @@ describe("Patterns Routes", () => {
     });
   });
 
+  // =========================================================================
+  // GET /patterns/tempo
+  // =========================================================================
+  describe("GET /tempo", () => {
+    it("returns play counts per tempo bucket", async () => {
+      const rows = [
+        { bpm: 90, playCount: 40 },
+        { bpm: 120, playCount: 75 },
+      ];
+      mockDb = createMockDb({ selectData: rows });
+      const app = createApp();
+
+      const res = await req(app, "/patterns/tempo?year=2024&genre=j-pop");
+      expect(res.status).toBe(200);
+
+      const json = await res.json();
+      expect(json.data).toEqual(rows);
+    });
+
+    it("returns an empty list when no tracks are analysed", async () => {
+      mockDb = createMockDb({ selectData: [] });
+      const app = createApp();
+
+      const res = await req(app, "/patterns/tempo");
+      expect(res.status).toBe(200);
+      expect((await res.json()).data).toEqual([]);
+    });
+  });
+
+  // =========================================================================
+  // GET /patterns/keys
+  // =========================================================================
+  describe("GET /keys", () => {
+    it("returns play counts per key and mode", async () => {
+      const rows = [
+        { key: 0, mode: "major", playCount: 30 },
+        { key: 9, mode: "minor", playCount: 12 },
+      ];
+      mockDb = createMockDb({ selectData: rows });
+      const app = createApp();
+
+      const res = await req(app, "/patterns/keys?artist=Perfume");
+      expect(res.status).toBe(200);
+
+      const json = await res.json();
+      expect(json.data).toEqual(rows);
+    });
+  });
+
   // =========================================================================
   // GET /patterns/time-artists
   // =========================================================================
@@ -587,6 +639,73 @@ describe("Patterns Routes", () => {
     });
   });
 
+  // =========================================================================
+  // GET /patterns/offline
+  // =========================================================================
+  describe("GET /offline", () => {
+    it("returns offline vs online counts and time", async () => {
+      const row = [{ offlinePlays: 120, onlinePlays: 880, total: 1000, offlineMs: 24000000, onlineMs: 176000000 }];
+      mockDb = createMockDb({ selectData: row });
+      const app = createApp();
+
+      const res = await req(app, "/patterns/offline");
+      expect(res.status).toBe(200);
+
+      const json = await res.json();
+      expect(json.data.offlinePlays).toBe(120);
+      expect(json.data.onlinePlays).toBe(880);
+      expect(json.data.offlineMs).toBe(24000000);
+    });
+
+    it("accepts year filter", async () => {
+      const row = [{ offlinePlays: 0, onlinePlays: 10, total: 10, offlineMs: 0, onlineMs: 2000000 }];
+      mockDb = createMockDb({ selectData: row });
+      const app = createApp();
+
+      const res = await req(app, "/patterns/offline?year=2024");
+      expect(res.status).toBe(200);
+    });
+  });
+
+  // =========================================================================
+  // GET /patterns/countries
+  // =========================================================================
+  describe("GET /countries", () => {
+    it("returns country totals and a monthly timeline", async () => {
+      mockSelectSequence([
+        [
+          { country: "JP", count: 900, msPlayed: 180000000 },
+          { country: "DE", count: 100, msPlayed: 20000000 },
+        ],
+        [
+          { month: "2024-07", country: "JP", count: 400 },
+          { month: "2024-08", country: "DE", count: 100 },
+          { month: "2024-08", country: "JP", count: 500 },
+        ],
+      ]);
+      const app = createApp();
+
+      const res = await req(app, "/patterns/countries");
+      expect(res.status).toBe(200);
+
+      const json = await res.json();
+      expect(json.data.countries[0]).toEqual({ country: "JP", count: 900, msPlayed: 180000000 });
+      expect(json.data.timeline).toHaveLength(3);
+      expect(json.data.timeline[1]).toEqual({ month: "2024-08", country: "DE", count: 100 });
+    });
+
+    it("returns empty lists when no country data", async () => {
+      mockSelectSequence([[], []]);
+      const app = createApp();
+
+      const res = await req(app, "/patterns/countries?year=2024");
+      expect(res.status).toBe(200);
+
+      const json = await res.json();
+      expect(json.data).toEqual({ countries: [], timeline: [] });
+    });
+  });
+
   // =========================================================================
   // GET /patterns/artists
   // =========================================================================
@@ -693,3 +812,65 @@ describe("Patterns Routes", () => {
     });
   });
 });
+
+// ---------------------------------------------------------------------------
+// Queries against Postgres
+// ---------------------------------------------------------------------------
+
+describe("Patterns Routes against Postgres", () => {
+  let testDb: MockDb;
+
+  beforeAll(async () => {
+    sessionUserId = "00000000-0000-4000-8000-000000000001";
+    const db = await createTestDb();
+    await db.insert(users).values({ id: sessionUserId, spotifyId: "spotify_user_1", timeZone: "Asia/Tokyo" });
+    await db.insert(userTimeZones).values({
+      userId: sessionUserId,
+      timeZone: "Europe/Berlin",
+      startsAt: new Date("2024-01-01T00:00:00Z"),
+      endsAt: new Date("2024-08-01T00:00:00Z"),
+    });
+    const plays = [
+      { playedAt: "2024-07-31T21:30:00Z", connCountry: "DE" },
+      { playedAt: "2024-08-15T10:00:00Z", connCountry: "JP" },
+      { playedAt: "2024-08-31T20:00:00Z", connCountry: "JP" },
+      { playedAt: "2024-08-16T10:00:00Z", connCountry: null },
+    ];
+    await db.insert(listeningHistory).values(
+      plays.map(({ playedAt, connCountry }, i) => ({
+        userId: sessionUserId,
+        trackSpotifyId: `track${i}`,
+        artistName: "Test Artist",
+        trackName: `Track ${i}`,
+        msPlayed: 180000,
+        playedAt: new Date(playedAt),
+        endedAt: new Date(playedAt),
+        connCountry,
+      })),
+    );
+    testDb = db as unknown as MockDb;
+  }, TEST_DB_TIMEOUT_MS);
+
+  beforeEach(() => {
+    mockDb = testDb;
+  });
+
+  it("GET /countries groups the timeline by each play's local month", async () => {
+    const app = createApp();
+
+    const res = await req(app, "/patterns/countries?year=2024");
+    expect(res.status).toBe(200);
+
+    const json = await res.json();
+    expect(json.data.countries).toEqual([
+      { country: "JP", count: 2, msPlayed: 360000 },
+      { country: "DE", count: 1, msPlayed: 180000 },
+    ]);
+    // 23:30 in Berlin is still July; 20:00 UTC is already September in Tokyo
+    expect(json.data.timeline).toEqual([
+      { month: "2024-07", country: "DE", count: 1 },
+      { month: "2024-08", country: "JP", count: 1 },
+      { month: "2024-09", country: "JP", count: 1 },
+    ]);
+  });
+});
@@ -11,17 +11,39 @@
  *   GET /api/patterns/monthly  - Play counts bucketed by month (Jan-Dec)
  *   GET /api/patterns/overview - Composite insights: peak hour, busiest day,
  *                                favorite season, listener type, available years
+ *   GET /api/patterns/tempo    - Play counts bucketed by track tempo (BPM)
+ *   GET /api/patterns/keys     - Play counts by track key and mode
  *
- * All endpoints support optional ?year= and ?artist= query filters.
+ * The hourly, weekly, monthly, overview, tempo and keys endpoints support
+ * optional ?year=, ?artist=, ?album= and ?genre= query filters.
+ * Hours, weekdays, months, and years are on the user's local wall clock
+ * (see lib/local-time.ts).
  * All routes require authentication.
  */
 import { Hono } from "hono";
-import { sql, eq, and, ilike } from "drizzle-orm";
+import { sql, and, ilike, isNotNull } from "drizzle-orm";
 import type { Session } from "hono-sessions";
 import type { Env } from "../types";
 import { authGuard, type SessionData } from "../middleware/session";
 import { createDb } from "../db";
-import { listeningHistory } from "../db/schema";
+import {
+  artistAliases,
+  listeningHistory,
+  trackAudioFeatures,
+  trackMerges,
+} from "../db/schema";
+import { musicPlays } from "../lib/plays";
+import { aliasJoin, artistIdentity, byArtist } from "../lib/artist-aliases";
+import { byGenre } from "../lib/genres";
+import { mergeJoin } from "../lib/canonical-tracks";
+import { featureJoin } from "../lib/audio-features";
+import {
+  TEMPO_BUCKET_BPM,
+  type KeyCount,
+  type KeyMode,
+  type TempoBucket,
+} from "../../shared/validators/audio-features";
+import { localPlayedAt } from "../lib/local-time";
 
 const patterns = new Hono<{ Bindings: Env }>();
 
@@ -30,26 +52,28 @@ patterns.use("*", authGuard());
 /**
  * Shared WHERE clause builder for all pattern endpoints.
  * Always scopes to the authenticated user; optionally filters by
- * year (via EXTRACT) and/or artist name (case-insensitive match).
+ * local year (via EXTRACT), artist (any name aliased to it), album, and
+ * genre (see lib/genres.ts).
  */
 function buildWhere(
   userId: string,
   year?: string,
   artist?: string,
   album?: string,
+  genre?: string,
 ) {
   const lh = listeningHistory;
-  const conditions = [eq(lh.userId, userId)];
+  const conditions = [musicPlays(userId)];
 
   if (year) {
     conditions.push(
-      sql`EXTRACT(YEAR FROM ${lh.playedAt}) = ${Number(year)}`,
+      sql`EXTRACT(YEAR FROM ${localPlayedAt()}) = ${Number(year)}`,
     );
   }
 
   if (artist) {
-    // Case-insensitive exact match so partial names don't bleed in
-    conditions.push(ilike(lh.artistName, artist));
+    // Exact match on the resolved artist, so every alias counts
+    conditions.push(byArtist(artist));
   }
 
   if (album) {
@@ -57,13 +81,17 @@ function buildWhere(
     conditions.push(ilike(lh.albumName, album));
   }
 
+  if (genre) {
+    conditions.push(byGenre(genre));
+  }
+
   return conditions.length === 1 ? conditions[0] : and(...conditions)!;
 }
 
 /**
  * GET /hourly — Play distribution across 24 hours.
  *
- * Uses EXTRACT(HOUR FROM playedAt) to bucket plays by hour.
+ * Uses EXTRACT(HOUR FROM <local start time>) to bucket plays by hour.
  * Missing hours are zero-filled on the server so the frontend always
  * receives a complete 0-23 array (simplifies chart rendering).
  */
@@ -73,21 +101,23 @@ patterns.get("/hourly", async (c) => {
   const year = c.req.query("year");
   const artist = c.req.query("artist");
   const album = c.req.query("album");
+  const genre = c.req.query("genre");
 
   const db = createDb(c.env.DATABASE_URL);
   const lh = listeningHistory;
-  const where = buildWhere(userId, year, artist, album);
+  const local = localPlayedAt();
+  const where = buildWhere(userId, year, artist, album, genre);
 
   const rows = await db
     .select({
-      hour: sql<number>`EXTRACT(HOUR FROM ${lh.playedAt})`.mapWith(Number),
+      hour: sql<number>`EXTRACT(HOUR FROM ${local})`.mapWith(Number),
       count: sql<number>`count(*)`.mapWith(Number),
       msPlayed: sql<number>`coalesce(sum(${lh.msPlayed}), 0)`.mapWith(Number),
     })
     .from(lh)
     .where(where)
-    .groupBy(sql`EXTRACT(HOUR FROM ${lh.playedAt})`)
-    .orderBy(sql`EXTRACT(HOUR FROM ${lh.playedAt})`);
+    .groupBy(sql`EXTRACT(HOUR FROM ${local})`)
+    .orderBy(sql`EXTRACT(HOUR FROM ${local})`);
 
   // Zero-fill: SQL only returns hours that have data; pad the gaps so
   // the client always gets exactly 24 entries (index = hour)
@@ -114,23 +144,25 @@ patterns.get("/weekly", async (c) => {
   const year = c.req.query("year");
   const artist = c.req.query("artist");
   const album = c.req.query("album");
+  const genre = c.req.query("genre");
 
   const db = createDb(c.env.DATABASE_URL);
   const lh = listeningHistory;
-  const where = buildWhere(userId, year, artist, album);
+  const local = localPlayedAt();
+  const where = buildWhere(userId, year, artist, album, genre);
 
   const dayNames = ["日", "月", "火", "水", "木", "金", "土"];
 
   const rows = await db
     .select({
-      day: sql<number>`EXTRACT(DOW FROM ${lh.playedAt})`.mapWith(Number),
+      day: sql<number>`EXTRACT(DOW FROM ${local})`.mapWith(Number),
       count: sql<number>`count(*)`.mapWith(Number),
       msPlayed: sql<number>`coalesce(sum(${lh.msPlayed}), 0)`.mapWith(Number),
     })
     .from(lh)
     .where(where)
-    .groupBy(sql`EXTRACT(DOW FROM ${lh.playedAt})`)
-    .orderBy(sql`EXTRACT(DOW FROM ${lh.playedAt})`);
+    .groupBy(sql`EXTRACT(DOW FROM ${local})`)
+    .orderBy(sql`EXTRACT(DOW FROM ${local})`);
 
   const dayMap = new Map(rows.map((r) => [r.day, r]));
   const data = Array.from({ length: 7 }, (_, i) => ({
@@ -155,10 +187,12 @@ patterns.get("/monthly", async (c) => {
   const year = c.req.query("year");
   const artist = c.req.query("artist");
   const album = c.req.query("album");
+  const genre = c.req.query("genre");
 
   const db = createDb(c.env.DATABASE_URL);
   const lh = listeningHistory;
-  const where = buildWhere(userId, year, artist, album);
+  const local = localPlayedAt();
+  const where = buildWhere(userId, year, artist, album, genre);
 
   const monthNames = [
     "1月", "2月", "3月", "4月", "5月", "6月",
@@ -167,14 +201,14 @@ patterns.get("/monthly", async (c) => {
 
   const rows = await db
     .select({
-      month: sql<number>`EXTRACT(MONTH FROM ${lh.playedAt})`.mapWith(Number),
+      month: sql<number>`EXTRACT(MONTH FROM ${local})`.mapWith(Number),
       count: sql<number>`count(*)`.mapWith(Number),
       msPlayed: sql<number>`coalesce(sum(${lh.msPlayed}), 0)`.mapWith(Number),
     })
     .from(lh)
     .where(where)
-    .groupBy(sql`EXTRACT(MONTH FROM ${lh.playedAt})`)
-    .orderBy(sql`EXTRACT(MONTH FROM ${lh.playedAt})`);
+    .groupBy(sql`EXTRACT(MONTH FROM ${local})`)
+    .orderBy(sql`EXTRACT(MONTH FROM ${local})`);
 
   // Zero-fill: EXTRACT(MONTH) is 1-based, so map index i -> month i+1
   const monthMap = new Map(rows.map((r) => [r.month, r]));
@@ -188,6 +222,82 @@ patterns.get("/monthly", async (c) => {
   return c.json({ data });
 });
 
+/**
+ * GET /tempo — Play distribution across tempo buckets TEMPO_BUCKET_BPM wide.
+ *
+ * Each play takes its canonical track's stored tempo (see
+ * lib/audio-features.ts); plays of tracks not yet analysed are left out.
+ * Only buckets with plays are returned, slowest first.
+ */
+patterns.get("/tempo", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const year = c.req.query("year");
+  const artist = c.req.query("artist");
+  const album = c.req.query("album");
+  const genre = c.req.query("genre");
+
+  const db = createDb(c.env.DATABASE_URL);
+  const taf = trackAudioFeatures;
+  // Inlined rather than bound, so the GROUP BY expression matches the SELECT
+  const width = sql.raw(String(TEMPO_BUCKET_BPM));
+  const bucket = sql<number>`floor(${taf.bpm} / ${width}) * ${width}`;
+
+  const data: TempoBucket[] = await db
+    .select({
+      bpm: bucket.mapWith(Number),
+      playCount: sql<number>`count(*)`.mapWith(Number),
+    })
+    .from(listeningHistory)
+    .leftJoin(trackMerges, mergeJoin())
+    .innerJoin(taf, featureJoin())
+    .where(and(buildWhere(userId, year, artist, album, genre), isNotNull(taf.bpm)))
+    .groupBy(bucket)
+    .orderBy(bucket);
+
+  return c.json({ data });
+});
+
+/**
+ * GET /keys — Play counts per key and mode, from each play's canonical
+ * track's stored key. Plays of tracks without a known key are left out.
+ * Ordered by key (C first), major before minor.
+ */
+patterns.get("/keys", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const year = c.req.query("year");
+  const artist = c.req.query("artist");
+  const album = c.req.query("album");
+  const genre = c.req.query("genre");
+
+  const db = createDb(c.env.DATABASE_URL);
+  const taf = trackAudioFeatures;
+
+  const rows = await db
+    .select({
+      key: taf.key,
+      mode: taf.mode,
+      playCount: sql<number>`count(*)`.mapWith(Number),
+    })
+    .from(listeningHistory)
+    .leftJoin(trackMerges, mergeJoin())
+    .innerJoin(taf, featureJoin())
+    .where(
+      and(buildWhere(userId, year, artist, album, genre), isNotNull(taf.key), isNotNull(taf.mode)),
+    )
+    .groupBy(taf.key, taf.mode)
+    .orderBy(taf.key, taf.mode);
+
+  const data: KeyCount[] = rows.map((r) => ({
+    key: r.key!,
+    mode: r.mode as KeyMode,
+    playCount: r.playCount,
+  }));
+
+  return c.json({ data });
+});
+
 /**
  * GET /overview — Composite listening personality insights.
  *
@@ -205,20 +315,22 @@ patterns.get("/overview", async (c) => {
   const year = c.req.query("year");
   const artist = c.req.query("artist");
   const album = c.req.query("album");
+  const genre = c.req.query("genre");
 
   const db = createDb(c.env.DATABASE_URL);
   const lh = listeningHistory;
-  const where = buildWhere(userId, year, artist, album);
+  const local = localPlayedAt();
+  const where = buildWhere(userId, year, artist, album, genre);
 
   // --- Peak hour: the hour of day with the highest play count ---
   const hourRows = await db
     .select({
-      hour: sql<number>`EXTRACT(HOUR FROM ${lh.playedAt})`.mapWith(Number),
+      hour: sql<number>`EXTRACT(HOUR FROM ${local})`.mapWith(Number),
       count: sql<number>`count(*)`.mapWith(Number),
     })
     .from(lh)
     .where(where)
-    .groupBy(sql`EXTRACT(HOUR FROM ${lh.playedAt})`)
+    .groupBy(sql`EXTRACT(HOUR FROM ${local})`)
     .orderBy(sql`count(*) DESC`)
     .limit(1);
 
@@ -247,12 +359,12 @@ patterns.get("/overview", async (c) => {
   // --- Busiest day of week ---
   const dayRows = await db
     .select({
-      day: sql<number>`EXTRACT(DOW FROM ${lh.playedAt})`.mapWith(Number),
+      day: sql<number>`EXTRACT(DOW FROM ${local})`.mapWith(Number),
       count: sql<number>`count(*)`.mapWith(Number),
     })
     .from(lh)
     .where(where)
-    .groupBy(sql`EXTRACT(DOW FROM ${lh.playedAt})`)
+    .groupBy(sql`EXTRACT(DOW FROM ${local})`)
     .orderBy(sql`count(*) DESC`)
     .limit(1);
 
@@ -266,12 +378,12 @@ patterns.get("/overview", async (c) => {
   // convention: spring = Mar-May, summer = Jun-Aug, autumn = Sep-Nov, winter = Dec-Feb
   const monthRows = await db
     .select({
-      month: sql<number>`EXTRACT(MONTH FROM ${lh.playedAt})`.mapWith(Number),
+      month: sql<number>`EXTRACT(MONTH FROM ${local})`.mapWith(Number),
       count: sql<number>`count(*)`.mapWith(Number),
     })
     .from(lh)
     .where(where)
-    .groupBy(sql`EXTRACT(MONTH FROM ${lh.playedAt})`);
+    .groupBy(sql`EXTRACT(MONTH FROM ${local})`);
 
   const seasonMap: Record<string, number> = {
     "春": 0, "夏": 0, "秋": 0, "冬": 0,
@@ -315,12 +427,12 @@ patterns.get("/overview", async (c) => {
   // always shows all years the user has data for
   const yearRows = await db
     .select({
-      year: sql<number>`EXTRACT(YEAR FROM ${lh.playedAt})`.mapWith(Number),
+      year: sql<number>`EXTRACT(YEAR FROM ${local})`.mapWith(Number),
     })
     .from(lh)
-    .where(eq(lh.userId, userId))
-    .groupBy(sql`EXTRACT(YEAR FROM ${lh.playedAt})`)
-    .orderBy(sql`EXTRACT(YEAR FROM ${lh.playedAt}) DESC`);
+    .where(musicPlays(userId))
+    .groupBy(sql`EXTRACT(YEAR FROM ${local})`)
+    .orderBy(sql`EXTRACT(YEAR FROM ${local}) DESC`);
 
   return c.json({
     data: {
@@ -351,6 +463,7 @@ patterns.get("/time-artists", async (c) => {
 
   const db = createDb(c.env.DATABASE_URL);
   const lh = listeningHistory;
+  const local = localPlayedAt();
 
   const periods = [
     { name: "night", label: "深夜の相棒", hours: [22, 23, 0, 1, 2, 3] },
@@ -368,16 +481,16 @@ patterns.get("/time-artists", async (c) => {
   > = {};
 
   for (const period of periods) {
-    const conditions = [eq(lh.userId, userId)];
+    const conditions = [musicPlays(userId)];
 
     if (year) {
       conditions.push(
-        sql`EXTRACT(YEAR FROM ${lh.playedAt}) = ${Number(year)}`,
+        sql`EXTRACT(YEAR FROM ${local}) = ${Number(year)}`,
       );
     }
 
     // Filter to the hours belonging to this time period
-    const hourCondition = sql`EXTRACT(HOUR FROM ${lh.playedAt}) IN (${sql.join(
+    const hourCondition = sql`EXTRACT(HOUR FROM ${local}) IN (${sql.join(
       period.hours.map((h) => sql`${h}`),
       sql`, `,
     )})`;
@@ -385,13 +498,14 @@ patterns.get("/time-artists", async (c) => {
 
     const artists = await db
       .select({
-        artistName: lh.artistName,
+        artistName: artistIdentity(),
         playCount: sql<number>`count(*)`.mapWith(Number),
         msPlayed: sql<number>`coalesce(sum(${lh.msPlayed}), 0)`.mapWith(Number),
       })
       .from(lh)
+      .leftJoin(artistAliases, aliasJoin())
       .where(and(...conditions))
-      .groupBy(lh.artistName)
+      .groupBy(artistIdentity())
       .orderBy(sql`count(*) DESC`)
       .limit(5);
 
@@ -414,12 +528,13 @@ patterns.get("/devices", async (c) => {
 
   const db = createDb(c.env.DATABASE_URL);
   const lh = listeningHistory;
+  const local = localPlayedAt();
 
-  const conditions = [eq(lh.userId, userId), sql`${lh.platform} IS NOT NULL`];
+  const conditions = [musicPlays(userId), sql`${lh.platform} IS NOT NULL`];
 
   if (year) {
     conditions.push(
-      sql`EXTRACT(YEAR FROM ${lh.playedAt}) = ${Number(year)}`,
+      sql`EXTRACT(YEAR FROM ${local}) = ${Number(year)}`,
     );
   }
 
@@ -450,12 +565,13 @@ patterns.get("/shuffle", async (c) => {
 
   const db = createDb(c.env.DATABASE_URL);
   const lh = listeningHistory;
+  const local = localPlayedAt();
 
-  const conditions = [eq(lh.userId, userId)];
+  const conditions = [musicPlays(userId)];
 
   if (year) {
     conditions.push(
-      sql`EXTRACT(YEAR FROM ${lh.playedAt}) = ${Number(year)}`,
+      sql`EXTRACT(YEAR FROM ${local}) = ${Number(year)}`,
     );
   }
 
@@ -473,6 +589,98 @@ patterns.get("/shuffle", async (c) => {
   return c.json({ data: row });
 });
 
+/**
+ * GET /offline — Offline vs online listening.
+ *
+ * Counts plays and listening time by the export's `offline` flag. Plays
+ * without the flag (Last.fm, scrobbles, older exports) are left out of
+ * `total`. Supports optional ?year= query filter.
+ */
+patterns.get("/offline", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const year = c.req.query("year");
+
+  const db = createDb(c.env.DATABASE_URL);
+  const lh = listeningHistory;
+  const local = localPlayedAt();
+
+  const conditions = [musicPlays(userId)];
+
+  if (year) {
+    conditions.push(
+      sql`EXTRACT(YEAR FROM ${local}) = ${Number(year)}`,
+    );
+  }
+
+  const where = conditions.length === 1 ? conditions[0] : and(...conditions)!;
+
+  const [row] = await db
+    .select({
+      offlinePlays: sql<number>`count(*) FILTER (WHERE ${lh.offline} = true)`.mapWith(Number),
+      onlinePlays: sql<number>`count(*) FILTER (WHERE ${lh.offline} = false)`.mapWith(Number),
+      total: sql<number>`count(*) FILTER (WHERE ${lh.offline} IS NOT NULL)`.mapWith(Number),
+      offlineMs: sql<number>`coalesce(sum(${lh.msPlayed}) FILTER (WHERE ${lh.offline} = true), 0)`.mapWith(Number),
+      onlineMs: sql<number>`coalesce(sum(${lh.msPlayed}) FILTER (WHERE ${lh.offline} = false), 0)`.mapWith(Number),
+    })
+    .from(lh)
+    .where(where);
+
+  return c.json({ data: row });
+});
+
+/**
+ * GET /countries — Where the user listened, month by month.
+ *
+ * Returns per-country totals (most played first) and a timeline of plays
+ * per local month and connection country, for charting travel and moves.
+ * Plays without a known country are left out. Supports optional ?year=.
+ */
+patterns.get("/countries", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const year = c.req.query("year");
+
+  const db = createDb(c.env.DATABASE_URL);
+  const lh = listeningHistory;
+  const local = localPlayedAt();
+  const localMonth = sql`to_char(${local}, 'YYYY-MM')`;
+
+  const conditions = [musicPlays(userId), sql`${lh.connCountry} IS NOT NULL`];
+
+  if (year) {
+    conditions.push(
+      sql`EXTRACT(YEAR FROM ${local}) = ${Number(year)}`,
+    );
+  }
+
+  const where = and(...conditions)!;
+
+  const countries = await db
+    .select({
+      country: sql<string>`${lh.connCountry}`,
+      count: sql<number>`count(*)`.mapWith(Number),
+      msPlayed: sql<number>`coalesce(sum(${lh.msPlayed}), 0)`.mapWith(Number),
+    })
+    .from(lh)
+    .where(where)
+    .groupBy(lh.connCountry)
+    .orderBy(sql`count(*) DESC`);
+
+  const timeline = await db
+    .select({
+      month: sql<string>`${localMonth}`,
+      country: sql<string>`${lh.connCountry}`,
+      count: sql<number>`count(*)`.mapWith(Number),
+    })
+    .from(lh)
+    .where(where)
+    .groupBy(localMonth, lh.connCountry)
+    .orderBy(localMonth, sql`count(*) DESC`);
+
+  return c.json({ data: { countries, timeline } });
+});
+
 /**
  * GET /artists — Distinct artist names from the user's listening history.
  *
@@ -490,12 +698,13 @@ patterns.get("/artists", async (c) => {
 
   const rows = await db
     .select({
-      artistName: lh.artistName,
+      artistName: artistIdentity(),
       playCount: sql<number>`count(*)`.mapWith(Number),
     })
     .from(lh)
+    .leftJoin(artistAliases, aliasJoin())
     .where(where)
-    .groupBy(lh.artistName)
+    .groupBy(artistIdentity())
     .orderBy(sql`count(*) DESC`);
 
   return c.json({ data: rows.map((r) => r.artistName) });
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { createMockDb, type MockDb } from "../../test/mocks/db";
+import { createAuthenticatedSession, type MockSession } from "../../test/mocks/session";
+import { mockEnv } from "../../test/mocks/hono-context";
+
+// ---------------------------------------------------------------------------
+// Mock createDb so the route uses our mock DB
+// ---------------------------------------------------------------------------
+let mockDb: MockDb;
+
+vi.mock("../db", () => ({
+  createDb: vi.fn(() => mockDb),
+}));
+
+// ---------------------------------------------------------------------------
+// Mock authGuard to inject session without real cookie encryption
+// ---------------------------------------------------------------------------
+let mockSession: MockSession;
+
+vi.mock("../middleware/session", () => ({
+  authGuard: () => {
+    return async (c: { get: (k: string) => unknown; set: (k: string, v: unknown) => void; json: (d: unknown, s: number) => Response }, next: () => Promise<void>) => {
+      c.set("session", mockSession);
+      const userId = mockSession.get("userId");
+      if (!userId) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+      await next();
+    };
+  },
+}));
+
+// ---------------------------------------------------------------------------
+// Import route after mocks are set up
+// ---------------------------------------------------------------------------
+import settingsRoutes from "./settings";
+
+function createApp() {
+  const app = new Hono();
+  app.route("/api/settings", settingsRoutes);
+  return app;
+}
+
+/** Helper to make requests with env bindings */
+function request(app: Hono, path: string, init?: RequestInit) {
+  return app.request(path, init, mockEnv);
+}
+
+function jsonBody(method: string, body: unknown): RequestInit {
+  return { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) };
+}
+
+/** Chain for delete — resolves with the given row count */
+function createDeleteChain(rowCount: number) {
+  const chain: Record<string, unknown> = {
+    where: vi.fn(() => chain),
+    then: (resolve?: (v: unknown) => unknown) => Promise.resolve({ rowCount }).then(resolve),
+  };
+  return chain;
+}
+
+const berlinRow = {
+  id: 3,
+  userId: "test-user-uuid-123",
+  timeZone: "Europe/Berlin",
+  startsAt: new Date("2019-04-01T00:00:00Z"),
+  endsAt: new Date("2021-09-01T00:00:00Z"),
+};
+
+describe("Settings routes — time zone", () => {
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+    mockDb = createMockDb();
+  });
+
+  it("returns 401 when not authenticated", async () => {
+    mockSession = { get: vi.fn(() => undefined), set: vi.fn(), deleteSession: vi.fn() };
+    const app = createApp();
+    const res = await request(app, "/api/settings/time-zone");
+    expect(res.status).toBe(401);
+  });
+
+  it("returns the current zone and past periods as inclusive dates", async () => {
+    const selects = [[{ timeZone: "Asia/Tokyo" }], [berlinRow]];
+    mockDb.select = vi.fn(() => createMockDb({ selectData: selects.shift() }).select());
+    const app = createApp();
+    const res = await request(app, "/api/settings/time-zone");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data).toEqual({
+      timeZone: "Asia/Tokyo",
+      history: [{ id: 3, timeZone: "Europe/Berlin", from: "2019-04-01", to: "2021-08-31" }],
+    });
+  });
+
+  it("updates the current zone", async () => {
+    const app = createApp();
+    const res = await request(app, "/api/settings/time-zone", jsonBody("PUT", { timeZone: "Asia/Tokyo" }));
+    expect(res.status).toBe(200);
+    expect(mockDb._lastUpdateChain.set).toHaveBeenCalledWith(
+      expect.objectContaining({ timeZone: "Asia/Tokyo" }),
+    );
+  });
+
+  it("rejects an unknown zone", async () => {
+    const app = createApp();
+    const res = await request(app, "/api/settings/time-zone", jsonBody("PUT", { timeZone: "Mars/Base" }));
+    expect(res.status).toBe(400);
+    expect(mockDb.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("Settings routes — time zone history", () => {
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+    mockDb = createMockDb();
+  });
+
+  it("stores a period as a UTC range ending the day after `to`", async () => {
+    mockDb = createMockDb({ insertData: [berlinRow] });
+    const app = createApp();
+    const res = await request(
+      app,
+      "/api/settings/time-zone/history",
+      jsonBody("POST", { timeZone: "Europe/Berlin", from: "2019-04-01", to: "2021-08-31" }),
+    );
+    expect(res.status).toBe(201);
+    expect(mockDb._lastInsertChain.values).toHaveBeenCalledWith({
+      userId: "test-user-uuid-123",
+      timeZone: "Europe/Berlin",
+      startsAt: new Date("2019-04-01T00:00:00Z"),
+      endsAt: new Date("2021-09-01T00:00:00Z"),
+    });
+    const body = await res.json();
+    expect(body.data.to).toBe("2021-08-31");
+  });
+
+  it("returns 409 when the period overlaps an existing one", async () => {
+    mockDb = createMockDb({ selectData: [{ id: 3 }] });
+    const app = createApp();
+    const res = await request(
+      app,
+      "/api/settings/time-zone/history",
+      jsonBody("POST", { timeZone: "Europe/Paris", from: "2020-01-01", to: "2020-12-31" }),
+    );
+    expect(res.status).toBe(409);
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+
+  it("returns 400 for a period that ends before it starts", async () => {
+    const app = createApp();
+    const res = await request(
+      app,
+      "/api/settings/time-zone/history",
+      jsonBody("POST", { timeZone: "Europe/Berlin", from: "2021-01-01", to: "2020-01-01" }),
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("deletes a period", async () => {
+    mockDb.delete = vi.fn(() => createDeleteChain(1));
+    const app = createApp();
+    const res = await request(app, "/api/settings/time-zone/history/3", { method: "DELETE" });
+    expect(res.status).toBe(200);
+  });
+
+  it("returns 404 for another user's or a missing period", async () => {
+    mockDb.delete = vi.fn(() => createDeleteChain(0));
+    const app = createApp();
+    const res = await request(app, "/api/settings/time-zone/history/99", { method: "DELETE" });
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("Settings routes — listen threshold", () => {
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+    mockDb = createMockDb();
+  });
+
+  it("returns the saved threshold", async () => {
+    mockDb = createMockDb({ selectData: [{ minPlayMs: 10_000 }] });
+    const app = createApp();
+    const res = await request(app, "/api/settings/listen-threshold");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data).toEqual({ minPlayMs: 10_000 });
+  });
+
+  it("falls back to 30 seconds when the user row is missing", async () => {
+    const app = createApp();
+    const res = await request(app, "/api/settings/listen-threshold");
+    const body = await res.json();
+    expect(body.data).toEqual({ minPlayMs: 30_000 });
+  });
+
+  it("updates the threshold", async () => {
+    const app = createApp();
+    const res = await request(app, "/api/settings/listen-threshold", jsonBody("PUT", { minPlayMs: 0 }));
+    expect(res.status).toBe(200);
+    expect(mockDb._lastUpdateChain.set).toHaveBeenCalledWith(
+      expect.objectContaining({ minPlayMs: 0 }),
+    );
+  });
+
+  it("rejects a negative or fractional threshold", async () => {
+    const app = createApp();
+    for (const minPlayMs of [-1, 1.5, "30000"]) {
+      const res = await request(app, "/api/settings/listen-threshold", jsonBody("PUT", { minPlayMs }));
+      expect(res.status).toBe(400);
+    }
+    expect(mockDb.update).not.toHaveBeenCalled();
+  });
+});
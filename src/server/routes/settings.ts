@@ -0,0 +1,214 @@
+/**
+ * Settings Routes — per-user preferences.
+ *
+ * Endpoints:
+ *   GET    /api/settings/time-zone             - Current zone and past periods
+ *   PUT    /api/settings/time-zone             - Set the current zone
+ *   POST   /api/settings/time-zone/history     - Add a past period in another zone
+ *   DELETE /api/settings/time-zone/history/:id - Remove a past period
+ *   GET    /api/settings/listen-threshold      - Shortest play that counts as a listen
+ *   PUT    /api/settings/listen-threshold      - Change it
+ *
+ * The time zone decides how day, hour, and month stats are bucketed (see
+ * lib/local-time.ts). Past periods are entered as inclusive dates and stored
+ * as UTC ranges [from 00:00, day after `to` 00:00).
+ *
+ * The listen threshold is applied when stats are queried (see lib/plays.ts),
+ * so a new value takes effect immediately for all stored plays.
+ *
+ * All routes require authentication.
+ */
+import { Hono } from "hono";
+import { and, asc, eq, gt, lt } from "drizzle-orm";
+import type { Session } from "hono-sessions";
+import type { Env } from "../types";
+import { createDb } from "../db";
+import { users, userTimeZones } from "../db/schema";
+import { authGuard, type SessionData } from "../middleware/session";
+import {
+  DEFAULT_MIN_PLAY_MS,
+  timeZonePeriodSchema,
+  updateListenThresholdSchema,
+  updateTimeZoneSchema,
+  type ListenThreshold,
+  type TimeZonePeriod,
+  type TimeZoneSettings,
+} from "../../shared/validators/settings";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const settingsRoutes = new Hono<{ Bindings: Env }>();
+
+settingsRoutes.use("*", authGuard());
+
+// Stored range -> the inclusive dates the user entered
+function toPeriod(row: typeof userTimeZones.$inferSelect): TimeZonePeriod {
+  return {
+    id: row.id,
+    timeZone: row.timeZone,
+    from: row.startsAt.toISOString().slice(0, 10),
+    to: new Date(row.endsAt.getTime() - DAY_MS).toISOString().slice(0, 10),
+  };
+}
+
+settingsRoutes.get("/time-zone", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const db = createDb(c.env.DATABASE_URL);
+
+  const [user] = await db
+    .select({ timeZone: users.timeZone })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  const history = await db
+    .select()
+    .from(userTimeZones)
+    .where(eq(userTimeZones.userId, userId))
+    .orderBy(asc(userTimeZones.startsAt));
+
+  const result: TimeZoneSettings = {
+    timeZone: user?.timeZone ?? "UTC",
+    history: history.map(toPeriod),
+  };
+  return c.json({ data: result });
+});
+
+settingsRoutes.put("/time-zone", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const parsed = updateTimeZoneSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: parsed.error.issues[0].message }, 400);
+  }
+
+  const db = createDb(c.env.DATABASE_URL);
+  await db
+    .update(users)
+    .set({ timeZone: parsed.data.timeZone, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+
+  return c.json({ data: { timeZone: parsed.data.timeZone } });
+});
+
+/**
+ * Adds a past period. Periods of one user may not overlap — a play must
+ * belong to exactly one zone — so an overlapping period is a 409.
+ */
+settingsRoutes.post("/time-zone/history", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const parsed = timeZonePeriodSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: parsed.error.issues[0].message }, 400);
+  }
+
+  const { timeZone, from, to } = parsed.data;
+  const startsAt = new Date(`${from}T00:00:00Z`);
+  const endsAt = new Date(new Date(`${to}T00:00:00Z`).getTime() + DAY_MS);
+  const db = createDb(c.env.DATABASE_URL);
+
+  const overlapping = await db
+    .select({ id: userTimeZones.id })
+    .from(userTimeZones)
+    .where(
+      and(
+        eq(userTimeZones.userId, userId),
+        lt(userTimeZones.startsAt, endsAt),
+        gt(userTimeZones.endsAt, startsAt),
+      ),
+    )
+    .limit(1);
+
+  if (overlapping.length > 0) {
+    return c.json({ error: "Period overlaps an existing one" }, 409);
+  }
+
+  const [row] = await db
+    .insert(userTimeZones)
+    .values({ userId, timeZone, startsAt, endsAt })
+    .returning();
+
+  return c.json({ data: toPeriod(row) }, 201);
+});
+
+settingsRoutes.delete("/time-zone/history/:id", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const id = Number(c.req.param("id"));
+
+  if (!Number.isInteger(id)) {
+    return c.json({ error: "Invalid id" }, 400);
+  }
+
+  const db = createDb(c.env.DATABASE_URL);
+  const result = await db
+    .delete(userTimeZones)
+    .where(and(eq(userTimeZones.id, id), eq(userTimeZones.userId, userId)));
+
+  if (result.rowCount === 0) {
+    return c.json({ error: "Period not found" }, 404);
+  }
+
+  return c.json({ data: { deleted: true } });
+});
+
+settingsRoutes.get("/listen-threshold", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const db = createDb(c.env.DATABASE_URL);
+
+  const [user] = await db
+    .select({ minPlayMs: users.minPlayMs })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  const result: ListenThreshold = { minPlayMs: user?.minPlayMs ?? DEFAULT_MIN_PLAY_MS };
+  return c.json({ data: result });
+});
+
+settingsRoutes.put("/listen-threshold", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const parsed = updateListenThresholdSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: parsed.error.issues[0].message }, 400);
+  }
+
+  const db = createDb(c.env.DATABASE_URL);
+  await db
+    .update(users)
+    .set({ minPlayMs: parsed.data.minPlayMs, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+
+  const result: ListenThreshold = { minPlayMs: parsed.data.minPlayMs };
+  return c.json({ data: result });
+});
+
+export default settingsRoutes;
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Hono } from "hono";
+import { createMockDb, type MockDb } from "../../test/mocks/db";
+import { createAuthenticatedSession, type MockSession } from "../../test/mocks/session";
+import { mockEnv } from "../../test/mocks/hono-context";
+
+// ---------------------------------------------------------------------------
+// Mock createDb so the route uses our mock DB
+// ---------------------------------------------------------------------------
+let mockDb: MockDb;
+
+vi.mock("../db", () => ({
+  createDb: vi.fn(() => mockDb),
+}));
+
+// ---------------------------------------------------------------------------
+// Mock authGuard to inject session without real cookie encryption
+// ---------------------------------------------------------------------------
+let mockSession: MockSession;
+
+vi.mock("../middleware/session", () => ({
+  authGuard: () => {
+    return async (c: { get: (k: string) => unknown; set: (k: string, v: unknown) => void; json: (d: unknown, s: number) => Response }, next: () => Promise<void>) => {
+      c.set("session", mockSession);
+      const userId = mockSession.get("userId");
+      if (!userId) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+      await next();
+    };
+  },
+}));
+
+// ---------------------------------------------------------------------------
+// Import route after mocks are set up
+// ---------------------------------------------------------------------------
+import showsRoutes from "./shows";
+
+function createApp() {
+  const app = new Hono();
+  app.route("/api/shows", showsRoutes);
+  return app;
+}
+
+/** Helper to make requests with env bindings */
+function request(app: Hono, path: string, init?: RequestInit) {
+  return app.request(path, init, mockEnv);
+}
+
+describe("Shows routes — GET /api/shows", () => {
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+    mockDb = createMockDb();
+  });
+
+  it("returns 401 when not authenticated", async () => {
+    mockSession = { get: vi.fn(() => undefined), set: vi.fn(), deleteSession: vi.fn() };
+    const app = createApp();
+    const res = await request(app, "/api/shows");
+    expect(res.status).toBe(401);
+  });
+
+  it("returns per-show listening totals", async () => {
+    const shows = [
+      {
+        showName: "The Daily",
+        contentType: "episode",
+        episodeCount: 12,
+        completedEpisodes: 9,
+        playCount: 15,
+        totalMsPlayed: 18_000_000,
+        lastPlayedAt: "2024-06-15T10:30:00Z",
+      },
+    ];
+    mockDb = createMockDb({ selectData: shows });
+    const app = createApp();
+    const res = await request(app, "/api/shows");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toEqual({ data: shows });
+  });
+});
+
+describe("Shows routes — GET /api/shows/episodes", () => {
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+    mockDb = createMockDb();
+  });
+
+  it("returns 400 without a show", async () => {
+    const app = createApp();
+    const res = await request(app, "/api/shows/episodes");
+    expect(res.status).toBe(400);
+  });
+
+  it("returns the show's episodes", async () => {
+    const episodes = [
+      {
+        episodeSpotifyId: "5AvwZVawapvyhJUIx71pdJ",
+        episodeName: "Episode 1",
+        playCount: 2,
+        totalMsPlayed: 3_000_000,
+        completed: true,
+        firstPlayedAt: "2024-06-14T10:30:00Z",
+        lastPlayedAt: "2024-06-15T10:30:00Z",
+      },
+    ];
+    mockDb = createMockDb({ selectData: episodes });
+    const app = createApp();
+    const res = await request(app, "/api/shows/episodes?show=The%20Daily");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.data).toEqual(episodes);
+  });
+});
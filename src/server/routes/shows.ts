@@ -0,0 +1,97 @@
+/**
+ * Shows Routes — spoken-word listening (podcast episodes and audiobooks).
+ *
+ * These plays live in listening_history next to music but are excluded from
+ * every music stat; this module is where they are surfaced. Shows map onto
+ * the artist column and episodes (or chapters) onto the track column.
+ *
+ * Endpoints:
+ *   GET /api/shows           — Per-show listening time and episode completion
+ *   GET /api/shows/episodes  — Episodes of one show (`show` query parameter)
+ *
+ * An episode counts as completed when any play of it ended with
+ * reason_end = 'trackdone' (the export carries no episode duration).
+ *
+ * All routes require authentication.
+ */
+import { Hono } from "hono";
+import { and, eq, sql } from "drizzle-orm";
+import type { Session } from "hono-sessions";
+import type { Env } from "../types";
+import { createDb } from "../db";
+import { listeningHistory } from "../db/schema";
+import { userPlays } from "../lib/plays";
+import { authGuard, type SessionData } from "../middleware/session";
+
+const showsRoutes = new Hono<{ Bindings: Env }>();
+
+showsRoutes.use("*", authGuard());
+
+/**
+ * GET / — One row per show (or audiobook), ordered by total listening time.
+ *
+ * Response shape:
+ *   { data: Array<{ showName, contentType, episodeCount, completedEpisodes,
+ *                   playCount, totalMsPlayed, lastPlayedAt }> }
+ */
+showsRoutes.get("/", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const db = createDb(c.env.DATABASE_URL);
+  const lh = listeningHistory;
+
+  const rows = await db
+    .select({
+      showName: lh.artistName,
+      contentType: lh.contentType,
+      episodeCount: sql<number>`count(distinct ${lh.trackSpotifyId})`.mapWith(Number),
+      completedEpisodes: sql<number>`count(distinct ${lh.trackSpotifyId}) filter (where ${lh.reasonEnd} = 'trackdone')`.mapWith(Number),
+      playCount: sql<number>`count(*)`.mapWith(Number),
+      totalMsPlayed: sql<number>`sum(${lh.msPlayed})`.mapWith(Number),
+      lastPlayedAt: sql<string>`max(${lh.playedAt})`,
+    })
+    .from(lh)
+    .where(userPlays(userId, "spoken"))
+    .groupBy(lh.artistName, lh.contentType)
+    .orderBy(sql`sum(${lh.msPlayed}) desc`);
+
+  return c.json({ data: rows });
+});
+
+/**
+ * GET /episodes — Episodes of a single show, most recently played first.
+ *
+ * Response shape:
+ *   { data: Array<{ episodeSpotifyId, episodeName, playCount, totalMsPlayed,
+ *                   completed, firstPlayedAt, lastPlayedAt }> }
+ */
+showsRoutes.get("/episodes", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const db = createDb(c.env.DATABASE_URL);
+  const lh = listeningHistory;
+  const show = c.req.query("show");
+
+  if (!show) {
+    return c.json({ error: "show is required" }, 400);
+  }
+
+  const rows = await db
+    .select({
+      episodeSpotifyId: lh.trackSpotifyId,
+      episodeName: sql<string>`min(${lh.trackName})`,
+      playCount: sql<number>`count(*)`.mapWith(Number),
+      totalMsPlayed: sql<number>`sum(${lh.msPlayed})`.mapWith(Number),
+      completed: sql<boolean>`bool_or(${lh.reasonEnd} = 'trackdone')`.mapWith(Boolean),
+      firstPlayedAt: sql<string>`min(${lh.playedAt})`,
+      lastPlayedAt: sql<string>`max(${lh.playedAt})`,
+    })
+    .from(lh)
+    .where(and(userPlays(userId, "spoken"), eq(lh.artistName, show)))
+    .groupBy(lh.trackSpotifyId)
+    .orderBy(sql`max(${lh.playedAt}) desc`);
+
+  return c.json({ data: rows });
+});
+
+export default showsRoutes;
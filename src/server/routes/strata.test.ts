@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { Hono } from "hono";
+import { sql } from "drizzle-orm";
 import { createMockDb, type MockDb } from "../../test/mocks/db";
 import { createAuthenticatedSession, type MockSession } from "../../test/mocks/session";
 import { mockEnv } from "../../test/mocks/hono-context";
@@ -129,6 +130,70 @@ describe("Strata routes — GET /api/strata/eras", () => {
   });
 });
 
+describe("Strata routes — GET /api/strata/lineage", () => {
+  beforeEach(() => {
+    mockSession = createAuthenticatedSession();
+    mockDb = createMockDb();
+  });
+
+  /** Select calls in order: the play sequence subquery, artist rows, transition rows. */
+  function mockLineageQueries(artistRows: unknown[], transitionRows: unknown[]) {
+    const results = [[], artistRows, transitionRows];
+    let callCount = 0;
+    mockDb.select = vi.fn(() => createChain(results[callCount++] ?? []));
+  }
+
+  it("returns 401 when not authenticated", async () => {
+    mockSession = { get: vi.fn(() => undefined), set: vi.fn(), deleteSession: vi.fn() };
+    const res = await request(createApp(), "/api/strata/lineage");
+    expect(res.status).toBe(401);
+  });
+
+  it("returns an empty graph when no data", async () => {
+    mockLineageQueries([], []);
+    const res = await request(createApp(), "/api/strata/lineage");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ data: { years: [], nodes: [], edges: [] } });
+    // The transition query is skipped
+    expect(mockDb.select).toHaveBeenCalledTimes(2);
+  });
+
+  it("returns yearly nodes and transition edges with gateways", async () => {
+    mockLineageQueries(
+      [
+        { artist: "RHCP", year: 2012, plays: 40 },
+        { artist: "Creephyp", year: 2015, plays: 30 },
+      ],
+      [
+        { source: "RHCP", target: "Creephyp", year: 2015, transitions: 1, gateways: 1 },
+        { source: "Creephyp", target: "RHCP", year: 2015, transitions: 4, gateways: 0 },
+      ],
+    );
+
+    const res = await request(createApp(), "/api/strata/lineage?from=2010&to=2020&limit=10");
+    expect(res.status).toBe(200);
+    const body = await res.json();
+
+    expect(body.data.years).toEqual([2012, 2015]);
+    expect(body.data.nodes.map((n: { artist: string }) => n.artist)).toEqual(["RHCP", "Creephyp"]);
+    expect(body.data.edges).toEqual([
+      { source: "RHCP", target: "Creephyp", transitions: { 2015: 1 }, gatewayYear: 2015 },
+      { source: "Creephyp", target: "RHCP", transitions: { 2015: 4 }, gatewayYear: null },
+    ]);
+  });
+
+  it("rejects malformed or reversed year windows", async () => {
+    const app = createApp();
+    expect((await request(app, "/api/strata/lineage?from=20")).status).toBe(400);
+    expect((await request(app, "/api/strata/lineage?from=2020&to=2019")).status).toBe(400);
+  });
+
+  it("rejects an invalid limit", async () => {
+    const res = await request(createApp(), "/api/strata/lineage?limit=0");
+    expect(res.status).toBe(400);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Helper: build a fluent select chain that resolves to `data`
 // ---------------------------------------------------------------------------
@@ -142,12 +207,14 @@ function createChain<T>(data: T[]) {
     offset: vi.fn(),
     innerJoin: vi.fn(),
     leftJoin: vi.fn(),
+    // Subqueries: every column of the aliased query is a raw identifier
+    as: vi.fn(() => new Proxy({}, { get: (_, key) => sql.raw(String(key)) })),
     then: vi.fn((resolve?: (v: T[]) => unknown) =>
       Promise.resolve(data).then(resolve),
     ),
   };
   for (const key of Object.keys(chain)) {
-    if (key !== "then") {
+    if (key !== "then" && key !== "as") {
       (chain[key] as ReturnType<typeof vi.fn>).mockReturnValue(chain);
     }
   }
@@ -4,15 +4,28 @@
  *
  * Endpoints:
  *   GET /api/strata/eras     — Monthly listening data for top 15 artists (streamgraph)
+ *   GET /api/strata/lineage  — Artist transition network (Sonic Lineage force graph)
  *
  * All routes require authentication.
  */
 import { Hono } from "hono";
-import { and, eq, inArray, sql } from "drizzle-orm";
+import { and, count, gte, inArray, lte, ne, sql } from "drizzle-orm";
 import type { Session } from "hono-sessions";
 import type { Env } from "../types";
 import { createDb } from "../db";
-import { listeningHistory } from "../db/schema";
+import { artistAliases, listeningHistory } from "../db/schema";
+import { aliasJoin, artistIdentity } from "../lib/artist-aliases";
+import { musicPlays } from "../lib/plays";
+import { localPlayedAt } from "../lib/local-time";
+import {
+  DEFAULT_LINEAGE_ARTISTS,
+  MAX_LINEAGE_ARTISTS,
+  SESSION_GAP_MS,
+  buildLineage,
+  playSequence,
+  rankArtists,
+  type LineageData,
+} from "../lib/lineage";
 import { authGuard, type SessionData } from "../middleware/session";
 
 const strataRoutes = new Hono<{ Bindings: Env }>();
@@ -22,8 +35,9 @@ strataRoutes.use("*", authGuard());
 /**
  * GET /eras — Monthly artist listening data for the streamgraph.
  *
- * Computes the top 15 artists by total listening time, then returns a
- * month-by-month breakdown of milliseconds played for each of those artists.
+ * Computes the top 15 artists by total listening time (aliases counted
+ * under their canonical name), then returns a month-by-month breakdown of
+ * milliseconds played for each of those artists.
  * The frontend uses this to render a D3 streamgraph with stacked area layers.
  *
  * Response shape:
@@ -39,12 +53,13 @@ strataRoutes.get("/eras", async (c) => {
   // actually spent time with, rather than those with many short skips.
   const topArtists = await db
     .select({
-      artistName: listeningHistory.artistName,
+      artistName: artistIdentity(),
       totalMs: sql<number>`sum(${listeningHistory.msPlayed})`.mapWith(Number).as("totalMs"),
     })
     .from(listeningHistory)
-    .where(eq(listeningHistory.userId, userId))
-    .groupBy(listeningHistory.artistName)
+    .leftJoin(artistAliases, aliasJoin())
+    .where(musicPlays(userId))
+    .groupBy(artistIdentity())
     .orderBy(sql`sum(${listeningHistory.msPlayed}) desc`)
     .limit(15);
 
@@ -55,26 +70,25 @@ strataRoutes.get("/eras", async (c) => {
   }
 
   // Step 2: Get monthly breakdown for these artists.
-  // to_char(playedAt, 'YYYY-MM') groups by calendar month, producing one row
-  // per (month, artist) pair with the sum of ms_played.
+  // to_char(<local start time>, 'YYYY-MM') groups by the user's calendar
+  // month, producing one row per (month, artist) pair with the sum of ms_played.
+  const localMonth = sql`to_char(${localPlayedAt()}, 'YYYY-MM')`;
   const monthlyData = await db
     .select({
-      month: sql<string>`to_char(${listeningHistory.playedAt}, 'YYYY-MM')`.as("month"),
-      artistName: listeningHistory.artistName,
+      month: sql<string>`${localMonth}`.as("month"),
+      artistName: artistIdentity(),
       msPlayed: sql<number>`sum(${listeningHistory.msPlayed})`.mapWith(Number).as("msPlayed"),
     })
     .from(listeningHistory)
+    .leftJoin(artistAliases, aliasJoin())
     .where(
       and(
-        eq(listeningHistory.userId, userId),
-        inArray(listeningHistory.artistName, artistNames),
+        musicPlays(userId),
+        inArray(artistIdentity(), artistNames),
       ),
     )
-    .groupBy(
-      sql`to_char(${listeningHistory.playedAt}, 'YYYY-MM')`,
-      listeningHistory.artistName,
-    )
-    .orderBy(sql`to_char(${listeningHistory.playedAt}, 'YYYY-MM')`);
+    .groupBy(localMonth, artistIdentity())
+    .orderBy(localMonth);
 
   // Step 3: Organize into a months array with values keyed by artist name.
   // The frontend expects every month to have an entry for every artist
@@ -94,4 +108,77 @@ strataRoutes.get("/eras", async (c) => {
   return c.json({ data: { artists: artistNames, months } });
 });
 
+/**
+ * GET /lineage — Sonic Lineage: which artists lead into which.
+ *
+ * Nodes are the most played artists in the window (?limit=, default 40, at
+ * most 100); edges are transitions between them inside listening sessions,
+ * with gateway edges marking where an artist was discovered right after
+ * another (see lib/lineage.ts). ?from= and ?to= bound the window to local
+ * years, both inclusive; either may be left out.
+ *
+ * Response shape:
+ *   { data: { years: number[],
+ *             nodes: Array<{ artist, plays: Record<year, number>, firstYear }>,
+ *             edges: Array<{ source, target, transitions: Record<year, number>, gatewayYear }> } }
+ */
+strataRoutes.get("/lineage", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  const from = c.req.query("from");
+  const to = c.req.query("to");
+  const isYear = (value?: string) => value === undefined || /^\d{4}$/.test(value);
+  if (!isYear(from) || !isYear(to) || (from && to && Number(from) > Number(to))) {
+    return c.json({ error: "Invalid year range" }, 400);
+  }
+  const limit = Math.min(Number(c.req.query("limit") ?? DEFAULT_LINEAGE_ARTISTS), MAX_LINEAGE_ARTISTS);
+  if (!Number.isInteger(limit) || limit < 1) {
+    return c.json({ error: "Invalid limit" }, 400);
+  }
+
+  const db = createDb(c.env.DATABASE_URL);
+  const sequence = playSequence(db, userId);
+  const inWindow = [
+    ...(from ? [gte(sequence.year, Number(from))] : []),
+    ...(to ? [lte(sequence.year, Number(to))] : []),
+  ];
+
+  // Step 1: plays per artist and year, to rank the artists and size the nodes
+  const artistRows = await db
+    .select({ artist: sequence.artist, year: sequence.year, plays: count() })
+    .from(sequence)
+    .where(and(...inWindow))
+    .groupBy(sequence.artist, sequence.year);
+
+  const artists = rankArtists(artistRows, limit);
+  if (artists.length === 0) {
+    return c.json<{ data: LineageData }>({ data: { years: [], nodes: [], edges: [] } });
+  }
+
+  // Step 2: artist changes within a session, among the ranked artists.
+  // The first play of a user has no previous play, so its null gap drops it.
+  const transitionRows = await db
+    .select({
+      source: sql<string>`${sequence.prevArtist}`,
+      target: sequence.artist,
+      year: sequence.year,
+      transitions: count(),
+      gateways: sql<number>`count(*) filter (where ${sequence.firstPlay})`.mapWith(Number),
+    })
+    .from(sequence)
+    .where(
+      and(
+        ...inWindow,
+        lte(sequence.gapMs, SESSION_GAP_MS),
+        ne(sequence.prevArtist, sequence.artist),
+        inArray(sequence.prevArtist, artists),
+        inArray(sequence.artist, artists),
+      ),
+    )
+    .groupBy(sequence.prevArtist, sequence.artist, sequence.year);
+
+  return c.json<{ data: LineageData }>({ data: buildLineage(artists, artistRows, transitionRows) });
+});
+
 export default strataRoutes;
@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeAll, afterAll, afterEach, beforeEach } from "vitest";
 import { Hono } from "hono";
+import { http, HttpResponse } from "msw";
 import type { Env } from "../types";
 import { spotifyServer, spotifyHandlers } from "../../test/mocks/spotify-api";
+import { SpotifyClient } from "../lib/spotify";
 
 // ---------------------------------------------------------------------------
 // Mock state — must be declared before vi.mock() calls
@@ -41,7 +43,7 @@ function createChain(data: unknown[]) {
   const chain: Record<string, unknown> = {};
   const methods = [
     "from", "where", "groupBy", "orderBy", "limit", "offset",
-    "innerJoin", "leftJoin", "having", "as",
+    "innerJoin", "leftJoin", "having", "as", "unionAll", "$dynamic",
   ];
   for (const m of methods) {
     chain[m] = vi.fn(() => chain);
@@ -50,6 +52,16 @@ function createChain(data: unknown[]) {
   return chain;
 }
 
+/** Chain for insert/update/delete — every call resolves with no rows. */
+function createWriteChain() {
+  const chain: Record<string, unknown> = {};
+  for (const m of ["values", "set", "where", "onConflictDoNothing", "onConflictDoUpdate", "returning"]) {
+    chain[m] = vi.fn(() => chain);
+  }
+  chain.then = (resolve?: (v: unknown) => unknown) => Promise.resolve([]).then(resolve);
+  return chain;
+}
+
 // ---------------------------------------------------------------------------
 // Mock modules
 // ---------------------------------------------------------------------------
@@ -67,6 +79,9 @@ vi.mock("../db", () => ({
         const data = mockSelectResults[idx] ?? [];
         return createChain(data);
       }),
+      insert: vi.fn(() => createWriteChain()),
+      update: vi.fn(() => createWriteChain()),
+      delete: vi.fn(() => createWriteChain()),
       execute: vi.fn(() => {
         const idx = mockExecuteCallIndex++;
         return Promise.resolve(mockExecuteResults[idx] ?? { rows: [] });
@@ -91,14 +106,20 @@ vi.mock("../middleware/session", () => ({
   },
 }));
 
-// Mock spotify lib functions used by vault (getValidAccessToken, etc.)
-vi.mock("../lib/spotify", () => ({
-  getValidAccessToken: vi.fn(() => "mock_access_token"),
-  refreshAndUpdateSession: vi.fn().mockResolvedValue("refreshed_token"),
-  fetchTrackMetadata: vi.fn().mockResolvedValue(
+// Spotify calls go through the real SpotifyClient; the session token is valid,
+// and searches are stubbed per test on its prototype
+const searchArtist = vi
+  .spyOn(SpotifyClient.prototype, "searchArtist")
+  .mockResolvedValue({ id: "artist123", genres: ["indie rock", "alternative"] });
+const searchTrack = vi.spyOn(SpotifyClient.prototype, "searchTrack").mockResolvedValue("track123");
+const sessionAccessToken = vi.spyOn(SpotifyClient.prototype, "sessionAccessToken");
+
+vi.mock("../lib/catalog", () => ({
+  CATALOG_REFRESH_MS: 30 * 24 * 60 * 60 * 1000,
+  saveCatalogTracks: vi.fn().mockResolvedValue({ stored: ["track123"], notFound: [] }),
+  catalogArt: vi.fn().mockResolvedValue(
     new Map([["track123", { albumArt: "https://example.com/art.jpg", albumName: "Test Album" }]]),
   ),
-  searchArtist: vi.fn().mockResolvedValue({ id: "artist123", genres: ["indie rock", "alternative"] }),
 }));
 
 // ---------------------------------------------------------------------------
@@ -210,6 +231,14 @@ describe("GET /vault/tracks", () => {
     expect(json.total).toBe(1);
   });
 
+  it("looks up a merged variant's ID as its canonical track", async () => {
+    setSelectResults([{ canonicalId: "track123" }], [{ ...mockTrack, variantCount: 2 }], [{ total: 1 }]);
+    const res = await req("/vault/tracks?trackId=track-remaster&limit=1");
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data[0]).toMatchObject({ trackSpotifyId: "track123", variantCount: 2 });
+  });
+
   it("returns empty array when no tracks", async () => {
     setSelectResults([], [{ total: 0 }]);
     const res = await req("/vault/tracks");
@@ -265,6 +294,14 @@ describe("GET /vault/tracks", () => {
     expect(res.status).toBe(200);
   });
 
+  it("sorts and filters by audio features", async () => {
+    setSelectResults([{ ...mockTrack, bpm: 128, key: 9, mode: "minor", energy: 0.8 }], [{ total: 1 }]);
+    const res = await req("/vault/tracks?sort=bpm&order=asc&bpmMin=120&bpmMax=140&key=9&mode=minor");
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data[0]).toMatchObject({ bpm: 128, key: 9, mode: "minor", energy: 0.8 });
+  });
+
   it("limits results to max 200", async () => {
     setSelectResults([mockTrack], [{ total: 1 }]);
     const res = await req("/vault/tracks?limit=500");
@@ -344,6 +381,25 @@ describe("GET /vault/artists", () => {
     expect(res.status).toBe(200);
   });
 
+  it("counts featured artists with credit=all", async () => {
+    const featured = { ...mockArtist, artistName: "Featured Artist", playCount: 8 };
+    setSelectResults(
+      // credit subqueries: primary and featured
+      [],
+      [],
+      [mockArtist, featured],
+      [{ total: 2 }],
+    );
+    const res = await req("/vault/artists?credit=all");
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data.map((a: { artistName: string }) => a.artistName)).toEqual([
+      "Test Artist",
+      "Featured Artist",
+    ]);
+    expect(json.total).toBe(2);
+  });
+
   it("returns 401 without authentication", async () => {
     setUnauthenticated();
     const res = await req("/vault/artists");
@@ -402,14 +458,34 @@ describe("GET /vault/albums", () => {
 // =========================================================================
 
 describe("GET /vault/genres", () => {
-  it("returns sorted genres from Spotify search", async () => {
-    // First select: top artists
-    setSelectResults([{ artistName: "Test Artist", playCount: 100 }]);
+  it("searches artists without stored genres and returns the stored genres", async () => {
+    searchArtist.mockClear();
+    setSelectResults(
+      // top artists
+      [{ artistName: "Test Artist" }],
+      // artists with fresh genres
+      [],
+      // genres of the user's plays
+      [{ genre: "alternative" }, { genre: "indie rock" }],
+    );
     const res = await req("/vault/genres");
     expect(res.status).toBe(200);
     const json = await res.json();
-    expect(json.data).toContain("alternative");
-    expect(json.data).toContain("indie rock");
+    expect(json.data).toEqual(["alternative", "indie rock"]);
+    expect(searchArtist).toHaveBeenCalledWith("mock_access_token", "Test Artist");
+  });
+
+  it("does not search Spotify when stored genres are fresh", async () => {
+    searchArtist.mockClear();
+    setSelectResults(
+      [{ artistName: "Test Artist" }],
+      [{ artistName: "Test Artist" }],
+      [{ genre: "indie rock" }],
+    );
+    const res = await req("/vault/genres");
+    const json = await res.json();
+    expect(json.data).toEqual(["indie rock"]);
+    expect(searchArtist).not.toHaveBeenCalled();
   });
 
   it("returns empty array when no artists", async () => {
@@ -455,6 +531,85 @@ describe("GET /vault/metadata", () => {
     // The route slices to 50 internally; we verify it doesn't error
   });
 
+  it("does not look up provisional track IDs", async () => {
+    const { saveCatalogTracks } = await import("../lib/catalog");
+    const res = await req("/vault/metadata?trackIds=provisional:abc,track456");
+    expect(res.status).toBe(200);
+    expect(saveCatalogTracks).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.any(SpotifyClient),
+      "mock_access_token",
+      ["track456"],
+      expect.any(Date),
+    );
+  });
+
+  it("serves fresh catalog rows without calling Spotify", async () => {
+    const { saveCatalogTracks } = await import("../lib/catalog");
+    vi.mocked(saveCatalogTracks).mockClear();
+    sessionAccessToken.mockClear();
+    // Miss rows, then catalog rows
+    setSelectResults(
+      [],
+      [{ id: "track789", albumArt: "https://example.com/789.jpg", albumName: "Stored", fetchedAt: new Date() }],
+    );
+
+    const res = await req("/vault/metadata?trackIds=track789");
+    const json = await res.json();
+    expect(json.data.track789).toEqual({ albumArt: "https://example.com/789.jpg", albumName: "Stored" });
+    expect(saveCatalogTracks).not.toHaveBeenCalled();
+    expect(sessionAccessToken).not.toHaveBeenCalled();
+  });
+
+  it("fetches catalog rows past their TTL again", async () => {
+    const { saveCatalogTracks } = await import("../lib/catalog");
+    vi.mocked(saveCatalogTracks).mockClear();
+    const fetchedAt = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+    setSelectResults([], [{ id: "track_old", albumArt: "https://example.com/old.jpg", albumName: "Old", fetchedAt }]);
+
+    const res = await req("/vault/metadata?trackIds=track_old");
+    expect(res.status).toBe(200);
+    expect(saveCatalogTracks).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.any(SpotifyClient),
+      "mock_access_token",
+      ["track_old"],
+      expect.any(Date),
+    );
+  });
+
+  it("serves repeat lookups from memory", async () => {
+    const { saveCatalogTracks, catalogArt } = await import("../lib/catalog");
+    vi.mocked(saveCatalogTracks).mockResolvedValueOnce({ stored: ["track_mem"], notFound: [] });
+    vi.mocked(catalogArt).mockResolvedValueOnce(
+      new Map([["track_mem", { albumArt: "https://example.com/mem.jpg", albumName: "Memory" }]]),
+    );
+    await req("/vault/metadata?trackIds=track_mem");
+    vi.mocked(saveCatalogTracks).mockClear();
+    mockSelectCallIndex = 0;
+
+    const res = await req("/vault/metadata?trackIds=track_mem");
+    const json = await res.json();
+    expect(json.data.track_mem.albumName).toBe("Memory");
+    expect(saveCatalogTracks).not.toHaveBeenCalled();
+    expect(mockSelectCallIndex).toBe(0);
+  });
+
+  it("remembers tracks Spotify does not have", async () => {
+    const { saveCatalogTracks, catalogArt } = await import("../lib/catalog");
+    vi.mocked(saveCatalogTracks).mockResolvedValueOnce({ stored: [], notFound: ["track_gone"] });
+    vi.mocked(catalogArt).mockResolvedValueOnce(new Map());
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const first = await req("/vault/metadata?trackIds=track_gone");
+    expect((await first.json()).data).toEqual({});
+    vi.mocked(saveCatalogTracks).mockClear();
+
+    const second = await req("/vault/metadata?trackIds=track_gone");
+    expect((await second.json()).data).toEqual({});
+    expect(saveCatalogTracks).not.toHaveBeenCalled();
+  });
+
   it("returns 401 without authentication", async () => {
     setUnauthenticated();
     const res = await req("/vault/metadata?trackIds=track123");
@@ -462,6 +617,283 @@ describe("GET /vault/metadata", () => {
   });
 });
 
+// =========================================================================
+// GET /vault/features
+// =========================================================================
+
+describe("GET /vault/features", () => {
+  it("looks up tracks without stored features and returns them", async () => {
+    spotifyServer.use(
+      http.get("https://musicbrainz.org/ws/2/isrc/:isrc", () =>
+        HttpResponse.json({ recordings: [{ id: "mbid-1" }] }),
+      ),
+      http.get("https://acousticbrainz.org/api/v1/low-level", () =>
+        HttpResponse.json({
+          "mbid-1": { "0": { rhythm: { bpm: 120 }, tonal: { key_key: "C", key_scale: "major" } } },
+        }),
+      ),
+    );
+    setSelectResults(
+      // tracks with fresh features
+      [],
+      // catalogued tracks to look up
+      [{ id: "track123", isrc: "USRC17607839" }],
+      // stored features
+      [{ trackId: "track123", bpm: 120, key: 0, mode: "major", energy: null }],
+    );
+
+    const res = await req("/vault/features?trackIds=track123,provisional:abc");
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data).toEqual({ track123: { bpm: 120, key: 0, mode: "major", energy: null } });
+  });
+
+  it("serves fresh features without a lookup", async () => {
+    setSelectResults(
+      [{ trackId: "track123" }],
+      [{ trackId: "track123", bpm: 96, key: 9, mode: "minor", energy: 0.4 }],
+    );
+    const res = await req("/vault/features?trackIds=track123");
+    const json = await res.json();
+    expect(json.data.track123).toEqual({ bpm: 96, key: 9, mode: "minor", energy: 0.4 });
+  });
+
+  it("returns empty object when no trackIds param", async () => {
+    const res = await req("/vault/features");
+    expect(res.status).toBe(200);
+    expect((await res.json()).data).toEqual({});
+  });
+
+  it("returns 401 without authentication", async () => {
+    setUnauthenticated();
+    const res = await req("/vault/features?trackIds=track123");
+    expect(res.status).toBe(401);
+  });
+});
+
+// =========================================================================
+// POST /vault/resolve
+// =========================================================================
+
+describe("POST /vault/resolve", () => {
+  const post = () => app.request("/vault/resolve", { method: "POST" }, mockEnv);
+
+  it("searches pending provisional tracks and reports what remains", async () => {
+    setSelectResults(
+      [], // no earlier matches to apply
+      [
+        { provisionalId: "provisional:aa", trackName: "Test Track", artistName: "Test Artist", pending: 3 },
+        { provisionalId: "provisional:bb", trackName: "Obscure", artistName: "Nobody", pending: 3 },
+      ],
+    );
+    searchTrack.mockClear();
+    searchTrack.mockResolvedValueOnce("track123").mockResolvedValueOnce(null);
+
+    const res = await post();
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data).toEqual({ resolved: 1, unresolved: 1, remaining: 1 });
+  });
+
+  it("applies earlier lookups without searching Spotify", async () => {
+    setSelectResults(
+      [{ provisionalId: "provisional:aa", spotifyTrackId: "track123" }],
+      [],
+    );
+    searchTrack.mockClear();
+
+    const res = await post();
+    const json = await res.json();
+    expect(json.data).toEqual({ resolved: 1, unresolved: 0, remaining: 0 });
+    expect(searchTrack).not.toHaveBeenCalled();
+  });
+
+  it("returns 401 without authentication", async () => {
+    setUnauthenticated();
+    const res = await post();
+    expect(res.status).toBe(401);
+  });
+});
+
+// =========================================================================
+// Canonical tracks — /vault/merges
+// =========================================================================
+
+describe("/vault/merges", () => {
+  const candidate = {
+    trackName: "Test Track",
+    artistName: "Test Artist",
+    albumName: "Test Album",
+    canonicalId: null,
+    reason: null,
+  };
+
+  it("suggests tracks sharing an ISRC", async () => {
+    setSelectResults([
+      { ...candidate, trackSpotifyId: "track123", playCount: 40, isrc: "USRC17607839" },
+      {
+        ...candidate,
+        trackSpotifyId: "track-remaster",
+        trackName: "Test Track - 2011 Remaster",
+        albumName: "Test Album (Deluxe)",
+        playCount: 5,
+        isrc: "USRC17607839",
+      },
+      { ...candidate, trackSpotifyId: "other", trackName: "Other", playCount: 9, isrc: null },
+    ]);
+    const res = await req("/vault/merges/suggestions");
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data).toHaveLength(1);
+    expect(json.data[0]).toMatchObject({ canonicalId: "track123", reason: "isrc" });
+    expect(json.data[0].variants.map((v: { trackSpotifyId: string }) => v.trackSpotifyId)).toEqual([
+      "track123",
+      "track-remaster",
+    ]);
+  });
+
+  it("lists a canonical track's variants, canonical ID first", async () => {
+    setSelectResults(
+      [{ canonicalId: "track123" }],
+      [
+        { ...candidate, trackSpotifyId: "track-remaster", playCount: 30, reason: "isrc" },
+        { ...candidate, trackSpotifyId: "track123", playCount: 12, reason: null },
+      ],
+    );
+    const res = await req("/vault/merges/track-remaster");
+    const json = await res.json();
+    expect(json.data.canonicalId).toBe("track123");
+    expect(json.data.variants.map((v: { trackSpotifyId: string }) => v.trackSpotifyId)).toEqual([
+      "track123",
+      "track-remaster",
+    ]);
+  });
+
+  it("merges tracks into a canonical track", async () => {
+    const res = await app.request(
+      "/vault/merges",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ canonicalId: "track123", trackIds: ["track-remaster"], reason: "isrc" }),
+      },
+      mockEnv,
+    );
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data).toEqual({ canonicalId: "track123" });
+  });
+
+  it("rejects a merge without track IDs", async () => {
+    const res = await app.request(
+      "/vault/merges",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ canonicalId: "track123", trackIds: [] }),
+      },
+      mockEnv,
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("unmerges a track", async () => {
+    const res = await app.request("/vault/merges/track-remaster", { method: "DELETE" }, mockEnv);
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data).toEqual({ released: 0 });
+  });
+
+  it("returns 401 without authentication", async () => {
+    setUnauthenticated();
+    const res = await req("/vault/merges/suggestions");
+    expect(res.status).toBe(401);
+  });
+});
+
+// =========================================================================
+// /vault/artists/aliases
+// =========================================================================
+
+describe("/vault/artists/aliases", () => {
+  it("lists names counted under another artist", async () => {
+    const alias = {
+      artistName: "Utada Hikaru",
+      canonicalName: "宇多田ヒカル",
+      spotifyArtistId: "artist-1",
+      source: "spotify",
+    };
+    setSelectResults([alias]);
+    const res = await req("/vault/artists/aliases");
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data).toEqual([alias]);
+  });
+
+  it("resolves names that share a Spotify artist", async () => {
+    setSelectResults(
+      // names with their catalogued primary artist
+      [
+        { artistName: "Utada Hikaru", spotifyArtistId: "artist-1" },
+        { artistName: "宇多田ヒカル", spotifyArtistId: "artist-1" },
+      ],
+      // manual aliases
+      [],
+      // catalog artists
+      [{ id: "artist-1", name: "宇多田ヒカル" }],
+    );
+    const res = await app.request("/vault/artists/resolve", { method: "POST" }, mockEnv);
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data).toEqual({ resolved: 2, merged: 1 });
+  });
+
+  it("merges artist names by hand", async () => {
+    const res = await app.request(
+      "/vault/artists/aliases",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ canonicalName: "宇多田ヒカル", artistNames: ["Utada"] }),
+      },
+      mockEnv,
+    );
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data).toEqual({ canonicalName: "宇多田ヒカル" });
+  });
+
+  it("rejects a merge without artist names", async () => {
+    const res = await app.request(
+      "/vault/artists/aliases",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ canonicalName: "宇多田ヒカル", artistNames: [] }),
+      },
+      mockEnv,
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("splits a name back out", async () => {
+    const res = await app.request(
+      `/vault/artists/aliases/${encodeURIComponent("Utada")}`,
+      { method: "DELETE" },
+      mockEnv,
+    );
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data).toEqual({ artistName: "Utada" });
+  });
+
+  it("returns 401 without authentication", async () => {
+    setUnauthenticated();
+    const res = await req("/vault/artists/aliases");
+    expect(res.status).toBe(401);
+  });
+});
+
 // =========================================================================
 // GET /vault/stats
 // =========================================================================
@@ -650,7 +1082,8 @@ describe("GET /vault/mosaic", () => {
 
 describe("GET /vault/time-capsule", () => {
   it("returns tracks from past years on this day", async () => {
-    // The route loops 5 times (1-5 years ago), each doing one select
+    // The route reads the user's time zone, then loops 5 times (1-5 years ago),
+    // each doing one select
     const trackFromPast = {
       trackSpotifyId: "old_track",
       trackName: "Old Song",
@@ -662,6 +1095,7 @@ describe("GET /vault/time-capsule", () => {
     };
     // Years 1-5: only year 1 has data
     setSelectResults(
+      [{ timeZone: "UTC" }],
       [trackFromPast], // 1 year ago
       [],              // 2 years ago
       [],              // 3 years ago
@@ -679,7 +1113,7 @@ describe("GET /vault/time-capsule", () => {
   });
 
   it("returns empty array when no historical data", async () => {
-    setSelectResults([], [], [], [], []);
+    setSelectResults([{ timeZone: "UTC" }], [], [], [], [], []);
     const res = await req("/vault/time-capsule");
     expect(res.status).toBe(200);
     const json = await res.json();
@@ -690,6 +1124,7 @@ describe("GET /vault/time-capsule", () => {
     const track1 = { trackSpotifyId: "t1", trackName: "Song 1", artistName: "A1", albumName: "Al1", totalMsPlayed: 180000, firstPlayedAt: "2025-02-22", playCount: 1 };
     const track2 = { trackSpotifyId: "t2", trackName: "Song 2", artistName: "A2", albumName: "Al2", totalMsPlayed: 240000, firstPlayedAt: "2023-02-22", playCount: 2 };
     setSelectResults(
+      [{ timeZone: "UTC" }],
       [track1], // 1 year ago
       [],       // 2 years ago
       [track2], // 3 years ago
@@ -705,6 +1140,19 @@ describe("GET /vault/time-capsule", () => {
     expect(json.data[1].yearsAgo).toBe(3);
   });
 
+  it("uses the date on the user's wall clock", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    // Still June 15 in UTC, already June 16 in Tokyo
+    vi.setSystemTime(new Date("2025-06-15T20:00:00Z"));
+    const track = { trackSpotifyId: "t1", trackName: "Song 1", artistName: "A1", albumName: "Al1", totalMsPlayed: 180000, firstPlayedAt: "2024-06-16", playCount: 1 };
+    setSelectResults([{ timeZone: "Asia/Tokyo" }], [track], [], [], [], []);
+
+    const res = await req("/vault/time-capsule");
+    vi.useRealTimers();
+    const json = await res.json();
+    expect(json.data[0].date).toBe("2024-06-16");
+  });
+
   it("returns 401 without authentication", async () => {
     setUnauthenticated();
     const res = await req("/vault/time-capsule");
@@ -756,6 +1204,8 @@ describe("GET /vault/dormant-artists", () => {
 describe("GET /vault/drift-report", () => {
   it("returns month-over-month comparison with rising and fading artists", async () => {
     setSelectResults(
+      // user's time zone
+      [{ timeZone: "UTC" }],
       // currentArtists
       [
         { artistName: "New Hot Artist", playCount: 30, msPlayed: 5400000 },
@@ -787,7 +1237,7 @@ describe("GET /vault/drift-report", () => {
   });
 
   it("handles empty months gracefully", async () => {
-    setSelectResults([], [], [{ totalPlays: 0, totalMs: 0, uniqueArtists: 0, uniqueTracks: 0 }], [{ totalPlays: 0, totalMs: 0, uniqueArtists: 0, uniqueTracks: 0 }]);
+    setSelectResults([{ timeZone: "UTC" }], [], [], [{ totalPlays: 0, totalMs: 0, uniqueArtists: 0, uniqueTracks: 0 }], [{ totalPlays: 0, totalMs: 0, uniqueArtists: 0, uniqueTracks: 0 }]);
 
     const res = await req("/vault/drift-report");
     expect(res.status).toBe(200);
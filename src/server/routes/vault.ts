@@ -1,84 +1,133 @@
 import { Hono } from "hono";
-import { sql, eq, ilike, or, and, desc, asc, count, countDistinct, gte, lte } from "drizzle-orm";
+import {
+  sql,
+  eq,
+  ilike,
+  or,
+  and,
+  desc,
+  asc,
+  count,
+  countDistinct,
+  gte,
+  lte,
+  inArray,
+  isNull,
+  isNotNull,
+  like,
+} from "drizzle-orm";
+import type { PgSelect } from "drizzle-orm/pg-core";
 import type { Session } from "hono-sessions";
 import type { Env } from "../types";
 import { authGuard, type SessionData } from "../middleware/session";
 import { createDb } from "../db";
-import { listeningHistory, users } from "../db/schema";
+import type { Database } from "../db";
+import {
+  artistAliases,
+  artistGenres,
+  catalogAlbums,
+  catalogTracks,
+  listeningHistory,
+  trackAudioFeatures,
+  trackMerges,
+  trackResolutions,
+} from "../db/schema";
+import {
+  canonicalTrackId,
+  mergeJoin,
+  mergeTracks,
+  resolveCanonicalId,
+  suggestMerges,
+  unmergeTrack,
+} from "../lib/canonical-tracks";
+import {
+  aliasJoin,
+  artistIdentity,
+  mergeArtists,
+  resolveArtistAliases,
+  splitArtist,
+} from "../lib/artist-aliases";
+import { byCreditedArtist, creditedPlays, parseArtistCredit } from "../lib/artist-credits";
+import { catalogArt, saveCatalogTracks } from "../lib/catalog";
+import { MetadataCache, memoryMetadataStore, postgresMetadataStore } from "../lib/metadata-cache";
+import {
+  AUDIO_FEATURE_BATCH,
+  audioFeatureProvider,
+  featureJoin,
+  loadAudioFeatures,
+  refreshAudioFeatures,
+  staleFeatureTrackIds,
+} from "../lib/audio-features";
+import {
+  byGenre,
+  GENRE_REFRESH_BATCH,
+  genreJoin,
+  genreName,
+  refreshArtistGenres,
+  staleGenreArtists,
+  unnestGenres,
+} from "../lib/genres";
+import { musicPlays } from "../lib/plays";
+import {
+  currentTimeZone,
+  localPlayedAt,
+  localToday,
+  playedBetweenLocal,
+  playedOnLocalDate,
+} from "../lib/local-time";
+import { createSpotifyClient } from "../lib/spotify";
+import {
+  isProvisionalTrackId,
+  PROVISIONAL_TRACK_PREFIX,
+  type ResolveResult,
+} from "../../shared/validators/history";
 import {
-  fetchTrackMetadata,
-  searchArtist,
-  getValidAccessToken,
-  refreshAndUpdateSession,
-} from "../lib/spotify";
+  mergeArtistsSchema,
+  type ArtistAlias,
+} from "../../shared/validators/artists";
+import type { KeyMode } from "../../shared/validators/audio-features";
+import {
+  mergeTracksSchema,
+  type CanonicalTrack,
+  type MergeReason,
+} from "../../shared/validators/tracks";
 
 const vault = new Hono<{ Bindings: Env }>();
 
 vault.use("*", authGuard());
 
 /**
- * Singleton refresh lock — prevents multiple concurrent metadata requests
- * from all trying to refresh the token simultaneously.
- */
-let refreshPromise: Promise<string> | null = null;
-
-/**
- * Helper: get a valid access token, refreshing if needed.
+ * Run `task` after the response is sent. Outside the Workers runtime
+ * (tests) there is no execution context, so it is awaited in place.
  */
-async function getAccessToken(
-  c: { env: Env; req: { url: string } },
-  session: Session<SessionData>,
-): Promise<string> {
+async function afterResponse(
+  c: { executionCtx: ExecutionContext },
+  task: Promise<unknown>,
+): Promise<void> {
+  let ctx: ExecutionContext | null = null;
   try {
-    return getValidAccessToken(session);
-  } catch (err) {
-    console.log("[vault] Access token expired, attempting refresh...", (err as Error).message);
-
-    // If a refresh is already in progress, wait for it instead of starting another
-    if (refreshPromise) {
-      console.log("[vault] Refresh already in progress, waiting...");
-      return refreshPromise;
-    }
-
-    // Token expired, refresh it
-    const userId = session.get("userId")!;
-    const db = createDb(c.env.DATABASE_URL);
-    const user = await db.query.users.findFirst({
-      where: eq(users.id, userId),
-      columns: { refreshToken: true },
-    });
-
-    if (!user?.refreshToken) {
-      console.error("[vault] No refresh token in DB for user", userId);
-      throw new Error("No refresh token available");
-    }
-
-    refreshPromise = refreshAndUpdateSession(
-      session,
-      c.env.SPOTIFY_CLIENT_ID,
-      c.env.SPOTIFY_CLIENT_SECRET,
-      user.refreshToken,
-    )
-      .then(async (result) => {
-        if (result.newRefreshToken) {
-          await db
-            .update(users)
-            .set({ refreshToken: result.newRefreshToken })
-            .where(eq(users.id, userId));
-          console.log("[vault] Refresh token rotated and saved to DB");
-        }
-        return result.accessToken;
-      })
-      .finally(() => {
-        refreshPromise = null;
-      });
-
-    return refreshPromise;
+    ctx = c.executionCtx;
+  } catch {
+    // No execution context — run inline
   }
+  if (ctx) ctx.waitUntil(task);
+  else await task;
 }
 
 // --- Tracks ---
 
+/**
+ * GET /tracks — One row per canonical track (see lib/canonical-tracks.ts):
+ * plays of merged variants count toward the canonical ID, and names are
+ * those played most. `trackId` may be any variant's ID. With `credit=all`,
+ * `artist` also matches tracks featuring the artist; `genre` keeps tracks
+ * by artists tagged with it (see lib/genres.ts).
+ *
+ * Rows carry the canonical track's stored tempo, key and energy (see
+ * lib/audio-features.ts; null until GET /features has looked it up).
+ * `bpmMin`, `bpmMax`, `key` (pitch class 0–11) and `mode` filter on them,
+ * and `sort=bpm|key|energy` orders by them, tracks without features last.
+ */
 vault.get("/tracks", async (c) => {
   const session = c.get("session") as Session<SessionData>;
   const userId = session.get("userId")!;
@@ -87,26 +136,50 @@ vault.get("/tracks", async (c) => {
   const orderParam = c.req.query("order") ?? "desc";
   const search = c.req.query("search");
   const artist = c.req.query("artist");
+  const credit = parseArtistCredit(c.req.query("credit"));
   const album = c.req.query("album");
+  const genre = c.req.query("genre");
   const trackId = c.req.query("trackId");
+  const bpmMin = c.req.query("bpmMin");
+  const bpmMax = c.req.query("bpmMax");
+  const key = c.req.query("key");
+  const mode = c.req.query("mode");
   const limit = Math.min(Number(c.req.query("limit") ?? "50"), 200);
   const offset = Number(c.req.query("offset") ?? "0");
 
   const db = createDb(c.env.DATABASE_URL);
   const lh = listeningHistory;
+  const taf = trackAudioFeatures;
+  const canonicalId = canonicalTrackId();
+  const trackName = sql<string>`mode() within group (order by ${lh.trackName})`;
 
-  const conditions = [eq(lh.userId, userId)];
+  const conditions = [musicPlays(userId)];
   if (search) {
     conditions.push(or(ilike(lh.trackName, `%${search}%`), ilike(lh.artistName, `%${search}%`))!);
   }
   if (artist) {
-    conditions.push(eq(lh.artistName, artist));
+    conditions.push(byCreditedArtist(artist, credit));
   }
   if (album) {
     conditions.push(eq(lh.albumName, album));
   }
+  if (genre) {
+    conditions.push(byGenre(genre));
+  }
   if (trackId) {
-    conditions.push(eq(lh.trackSpotifyId, trackId));
+    conditions.push(eq(canonicalId, await resolveCanonicalId(db, userId, trackId)));
+  }
+  if (bpmMin && Number.isFinite(Number(bpmMin))) {
+    conditions.push(gte(taf.bpm, Number(bpmMin)));
+  }
+  if (bpmMax && Number.isFinite(Number(bpmMax))) {
+    conditions.push(lte(taf.bpm, Number(bpmMax)));
+  }
+  if (key && Number.isInteger(Number(key))) {
+    conditions.push(eq(taf.key, Number(key)));
+  }
+  if (mode === "major" || mode === "minor") {
+    conditions.push(eq(taf.mode, mode));
   }
 
   const orderDir = orderParam === "asc" ? asc : desc;
@@ -118,59 +191,67 @@ vault.get("/tracks", async (c) => {
       case "recent":
         return sql<string>`max(${lh.playedAt})`;
       case "name":
-        return lh.trackName;
+        return trackName;
+      case "bpm":
+        return sql<number>`max(${taf.bpm})`;
+      case "key":
+        return sql<number>`max(${taf.key})`;
+      case "energy":
+        return sql<number>`max(${taf.energy})`;
       default:
         return sql<number>`count(*)`;
     }
   })();
+  // Tracks not yet analysed sort after every analysed one, either way
+  const orderBy = ["bpm", "key", "energy"].includes(sortParam)
+    ? sql`${sortColumn} ${sql.raw(orderParam === "asc" ? "asc" : "desc")} nulls last`
+    : orderDir(sortColumn);
 
   const whereClause = and(...conditions);
 
   const tracks = await db
     .select({
-      trackSpotifyId: lh.trackSpotifyId,
-      trackName: lh.trackName,
-      artistName: lh.artistName,
-      albumName: lh.albumName,
+      trackSpotifyId: canonicalId,
+      trackName,
+      artistName: sql<string>`mode() within group (order by ${artistIdentity()})`,
+      albumName: sql<string | null>`mode() within group (order by ${lh.albumName})`,
+      // Spotify IDs folded into this row — above 1 once variants are merged
+      variantCount: countDistinct(lh.trackSpotifyId).mapWith(Number),
       playCount: sql<number>`count(*)`.mapWith(Number),
       totalMsPlayed: sql<number>`sum(${lh.msPlayed})`.mapWith(Number),
       firstPlayedAt: sql<string>`min(${lh.playedAt})`,
       lastPlayedAt: sql<string>`max(${lh.playedAt})`,
       completionCount: sql<number>`count(*) FILTER (WHERE ${lh.reasonEnd} = 'trackdone')`.mapWith(Number),
       skipCount: sql<number>`count(*) FILTER (WHERE ${lh.skipped} = true)`.mapWith(Number),
+      // null until the track is in the catalog (see GET /metadata)
+      albumArt: sql<string | null>`max(${catalogAlbums.imageUrl})`,
+      // null until the track has been analysed (see GET /features)
+      bpm: sql<number | null>`max(${taf.bpm})`.mapWith(Number),
+      key: sql<number | null>`max(${taf.key})`.mapWith(Number),
+      mode: sql<KeyMode | null>`max(${taf.mode})`,
+      energy: sql<number | null>`max(${taf.energy})`.mapWith(Number),
     })
     .from(lh)
+    .leftJoin(trackMerges, mergeJoin())
+    .leftJoin(artistAliases, aliasJoin())
+    .leftJoin(catalogTracks, eq(catalogTracks.id, lh.trackSpotifyId))
+    .leftJoin(catalogAlbums, eq(catalogAlbums.id, catalogTracks.albumId))
+    .leftJoin(taf, featureJoin())
     .where(whereClause)
-    .groupBy(lh.trackSpotifyId, lh.trackName, lh.artistName, lh.albumName)
-    .orderBy(orderDir(sortColumn))
+    .groupBy(canonicalId)
+    .orderBy(orderBy)
     .limit(limit)
     .offset(offset);
 
   // Get total count for pagination (with same filters)
-  const countConditions = [eq(lh.userId, userId)];
-  if (search) {
-    countConditions.push(
-      or(ilike(lh.trackName, `%${search}%`), ilike(lh.artistName, `%${search}%`))!,
-    );
-  }
-  if (artist) {
-    countConditions.push(eq(lh.artistName, artist));
-  }
-  if (album) {
-    countConditions.push(eq(lh.albumName, album));
-  }
-  if (trackId) {
-    countConditions.push(eq(lh.trackSpotifyId, trackId));
-  }
-
-  const countWhere = and(...countConditions);
-
   const [totalResult] = await db
     .select({
-      total: countDistinct(lh.trackSpotifyId),
+      total: countDistinct(canonicalId),
     })
     .from(lh)
-    .where(countWhere);
+    .leftJoin(trackMerges, mergeJoin())
+    .leftJoin(taf, featureJoin())
+    .where(whereClause);
 
   return c.json({
     data: tracks,
@@ -180,6 +261,12 @@ vault.get("/tracks", async (c) => {
 
 // --- Artists ---
 
+/**
+ * GET /artists — One row per artist identity (see lib/artist-aliases.ts).
+ * `credit=all` also counts each play toward its track's featured artists
+ * (see lib/artist-credits.ts); the default counts primary artists only.
+ * `genre` keeps plays by artists tagged with it.
+ */
 vault.get("/artists", async (c) => {
   const session = c.get("session") as Session<SessionData>;
   const userId = session.get("userId")!;
@@ -187,15 +274,25 @@ vault.get("/artists", async (c) => {
   const sortParam = c.req.query("sort") ?? "plays";
   const orderParam = c.req.query("order") ?? "desc";
   const search = c.req.query("search");
+  const genre = c.req.query("genre");
   const limit = Math.min(Number(c.req.query("limit") ?? "50"), 200);
   const offset = Number(c.req.query("offset") ?? "0");
+  const credit = parseArtistCredit(c.req.query("credit"));
 
   const db = createDb(c.env.DATABASE_URL);
   const lh = listeningHistory;
+  // With every credit, each play appears once per credited artist
+  const credits = credit === "all" ? creditedPlays(db, userId) : null;
+  const withCredits = <T extends PgSelect>(query: T) =>
+    credits ? query.innerJoin(credits, eq(credits.playId, lh.id)) : query;
+  const artistName = artistIdentity(credits?.artistName);
 
-  const conditions = [eq(lh.userId, userId)];
+  const conditions = [musicPlays(userId)];
   if (search) {
-    conditions.push(ilike(lh.artistName, `%${search}%`));
+    conditions.push(ilike(artistName, `%${search}%`));
+  }
+  if (genre) {
+    conditions.push(byGenre(genre));
   }
 
   const orderDir = orderParam === "asc" ? asc : desc;
@@ -207,7 +304,7 @@ vault.get("/artists", async (c) => {
       case "recent":
         return sql<string>`max(${lh.playedAt})`;
       case "name":
-        return lh.artistName;
+        return artistName;
       default:
         return sql<number>`count(*)`;
     }
@@ -215,26 +312,35 @@ vault.get("/artists", async (c) => {
 
   const whereClause = and(...conditions);
 
-  const artists = await db
-    .select({
-      artistName: lh.artistName,
-      playCount: sql<number>`count(*)`.mapWith(Number),
-      uniqueTracks: countDistinct(lh.trackSpotifyId).mapWith(Number),
-      totalMsPlayed: sql<number>`sum(${lh.msPlayed})`.mapWith(Number),
-    })
-    .from(lh)
+  const artists = await withCredits(
+    db
+      .select({
+        artistName,
+        playCount: sql<number>`count(*)`.mapWith(Number),
+        uniqueTracks: countDistinct(canonicalTrackId()).mapWith(Number),
+        totalMsPlayed: sql<number>`sum(${lh.msPlayed})`.mapWith(Number),
+      })
+      .from(lh)
+      .$dynamic(),
+  )
+    .leftJoin(trackMerges, mergeJoin())
+    .leftJoin(artistAliases, aliasJoin(credits?.artistName))
     .where(whereClause)
-    .groupBy(lh.artistName)
+    .groupBy(artistName)
     .orderBy(orderDir(sortColumn))
     .limit(limit)
     .offset(offset);
 
   // Get total count for pagination
-  const [totalResult] = await db
-    .select({
-      total: countDistinct(lh.artistName),
-    })
-    .from(lh)
+  const [totalResult] = await withCredits(
+    db
+      .select({
+        total: countDistinct(artistName),
+      })
+      .from(lh)
+      .$dynamic(),
+  )
+    .leftJoin(artistAliases, aliasJoin(credits?.artistName))
     .where(whereClause);
 
   return c.json({
@@ -243,6 +349,85 @@ vault.get("/artists", async (c) => {
   });
 });
 
+// --- Artist aliases ---
+
+/** GET /artists/aliases — Names counted under another artist, by canonical name. */
+vault.get("/artists/aliases", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const db = createDb(c.env.DATABASE_URL);
+
+  const aliases: ArtistAlias[] = await db
+    .select({
+      artistName: artistAliases.artistName,
+      canonicalName: artistAliases.canonicalName,
+      spotifyArtistId: artistAliases.spotifyArtistId,
+      source: artistAliases.source,
+    })
+    .from(artistAliases)
+    .where(
+      and(
+        eq(artistAliases.userId, userId),
+        sql`${artistAliases.artistName} <> ${artistAliases.canonicalName}`,
+      ),
+    )
+    .orderBy(asc(artistAliases.canonicalName), asc(artistAliases.artistName));
+
+  return c.json({ data: aliases });
+});
+
+/**
+ * POST /artists/resolve — Resolve artist names to Spotify artist IDs through
+ * the catalog, merging names that share one. Manual merges and splits stay.
+ */
+vault.post("/artists/resolve", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const db = createDb(c.env.DATABASE_URL);
+
+  const result = await resolveArtistAliases(db, userId);
+  return c.json({ data: result });
+});
+
+/** POST /artists/aliases — Merge artist names into one artist by hand. */
+vault.post("/artists/aliases", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const parsed = mergeArtistsSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: parsed.error.issues[0].message }, 400);
+  }
+
+  const db = createDb(c.env.DATABASE_URL);
+  const canonicalName = await mergeArtists(
+    db,
+    userId,
+    parsed.data.canonicalName,
+    parsed.data.artistNames,
+  );
+
+  return c.json({ data: { canonicalName } });
+});
+
+/** DELETE /artists/aliases/:artistName — Split a name back out into its own artist. */
+vault.delete("/artists/aliases/:artistName", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const artistName = c.req.param("artistName");
+  const db = createDb(c.env.DATABASE_URL);
+
+  await splitArtist(db, userId, artistName);
+  return c.json({ data: { artistName } });
+});
+
 // --- Albums ---
 
 vault.get("/albums", async (c) => {
@@ -250,13 +435,18 @@ vault.get("/albums", async (c) => {
   const userId = session.get("userId")!;
 
   const artist = c.req.query("artist");
+  const credit = parseArtistCredit(c.req.query("credit"));
+  const genre = c.req.query("genre");
 
   const db = createDb(c.env.DATABASE_URL);
   const lh = listeningHistory;
 
-  const conditions = [eq(lh.userId, userId)];
+  const conditions = [musicPlays(userId)];
   if (artist) {
-    conditions.push(eq(lh.artistName, artist));
+    conditions.push(byCreditedArtist(artist, credit));
+  }
+  if (genre) {
+    conditions.push(byGenre(genre));
   }
 
   const whereClause = and(...conditions);
@@ -278,6 +468,15 @@ vault.get("/albums", async (c) => {
 
 // --- Genres ---
 
+// Artists, most played first, whose stored genres are kept fresh
+const GENRE_ARTIST_LIMIT = 500;
+
+/**
+ * GET /genres — Names of the genres the user's artists are tagged with,
+ * from stored artist genres (see lib/genres.ts). Artists among the user's
+ * top GENRE_ARTIST_LIMIT with no genres yet, or stale ones, are searched
+ * on Spotify after the response, so new genres show up on a later visit.
+ */
 vault.get("/genres", async (c) => {
   const session = c.get("session") as Session<SessionData>;
   const userId = session.get("userId")!;
@@ -285,54 +484,59 @@ vault.get("/genres", async (c) => {
   const db = createDb(c.env.DATABASE_URL);
   const lh = listeningHistory;
 
-  // Get top 100 artists by play count
   const topArtists = await db
-    .select({
-      artistName: lh.artistName,
-      playCount: sql<number>`count(*)`.mapWith(Number),
-    })
+    .select({ artistName: artistIdentity() })
     .from(lh)
-    .where(eq(lh.userId, userId))
-    .groupBy(lh.artistName)
+    .leftJoin(artistAliases, aliasJoin())
+    .where(musicPlays(userId))
+    .groupBy(artistIdentity())
     .orderBy(desc(sql`count(*)`))
-    .limit(100);
+    .limit(GENRE_ARTIST_LIMIT);
 
   if (topArtists.length === 0) {
     return c.json({ data: [] });
   }
 
-  // Get access token for Spotify API calls
-  let accessToken: string;
-  try {
-    accessToken = await getAccessToken(c, session);
-  } catch {
-    return c.json({ data: [], error: "Could not obtain Spotify access token" });
-  }
-
-  // Search Spotify for each artist and collect genres
-  const allGenres = new Set<string>();
-
-  for (const { artistName } of topArtists) {
+  const stale = await staleGenreArtists(
+    db,
+    topArtists.map((a) => a.artistName),
+  );
+  if (stale.length > 0) {
     try {
-      const result = await searchArtist(accessToken, artistName);
-      if (result) {
-        for (const genre of result.genres) {
-          allGenres.add(genre);
-        }
-      }
+      const spotify = createSpotifyClient(c.env, db);
+      const accessToken = await spotify.sessionAccessToken(session);
+      await afterResponse(c, refreshArtistGenres(db, spotify, accessToken, stale.slice(0, GENRE_REFRESH_BATCH)));
     } catch {
-      // Skip artists that fail to search
-      continue;
+      // Without a token, serve what is stored and refresh on a later visit
     }
   }
 
-  const sortedGenres = [...allGenres].sort((a, b) => a.localeCompare(b));
+  const genres = await db
+    .selectDistinct({ genre: genreName() })
+    .from(lh)
+    .leftJoin(artistAliases, aliasJoin())
+    .innerJoin(artistGenres, genreJoin())
+    .innerJoin(unnestGenres(), sql`true`)
+    .where(musicPlays(userId))
+    .orderBy(genreName());
 
-  return c.json({ data: sortedGenres });
+  return c.json({ data: genres.map((g) => g.genre) });
 });
 
 // --- Metadata (album art) ---
 
+// In-memory layer of the metadata cache. Module state lives as long as the
+// isolate; a cold one starts empty and fills from the catalog tables.
+const metadataMemory = memoryMetadataStore();
+
+/**
+ * Album art for up to 50 tracks, through the metadata cache (see
+ * lib/metadata-cache.ts). Tracks cached in neither layer, or expired, are
+ * fetched from Spotify and stored first, so each track costs one Spotify
+ * lookup per METADATA_TTL_MS rather than one per page view — and a track
+ * Spotify does not have, one per MISS_TTL_MS. A Spotify token is only
+ * needed when something is not cached.
+ */
 vault.get("/metadata", async (c) => {
   const session = c.get("session") as Session<SessionData>;
 
@@ -341,20 +545,34 @@ vault.get("/metadata", async (c) => {
     return c.json({ data: {} });
   }
 
-  const trackIds = trackIdsParam.split(",").slice(0, 50);
+  // Provisional IDs are not in Spotify's catalog — there is nothing to fetch
+  const trackIds = trackIdsParam
+    .split(",")
+    .filter((id) => id && !isProvisionalTrackId(id))
+    .slice(0, 50);
   if (trackIds.length === 0) {
     return c.json({ data: {} });
   }
 
-  let accessToken: string;
-  try {
-    accessToken = await getAccessToken(c, session);
-  } catch (err) {
-    console.error("[vault/metadata] Failed to get access token:", err);
-    return c.json({ error: "token_expired", message: "Could not obtain Spotify access token. Please re-authenticate." }, 401);
-  }
+  const db = createDb(c.env.DATABASE_URL);
+  const cache = new MetadataCache(metadataMemory, postgresMetadataStore(db), c.get("logger"));
+  const { art: metadata, pending } = await cache.read(trackIds);
 
-  const metadata = await fetchTrackMetadata(accessToken, trackIds);
+  if (pending.length > 0) {
+    const spotify = createSpotifyClient(c.env, db);
+    let accessToken: string;
+    try {
+      accessToken = await spotify.sessionAccessToken(session);
+    } catch (err) {
+      console.error("[vault/metadata] Failed to get access token:", err);
+      return c.json({ error: "token_expired", message: "Could not obtain Spotify access token. Please re-authenticate." }, 401);
+    }
+    const now = new Date();
+    const { stored, notFound } = await saveCatalogTracks(db, spotify, accessToken, pending, now);
+    const fetched = await catalogArt(db, stored);
+    await cache.write(fetched, notFound, now);
+    for (const [id, meta] of fetched) metadata.set(id, meta);
+  }
 
   if (metadata.size === 0) {
     console.warn("[vault/metadata] Spotify returned no metadata for", trackIds.length, "tracks");
@@ -369,6 +587,281 @@ vault.get("/metadata", async (c) => {
   return c.json({ data: result });
 });
 
+// --- Audio features (tempo, key, energy) ---
+
+/**
+ * Stored tempo, key and energy for up to 50 tracks (see
+ * lib/audio-features.ts). Tracks missing features, or due for a refresh,
+ * are looked up with the configured provider after the response, so their
+ * features appear on a later request. Tracks the provider has not
+ * analysed are returned with null fields once looked up.
+ */
+vault.get("/features", async (c) => {
+  const trackIdsParam = c.req.query("trackIds");
+  if (!trackIdsParam) {
+    return c.json({ data: {} });
+  }
+
+  // Provisional IDs have no catalog row, so no ISRC to look up
+  const trackIds = trackIdsParam
+    .split(",")
+    .filter((id) => id && !isProvisionalTrackId(id))
+    .slice(0, 50);
+  if (trackIds.length === 0) {
+    return c.json({ data: {} });
+  }
+
+  const db = createDb(c.env.DATABASE_URL);
+  const stale = await staleFeatureTrackIds(db, trackIds);
+  if (stale.length > 0) {
+    await afterResponse(
+      c,
+      refreshAudioFeatures(db, audioFeatureProvider(c.env), stale.slice(0, AUDIO_FEATURE_BATCH)),
+    );
+  }
+
+  const features = await loadAudioFeatures(db, trackIds);
+  return c.json({ data: Object.fromEntries(features) });
+});
+
+// --- Provisional track resolution ---
+
+// Spotify searches per resolve round — keeps one request well inside Worker limits
+const RESOLVE_BATCH_SIZE = 20;
+
+/**
+ * Re-key a user's provisional plays to the resolved Spotify track ID.
+ * Plays that already exist under the real ID (same timestamp) would violate
+ * the play unique index, so those provisional copies are dropped first.
+ */
+async function applyResolution(
+  db: Database,
+  userId: string,
+  provisionalId: string,
+  spotifyTrackId: string,
+): Promise<void> {
+  const lh = listeningHistory;
+
+  const existing = db
+    .select({ playedAt: lh.playedAt })
+    .from(lh)
+    .where(and(eq(lh.userId, userId), eq(lh.trackSpotifyId, spotifyTrackId)));
+
+  await db
+    .delete(lh)
+    .where(
+      and(
+        eq(lh.userId, userId),
+        eq(lh.trackSpotifyId, provisionalId),
+        inArray(lh.playedAt, existing),
+      ),
+    );
+
+  await db
+    .update(lh)
+    .set({ trackSpotifyId: spotifyTrackId })
+    .where(and(eq(lh.userId, userId), eq(lh.trackSpotifyId, provisionalId)));
+}
+
+/**
+ * POST /resolve — Map provisional track IDs (legacy "Account data" imports)
+ * to real Spotify track IDs, one batch per call.
+ *
+ * Songs already looked up (by any user) are applied straight from
+ * track_resolutions; up to RESOLVE_BATCH_SIZE new songs are then searched on
+ * Spotify. The client calls repeatedly while `remaining` is above 0.
+ */
+vault.post("/resolve", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const db = createDb(c.env.DATABASE_URL);
+  const lh = listeningHistory;
+  const isProvisional = like(lh.trackSpotifyId, `${PROVISIONAL_TRACK_PREFIX}%`);
+
+  let resolved = 0;
+  let unresolved = 0;
+  let searched = 0;
+
+  // 1. Apply lookups that already found a match
+  const known = await db
+    .selectDistinct({
+      provisionalId: lh.trackSpotifyId,
+      spotifyTrackId: trackResolutions.spotifyTrackId,
+    })
+    .from(lh)
+    .innerJoin(trackResolutions, eq(trackResolutions.provisionalId, lh.trackSpotifyId))
+    .where(and(eq(lh.userId, userId), isProvisional, isNotNull(trackResolutions.spotifyTrackId)));
+
+  for (const { provisionalId, spotifyTrackId } of known) {
+    await applyResolution(db, userId, provisionalId, spotifyTrackId!);
+    resolved++;
+  }
+
+  // 2. Provisional tracks never looked up; `pending` counts all of them
+  const batch = await db
+    .select({
+      provisionalId: lh.trackSpotifyId,
+      trackName: sql<string>`min(${lh.trackName})`,
+      artistName: sql<string>`min(${lh.artistName})`,
+      pending: sql<number>`count(*) over ()`.mapWith(Number),
+    })
+    .from(lh)
+    .leftJoin(trackResolutions, eq(trackResolutions.provisionalId, lh.trackSpotifyId))
+    .where(and(eq(lh.userId, userId), isProvisional, isNull(trackResolutions.provisionalId)))
+    .groupBy(lh.trackSpotifyId)
+    .orderBy(sql`count(*) desc`)
+    .limit(RESOLVE_BATCH_SIZE);
+
+  if (batch.length > 0) {
+    const spotify = createSpotifyClient(c.env, db);
+    let accessToken: string;
+    try {
+      accessToken = await spotify.sessionAccessToken(session);
+    } catch (err) {
+      console.error("[vault/resolve] Failed to get access token:", err);
+      return c.json({ error: "token_expired", message: "Could not obtain Spotify access token. Please re-authenticate." }, 401);
+    }
+
+    // 3. Search each song and record the outcome, match or not
+    for (const { provisionalId, trackName, artistName } of batch) {
+      let spotifyTrackId: string | null = null;
+      try {
+        spotifyTrackId = await spotify.searchTrack(accessToken, trackName, artistName);
+      } catch {
+        // Network failure or rate limit — leave unrecorded so the next round retries it
+        continue;
+      }
+
+      await db
+        .insert(trackResolutions)
+        .values({ provisionalId, spotifyTrackId })
+        .onConflictDoNothing();
+      searched++;
+
+      if (spotifyTrackId) {
+        await applyResolution(db, userId, provisionalId, spotifyTrackId);
+        resolved++;
+      } else {
+        unresolved++;
+      }
+    }
+  }
+
+  // `pending` is the window count over every unsearched song, not just this batch
+  const pending = batch[0]?.pending ?? 0;
+  const result: ResolveResult = {
+    resolved,
+    unresolved,
+    remaining: pending - searched,
+  };
+
+  return c.json({ data: result });
+});
+
+// --- Canonical tracks ---
+
+/**
+ * GET /merges/suggestions — Groups of the user's tracks that look like one
+ * song (shared ISRC, or the same artist and title once edition suffixes
+ * are dropped) and are not merged yet. ISRCs come from the catalog, so
+ * tracks never shown with album art can only match by title.
+ */
+vault.get("/merges/suggestions", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const db = createDb(c.env.DATABASE_URL);
+  const lh = listeningHistory;
+
+  const candidates = await db
+    .select({
+      trackSpotifyId: lh.trackSpotifyId,
+      trackName: sql<string>`min(${lh.trackName})`,
+      artistName: sql<string>`min(${lh.artistName})`,
+      albumName: sql<string | null>`min(${lh.albumName})`,
+      playCount: sql<number>`count(*)`.mapWith(Number),
+      isrc: sql<string | null>`max(${catalogTracks.isrc})`,
+      canonicalId: sql<string | null>`max(${trackMerges.canonicalId})`,
+      reason: sql<MergeReason | null>`max(${trackMerges.reason})`,
+    })
+    .from(lh)
+    .leftJoin(trackMerges, mergeJoin())
+    .leftJoin(catalogTracks, eq(catalogTracks.id, lh.trackSpotifyId))
+    .where(musicPlays(userId))
+    .groupBy(lh.trackSpotifyId);
+
+  return c.json({ data: suggestMerges(candidates) });
+});
+
+/** GET /merges/:trackId — The canonical track `trackId` belongs to, with every variant. */
+vault.get("/merges/:trackId", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const db = createDb(c.env.DATABASE_URL);
+  const lh = listeningHistory;
+
+  const canonicalId = await resolveCanonicalId(db, userId, c.req.param("trackId"));
+  const variants = await db
+    .select({
+      trackSpotifyId: lh.trackSpotifyId,
+      trackName: sql<string>`min(${lh.trackName})`,
+      artistName: sql<string>`min(${lh.artistName})`,
+      albumName: sql<string | null>`min(${lh.albumName})`,
+      playCount: sql<number>`count(*)`.mapWith(Number),
+      reason: sql<MergeReason | null>`max(${trackMerges.reason})`,
+    })
+    .from(lh)
+    .leftJoin(trackMerges, mergeJoin())
+    .where(and(musicPlays(userId), eq(canonicalTrackId(), canonicalId)))
+    .groupBy(lh.trackSpotifyId)
+    .orderBy(desc(sql`count(*)`));
+
+  const result: CanonicalTrack = {
+    canonicalId,
+    variants: [
+      ...variants.filter((v) => v.trackSpotifyId === canonicalId),
+      ...variants.filter((v) => v.trackSpotifyId !== canonicalId),
+    ],
+  };
+  return c.json({ data: result });
+});
+
+/** POST /merges — Merge tracks into a canonical track (see lib/canonical-tracks.ts). */
+vault.post("/merges", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const parsed = mergeTracksSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: parsed.error.issues[0].message }, 400);
+  }
+
+  const { canonicalId, trackIds, reason } = parsed.data;
+  const db = createDb(c.env.DATABASE_URL);
+  const merged = await mergeTracks(db, userId, canonicalId, trackIds, reason);
+
+  return c.json({ data: { canonicalId: merged } });
+});
+
+/**
+ * DELETE /merges/:trackId — Unmerge a variant, or split a canonical track
+ * back into all of its variants. Unmerging an unmerged track is a no-op.
+ */
+vault.delete("/merges/:trackId", async (c) => {
+  const session = c.get("session") as Session<SessionData>;
+  const userId = session.get("userId")!;
+  const db = createDb(c.env.DATABASE_URL);
+
+  const released = await unmergeTrack(db, userId, c.req.param("trackId"));
+  return c.json({ data: { released } });
+});
+
 // --- Autobiography ---
 
 vault.get("/autobiography", async (c) => {
@@ -376,73 +869,79 @@ vault.get("/autobiography", async (c) => {
   const userId = session.get("userId")!;
   const db = createDb(c.env.DATABASE_URL);
   const lh = listeningHistory;
+  const local = localPlayedAt();
 
   // 1. Overall stats
   const [overall] = await db
     .select({
       totalPlays: sql<number>`count(*)`,
       totalMs: sql<number>`sum(${lh.msPlayed})`,
-      uniqueTracks: sql<number>`count(distinct ${lh.trackSpotifyId})`,
-      uniqueArtists: sql<number>`count(distinct ${lh.artistName})`,
+      uniqueTracks: sql<number>`count(distinct ${canonicalTrackId()})`,
+      uniqueArtists: sql<number>`count(distinct ${artistIdentity()})`,
       firstPlay: sql<string>`min(${lh.playedAt})`,
       lastPlay: sql<string>`max(${lh.playedAt})`,
     })
     .from(lh)
-    .where(eq(lh.userId, userId));
+    .leftJoin(trackMerges, mergeJoin())
+    .leftJoin(artistAliases, aliasJoin())
+    .where(musicPlays(userId));
 
   // 2. Top 5 artists by play count
   const topArtists = await db
     .select({
-      artistName: lh.artistName,
+      artistName: artistIdentity(),
       playCount: sql<number>`count(*)`,
       msPlayed: sql<number>`sum(${lh.msPlayed})`,
     })
     .from(lh)
-    .where(eq(lh.userId, userId))
-    .groupBy(lh.artistName)
+    .leftJoin(artistAliases, aliasJoin())
+    .where(musicPlays(userId))
+    .groupBy(artistIdentity())
     .orderBy(sql`count(*) desc`)
     .limit(5);
 
-  // 3. Top 5 tracks by play count
+  // 3. Top 5 tracks by play count, merged variants counted together
   const topTracks = await db
     .select({
-      trackName: lh.trackName,
-      artistName: lh.artistName,
+      trackName: sql<string>`mode() within group (order by ${lh.trackName})`,
+      artistName: sql<string>`mode() within group (order by ${artistIdentity()})`,
       playCount: sql<number>`count(*)`,
       msPlayed: sql<number>`sum(${lh.msPlayed})`,
     })
     .from(lh)
-    .where(eq(lh.userId, userId))
-    .groupBy(lh.trackName, lh.artistName)
+    .leftJoin(trackMerges, mergeJoin())
+    .leftJoin(artistAliases, aliasJoin())
+    .where(musicPlays(userId))
+    .groupBy(canonicalTrackId())
     .orderBy(sql`count(*) desc`)
     .limit(5);
 
   // 4. Peak hour
   const [peakHour] = await db
     .select({
-      hour: sql<number>`EXTRACT(HOUR FROM ${lh.playedAt})`,
+      hour: sql<number>`EXTRACT(HOUR FROM ${local})`,
       playCount: sql<number>`count(*)`,
     })
     .from(lh)
-    .where(eq(lh.userId, userId))
-    .groupBy(sql`EXTRACT(HOUR FROM ${lh.playedAt})`)
+    .where(musicPlays(userId))
+    .groupBy(sql`EXTRACT(HOUR FROM ${local})`)
     .orderBy(sql`count(*) desc`)
     .limit(1);
 
   // 5. Most active year
   const [peakYear] = await db
     .select({
-      year: sql<number>`EXTRACT(YEAR FROM ${lh.playedAt})`,
+      year: sql<number>`EXTRACT(YEAR FROM ${local})`,
       playCount: sql<number>`count(*)`,
       msPlayed: sql<number>`sum(${lh.msPlayed})`,
     })
     .from(lh)
-    .where(eq(lh.userId, userId))
-    .groupBy(sql`EXTRACT(YEAR FROM ${lh.playedAt})`)
+    .where(musicPlays(userId))
+    .groupBy(sql`EXTRACT(YEAR FROM ${local})`)
     .orderBy(sql`count(*) desc`)
     .limit(1);
 
-  // 6. Night owl stats (plays between 22:00-03:59)
+  // 6. Night owl stats (plays between 22:00-03:59 local time)
   const [nightStats] = await db
     .select({
       playCount: sql<number>`count(*)`,
@@ -450,25 +949,26 @@ vault.get("/autobiography", async (c) => {
     .from(lh)
     .where(
       and(
-        eq(lh.userId, userId),
-        sql`EXTRACT(HOUR FROM ${lh.playedAt}) IN (22, 23, 0, 1, 2, 3)`
+        musicPlays(userId),
+        sql`EXTRACT(HOUR FROM ${local}) IN (22, 23, 0, 1, 2, 3)`
       )
     );
 
   // 7. Top night artist
   const [nightArtist] = await db
     .select({
-      artistName: lh.artistName,
+      artistName: artistIdentity(),
       playCount: sql<number>`count(*)`,
     })
     .from(lh)
+    .leftJoin(artistAliases, aliasJoin())
     .where(
       and(
-        eq(lh.userId, userId),
-        sql`EXTRACT(HOUR FROM ${lh.playedAt}) IN (22, 23, 0, 1, 2, 3)`
+        musicPlays(userId),
+        sql`EXTRACT(HOUR FROM ${local}) IN (22, 23, 0, 1, 2, 3)`
       )
     )
-    .groupBy(lh.artistName)
+    .groupBy(artistIdentity())
     .orderBy(sql`count(*) desc`)
     .limit(1);
 
@@ -492,34 +992,33 @@ vault.get("/mosaic", async (c) => {
   const userId = session.get("userId")!;
   const db = createDb(c.env.DATABASE_URL);
 
+  const localMonth = sql`to_char(${localPlayedAt()}, 'YYYY-MM')`;
+
   // Get monthly top albums (top 6 per month by play count)
   const monthlyAlbums = await db
     .select({
-      month: sql<string>`to_char(${listeningHistory.playedAt}, 'YYYY-MM')`.as("month"),
+      month: sql<string>`${localMonth}`.as("month"),
       albumName: listeningHistory.albumName,
-      artistName: listeningHistory.artistName,
+      artistName: sql<string>`${artistIdentity()}`.as("artistName"),
       playCount: sql<number>`count(*)`.as("playCount"),
       msPlayed: sql<number>`sum(${listeningHistory.msPlayed})`.as("msPlayed"),
       trackSpotifyId: sql<string>`(array_agg(${listeningHistory.trackSpotifyId}))[1]`.as(
         "trackSpotifyId",
       ),
+      albumArt: sql<string | null>`max(${catalogAlbums.imageUrl})`.as("albumArt"),
     })
     .from(listeningHistory)
+    .leftJoin(artistAliases, aliasJoin())
+    .leftJoin(catalogTracks, eq(catalogTracks.id, listeningHistory.trackSpotifyId))
+    .leftJoin(catalogAlbums, eq(catalogAlbums.id, catalogTracks.albumId))
     .where(
       and(
-        eq(listeningHistory.userId, userId),
+        musicPlays(userId),
         sql`${listeningHistory.albumName} IS NOT NULL AND ${listeningHistory.albumName} != ''`,
       ),
     )
-    .groupBy(
-      sql`to_char(${listeningHistory.playedAt}, 'YYYY-MM')`,
-      listeningHistory.albumName,
-      listeningHistory.artistName,
-    )
-    .orderBy(
-      sql`to_char(${listeningHistory.playedAt}, 'YYYY-MM')`,
-      sql`count(*) desc`,
-    );
+    .groupBy(localMonth, listeningHistory.albumName, artistIdentity())
+    .orderBy(localMonth, sql`count(*) desc`);
 
   // Group by month, take top 6 per month
   const monthMap = new Map<string, (typeof monthlyAlbums)[number][]>();
@@ -545,43 +1044,48 @@ vault.get("/stats", async (c) => {
   const db = createDb(c.env.DATABASE_URL);
   const lh = listeningHistory;
 
-  const where = eq(lh.userId, userId);
+  const where = musicPlays(userId);
 
   // Overview stats
   const [overview] = await db
     .select({
-      totalTracks: countDistinct(lh.trackSpotifyId),
-      totalArtists: countDistinct(lh.artistName),
+      totalTracks: countDistinct(canonicalTrackId()),
+      totalArtists: countDistinct(artistIdentity()),
       totalPlays: count(),
       totalMsPlayed: sql<number>`coalesce(sum(${lh.msPlayed}), 0)`.mapWith(Number),
       dateFrom: sql<string>`min(${lh.playedAt})`,
       dateTo: sql<string>`max(${lh.playedAt})`,
     })
     .from(lh)
+    .leftJoin(trackMerges, mergeJoin())
+    .leftJoin(artistAliases, aliasJoin())
     .where(where);
 
   // Top track
   const [topTrack] = await db
     .select({
-      trackName: lh.trackName,
-      artistName: lh.artistName,
+      trackName: sql<string>`mode() within group (order by ${lh.trackName})`,
+      artistName: sql<string>`mode() within group (order by ${artistIdentity()})`,
       playCount: sql<number>`count(*)`.mapWith(Number),
     })
     .from(lh)
+    .leftJoin(trackMerges, mergeJoin())
+    .leftJoin(artistAliases, aliasJoin())
     .where(where)
-    .groupBy(lh.trackSpotifyId, lh.trackName, lh.artistName)
+    .groupBy(canonicalTrackId())
     .orderBy(desc(sql`count(*)`))
     .limit(1);
 
   // Top artist
   const [topArtist] = await db
     .select({
-      artistName: lh.artistName,
+      artistName: artistIdentity(),
       playCount: sql<number>`count(*)`.mapWith(Number),
     })
     .from(lh)
+    .leftJoin(artistAliases, aliasJoin())
     .where(where)
-    .groupBy(lh.artistName)
+    .groupBy(artistIdentity())
     .orderBy(desc(sql`count(*)`))
     .limit(1);
 
@@ -590,7 +1094,7 @@ vault.get("/stats", async (c) => {
     SELECT
       COUNT(*) FILTER (WHERE reason_end = 'trackdone') as completed,
       COUNT(*) FILTER (WHERE reason_end IS NOT NULL) as total
-    FROM listening_history WHERE user_id = ${userId}
+    FROM listening_history WHERE ${musicPlays(userId)}
   `);
   const completionRate = Number(completionResult.rows[0]?.total) > 0
     ? Math.round((Number(completionResult.rows[0].completed) / Number(completionResult.rows[0].total)) * 100)
@@ -601,7 +1105,7 @@ vault.get("/stats", async (c) => {
     SELECT
       COUNT(*) FILTER (WHERE skipped = true) as skipped,
       COUNT(*) FILTER (WHERE skipped IS NOT NULL) as total
-    FROM listening_history WHERE user_id = ${userId}
+    FROM listening_history WHERE ${musicPlays(userId)}
   `);
   const skipRate = Number(skipResult.rows[0]?.total) > 0
     ? Math.round((Number(skipResult.rows[0].skipped) / Number(skipResult.rows[0].total)) * 100)
@@ -632,17 +1136,15 @@ vault.get("/time-capsule", async (c) => {
   const userId = session.get("userId")!;
   const db = createDb(c.env.DATABASE_URL);
 
-  const now = new Date();
+  // "This day" is the user's local date, not the server's
+  const today = localToday(await currentTimeZone(db, userId));
   const capsules = [];
 
   // Check 1 year ago, 2 years ago, etc. (up to 5 years)
   for (let yearsAgo = 1; yearsAgo <= 5; yearsAgo++) {
-    const targetDate = new Date(now);
-    targetDate.setFullYear(targetDate.getFullYear() - yearsAgo);
-
-    // Get the start and end of that day (UTC)
-    const dayStart = new Date(targetDate.toISOString().split("T")[0] + "T00:00:00Z");
-    const dayEnd = new Date(targetDate.toISOString().split("T")[0] + "T23:59:59Z");
+    const targetDate = new Date(today);
+    targetDate.setUTCFullYear(targetDate.getUTCFullYear() - yearsAgo);
+    const date = targetDate.toISOString().split("T")[0];
 
     const tracks = await db
       .select({
@@ -657,9 +1159,8 @@ vault.get("/time-capsule", async (c) => {
       .from(listeningHistory)
       .where(
         and(
-          eq(listeningHistory.userId, userId),
-          gte(listeningHistory.playedAt, dayStart),
-          lte(listeningHistory.playedAt, dayEnd)
+          musicPlays(userId),
+          playedOnLocalDate(date)
         )
       )
       .groupBy(
@@ -674,7 +1175,7 @@ vault.get("/time-capsule", async (c) => {
     if (tracks.length > 0) {
       capsules.push({
         yearsAgo,
-        date: dayStart.toISOString().split("T")[0],
+        date,
         tracks,
       });
     }
@@ -696,14 +1197,15 @@ vault.get("/dormant-artists", async (c) => {
   // Get artists with significant listening but no recent plays
   const artists = await db
     .select({
-      artistName: listeningHistory.artistName,
+      artistName: sql<string>`${artistIdentity()}`.as("artistName"),
       totalMsPlayed: sql<number>`sum(${listeningHistory.msPlayed})`.as("totalMsPlayed"),
       playCount: sql<number>`count(*)`.as("playCount"),
       lastPlayed: sql<string>`max(${listeningHistory.playedAt})`.as("lastPlayed"),
     })
     .from(listeningHistory)
-    .where(eq(listeningHistory.userId, userId))
-    .groupBy(listeningHistory.artistName)
+    .leftJoin(artistAliases, aliasJoin())
+    .where(musicPlays(userId))
+    .groupBy(artistIdentity())
     .having(
       and(
         gte(sql`sum(${listeningHistory.msPlayed})`, 3600000),
@@ -730,44 +1232,49 @@ vault.get("/drift-report", async (c) => {
   const db = createDb(c.env.DATABASE_URL);
   const lh = listeningHistory;
 
-  const now = new Date();
-  const currentMonth = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
-  const prevDate = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-  const prevMonth = `${prevDate.getFullYear()}-${String(prevDate.getMonth() + 1).padStart(2, "0")}`;
+  const local = localPlayedAt();
+
+  // Months on the user's calendar
+  const now = localToday(await currentTimeZone(db, userId));
+  const currentMonth = `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, "0")}`;
+  const prevDate = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  const prevMonth = `${prevDate.getUTCFullYear()}-${String(prevDate.getUTCMonth() + 1).padStart(2, "0")}`;
 
   // Get top artists for current month
   const currentArtists = await db
     .select({
-      artistName: lh.artistName,
+      artistName: sql<string>`${artistIdentity()}`.as("artistName"),
       playCount: sql<number>`count(*)`.as("playCount"),
       msPlayed: sql<number>`sum(${lh.msPlayed})`.as("msPlayed"),
     })
     .from(lh)
+    .leftJoin(artistAliases, aliasJoin())
     .where(
       and(
-        eq(lh.userId, userId),
-        sql`to_char(${lh.playedAt}, 'YYYY-MM') = ${currentMonth}`,
+        musicPlays(userId),
+        sql`to_char(${local}, 'YYYY-MM') = ${currentMonth}`,
       ),
     )
-    .groupBy(lh.artistName)
+    .groupBy(artistIdentity())
     .orderBy(sql`count(*) desc`)
     .limit(10);
 
   // Get top artists for previous month
   const prevArtists = await db
     .select({
-      artistName: lh.artistName,
+      artistName: sql<string>`${artistIdentity()}`.as("artistName"),
       playCount: sql<number>`count(*)`.as("playCount"),
       msPlayed: sql<number>`sum(${lh.msPlayed})`.as("msPlayed"),
     })
     .from(lh)
+    .leftJoin(artistAliases, aliasJoin())
     .where(
       and(
-        eq(lh.userId, userId),
-        sql`to_char(${lh.playedAt}, 'YYYY-MM') = ${prevMonth}`,
+        musicPlays(userId),
+        sql`to_char(${local}, 'YYYY-MM') = ${prevMonth}`,
       ),
     )
-    .groupBy(lh.artistName)
+    .groupBy(artistIdentity())
     .orderBy(sql`count(*) desc`)
     .limit(10);
 
@@ -776,14 +1283,16 @@ vault.get("/drift-report", async (c) => {
     .select({
       totalPlays: sql<number>`count(*)`.as("totalPlays"),
       totalMs: sql<number>`sum(${lh.msPlayed})`.as("totalMs"),
-      uniqueArtists: sql<number>`count(distinct ${lh.artistName})`.as("uniqueArtists"),
-      uniqueTracks: sql<number>`count(distinct ${lh.trackSpotifyId})`.as("uniqueTracks"),
+      uniqueArtists: sql<number>`count(distinct ${artistIdentity()})`.as("uniqueArtists"),
+      uniqueTracks: sql<number>`count(distinct ${canonicalTrackId()})`.as("uniqueTracks"),
     })
     .from(lh)
+    .leftJoin(trackMerges, mergeJoin())
+    .leftJoin(artistAliases, aliasJoin())
     .where(
       and(
-        eq(lh.userId, userId),
-        sql`to_char(${lh.playedAt}, 'YYYY-MM') = ${currentMonth}`,
+        musicPlays(userId),
+        sql`to_char(${local}, 'YYYY-MM') = ${currentMonth}`,
       ),
     );
 
@@ -792,14 +1301,16 @@ vault.get("/drift-report", async (c) => {
     .select({
       totalPlays: sql<number>`count(*)`.as("totalPlays"),
       totalMs: sql<number>`sum(${lh.msPlayed})`.as("totalMs"),
-      uniqueArtists: sql<number>`count(distinct ${lh.artistName})`.as("uniqueArtists"),
-      uniqueTracks: sql<number>`count(distinct ${lh.trackSpotifyId})`.as("uniqueTracks"),
+      uniqueArtists: sql<number>`count(distinct ${artistIdentity()})`.as("uniqueArtists"),
+      uniqueTracks: sql<number>`count(distinct ${canonicalTrackId()})`.as("uniqueTracks"),
     })
     .from(lh)
+    .leftJoin(trackMerges, mergeJoin())
+    .leftJoin(artistAliases, aliasJoin())
     .where(
       and(
-        eq(lh.userId, userId),
-        sql`to_char(${lh.playedAt}, 'YYYY-MM') = ${prevMonth}`,
+        musicPlays(userId),
+        sql`to_char(${local}, 'YYYY-MM') = ${prevMonth}`,
       ),
     );
 
@@ -840,13 +1351,13 @@ vault.get("/annual-summary", async (c) => {
     c.req.query("year") || new Date().getFullYear().toString(),
   );
 
-  const yearStart = new Date(`${year}-01-01T00:00:00Z`);
-  const yearEnd = new Date(`${year}-12-31T23:59:59Z`);
+  const yearStart = new Date(Date.UTC(year, 0, 1));
+  const yearEnd = new Date(Date.UTC(year + 1, 0, 1));
   const lh = listeningHistory;
+  const local = localPlayedAt();
   const condition = and(
-    eq(lh.userId, userId),
-    gte(lh.playedAt, yearStart),
-    lte(lh.playedAt, yearEnd),
+    musicPlays(userId),
+    playedBetweenLocal(yearStart, yearEnd),
   );
 
   // Overall stats
@@ -854,70 +1365,75 @@ vault.get("/annual-summary", async (c) => {
     .select({
       totalPlays: sql<number>`count(*)`.mapWith(Number),
       totalMs: sql<number>`coalesce(sum(${lh.msPlayed}), 0)`.mapWith(Number),
-      uniqueTracks: countDistinct(lh.trackSpotifyId).mapWith(Number),
-      uniqueArtists: countDistinct(lh.artistName).mapWith(Number),
+      uniqueTracks: countDistinct(canonicalTrackId()).mapWith(Number),
+      uniqueArtists: countDistinct(artistIdentity()).mapWith(Number),
     })
     .from(lh)
+    .leftJoin(trackMerges, mergeJoin())
+    .leftJoin(artistAliases, aliasJoin())
     .where(condition);
 
   // Top 5 artists
   const topArtists = await db
     .select({
-      artistName: lh.artistName,
+      artistName: artistIdentity(),
       playCount: sql<number>`count(*)`.mapWith(Number),
       msPlayed: sql<number>`coalesce(sum(${lh.msPlayed}), 0)`.mapWith(Number),
     })
     .from(lh)
+    .leftJoin(artistAliases, aliasJoin())
     .where(condition)
-    .groupBy(lh.artistName)
+    .groupBy(artistIdentity())
     .orderBy(sql`count(*) desc`)
     .limit(5);
 
   // Top 5 tracks
   const topTracks = await db
     .select({
-      trackName: lh.trackName,
-      artistName: lh.artistName,
+      trackName: sql<string>`mode() within group (order by ${lh.trackName})`,
+      artistName: sql<string>`mode() within group (order by ${artistIdentity()})`,
       playCount: sql<number>`count(*)`.mapWith(Number),
     })
     .from(lh)
+    .leftJoin(trackMerges, mergeJoin())
+    .leftJoin(artistAliases, aliasJoin())
     .where(condition)
-    .groupBy(lh.trackName, lh.artistName)
+    .groupBy(canonicalTrackId())
     .orderBy(sql`count(*) desc`)
     .limit(5);
 
   // Monthly play counts
   const monthlyPlays = await db
     .select({
-      month: sql<number>`EXTRACT(MONTH FROM ${lh.playedAt})`.mapWith(Number),
+      month: sql<number>`EXTRACT(MONTH FROM ${local})`.mapWith(Number),
       playCount: sql<number>`count(*)`.mapWith(Number),
     })
     .from(lh)
     .where(condition)
-    .groupBy(sql`EXTRACT(MONTH FROM ${lh.playedAt})`)
-    .orderBy(sql`EXTRACT(MONTH FROM ${lh.playedAt})`);
+    .groupBy(sql`EXTRACT(MONTH FROM ${local})`)
+    .orderBy(sql`EXTRACT(MONTH FROM ${local})`);
 
   // Peak hour
   const peakHourRows = await db
     .select({
-      hour: sql<number>`EXTRACT(HOUR FROM ${lh.playedAt})`.mapWith(Number),
+      hour: sql<number>`EXTRACT(HOUR FROM ${local})`.mapWith(Number),
       playCount: sql<number>`count(*)`.mapWith(Number),
     })
     .from(lh)
     .where(condition)
-    .groupBy(sql`EXTRACT(HOUR FROM ${lh.playedAt})`)
+    .groupBy(sql`EXTRACT(HOUR FROM ${local})`)
     .orderBy(sql`count(*) desc`)
     .limit(1);
 
   // Available years (unfiltered by year, scoped to user)
   const years = await db
     .select({
-      year: sql<number>`EXTRACT(YEAR FROM ${lh.playedAt})`.mapWith(Number),
+      year: sql<number>`EXTRACT(YEAR FROM ${local})`.mapWith(Number),
     })
     .from(lh)
-    .where(eq(lh.userId, userId))
-    .groupBy(sql`EXTRACT(YEAR FROM ${lh.playedAt})`)
-    .orderBy(sql`EXTRACT(YEAR FROM ${lh.playedAt}) desc`);
+    .where(musicPlays(userId))
+    .groupBy(sql`EXTRACT(YEAR FROM ${local})`)
+    .orderBy(sql`EXTRACT(YEAR FROM ${local}) desc`);
 
   return c.json({
     data: {
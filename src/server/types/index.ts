@@ -17,6 +17,14 @@ export interface Env {
   // AES encryption of the session cookie payload.
   SESSION_ENCRYPTION_KEY: string;
   ENVIRONMENT: string;
+  // Spotify base URLs used by every SpotifyClient (lib/spotify.ts). Optional;
+  // default to the real Spotify hosts. Point them at a local stand-in to test.
+  SPOTIFY_API_BASE_URL?: string;
+  SPOTIFY_ACCOUNTS_BASE_URL?: string;
+  // Hosts of the audio feature provider (lib/audio-features.ts). Optional;
+  // default to the public MusicBrainz / AcousticBrainz. Point them at a mirror.
+  MUSICBRAINZ_API_BASE_URL?: string;
+  ACOUSTICBRAINZ_API_BASE_URL?: string;
   // New Relic — optional because they are not set in local dev. Configure via
   // Cloudflare dashboard secrets in production.
   NEW_RELIC_LICENSE_KEY?: string;
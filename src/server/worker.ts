@@ -0,0 +1,20 @@
+/**
+ * Standalone Worker entry for continuous scrobbling.
+ *
+ * Cloudflare Pages Functions cannot run cron triggers, so the scheduled
+ * handler is deployed as its own Worker with the same bindings as the Pages
+ * project, e.g.:
+ *
+ *   wrangler deploy src/server/worker.ts --name strata-scrobbler \
+ *     --compatibility-flags nodejs_compat --triggers "0,15,30,45 * * * *"
+ *
+ * The API is served as well, so the Worker can also be used on its own.
+ */
+
+import app, { scheduled } from "./index";
+import type { Env } from "./types";
+
+export default {
+  fetch: app.fetch,
+  scheduled,
+} satisfies ExportedHandler<Env>;
@@ -0,0 +1,44 @@
+/**
+ * Zod validators and types for artist identities (`/api/vault/artists/aliases`).
+ *
+ * Plays carry the artist name as the source wrote it, so one artist can
+ * appear under several names — a romanisation, a rename, a Last.fm
+ * spelling. An alias maps such a name onto the artist's canonical name,
+ * which every artist aggregate groups by.
+ */
+
+import { z } from "zod";
+
+/** "spotify" when resolved through the catalog, "manual" when set by the user. */
+export type ArtistAliasSource = "spotify" | "manual";
+
+/**
+ * Which artists a play counts toward in artist rankings: "primary" is the
+ * artist Streaming History names, "all" adds the track's featured and
+ * collaborating artists from the catalog.
+ */
+export type ArtistCredit = "primary" | "all";
+
+/** Body of POST /api/vault/artists/aliases — merge `artistNames` into `canonicalName`. */
+export const mergeArtistsSchema = z.object({
+  canonicalName: z.string().trim().min(1),
+  artistNames: z.array(z.string().trim().min(1)).min(1).max(50),
+});
+
+export type MergeArtistsInput = z.infer<typeof mergeArtistsSchema>;
+
+/** A name that resolves to another artist, listed by GET /api/vault/artists/aliases. */
+export interface ArtistAlias {
+  artistName: string;
+  canonicalName: string;
+  spotifyArtistId: string | null;
+  source: ArtistAliasSource;
+}
+
+/** Returned by POST /api/vault/artists/resolve. */
+export interface ArtistResolveResult {
+  /** Names matched to a Spotify artist ID through the catalog. */
+  resolved: number;
+  /** Of those, names now counted under a different canonical name. */
+  merged: number;
+}
@@ -0,0 +1,46 @@
+/**
+ * Types for track structure data — tempo, key and energy — stored per
+ * track from an open metadata source (see server lib/audio-features.ts)
+ * and shown in the Vault, on track pages and in Patterns.
+ *
+ * Keys follow the pitch-class convention: 0 is C, 1 is C♯/D♭, up to 11 for B.
+ */
+
+/** Whether a key is major or minor. */
+export type KeyMode = "major" | "minor";
+
+/** Pitch-class names, indexed by key number. */
+export const PITCH_CLASSES = ["C", "C♯", "D", "E♭", "E", "F", "F♯", "G", "A♭", "A", "B♭", "B"] as const;
+
+/** Width of the tempo buckets in GET /api/patterns/tempo. */
+export const TEMPO_BUCKET_BPM = 10;
+
+/**
+ * A track's structure data. Every field is null when the source has no
+ * analysis of the track; `energy` runs from 0 (quiet) to 1 (loud, dense).
+ */
+export interface TrackAudioFeatures {
+  bpm: number | null;
+  key: number | null;
+  mode: KeyMode | null;
+  energy: number | null;
+}
+
+/** "A minor", "E♭ major" — or null when the key is unknown. */
+export function formatKey(key: number | null, mode: KeyMode | null): string | null {
+  if (key === null || !Number.isInteger(key) || key < 0 || key > 11) return null;
+  return mode ? `${PITCH_CLASSES[key]} ${mode}` : PITCH_CLASSES[key];
+}
+
+/** Plays of tracks whose tempo falls in [bpm, bpm + TEMPO_BUCKET_BPM). */
+export interface TempoBucket {
+  bpm: number;
+  playCount: number;
+}
+
+/** Plays of tracks in one key. */
+export interface KeyCount {
+  key: number;
+  mode: KeyMode;
+  playCount: number;
+}
@@ -0,0 +1,36 @@
+/**
+ * Types for genre analytics (`/api/genres`).
+ *
+ * Spotify tags artists, not tracks, with genres, so a play belongs to every
+ * genre of its artist and counts once toward each.
+ */
+
+/** One genre's share of the user's listening, from GET /api/genres. */
+export interface GenreStat {
+  genre: string;
+  playCount: number;
+  totalMsPlayed: number;
+  artistCount: number;
+}
+
+/** Plays of one genre in one local month, from GET /api/genres/trends. */
+export interface GenreMonth {
+  /** "YYYY-MM" */
+  month: string;
+  genre: string;
+  playCount: number;
+}
+
+/** Returned by GET /api/genres/trends. */
+export interface GenreTrends {
+  /** The genres charted, most played first. */
+  genres: string[];
+  months: GenreMonth[];
+}
+
+/** One artist within a genre, from GET /api/genres/:genre/artists. */
+export interface GenreArtist {
+  artistName: string;
+  playCount: number;
+  totalMsPlayed: number;
+}
@@ -1,4 +1,6 @@
 import {
+  isProvisionalTrackId,
+  legacyStreamingHistorySchema,
   streamingHistoryEntrySchema,
   streamingHistorySchema,
 } from "./history";
@@ -181,3 +183,36 @@ describe("streamingHistorySchema", () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe("legacyStreamingHistorySchema", () => {
+  const legacyEntry = {
+    endTime: "2024-01-15 14:30",
+    artistName: "Queen",
+    trackName: "Bohemian Rhapsody",
+    msPlayed: 210000,
+  };
+
+  it("validates an array of Account data entries", () => {
+    const result = legacyStreamingHistorySchema.safeParse([legacyEntry]);
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects an endTime that is not 'YYYY-MM-DD HH:mm'", () => {
+    const result = legacyStreamingHistorySchema.safeParse([
+      { ...legacyEntry, endTime: "2024-01-15T14:30:00Z" },
+    ]);
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects Extended Streaming History entries", () => {
+    const result = legacyStreamingHistorySchema.safeParse([validFullEntry]);
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("isProvisionalTrackId", () => {
+  it("distinguishes provisional IDs from Spotify IDs", () => {
+    expect(isProvisionalTrackId("provisional:0123abcd")).toBe(true);
+    expect(isProvisionalTrackId("7tFiyTwD0nx5a1eklYtX2J")).toBe(false);
+  });
+});
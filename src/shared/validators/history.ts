@@ -6,6 +6,11 @@
  * This schema validates and types the raw JSON so we can safely parse uploads
  * before inserting into the listening_history table.
  *
+ * The quicker "Account data" export (StreamingHistory_music_*.json) uses a
+ * smaller, older row shape without track URIs — see `legacyStreamingHistorySchema`.
+ * Last.fm scrobble exports are normalised by the client into
+ * `lastfmScrobbleSchema` rows before upload.
+ *
  * Field reference: https://support.spotify.com/us/article/understanding-my-data/
  */
 
@@ -43,9 +48,29 @@ export const streamingHistoryEntrySchema = z.object({
   platform: z.string().nullable().optional(),
   /** Whether shuffle mode was on during playback. */
   shuffle: z.boolean().nullable().optional(),
-  /** Whether the stream was played while offline (for future use). */
+  /** Podcast episode title — set (instead of the track fields) for podcast plays. */
+  episode_name: z.string().nullable().optional(),
+  /** Podcast show name. */
+  episode_show_name: z.string().nullable().optional(),
+  /** Spotify episode URI (e.g., "spotify:episode:..."). */
+  spotify_episode_uri: z.string().nullable().optional(),
+  /** Audiobook title — present in newer exports for audiobook plays. */
+  audiobook_title: z.string().nullable().optional(),
+  /** Spotify audiobook URI (e.g., "spotify:show:..."). */
+  audiobook_uri: z.string().nullable().optional(),
+  /** Chapter title within the audiobook. */
+  audiobook_chapter_title: z.string().nullable().optional(),
+  /** Spotify chapter URI (e.g., "spotify:episode:..."). */
+  audiobook_chapter_uri: z.string().nullable().optional(),
+  /** Whether the stream was played while offline. */
   offline: z.boolean().nullable().optional(),
-  /** Country code of the connection at stream time (for future use). */
+  /**
+   * Unix time the offline play was recorded on the device. Older rows give
+   * seconds, newer ones milliseconds, sometimes within one export; 0 or null
+   * for online plays. Normalised on import (see `normalizeOfflineTimestamp`).
+   */
+  offline_timestamp: z.number().nullable().optional(),
+  /** ISO 3166 country code of the connection at stream time ("ZZ" = unknown). */
   conn_country: z.string().nullable().optional(),
 });
 
@@ -55,11 +80,70 @@ export const streamingHistorySchema = z.array(streamingHistoryEntrySchema);
 export type StreamingHistoryEntry = z.infer<typeof streamingHistoryEntrySchema>;
 export type StreamingHistory = z.infer<typeof streamingHistorySchema>;
 
+/**
+ * Schema for a single row in the legacy "Account data" export
+ * (StreamingHistory_music_*.json). Only the past year is included and rows
+ * carry names but no Spotify URI, so imported plays get a provisional track
+ * identity until they are resolved against the Spotify catalog.
+ */
+export const legacyStreamingHistoryEntrySchema = z.object({
+  /** When the stream ended, "YYYY-MM-DD HH:mm" in UTC. */
+  endTime: z.string().regex(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}$/),
+  artistName: z.string(),
+  trackName: z.string(),
+  /** Duration the track was actually played, in milliseconds. */
+  msPlayed: z.number(),
+});
+
+export const legacyStreamingHistorySchema = z.array(legacyStreamingHistoryEntrySchema);
+
+export type LegacyStreamingHistoryEntry = z.infer<typeof legacyStreamingHistoryEntrySchema>;
+
+/**
+ * Schema for a single Last.fm scrobble, as normalised by the client from a
+ * Last.fm CSV or JSON export. Scrobbles carry names and a start time but no
+ * play duration or Spotify URI, so the importer estimates `msPlayed` and
+ * keys the play by a provisional track ID.
+ */
+export const lastfmScrobbleSchema = z.object({
+  /** When the scrobbled track started playing, in Unix seconds (UTC). */
+  uts: z.number().int().nonnegative(),
+  artist: z.string(),
+  track: z.string(),
+  album: z.string().nullable().optional(),
+});
+
+export const lastfmScrobblesSchema = z.array(lastfmScrobbleSchema);
+
+export type LastfmScrobble = z.infer<typeof lastfmScrobbleSchema>;
+
+/**
+ * Prefix of the placeholder `trackSpotifyId` given to plays imported without
+ * a Spotify URI. The rest of the ID is a hash of the artist and track name,
+ * so every play of the same song shares one provisional identity.
+ */
+export const PROVISIONAL_TRACK_PREFIX = "provisional:";
+
+/** Whether a stored track ID is a placeholder rather than a real Spotify ID. */
+export function isProvisionalTrackId(trackId: string): boolean {
+  return trackId.startsWith(PROVISIONAL_TRACK_PREFIX);
+}
+
+/**
+ * Kind of content a play event is. Podcast episodes and audiobook chapters
+ * are kept alongside music but excluded from music stats by default.
+ */
+export type ContentType = "track" | "episode" | "audiobook";
+
+/**
+ * Which plays a stats query covers: music only (the default), spoken word
+ * (podcasts and audiobooks), or everything.
+ */
+export type ContentFilter = "music" | "spoken" | "all";
+
 /** Breakdown of why entries were skipped during import. */
 export interface SkipReasons {
-  /** Plays shorter than 30 seconds (likely skips or accidental plays). */
-  tooShort: number;
-  /** Missing track name (podcasts, local files, etc.). */
+  /** Missing track (or episode / audiobook) name — e.g. local files, video. */
   noTrackName: number;
   /** Missing or invalid Spotify track URI. */
   noSpotifyUri: number;
@@ -73,18 +157,150 @@ export interface ImportResult {
   total: number;
   /** Entries successfully inserted into the database. */
   imported: number;
-  /** Entries skipped (e.g., podcasts, entries with no track URI). */
+  /** Entries skipped (e.g., short plays, entries with no track URI). */
   skipped: number;
-  /** Entries that already existed (deduped by user + track URI + timestamp). */
+  /**
+   * Entries that already existed (deduped by user + track URI + timestamp),
+   * plus Last.fm scrobbles overlapping a Spotify play of the same song.
+   */
   duplicates: number;
   /** Detailed breakdown of skip reasons. */
   skipReasons: SkipReasons;
 }
 
+/**
+ * Returned by POST /api/import/preview — what importing the entries would
+ * do, without writing anything.
+ */
+export interface ImportPreview {
+  /** Total entries found in the uploaded JSON. */
+  total: number;
+  /** Plays that would be inserted. */
+  newPlays: number;
+  /** Entries that would be skipped, broken down in `skipReasons`. */
+  skipped: number;
+  /** Plays already stored (or repeated in the upload), plus scrobbles Spotify covers. */
+  duplicates: number;
+  skipReasons: SkipReasons;
+  /** First play start to last play end of the usable entries; null when there are none. */
+  dateRange: { from: string; to: string } | null;
+  /** Most played artists in the upload, most plays first. */
+  topArtists: { artistName: string; count: number }[];
+  /** Stored plays inside `dateRange`; null when the upload covers new ground. */
+  overlap: { from: string; to: string; existingPlays: number } | null;
+}
+
 /** Returned by GET /api/import/status — lets the client show whether data exists and its time range. */
 export interface ImportStatus {
   hasData: boolean;
   totalTracks: number;
   /** null when the user has no imported data yet. */
   dateRange: { from: string; to: string } | null;
+  /** Distinct tracks still stored under a provisional ID. */
+  unresolvedTracks: number;
+}
+
+/** A month whose coverage drops far below the months around it. */
+export interface CoverageGap {
+  /** "YYYY-MM" in the user's time zone. */
+  month: string;
+  plays: number;
+  /** Median plays of the surrounding months. */
+  expected: number;
+  /** Uploaded files whose plays span this month — the ones that should have covered it. */
+  files: { id: string; fileName: string }[];
+}
+
+/** A stored row no real play could produce. */
+export interface AnomalousPlay {
+  id: number;
+  /** "tooLong": longer than any track runs; "future": played after now. */
+  kind: "tooLong" | "future";
+  trackName: string;
+  artistName: string;
+  playedAt: string;
+  msPlayed: number;
+  /** The upload that inserted it; null for polled plays or rows imported before batches. */
+  fileName: string | null;
+}
+
+/**
+ * Returned by GET /api/import/quality — where the imported history looks
+ * incomplete or wrong, so the user knows when to re-request data from Spotify.
+ */
+export interface ImportQualityReport {
+  /** Months from the first play to the last, including empty ones. */
+  monthsCovered: number;
+  gaps: CoverageGap[];
+  tooLongPlays: number;
+  futurePlays: number;
+  /** Up to 20 of the anomalous rows, newest first. */
+  anomalies: AnomalousPlay[];
+}
+
+/** Returned by POST /api/vault/resolve — one round of provisional ID resolution. */
+export interface ResolveResult {
+  /** Provisional tracks matched to a Spotify track ID in this round. */
+  resolved: number;
+  /** Provisional tracks searched for in this round without a match. */
+  unresolved: number;
+  /** Provisional tracks not yet looked up — call again while this is above 0. */
+  remaining: number;
+}
+
+// ---------------------------------------------------------------------------
+// Import jobs — chunked, resumable uploads of large history files
+// ---------------------------------------------------------------------------
+
+/**
+ * Number of history entries the client sends per chunk. Keeps each request
+ * well under Workers' body limits and bounds the work done per invocation.
+ */
+export const IMPORT_CHUNK_SIZE = 5_000;
+
+/** Body of POST /api/import/jobs — describes the file about to be uploaded. */
+export const importJobCreateSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  /** Size of the source file in bytes — together with the name, identifies a resumable job. */
+  fileSize: z.number().int().nonnegative(),
+  totalChunks: z.number().int().positive(),
+  /** Hex SHA-256 of the file's contents — detects a file that was already imported. */
+  fileHash: z.string().regex(/^[0-9a-f]{64}$/),
+});
+
+export type ImportJobCreate = z.infer<typeof importJobCreateSchema>;
+
+export type ImportJobStatus = "pending" | "running" | "completed" | "failed";
+
+/** Server-side progress of one chunked upload, polled by the Import page. */
+export interface ImportJob {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  totalChunks: number;
+  /** Chunks are processed strictly in order, so this is also the next expected chunk index. */
+  completedChunks: number;
+  status: ImportJobStatus;
+  /** Running totals across all processed chunks. */
+  result: ImportResult;
+  /** Last processing error, if the job failed. */
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * One uploaded file and the plays it inserted, listed by GET
+ * /api/import/batches and rolled back by DELETE /api/import/batches/:id.
+ */
+export interface ImportBatch {
+  id: string;
+  fileName: string;
+  fileHash: string;
+  fileSize: number;
+  /** Totals for the whole file; zero until the upload completes. */
+  result: ImportResult;
+  createdAt: string;
+  /** null while the upload is still in progress. */
+  completedAt: string | null;
 }
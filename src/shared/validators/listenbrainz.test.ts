@@ -0,0 +1,51 @@
+import { submitListensSchema } from "./listenbrainz";
+
+const listen = {
+  listened_at: 1718447400,
+  track_metadata: {
+    artist_name: "Radiohead",
+    track_name: "Airbag",
+    release_name: "OK Computer",
+    additional_info: { duration_ms: 284000, media_player: "Navidrome" },
+  },
+};
+
+describe("submitListensSchema", () => {
+  it("accepts a single listen", () => {
+    const result = submitListensSchema.safeParse({ listen_type: "single", payload: [listen] });
+    expect(result.success).toBe(true);
+  });
+
+  it("accepts an import of many listens", () => {
+    const result = submitListensSchema.safeParse({
+      listen_type: "import",
+      payload: [listen, { ...listen, listened_at: 1718447700 }],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("accepts playing_now without a timestamp", () => {
+    const { listened_at: _, ...nowPlaying } = listen;
+    const result = submitListensSchema.safeParse({ listen_type: "playing_now", payload: [nowPlaying] });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects a single submission with more than one listen", () => {
+    const result = submitListensSchema.safeParse({ listen_type: "single", payload: [listen, listen] });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects listens without listened_at", () => {
+    const { listened_at: _, ...undated } = listen;
+    const result = submitListensSchema.safeParse({ listen_type: "import", payload: [undated] });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects a listen without a track name", () => {
+    const result = submitListensSchema.safeParse({
+      listen_type: "single",
+      payload: [{ listened_at: 1, track_metadata: { artist_name: "Radiohead" } }],
+    });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Zod validators for the ListenBrainz `submit-listens` protocol.
+ *
+ * Self-hosted players (Navidrome, mpd scrobblers, car head units) can submit
+ * plays to Strata by pointing their ListenBrainz integration at
+ * `/api/listenbrainz/1/`. Only the subset of the protocol Strata stores is
+ * validated; unknown fields are stripped.
+ *
+ * Protocol reference: https://listenbrainz.readthedocs.io/en/latest/users/json.html
+ */
+
+import { z } from "zod";
+
+/** Largest payload ListenBrainz itself accepts in one request. */
+export const MAX_LISTENS_PER_REQUEST = 1000;
+
+/** Optional metadata sent by clients alongside the artist and track name. */
+export const listenAdditionalInfoSchema = z.object({
+  /** Track length in milliseconds. */
+  duration_ms: z.number().int().positive().optional(),
+  /** Track length in seconds (older clients). */
+  duration: z.number().positive().optional(),
+  /** Spotify track URL, e.g. "https://open.spotify.com/track/...". */
+  spotify_id: z.string().optional(),
+  /** Player that played the track (e.g., "Navidrome"). */
+  media_player: z.string().optional(),
+  /** Program that submitted the listen (e.g., "mpdscribble"). */
+  submission_client: z.string().optional(),
+});
+
+export const trackMetadataSchema = z.object({
+  artist_name: z.string().min(1),
+  track_name: z.string().min(1),
+  /** Album name. */
+  release_name: z.string().nullable().optional(),
+  additional_info: listenAdditionalInfoSchema.nullable().optional(),
+});
+
+export const listenSchema = z.object({
+  /** When the listen started, in Unix seconds. Absent for "playing_now". */
+  listened_at: z.number().int().nonnegative().optional(),
+  track_metadata: trackMetadataSchema,
+});
+
+/**
+ * Body of POST /1/submit-listens. "single" and "playing_now" carry exactly
+ * one listen; "single" and "import" listens must have a timestamp.
+ */
+export const submitListensSchema = z
+  .object({
+    listen_type: z.enum(["single", "playing_now", "import"]),
+    payload: z.array(listenSchema).min(1).max(MAX_LISTENS_PER_REQUEST),
+  })
+  .superRefine((body, ctx) => {
+    if (body.listen_type !== "import" && body.payload.length !== 1) {
+      ctx.addIssue({
+        code: "custom",
+        message: `${body.listen_type} submissions must contain exactly one listen`,
+        path: ["payload"],
+      });
+    }
+    if (body.listen_type !== "playing_now" && body.payload.some((l) => l.listened_at === undefined)) {
+      ctx.addIssue({
+        code: "custom",
+        message: "listened_at is required",
+        path: ["payload"],
+      });
+    }
+  });
+
+export type Listen = z.infer<typeof listenSchema>;
+export type SubmitListens = z.infer<typeof submitListensSchema>;
+
+/** Returned by GET /api/listenbrainz/token — whether a submission token exists. */
+export interface ListenbrainzTokenStatus {
+  enabled: boolean;
+}
+
+/** Returned once by POST /api/listenbrainz/token — the only time the token is visible. */
+export interface ListenbrainzToken {
+  token: string;
+}
@@ -0,0 +1,59 @@
+import {
+  isValidTimeZone,
+  timeZonePeriodSchema,
+  updateListenThresholdSchema,
+  updateTimeZoneSchema,
+} from "./settings";
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zone names", () => {
+    expect(isValidTimeZone("Asia/Tokyo")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+  });
+
+  it("rejects unknown zones", () => {
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
+
+describe("updateTimeZoneSchema", () => {
+  it("accepts a known zone", () => {
+    expect(updateTimeZoneSchema.safeParse({ timeZone: "Europe/Berlin" }).success).toBe(true);
+  });
+
+  it("rejects an unknown zone", () => {
+    expect(updateTimeZoneSchema.safeParse({ timeZone: "Nowhere" }).success).toBe(false);
+  });
+});
+
+describe("timeZonePeriodSchema", () => {
+  const period = { timeZone: "Europe/Berlin", from: "2019-04-01", to: "2021-08-31" };
+
+  it("accepts a date range", () => {
+    expect(timeZonePeriodSchema.safeParse(period).success).toBe(true);
+  });
+
+  it("accepts a single-day range", () => {
+    expect(timeZonePeriodSchema.safeParse({ ...period, to: period.from }).success).toBe(true);
+  });
+
+  it("rejects a range that ends before it starts", () => {
+    expect(timeZonePeriodSchema.safeParse({ ...period, to: "2019-01-01" }).success).toBe(false);
+  });
+
+  it("rejects dates that are not YYYY-MM-DD", () => {
+    expect(timeZonePeriodSchema.safeParse({ ...period, from: "04/01/2019" }).success).toBe(false);
+  });
+});
+
+describe("updateListenThresholdSchema", () => {
+  it("accepts zero up to ten minutes", () => {
+    expect(updateListenThresholdSchema.safeParse({ minPlayMs: 0 }).success).toBe(true);
+    expect(updateListenThresholdSchema.safeParse({ minPlayMs: 600_000 }).success).toBe(true);
+  });
+
+  it("rejects values out of range", () => {
+    expect(updateListenThresholdSchema.safeParse({ minPlayMs: -1 }).success).toBe(false);
+    expect(updateListenThresholdSchema.safeParse({ minPlayMs: 600_001 }).success).toBe(false);
+  });
+});
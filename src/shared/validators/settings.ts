@@ -0,0 +1,81 @@
+/**
+ * Zod validators for user settings (`/api/settings`).
+ *
+ * Time zones are IANA names ("Asia/Tokyo", "Europe/Berlin"). Day, hour,
+ * and month stats are bucketed in the user's zone; past periods spent in
+ * another zone are entered as inclusive date ranges.
+ *
+ * The listen threshold is the shortest play, in milliseconds, that counts
+ * as a listen. Shorter plays are still stored (for skip analysis) but left
+ * out of Vault, Heatmap, Patterns, and Strata stats.
+ */
+
+import { z } from "zod";
+
+/** True when `timeZone` is an IANA zone the runtime knows. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const timeZoneSchema = z
+  .string()
+  .min(1)
+  .refine(isValidTimeZone, { message: "Unknown time zone" });
+
+/** Body of PUT /api/settings/time-zone. */
+export const updateTimeZoneSchema = z.object({
+  timeZone: timeZoneSchema,
+});
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+/** Body of POST /api/settings/time-zone/history — a past period in another zone. */
+export const timeZonePeriodSchema = z
+  .object({
+    timeZone: timeZoneSchema,
+    /** First day of the period. */
+    from: dateSchema,
+    /** Last day of the period (inclusive). */
+    to: dateSchema,
+  })
+  .refine((period) => period.from <= period.to, {
+    message: "from must not be after to",
+    path: ["to"],
+  });
+
+/** Plays under 30 seconds are likely skips or accidental plays. */
+export const DEFAULT_MIN_PLAY_MS = 30_000;
+
+/** Upper bound for the threshold — ten minutes. */
+export const MAX_MIN_PLAY_MS = 600_000;
+
+/** Body of PUT /api/settings/listen-threshold. */
+export const updateListenThresholdSchema = z.object({
+  minPlayMs: z.number().int().min(0).max(MAX_MIN_PLAY_MS),
+});
+
+/** Returned by GET and PUT /api/settings/listen-threshold. */
+export interface ListenThreshold {
+  minPlayMs: number;
+}
+
+export type TimeZonePeriodInput = z.infer<typeof timeZonePeriodSchema>;
+
+/** A stored time-zone period, as returned by GET /api/settings/time-zone. */
+export interface TimeZonePeriod {
+  id: number;
+  timeZone: string;
+  from: string;
+  to: string;
+}
+
+/** Returned by GET /api/settings/time-zone. */
+export interface TimeZoneSettings {
+  timeZone: string;
+  history: TimeZonePeriod[];
+}
@@ -0,0 +1,52 @@
+/**
+ * Zod validators and types for canonical tracks (`/api/vault/merges`).
+ *
+ * The same song often has several Spotify track IDs — a remaster, a deluxe
+ * edition, a compilation, or an ID Spotify relinked. Merging them maps each
+ * variant onto one canonical track ID, and every per-track stat groups by
+ * that ID instead of the raw one.
+ */
+
+import { z } from "zod";
+
+/**
+ * Why tracks were merged: a shared ISRC (same recording), a matching
+ * normalised title and artist, or the user's own choice.
+ */
+export type MergeReason = "isrc" | "title" | "manual";
+
+/** Body of POST /api/vault/merges — fold `trackIds` into `canonicalId`. */
+export const mergeTracksSchema = z.object({
+  canonicalId: z.string().min(1),
+  trackIds: z.array(z.string().min(1)).min(1).max(50),
+  /** Set when the merge accepts a suggestion; a hand-picked merge is "manual". */
+  reason: z.enum(["isrc", "title", "manual"]).default("manual"),
+});
+
+export type MergeTracksInput = z.infer<typeof mergeTracksSchema>;
+
+/** One Spotify track ID of a canonical track, with the user's plays of it. */
+export interface TrackVariant {
+  trackSpotifyId: string;
+  trackName: string;
+  artistName: string;
+  albumName: string | null;
+  playCount: number;
+  /** Why this variant is merged — null for the canonical ID itself. */
+  reason: MergeReason | null;
+}
+
+/** Returned by GET /api/vault/merges/:trackId — a canonical track and its variants. */
+export interface CanonicalTrack {
+  canonicalId: string;
+  /** The canonical ID first, then merged variants by play count. */
+  variants: TrackVariant[];
+}
+
+/** A group of tracks that look like one song, from GET /api/vault/merges/suggestions. */
+export interface MergeSuggestion {
+  /** Most played variant with a real Spotify ID — the suggested canonical track. */
+  canonicalId: string;
+  reason: Exclude<MergeReason, "manual">;
+  variants: TrackVariant[];
+}
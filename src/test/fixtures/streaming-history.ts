@@ -31,7 +31,7 @@ export const minimalEntry: StreamingHistoryEntry = {
   ms_played: 120000,
 };
 
-/** Entry with ms_played under 30 seconds — should be filtered as "too short". */
+/** Entry with ms_played under 30 seconds — a skip, stored but below the default listen threshold. */
 export const shortPlayEntry: StreamingHistoryEntry = {
   ts: "2024-06-15T10:32:00Z",
   ms_played: 5000,
@@ -106,6 +106,46 @@ export const podcastEntry: StreamingHistoryEntry = {
   shuffle: false,
 };
 
+/** Podcast episode as it appears in real exports — track fields null, episode fields set. */
+export const episodeEntry: StreamingHistoryEntry = {
+  ts: "2024-06-15T13:00:00Z",
+  ms_played: 2400000,
+  master_metadata_track_name: null,
+  master_metadata_album_artist_name: null,
+  master_metadata_album_album_name: null,
+  spotify_track_uri: null,
+  episode_name: "Episode 42: Deep Dive",
+  episode_show_name: "Tech Podcast",
+  spotify_episode_uri: "spotify:episode:5AvwZVawapvyhJUIx71pdJ",
+  reason_start: "clickrow",
+  reason_end: "trackdone",
+  skipped: false,
+  platform: "iOS",
+  shuffle: false,
+};
+
+/** Audiobook chapter from a newer export — track and episode fields null. */
+export const audiobookEntry: StreamingHistoryEntry = {
+  ts: "2024-06-15T14:00:00Z",
+  ms_played: 1500000,
+  master_metadata_track_name: null,
+  master_metadata_album_artist_name: null,
+  master_metadata_album_album_name: null,
+  spotify_track_uri: null,
+  episode_name: null,
+  episode_show_name: null,
+  spotify_episode_uri: null,
+  audiobook_title: "Dune",
+  audiobook_uri: "spotify:show:7iHfbu1YPACw6oZPAFJtqe",
+  audiobook_chapter_title: "Chapter 3",
+  audiobook_chapter_uri: "spotify:episode:3nUbAJQmrMlOZtXqLKvAwA",
+  reason_start: "clickrow",
+  reason_end: "endplay",
+  skipped: false,
+  platform: "Android",
+  shuffle: false,
+};
+
 // ---------------------------------------------------------------------------
 // Batch fixture — 10 varied valid entries
 // ---------------------------------------------------------------------------
@@ -5,6 +5,7 @@
  *   db.select().from().where().groupBy().orderBy().limit().offset()
  *   db.selectDistinct().from().where()
  *   db.insert().values().onConflictDoUpdate().returning()
+ *   db.update().set().where().returning()
  *   db.delete().where()
  *   db.query.users.findFirst()
  */
@@ -33,7 +34,8 @@ export const mockListeningHistoryRow = {
   trackName: "Test Track",
   albumName: "Test Album",
   msPlayed: 180000,
-  playedAt: new Date("2024-06-15T10:30:00Z"),
+  playedAt: new Date("2024-06-15T10:27:00Z"),
+  endedAt: new Date("2024-06-15T10:30:00Z"),
   source: "import",
   reasonStart: "clickrow",
   reasonEnd: "trackdone",
@@ -93,6 +95,23 @@ function createInsertChain<T>(data: T[] = []) {
   return chain;
 }
 
+function createUpdateChain<T>(data: T[] = []) {
+  const chain: Record<string, ReturnType<typeof vi.fn>> & PromiseLike<T[]> = {
+    set: vi.fn(),
+    where: vi.fn(),
+    returning: vi.fn(),
+    then: vi.fn((resolve?: (v: T[]) => unknown) => Promise.resolve(data).then(resolve)),
+  } as never;
+
+  for (const key of Object.keys(chain)) {
+    if (key !== "then") {
+      (chain[key] as ReturnType<typeof vi.fn>).mockReturnValue(chain);
+    }
+  }
+
+  return chain;
+}
+
 function createDeleteChain() {
   const chain: Record<string, ReturnType<typeof vi.fn>> & PromiseLike<void> = {
     where: vi.fn(),
@@ -116,6 +135,7 @@ export interface MockDb {
   select: ReturnType<typeof vi.fn>;
   selectDistinct: ReturnType<typeof vi.fn>;
   insert: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
   delete: ReturnType<typeof vi.fn>;
   query: {
     users: { findFirst: ReturnType<typeof vi.fn> };
@@ -124,6 +144,7 @@ export interface MockDb {
   /** Retrieve the most recently created select chain (for assertions). */
   _lastSelectChain: ReturnType<typeof createSelectChain>;
   _lastInsertChain: ReturnType<typeof createInsertChain>;
+  _lastUpdateChain: ReturnType<typeof createUpdateChain>;
   _lastDeleteChain: ReturnType<typeof createDeleteChain>;
 }
 
@@ -136,10 +157,12 @@ export interface MockDb {
 export function createMockDb(defaults?: {
   selectData?: unknown[];
   insertData?: unknown[];
+  updateData?: unknown[];
   findFirstData?: unknown;
 }): MockDb {
   let lastSelectChain = createSelectChain(defaults?.selectData ?? []);
   let lastInsertChain = createInsertChain(defaults?.insertData ?? []);
+  let lastUpdateChain = createUpdateChain(defaults?.updateData ?? []);
   let lastDeleteChain = createDeleteChain();
 
   const db: MockDb = {
@@ -158,6 +181,11 @@ export function createMockDb(defaults?: {
       db._lastInsertChain = lastInsertChain;
       return lastInsertChain;
     }),
+    update: vi.fn(() => {
+      lastUpdateChain = createUpdateChain(defaults?.updateData ?? []);
+      db._lastUpdateChain = lastUpdateChain;
+      return lastUpdateChain;
+    }),
     delete: vi.fn(() => {
       lastDeleteChain = createDeleteChain();
       db._lastDeleteChain = lastDeleteChain;
@@ -174,6 +202,7 @@ export function createMockDb(defaults?: {
     },
     _lastSelectChain: lastSelectChain,
     _lastInsertChain: lastInsertChain,
+    _lastUpdateChain: lastUpdateChain,
     _lastDeleteChain: lastDeleteChain,
   };
 
@@ -6,57 +6,17 @@
  */
 import { http, HttpResponse } from "msw";
 import { setupServer } from "msw/node";
-
-// ---------------------------------------------------------------------------
-// Response fixtures
-// ---------------------------------------------------------------------------
-
-export const spotifyUserProfile = {
-  id: "spotify_user_1",
-  display_name: "Test User",
-  email: "test@example.com",
-  images: [{ url: "https://example.com/avatar.jpg", width: 300, height: 300 }],
-};
-
-export const spotifyTrack = {
-  id: "track123",
-  name: "Test Track",
-  album: {
-    name: "Test Album",
-    images: [
-      { url: "https://example.com/album-640.jpg", width: 640, height: 640 },
-      { url: "https://example.com/album-300.jpg", width: 300, height: 300 },
-      { url: "https://example.com/album-64.jpg", width: 64, height: 64 },
-    ],
-  },
-  artists: [{ id: "artist123", name: "Test Artist" }],
-};
-
-export const spotifyArtist = {
-  id: "artist123",
-  name: "Test Artist",
-  genres: ["indie rock", "alternative"],
-};
-
-export const spotifySearchResult = {
-  artists: {
-    items: [
-      {
-        id: "artist123",
-        name: "Test Artist",
-        genres: ["indie rock", "alternative"],
-      },
-    ],
-  },
-};
-
-export const spotifyTokenResponse = {
-  access_token: "new_access_token",
-  token_type: "Bearer",
-  expires_in: 3600,
-  refresh_token: "new_refresh_token",
-  scope: "user-read-email user-read-private",
-};
+import {
+  spotifyArtist,
+  spotifyRecentlyPlayed,
+  spotifySearchResult,
+  spotifyTokenResponse,
+  spotifyTrack,
+  spotifyTrackSearchResult,
+  spotifyUserProfile,
+} from "./spotify-fixtures";
+
+export * from "./spotify-fixtures";
 
 // ---------------------------------------------------------------------------
 // Handlers
@@ -78,9 +38,17 @@ export const spotifyHandlers = [
     return HttpResponse.json({ ...spotifyArtist, id: params.id });
   }),
 
-  // Artist search
-  http.get("https://api.spotify.com/v1/search", () => {
-    return HttpResponse.json(spotifySearchResult);
+  // Artist / track search
+  http.get("https://api.spotify.com/v1/search", ({ request }) => {
+    const type = new URL(request.url).searchParams.get("type");
+    return HttpResponse.json(
+      type === "track" ? spotifyTrackSearchResult : spotifySearchResult,
+    );
+  }),
+
+  // Recently played
+  http.get("https://api.spotify.com/v1/me/player/recently-played", () => {
+    return HttpResponse.json(spotifyRecentlyPlayed);
   }),
 
   // Token refresh
@@ -0,0 +1,179 @@
+/**
+ * Spotify emulator — a Hono app standing in for the Spotify Accounts service
+ * and Web API, answering from the fixtures in spotify-fixtures.ts.
+ *
+ * Serves both hosts from one origin, so SPOTIFY_API_BASE_URL and
+ * SPOTIFY_ACCOUNTS_BASE_URL point at the same URL:
+ *   GET  /authorize                      - Approve at once and redirect back with a code
+ *   POST /api/token                      - authorization_code and refresh_token grants
+ *   GET  /v1/me                          - Profile
+ *   GET  /v1/tracks?ids=                 - Batch tracks (null for unknown IDs)
+ *   GET  /v1/tracks/:id                  - Track
+ *   GET  /v1/artists/:id                 - Artist
+ *   GET  /v1/search?q=&type=             - Artist / track search
+ *   GET  /v1/me/player/recently-played   - Recently played, honouring after / limit
+ *
+ * Any client ID, secret, code or refresh token is accepted, and any bearer
+ * token is valid, so sessions survive an emulator restart. `npm run dev`
+ * mounts it at /__spotify when SPOTIFY_EMULATOR is set (see vite.config.ts);
+ * tests call `createSpotifyEmulator().request(...)` directly.
+ */
+import { Hono, type Context } from "hono";
+import {
+  spotifyArtists,
+  spotifyRecentlyPlayed,
+  spotifyTracks,
+  spotifyUserProfile,
+} from "./spotify-fixtures";
+
+/** Access tokens the emulator issues live this long, like Spotify's. */
+const TOKEN_EXPIRES_IN_SEC = 3600;
+
+const SCOPES = [
+  "user-read-email",
+  "user-read-private",
+  "user-read-recently-played",
+  "user-top-read",
+  "playlist-read-private",
+].join(" ");
+
+/** Web API error body, as Spotify shapes it. */
+function apiError(c: Context, status: 400 | 401 | 404, message: string) {
+  return c.json({ error: { status, message } }, status);
+}
+
+/** Parse `artist:Foo track:Bar` search syntax; bare words go under `name`. */
+function parseQuery(q: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const bare = q.replace(/(\w+):(.*?)(?=\s+\w+:|$)/g, (_, field: string, value: string) => {
+    fields[field.toLowerCase()] = value.trim().toLowerCase();
+    return "";
+  });
+  if (bare.trim()) fields.name = bare.trim().toLowerCase();
+  return fields;
+}
+
+export function createSpotifyEmulator() {
+  const app = new Hono();
+
+  // ---------------------------------------------------------------------------
+  // Accounts
+  // ---------------------------------------------------------------------------
+
+  app.get("/authorize", (c) => {
+    const redirectUri = c.req.query("redirect_uri");
+    if (!c.req.query("client_id") || !redirectUri || c.req.query("response_type") !== "code") {
+      return c.text("INVALID_CLIENT: client_id, redirect_uri and response_type=code are required", 400);
+    }
+
+    // No consent screen — the emulated user always approves
+    const url = new URL(redirectUri);
+    url.searchParams.set("code", `emulator-code-${crypto.randomUUID()}`);
+    const state = c.req.query("state");
+    if (state) url.searchParams.set("state", state);
+    return c.redirect(url.toString());
+  });
+
+  app.post("/api/token", async (c) => {
+    const body = await c.req.parseBody();
+    const issue = (refreshToken?: string) =>
+      c.json({
+        access_token: `emulator-access-${crypto.randomUUID()}`,
+        token_type: "Bearer",
+        expires_in: TOKEN_EXPIRES_IN_SEC,
+        scope: SCOPES,
+        ...(refreshToken ? { refresh_token: refreshToken } : {}),
+      });
+
+    if (body.grant_type === "authorization_code" && body.code) {
+      return issue(`emulator-refresh-${crypto.randomUUID()}`);
+    }
+    // Spotify keeps the refresh token unless it rotates it; the emulator never does
+    if (body.grant_type === "refresh_token" && body.refresh_token) {
+      return issue();
+    }
+    return c.json({ error: "invalid_grant", error_description: "Invalid grant" }, 400);
+  });
+
+  // ---------------------------------------------------------------------------
+  // Web API
+  // ---------------------------------------------------------------------------
+
+  app.use("/v1/*", async (c, next) => {
+    const token = c.req.header("Authorization")?.match(/^Bearer (.+)$/)?.[1];
+    if (!token) return apiError(c, 401, "No token provided");
+    await next();
+  });
+
+  app.get("/v1/me", (c) => c.json(spotifyUserProfile));
+
+  app.get("/v1/tracks", (c) => {
+    const ids = c.req.query("ids")?.split(",").filter(Boolean) ?? [];
+    if (ids.length === 0) return apiError(c, 400, "invalid id");
+    if (ids.length > 50) return apiError(c, 400, "Too many ids requested");
+    return c.json({ tracks: ids.map((id) => spotifyTracks.find((t) => t.id === id) ?? null) });
+  });
+
+  app.get("/v1/tracks/:id", (c) => {
+    const track = spotifyTracks.find((t) => t.id === c.req.param("id"));
+    return track ? c.json(track) : apiError(c, 404, "Non existing id");
+  });
+
+  app.get("/v1/artists/:id", (c) => {
+    const artist = spotifyArtists.find((a) => a.id === c.req.param("id"));
+    return artist ? c.json(artist) : apiError(c, 404, "Non existing id");
+  });
+
+  app.get("/v1/search", (c) => {
+    const q = c.req.query("q");
+    const type = c.req.query("type");
+    if (!q || (type !== "artist" && type !== "track")) {
+      return apiError(c, 400, "q and a type of artist or track are required");
+    }
+    const limit = Math.min(Number(c.req.query("limit") ?? 20) || 20, 50);
+    const fields = parseQuery(q);
+    const matches = (value: string, wanted?: string) => !wanted || value.toLowerCase().includes(wanted);
+
+    if (type === "artist") {
+      const items = spotifyArtists.filter(
+        (a) => matches(a.name, fields.artist) && matches(a.name, fields.name),
+      );
+      return c.json({ artists: { items: items.slice(0, limit) } });
+    }
+    const items = spotifyTracks.filter(
+      (t) =>
+        matches(t.name, fields.track) &&
+        matches(t.name, fields.name) &&
+        (!fields.artist || t.artists.some((a) => matches(a.name, fields.artist))),
+    );
+    return c.json({ tracks: { items: items.slice(0, limit) } });
+  });
+
+  app.get("/v1/me/player/recently-played", (c) => {
+    const after = Number(c.req.query("after") ?? 0);
+    const limit = Math.min(Number(c.req.query("limit") ?? 20) || 20, 50);
+    const items = spotifyRecentlyPlayed.items
+      .filter((item) => Date.parse(item.played_at) > after)
+      .sort((a, b) => Date.parse(b.played_at) - Date.parse(a.played_at))
+      .slice(0, limit);
+
+    const cursors =
+      items.length > 0
+        ? {
+            after: String(Date.parse(items[0].played_at)),
+            before: String(Date.parse(items[items.length - 1].played_at)),
+          }
+        : null;
+    return c.json({ items, cursors });
+  });
+
+  return app;
+}
+
+const emulator = createSpotifyEmulator();
+
+/** Mounted under /__spotify, as the dev server serves it beside the app. */
+export const devApp = new Hono().route("/__spotify", emulator);
+
+/** At the root, for running the emulator on its own as a Worker. */
+export default emulator;
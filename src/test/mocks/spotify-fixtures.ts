@@ -0,0 +1,119 @@
+/**
+ * Spotify response fixtures, shared by the MSW handlers in spotify-api.ts and
+ * the Spotify emulator in spotify-emulator.ts.
+ *
+ * Shapes follow the Spotify Web API; only the fields Strata reads are filled in.
+ */
+
+// ---------------------------------------------------------------------------
+// Response fixtures
+// ---------------------------------------------------------------------------
+
+export const spotifyUserProfile = {
+  id: "spotify_user_1",
+  display_name: "Test User",
+  email: "test@example.com",
+  images: [{ url: "https://example.com/avatar.jpg", width: 300, height: 300 }],
+};
+
+export const spotifyTrack = {
+  id: "track123",
+  name: "Test Track",
+  duration_ms: 215000,
+  external_ids: { isrc: "USRC17607839" },
+  album: {
+    id: "album123",
+    name: "Test Album",
+    release_date: "2019-05-17",
+    images: [
+      { url: "https://example.com/album-640.jpg", width: 640, height: 640 },
+      { url: "https://example.com/album-300.jpg", width: 300, height: 300 },
+      { url: "https://example.com/album-64.jpg", width: 64, height: 64 },
+    ],
+  },
+  artists: [{ id: "artist123", name: "Test Artist" }],
+};
+
+export const spotifyArtist = {
+  id: "artist123",
+  name: "Test Artist",
+  genres: ["indie rock", "alternative"],
+};
+
+export const spotifySearchResult = {
+  artists: {
+    items: [
+      {
+        id: "artist123",
+        name: "Test Artist",
+        genres: ["indie rock", "alternative"],
+      },
+    ],
+  },
+};
+
+export const spotifyTrackSearchResult = {
+  tracks: {
+    items: [
+      {
+        id: "track123",
+        name: "Test Track",
+        artists: [{ id: "artist123", name: "Test Artist" }],
+      },
+    ],
+  },
+};
+
+export const spotifyRecentlyPlayed = {
+  items: [
+    {
+      track: {
+        id: "track456",
+        name: "Second Track",
+        duration_ms: 200000,
+        artists: [{ id: "artist123", name: "Test Artist" }],
+        album: { name: "Test Album" },
+      },
+      played_at: "2024-06-15T11:00:00.000Z",
+    },
+    {
+      track: {
+        id: "track123",
+        name: "Test Track",
+        duration_ms: 180000,
+        artists: [{ id: "artist123", name: "Test Artist" }],
+        album: { name: "Test Album" },
+      },
+      played_at: "2024-06-15T10:30:00.000Z",
+    },
+  ],
+  cursors: { after: "1718449200000", before: "1718447400000" },
+};
+
+export const spotifyTokenResponse = {
+  access_token: "new_access_token",
+  token_type: "Bearer",
+  expires_in: 3600,
+  refresh_token: "new_refresh_token",
+  scope: "user-read-email user-read-private",
+};
+
+// ---------------------------------------------------------------------------
+// Emulator catalog — every track and artist GET /v1/tracks, /v1/artists and
+// /v1/search can return. IDs outside it are answered as Spotify answers
+// unknown IDs.
+// ---------------------------------------------------------------------------
+
+export const spotifyTracks = [
+  spotifyTrack,
+  {
+    id: "track456",
+    name: "Second Track",
+    duration_ms: 200000,
+    external_ids: { isrc: "USRC17607840" },
+    album: spotifyTrack.album,
+    artists: [{ id: "artist123", name: "Test Artist" }],
+  },
+];
+
+export const spotifyArtists = [spotifyArtist];
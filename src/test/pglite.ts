@@ -0,0 +1,27 @@
+/**
+ * In-process Postgres for tests that need queries to run, not just render.
+ *
+ * The mock DB in ./mocks/db.ts never parses SQL, so a query Postgres would
+ * reject still passes there. `createTestDb` boots PGlite (Postgres compiled to
+ * WASM), applies every migration in drizzle/, and returns a Drizzle client
+ * that route handlers can use in place of `createDb`.
+ *
+ * Booting and migrating takes a few seconds — create one per test file in
+ * `beforeAll` and reset tables between tests if needed.
+ */
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "../server/db/schema";
+import type { Database } from "../server/db";
+
+/** Enough for PGlite to boot and apply the migrations on a slow machine. */
+export const TEST_DB_TIMEOUT_MS = 60_000;
+
+export async function createTestDb(): Promise<Database> {
+  const db = drizzle({ client: new PGlite(), schema });
+  await migrate(db, { migrationsFolder: path.resolve(__dirname, "../../drizzle") });
+  // Same query builder as the neon-http client; only the driver differs
+  return db as unknown as Database;
+}
@@ -9,6 +9,11 @@
  *
  * During development, @hono/vite-dev-server serves both the SPA and the API
  * on a single port (5173), so no CORS configuration is needed.
+ *
+ * With SPOTIFY_EMULATOR set (e.g. `SPOTIFY_EMULATOR=1 npm run dev`), the dev
+ * server also mounts the Spotify emulator from src/test/mocks at /__spotify
+ * and points the API's Spotify base URLs at it, so Strata runs without
+ * Spotify credentials or network access.
  */
 
 import pages from "@hono/vite-cloudflare-pages";
@@ -16,7 +21,11 @@ import devServer from "@hono/vite-dev-server";
 import adapter from "@hono/vite-dev-server/cloudflare";
 import tailwindcss from "@tailwindcss/vite";
 import react from "@vitejs/plugin-react";
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
+
+// Dev server port, fixed so the emulator URL handed to the API is stable
+const DEV_PORT = 5173;
+const SPOTIFY_EMULATOR_PATH = "/__spotify";
 
 export default defineConfig(({ mode }) => {
   // --- Client-only build (mode === "client") ---
@@ -44,6 +53,9 @@ export default defineConfig(({ mode }) => {
   }
 
   // --- Server build (default mode) + dev server ---
+  const emulated = Boolean(loadEnv(mode, process.cwd(), "").SPOTIFY_EMULATOR);
+  const emulatorUrl = `http://127.0.0.1:${DEV_PORT}${SPOTIFY_EMULATOR_PATH}`;
+
   return {
     plugins: [
       react(),
@@ -59,11 +71,38 @@ export default defineConfig(({ mode }) => {
       // Workers-compatible adapter. All other routes fall through to the SPA.
       devServer({
         entry: "src/server/index.ts",
-        adapter,
+        // The emulator's URLs override any real Spotify hosts; the credentials
+        // are placeholders it accepts, used only when none are configured
+        adapter: emulated
+          ? async () => {
+              const proxy = await adapter();
+              return {
+                ...proxy,
+                env: {
+                  SPOTIFY_CLIENT_ID: "emulator",
+                  SPOTIFY_CLIENT_SECRET: "emulator",
+                  ...proxy.env,
+                  SPOTIFY_API_BASE_URL: emulatorUrl,
+                  SPOTIFY_ACCOUNTS_BASE_URL: emulatorUrl,
+                },
+              };
+            }
+          : adapter,
         exclude: [
           /^\/(?!api\/).*/, // Only intercept /api/* paths; let Vite handle everything else
         ],
       }),
+      // Dev-only, with SPOTIFY_EMULATOR: serves the Spotify emulator under /__spotify
+      ...(emulated
+        ? [
+            devServer({
+              entry: "src/test/mocks/spotify-emulator.ts",
+              export: "devApp",
+              injectClientScript: false,
+              exclude: [new RegExp(`^(?!${SPOTIFY_EMULATOR_PATH}/)`)],
+            }),
+          ]
+        : []),
     ],
     resolve: {
       alias: {
@@ -75,6 +114,8 @@ export default defineConfig(({ mode }) => {
     },
     server: {
       host: "127.0.0.1", // Bind to IPv4 loopback to avoid IPv6 issues on some systems
+      port: DEV_PORT,
+      strictPort: emulated, // The API reaches the emulator on DEV_PORT, so don't drift off it
     },
     ssr: {
       // Keep React out of the SSR bundle — they're resolved at runtime from